@@ -1,4 +1,4 @@
-import { wrapLanguageModel, customProvider, extractReasoningMiddleware, gateway } from 'ai';
+import { wrapLanguageModel, customProvider, extractReasoningMiddleware, gateway, type JSONValue } from 'ai';
 
 import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
 import { openai } from '@ai-sdk/openai';
@@ -8,6 +8,16 @@ import { mistral } from '@ai-sdk/mistral';
 import { google } from '@ai-sdk/google';
 import { anthropic } from '@ai-sdk/anthropic';
 import { cohere } from '@ai-sdk/cohere';
+import { createRetryable } from 'ai-retry';
+import { DOCUMENT_ACCEPT } from '@/lib/documents';
+
+import type { GatewayProviderOptions } from '@ai-sdk/gateway';
+import type { OpenAIResponsesProviderOptions } from '@ai-sdk/openai';
+import type { GroqProviderOptions } from '@ai-sdk/groq';
+import type { XaiProviderOptions } from '@ai-sdk/xai';
+import type { CohereChatModelOptions } from '@ai-sdk/cohere';
+import type { AnthropicProviderOptions } from '@ai-sdk/anthropic';
+import type { GoogleGenerativeAIProviderOptions } from '@ai-sdk/google';
 
 const middleware = extractReasoningMiddleware({
   tagName: 'think',
@@ -238,6 +248,10 @@ export const rovo = customProvider({
     'rovo-anthropic-opus-think': anthropic('claude-opus-4-5'),
     'rovo-nova-2-lite': gateway('amazon/nova-2-lite'),
   },
+  embeddingModels: {
+    // 1536 dimensions, matching the attachment_chunk.embedding column
+    'rovo-embedding': openai.embedding('text-embedding-3-small'),
+  },
 });
 
 interface ModelParameters {
@@ -250,6 +264,19 @@ interface ModelParameters {
   maxOutputTokens?: number;
 }
 
+// Per-provider options passed to streamText; only the bucket matching the model's provider is read
+type ModelProviderOptions = {
+  gateway?: GatewayProviderOptions;
+  openai?: OpenAIResponsesProviderOptions;
+  deepseek?: { parallelToolCalls?: boolean };
+  groq?: GroqProviderOptions;
+  xai?: XaiProviderOptions;
+  cohere?: CohereChatModelOptions;
+  anthropic?: AnthropicProviderOptions;
+  google?: GoogleGenerativeAIProviderOptions;
+  openrouter?: { reasoning?: { exclude?: boolean; max_tokens?: number } };
+};
+
 interface Model {
   value: string;
   label: string;
@@ -267,6 +294,65 @@ interface Model {
   fast?: boolean;
   isNew?: boolean;
   parameters?: ModelParameters;
+  // Merged over defaultProviderOptions when the model is called
+  providerOptions?: ModelProviderOptions;
+  headers?: Record<string, string>;
+  // Send maxOutputTokens to the provider instead of relying on its default
+  enforceMaxOutputTokens?: boolean;
+  // Tools the model cannot handle, removed from the active tool set
+  disabledTools?: string[];
+  // Models tried in order when this model's provider fails (outage, rate limit, region block)
+  fallbacks?: string[];
+}
+
+// Options shared by every request, regardless of model
+const defaultProviderOptions: ModelProviderOptions = {
+  gateway: {
+    only: [
+      'openai',
+      'google',
+      'zai',
+      'arcee-ai',
+      'deepseek',
+      'alibaba',
+      'baseten',
+      'minimax',
+      'fireworks',
+      'bedrock',
+      'vercel',
+    ],
+  },
+  openai: {
+    parallelToolCalls: false,
+  },
+  deepseek: {
+    parallelToolCalls: false,
+  },
+  groq: {
+    parallelToolCalls: false,
+    structuredOutputs: true,
+    serviceTier: 'auto',
+  },
+  xai: {
+    parallel_function_calling: false,
+  },
+  anthropic: {
+    disableParallelToolUse: true,
+  },
+  google: {
+    threshold: 'OFF',
+  },
+};
+
+// Base Responses API options for OpenAI models
+function openaiResponsesOptions(options: OpenAIResponsesProviderOptions): OpenAIResponsesProviderOptions {
+  return {
+    parallelToolCalls: false,
+    reasoningSummary: 'detailed',
+    promptCacheKey: 'rovo-oai',
+    store: false,
+    ...options,
+  };
 }
 
 export const models: Model[] = [
@@ -329,6 +415,8 @@ export const models: Model[] = [
     extreme: true,
     fast: true,
     isNew: true,
+    enforceMaxOutputTokens: true,
+    fallbacks: ['rovo-qwen-32b'],
   },
   {
     value: 'rovo-grok4.1-fast-thinking',
@@ -346,6 +434,8 @@ export const models: Model[] = [
     extreme: true,
     fast: true,
     isNew: true,
+    enforceMaxOutputTokens: true,
+    fallbacks: ['rovo-qwen-32b-thinking'],
   },
   {
     value: 'rovo-grok-4-fast',
@@ -419,6 +509,11 @@ export const models: Model[] = [
       topK: 20,
       minP: 0,
     },
+    providerOptions: {
+      groq: {
+        reasoningEffort: 'none',
+      },
+    },
   },
   {
     value: 'rovo-qwen-32b-thinking',
@@ -495,6 +590,12 @@ export const models: Model[] = [
     freeUnlimited: false,
     maxOutputTokens: 16000,
     fast: true,
+    providerOptions: {
+      groq: {
+        reasoningEffort: 'high',
+        reasoningFormat: 'hidden',
+      },
+    },
   },
   {
     value: 'rovo-gpt5-nano',
@@ -511,6 +612,14 @@ export const models: Model[] = [
     maxOutputTokens: 16000,
     extreme: true,
     fast: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'minimal',
+        include: ['reasoning.encrypted_content'],
+        textVerbosity: 'high',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-google-lite',
@@ -698,6 +807,12 @@ export const models: Model[] = [
     freeUnlimited: false,
     maxOutputTokens: 16000,
     fast: true,
+    providerOptions: {
+      groq: {
+        reasoningEffort: 'high',
+        reasoningFormat: 'hidden',
+      },
+    },
   },
   {
     value: 'rovo-gpt-4.1-nano',
@@ -714,6 +829,13 @@ export const models: Model[] = [
     maxOutputTokens: 16000,
     extreme: true,
     fast: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        textVerbosity: 'medium',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt-4.1-mini',
@@ -730,6 +852,13 @@ export const models: Model[] = [
     fast: true,
     extreme: true,
     experimental: false,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        textVerbosity: 'medium',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt-4.1',
@@ -747,6 +876,13 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        textVerbosity: 'medium',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt-5.1',
@@ -764,6 +900,15 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'none',
+        promptCacheRetention: '24h',
+        include: ['reasoning.encrypted_content'],
+        textVerbosity: 'high',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt-5.1-thinking',
@@ -781,6 +926,14 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        include: ['reasoning.encrypted_content'],
+        textVerbosity: 'high',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt-5.2',
@@ -798,6 +951,15 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'none',
+        promptCacheRetention: '24h',
+        include: ['reasoning.encrypted_content'],
+        textVerbosity: 'high',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt-5.2-thinking',
@@ -815,6 +977,15 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        promptCacheRetention: '24h',
+        include: ['reasoning.encrypted_content'],
+        textVerbosity: 'high',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt5-mini',
@@ -832,6 +1003,14 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'minimal',
+        include: ['reasoning.encrypted_content'],
+        textVerbosity: 'high',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt5',
@@ -849,6 +1028,15 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'minimal',
+        promptCacheRetention: '24h',
+        include: ['reasoning.encrypted_content'],
+        textVerbosity: 'high',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-o4-mini',
@@ -865,6 +1053,13 @@ export const models: Model[] = [
     maxOutputTokens: 16000,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        textVerbosity: 'medium',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-o3',
@@ -881,6 +1076,13 @@ export const models: Model[] = [
     maxOutputTokens: 16000,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        textVerbosity: 'medium',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt5-medium',
@@ -898,6 +1100,13 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        textVerbosity: 'high',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt-5.1-codex',
@@ -915,6 +1124,15 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        promptCacheRetention: '24h',
+        include: ['reasoning.encrypted_content'],
+        textVerbosity: 'medium',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt-5.1-codex-mini',
@@ -932,6 +1150,15 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        promptCacheRetention: '24h',
+        include: ['reasoning.encrypted_content'],
+        textVerbosity: 'medium',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt-5.1-codex-max',
@@ -949,6 +1176,15 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        promptCacheRetention: '24h',
+        include: ['reasoning.encrypted_content'],
+        textVerbosity: 'medium',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gpt5-codex',
@@ -966,6 +1202,15 @@ export const models: Model[] = [
     extreme: true,
     fast: false,
     isNew: true,
+    providerOptions: {
+      openai: openaiResponsesOptions({
+        reasoningEffort: 'medium',
+        promptCacheRetention: '24h',
+        include: ['reasoning.encrypted_content'],
+        textVerbosity: 'medium',
+      }),
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-cmd-a',
@@ -996,6 +1241,14 @@ export const models: Model[] = [
     freeUnlimited: false,
     maxOutputTokens: 16000,
     isNew: true,
+    providerOptions: {
+      cohere: {
+        thinking: {
+          type: 'enabled',
+          tokenBudget: 1000,
+        },
+      },
+    },
   },
   {
     value: 'rovo-kat-coder',
@@ -1032,6 +1285,11 @@ export const models: Model[] = [
       topK: 20,
       minP: 0,
     },
+    providerOptions: {
+      gateway: {
+        order: ['baseten'],
+      },
+    },
   },
   {
     value: 'rovo-deepseek-v3.1-terminus',
@@ -1184,6 +1442,15 @@ export const models: Model[] = [
     freeUnlimited: false,
     maxOutputTokens: 130000,
     fast: true,
+    providerOptions: {
+      gateway: {
+        order: ['baseten'],
+      },
+      // The only model left to the provider's parallel tool call default
+      openai: {
+        parallelToolCalls: undefined,
+      },
+    },
   },
   {
     value: 'rovo-qwen-coder-plus',
@@ -1199,6 +1466,7 @@ export const models: Model[] = [
     freeUnlimited: false,
     maxOutputTokens: 130000,
     fast: false,
+    disabledTools: ['code_interpreter'],
   },
   {
     value: 'rovo-qwen-3-vl-30b',
@@ -1332,6 +1600,11 @@ export const models: Model[] = [
       topP: 0.8,
       minP: 0,
     },
+    providerOptions: {
+      gateway: {
+        order: ['baseten'],
+      },
+    },
   },
   {
     value: 'rovo-qwen-235-think',
@@ -1409,6 +1682,11 @@ export const models: Model[] = [
     parameters: {
       temperature: 0.6,
     },
+    providerOptions: {
+      gateway: {
+        order: ['baseten', 'fireworks'],
+      },
+    },
   },
   {
     value: 'rovo-kimi-k2-v2-thinking',
@@ -1428,6 +1706,11 @@ export const models: Model[] = [
       temperature: 1,
     },
     isNew: true,
+    providerOptions: {
+      gateway: {
+        order: ['baseten', 'fireworks'],
+      },
+    },
   },
   // sherlock experimental models
 
@@ -1529,6 +1812,7 @@ export const models: Model[] = [
       temperature: 0.6,
       topP: 0.95,
     },
+    enforceMaxOutputTokens: true,
   },
   {
     value: 'rovo-glm-4.6v-flash',
@@ -1551,6 +1835,7 @@ export const models: Model[] = [
       topK: 2,
       frequencyPenalty: 1.1,
     },
+    enforceMaxOutputTokens: true,
   },
   {
     value: 'rovo-glm-4.6v',
@@ -1572,6 +1857,7 @@ export const models: Model[] = [
       topK: 2,
       frequencyPenalty: 1.1,
     },
+    enforceMaxOutputTokens: true,
   },
   {
     value: 'rovo-glm-4.7',
@@ -1644,6 +1930,7 @@ export const models: Model[] = [
     extreme: true,
     maxOutputTokens: 10000,
     isNew: true,
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-google-think',
@@ -1660,6 +1947,15 @@ export const models: Model[] = [
     extreme: true,
     maxOutputTokens: 10000,
     isNew: true,
+    providerOptions: {
+      google: {
+        thinkingConfig: {
+          thinkingBudget: 400,
+          includeThoughts: true,
+        },
+      },
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-google-pro',
@@ -1676,6 +1972,7 @@ export const models: Model[] = [
     extreme: true,
     maxOutputTokens: 10000,
     isNew: true,
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-google-pro-think',
@@ -1692,6 +1989,15 @@ export const models: Model[] = [
     extreme: true,
     maxOutputTokens: 10000,
     isNew: true,
+    providerOptions: {
+      google: {
+        thinkingConfig: {
+          thinkingBudget: 400,
+          includeThoughts: true,
+        },
+      },
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gemini-3-flash',
@@ -1708,6 +2014,7 @@ export const models: Model[] = [
     extreme: true,
     maxOutputTokens: 10000,
     isNew: true,
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gemini-3-flash-think',
@@ -1724,6 +2031,15 @@ export const models: Model[] = [
     extreme: true,
     maxOutputTokens: 10000,
     isNew: true,
+    providerOptions: {
+      google: {
+        thinkingConfig: {
+          thinkingLevel: 'medium',
+          includeThoughts: true,
+        },
+      },
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-gemini-3-pro',
@@ -1740,6 +2056,15 @@ export const models: Model[] = [
     extreme: true,
     maxOutputTokens: 10000,
     isNew: true,
+    providerOptions: {
+      google: {
+        thinkingConfig: {
+          thinkingLevel: 'low',
+          includeThoughts: true,
+        },
+      },
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-anthropic-small',
@@ -1755,6 +2080,7 @@ export const models: Model[] = [
     freeUnlimited: false,
     maxOutputTokens: 8000,
     isNew: true,
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-anthropic',
@@ -1770,6 +2096,10 @@ export const models: Model[] = [
     freeUnlimited: false,
     maxOutputTokens: 8000,
     isNew: false,
+    headers: {
+      'anthropic-beta': 'context-1m-2025-08-07',
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-anthropic-think',
@@ -1785,6 +2115,25 @@ export const models: Model[] = [
     freeUnlimited: false,
     maxOutputTokens: 8000,
     isNew: false,
+    providerOptions: {
+      anthropic: {
+        sendReasoning: true,
+        thinking: {
+          type: 'enabled',
+          budgetTokens: 4000,
+        },
+      },
+      openrouter: {
+        reasoning: {
+          exclude: false,
+          max_tokens: 400,
+        },
+      },
+    },
+    headers: {
+      'anthropic-beta': 'context-1m-2025-08-07',
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-anthropic-opus',
@@ -1800,6 +2149,7 @@ export const models: Model[] = [
     freeUnlimited: false,
     maxOutputTokens: 8000,
     isNew: true,
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-anthropic-opus-think',
@@ -1815,6 +2165,22 @@ export const models: Model[] = [
     freeUnlimited: false,
     maxOutputTokens: 8000,
     isNew: true,
+    providerOptions: {
+      anthropic: {
+        sendReasoning: true,
+        thinking: {
+          type: 'enabled',
+          budgetTokens: 4000,
+        },
+      },
+      openrouter: {
+        reasoning: {
+          exclude: false,
+          max_tokens: 400,
+        },
+      },
+    },
+    fallbacks: ['rovo-default'],
   },
   {
     value: 'rovo-mimo-v2-flash',
@@ -1845,6 +2211,11 @@ export const models: Model[] = [
     freeUnlimited: false,
     maxOutputTokens: 16000,
     isNew: true,
+    providerOptions: {
+      gateway: {
+        order: ['bedrock'],
+      },
+    },
   },
   {
     value: 'rovo-v0-10',
@@ -1878,6 +2249,117 @@ export const models: Model[] = [
   },
 ];
 
+// USD per 1M tokens, used for usage accounting; models missing here are recorded at zero cost
+interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export const modelPricing: Record<string, ModelPricing> = {
+  'rovo-grok-3-mini': { input: 0.3, output: 0.5 },
+  'rovo-grok-3': { input: 3, output: 15 },
+  'rovo-grok-4': { input: 3, output: 15 },
+  'rovo-default': { input: 0.2, output: 0.5 },
+  'rovo-grok4.1-fast-thinking': { input: 0.2, output: 0.5 },
+  'rovo-grok-4-fast': { input: 0.2, output: 0.5 },
+  'rovo-grok-4-fast-think': { input: 0.2, output: 0.5 },
+  'rovo-code': { input: 0.2, output: 1.5 },
+  'rovo-qwen-32b': { input: 0.29, output: 0.59 },
+  'rovo-qwen-32b-thinking': { input: 0.29, output: 0.59 },
+  'rovo-gpt-oss-20': { input: 0.075, output: 0.3 },
+  'rovo-gpt5-nano': { input: 0.05, output: 0.4 },
+  'rovo-google-lite': { input: 0.1, output: 0.4 },
+  'rovo-ministral-3b': { input: 0.1, output: 0.1 },
+  'rovo-ministral-8b': { input: 0.15, output: 0.15 },
+  'rovo-ministral-14b': { input: 0.2, output: 0.2 },
+  'rovo-devstral': { input: 0.4, output: 2 },
+  'rovo-devstral-small': { input: 0.1, output: 0.3 },
+  'rovo-mistral-large': { input: 0.5, output: 1.5 },
+  'rovo-mistral-medium': { input: 0.4, output: 2 },
+  'rovo-magistral-small': { input: 0.5, output: 1.5 },
+  'rovo-magistral-medium': { input: 2, output: 5 },
+  'rovo-trinity-mini': { input: 0.045, output: 0.15 },
+  'rovo-gpt-oss-120': { input: 0.1, output: 0.5 },
+  'rovo-gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'rovo-gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'rovo-gpt-4.1': { input: 2, output: 8 },
+  'rovo-gpt-5.1': { input: 1.25, output: 10 },
+  'rovo-gpt-5.1-thinking': { input: 1.25, output: 10 },
+  'rovo-gpt-5.2': { input: 1.75, output: 14 },
+  'rovo-gpt-5.2-thinking': { input: 1.75, output: 14 },
+  'rovo-gpt5-mini': { input: 0.25, output: 2 },
+  'rovo-gpt5': { input: 1.25, output: 10 },
+  'rovo-gpt5-medium': { input: 1.25, output: 10 },
+  'rovo-o4-mini': { input: 1.1, output: 4.4 },
+  'rovo-o3': { input: 2, output: 8 },
+  'rovo-gpt-5.1-codex': { input: 1.25, output: 10 },
+  'rovo-gpt-5.1-codex-mini': { input: 0.25, output: 2 },
+  'rovo-gpt-5.1-codex-max': { input: 1.25, output: 10 },
+  'rovo-gpt5-codex': { input: 1.25, output: 10 },
+  'rovo-cmd-a': { input: 2.5, output: 10 },
+  'rovo-cmd-a-think': { input: 2.5, output: 10 },
+  'rovo-deepseek-v3': { input: 0.77, output: 0.77 },
+  'rovo-deepseek-v3.1-terminus': { input: 0.27, output: 1 },
+  'rovo-deepseek-chat': { input: 0.28, output: 0.42 },
+  'rovo-deepseek-chat-think': { input: 0.28, output: 0.42 },
+  'rovo-deepseek-chat-exp': { input: 0.27, output: 0.41 },
+  'rovo-deepseek-chat-think-exp': { input: 0.27, output: 0.41 },
+  'rovo-deepseek-r1': { input: 0.7, output: 2.5 },
+  'rovo-deepseek-r1-0528': { input: 0.7, output: 2.5 },
+  'rovo-qwen-coder-small': { input: 0.07, output: 0.27 },
+  'rovo-qwen-coder': { input: 0.38, output: 1.53 },
+  'rovo-qwen-coder-plus': { input: 1, output: 5 },
+  'rovo-qwen-3-vl-30b': { input: 0.2, output: 0.7 },
+  'rovo-qwen-3-vl-30b-thinking': { input: 0.2, output: 1 },
+  'rovo-qwen-3-next': { input: 0.15, output: 1.5 },
+  'rovo-qwen-3-next-think': { input: 0.15, output: 1.5 },
+  'rovo-qwen-3-max': { input: 1.2, output: 6 },
+  'rovo-qwen-3-max-preview': { input: 1.2, output: 6 },
+  'rovo-qwen-235': { input: 0.2, output: 0.6 },
+  'rovo-qwen-235-think': { input: 0.22, output: 0.88 },
+  'rovo-qwen-3-vl': { input: 0.3, output: 1.5 },
+  'rovo-qwen-3-vl-thinking': { input: 0.3, output: 1.5 },
+  'rovo-kimi-k2-v2': { input: 0.6, output: 2.5 },
+  'rovo-kimi-k2-v2-thinking': { input: 0.6, output: 2.5 },
+  'rovo-minimax': { input: 0.55, output: 2.2 },
+  'rovo-minimax-m2': { input: 0.3, output: 1.2 },
+  'rovo-minimax-m2.1': { input: 0.3, output: 1.2 },
+  'rovo-minimax-m2.1-lightning': { input: 0.3, output: 2.4 },
+  'rovo-glm-4.6': { input: 0.6, output: 2.2 },
+  'rovo-glm-4.6v-flash': { input: 0, output: 0 },
+  'rovo-glm-4.6v': { input: 0.3, output: 0.9 },
+  'rovo-glm-4.7': { input: 0.6, output: 2.2 },
+  'rovo-glm-air': { input: 0.13, output: 0.85 },
+  'rovo-glm': { input: 0.6, output: 2.2 },
+  'rovo-google': { input: 0.3, output: 2.5 },
+  'rovo-google-think': { input: 0.3, output: 2.5 },
+  'rovo-google-pro': { input: 1.25, output: 10 },
+  'rovo-google-pro-think': { input: 1.25, output: 10 },
+  'rovo-gemini-3-flash': { input: 0.5, output: 3 },
+  'rovo-gemini-3-flash-think': { input: 0.5, output: 3 },
+  'rovo-gemini-3-pro': { input: 2, output: 12 },
+  'rovo-anthropic-small': { input: 1, output: 5 },
+  'rovo-anthropic': { input: 3, output: 15 },
+  'rovo-anthropic-think': { input: 3, output: 15 },
+  'rovo-anthropic-opus': { input: 5, output: 25 },
+  'rovo-anthropic-opus-think': { input: 5, output: 25 },
+  'rovo-mimo-v2-flash': { input: 0.1, output: 0.3 },
+  'rovo-nova-2-lite': { input: 0.3, output: 2.5 },
+  'rovo-v0-10': { input: 3, output: 15 },
+  'rovo-v0-15': { input: 3, output: 15 },
+};
+
+// Cost in USD of a single request
+export function calculateModelCost(
+  modelValue: string,
+  usage: { inputTokens?: number | null; outputTokens?: number | null },
+): number {
+  const pricing = modelPricing[modelValue];
+  if (!pricing) return 0;
+
+  return ((usage.inputTokens ?? 0) * pricing.input + (usage.outputTokens ?? 0) * pricing.output) / 1_000_000;
+}
+
 // Helper functions for model access checks
 export function getModelConfig(modelValue: string) {
   return models.find((model) => model.value === modelValue);
@@ -1928,6 +2410,133 @@ export function getModelParameters(modelValue: string): ModelParameters {
   return model?.parameters || {};
 }
 
+// Model overrides are layered over the defaults one provider at a time
+function mergeProviderOptions<K extends keyof ModelProviderOptions>(
+  merged: ModelProviderOptions,
+  key: K,
+  overrides: ModelProviderOptions,
+) {
+  merged[key] = { ...defaultProviderOptions[key], ...overrides[key] };
+}
+
+export function getModelProviderOptions(modelValue: string): ModelProviderOptions {
+  const overrides = getModelConfig(modelValue)?.providerOptions ?? {};
+  const merged: ModelProviderOptions = { ...defaultProviderOptions };
+
+  for (const key of Object.keys(overrides) as (keyof ModelProviderOptions)[]) {
+    mergeProviderOptions(merged, key, overrides);
+  }
+
+  return merged;
+}
+
+// The provider options a call takes. The providers' own option types allow values this JSON type can't express
+// (the gateway's byok entries are `unknown`), so options are checked against ModelProviderOptions and converted here
+type CallProviderOptions = Record<string, { [key: string]: JSONValue | undefined }>;
+
+// Everything model-specific that a streamText/generateText call needs, ready to spread into the call
+export function getModelCallOptions(modelValue: string): {
+  providerOptions: CallProviderOptions;
+  headers?: Record<string, string>;
+  maxOutputTokens?: number;
+} {
+  const model = getModelConfig(modelValue);
+
+  return {
+    providerOptions: getModelProviderOptions(modelValue) as CallProviderOptions,
+    ...(model?.headers ? { headers: model.headers } : {}),
+    ...(model?.enforceMaxOutputTokens ? { maxOutputTokens: getMaxOutputTokens(modelValue) } : {}),
+  };
+}
+
+export function getModelFallbacks(modelValue: string): string[] {
+  const fallbacks = getModelConfig(modelValue)?.fallbacks ?? [];
+  return fallbacks.filter((fallback) => fallback !== modelValue && getModelConfig(fallback));
+}
+
+const SAMPLING_PARAMETERS = [
+  'temperature',
+  'topP',
+  'topK',
+  'presencePenalty',
+  'frequencyPenalty',
+  'maxOutputTokens',
+] as const;
+
+// A fallback runs with its own parameters, provider options and headers in place of those of the model it replaces;
+// settings the caller chose itself are kept. Set through middleware because retry options can't clear a setting.
+function withOwnCallOptions(modelValue: string, replacedModelValue: string) {
+  const ownOptions = { ...getModelParameters(modelValue), ...getModelCallOptions(modelValue) };
+  const replacedOptions = { ...getModelParameters(replacedModelValue), ...getModelCallOptions(replacedModelValue) };
+  const replacedHeaders = Object.keys(replacedOptions.headers ?? {});
+
+  return wrapLanguageModel({
+    model: rovo.languageModel(modelValue),
+    middleware: {
+      specificationVersion: 'v3',
+      transformParams: async ({ params }) => {
+        const sampling = Object.fromEntries(
+          SAMPLING_PARAMETERS.map((parameter) => [
+            parameter,
+            params[parameter] === replacedOptions[parameter] ? ownOptions[parameter] : params[parameter],
+          ]),
+        );
+
+        return {
+          ...params,
+          ...sampling,
+          providerOptions: ownOptions.providerOptions,
+          headers: {
+            ...Object.fromEntries(
+              Object.entries(params.headers ?? {}).filter(([header]) => !replacedHeaders.includes(header)),
+            ),
+            ...ownOptions.headers,
+          },
+        };
+      },
+    },
+  });
+}
+
+// Wrap a model so provider errors switch to its declared fallbacks, in order.
+// A fallback only lasts for the request that failed, and each step of a multi-step run is its own request, so
+// onModelUsed reports the model that served every request; callers keep the latest as the answering model.
+export function getLanguageModelWithFallbacks(modelValue: string, onModelUsed?: (usedModel: string) => void) {
+  const baseModel = rovo.languageModel(modelValue);
+  const fallbacks = getModelFallbacks(modelValue);
+
+  if (fallbacks.length === 0) {
+    return baseModel;
+  }
+
+  const fallbackModels = new Map(fallbacks.map((fallback) => [fallback, withOwnCallOptions(fallback, modelValue)]));
+  const getModelValue = (model: unknown) =>
+    [...fallbackModels].find(([, fallbackModel]) => fallbackModel === model)?.[0] ?? modelValue;
+
+  return createRetryable({
+    model: baseModel,
+    retries: [
+      (context) => {
+        if (context.current.type !== 'error') return undefined;
+
+        const attemptedModels = new Set(context.attempts.map((attempt) => attempt.model));
+        const nextModel = fallbacks.find((fallback) => !attemptedModels.has(fallbackModels.get(fallback)!));
+        if (!nextModel) return undefined;
+
+        console.warn(`Model ${modelValue} failed, falling back to ${nextModel}:`, context.current.error);
+        return { model: fallbackModels.get(nextModel)! };
+      },
+    ],
+    onSuccess: (context) => onModelUsed?.(getModelValue(context.current.model)),
+  });
+}
+
+// Filter out tools the model is known not to support
+export function filterToolsForModel<T extends string>(modelValue: string, tools: readonly T[]): T[] {
+  const disabledTools = getModelConfig(modelValue)?.disabledTools ?? [];
+  return tools.filter((tool) => !disabledTools.includes(tool));
+}
+
 // Access control helper
 export function canUseModel(modelValue: string, user: any, isProUser: boolean): { canUse: boolean; reason?: string } {
   const model = getModelConfig(modelValue);
@@ -1955,13 +2564,13 @@ export function shouldBypassRateLimits(modelValue: string, user: any): boolean {
   return Boolean(user && model?.freeUnlimited);
 }
 
-// Get acceptable file types for a model
+// Get acceptable file types for a model. Documents are extracted to text server-side, so every model accepts them
 export function getAcceptedFileTypes(modelValue: string, isProUser: boolean): string {
   const model = getModelConfig(modelValue);
   if (model?.pdf && isProUser) {
-    return 'image/*,.pdf';
+    return `image/*,.pdf,${DOCUMENT_ACCEPT}`;
   }
-  return 'image/*';
+  return `image/*,${DOCUMENT_ACCEPT}`;
 }
 
 // Check if a model supports extreme mode
@@ -2,13 +2,12 @@
 'use server';
 
 import { geolocation } from '@vercel/functions';
-import { serverEnv } from '@/env/server';
-import { SearchGroupId } from '@/lib/utils';
+import { DEFAULT_LOOKOUT_MODEL, LOOKOUT_SEARCH_GROUPS, SearchGroupId, type LookoutSearchGroup } from '@/lib/utils';
 import { UIMessage, generateText, Output } from 'ai';
 import type { ModelMessage } from 'ai';
 import { z } from 'zod';
 import { getUser } from '@/lib/auth-utils';
-import { rovo } from '@/ai/providers';
+import { canUseModel, rovo } from '@/ai/providers';
 import {
   getChatsByUserId,
   deleteChatById,
@@ -17,10 +16,12 @@ import {
   getMessageById,
   deleteMessagesByChatIdAfterTimestamp,
   updateChatTitleById,
+  requestExtremeSearchRunCancellation,
   getExtremeSearchCount,
   incrementMessageUsage,
   getMessageCount,
   getHistoricalUsageData,
+  getUsageLedgerData,
   getCustomInstructionsByUserId,
   createCustomInstructions,
   updateCustomInstructions,
@@ -33,6 +34,11 @@ import {
   updateLookoutStatus,
   deleteLookout,
   getChatWithUserById,
+  createApiKey,
+  getApiKeysByUserId,
+  deleteApiKey,
+  getLookoutFeedByUserId,
+  saveLookoutFeedToken,
 } from '@/lib/db/queries';
 import { db } from '@/lib/db';
 import { chat } from '@/lib/db/schema';
@@ -40,11 +46,25 @@ import { eq, desc, ilike, and } from 'drizzle-orm';
 import { getDiscountConfig } from '@/lib/discount';
 import { get } from '@vercel/edge-config';
 import { groq } from '@ai-sdk/groq';
-import { Client } from '@upstash/qstash';
 import { experimental_generateSpeech as generateVoice } from 'ai';
 import { elevenlabs } from '@ai-sdk/elevenlabs';
 import { usageCountCache, createMessageCountKey, createExtremeCountKey } from '@/lib/performance-cache';
-import { CronExpressionParser } from 'cron-parser';
+import { calculateNextRun as calculateCronNextRun, getLookoutScheduler } from '@/lib/lookout-scheduler';
+import {
+  isDailyLookout,
+  recurrenceToCron,
+  validateLookoutCron,
+  type LookoutFrequency,
+  type LookoutRecurrenceOptions,
+} from '@/lib/lookout-recurrence';
+import {
+  LOOKOUT_CHANNEL_OPTIONS,
+  MAX_DELIVERY_CHANNELS,
+  validateDeliveryChannel,
+  type LookoutDeliveryChannel,
+} from '@/lib/lookout-channels';
+import { generateWebhookSecret } from '@/lib/lookout-delivery';
+import { generateFeedToken, getLookoutFeedPath } from '@/lib/lookout-feed';
 import { getComprehensiveUserData, getLightweightUserAuth, getCachedUserPreferencesByUserId, clearUserPreferencesCache, type ComprehensiveUserData } from '@/lib/user-data-server';
 import {
   createConnection,
@@ -55,6 +75,9 @@ import {
   type ConnectorProvider,
 } from '@/lib/connectors';
 import { jsonrepair } from 'jsonrepair';
+import { getUserPlan } from '@/lib/rate-limit';
+import { generateApiKey } from '@/lib/api-keys';
+import { isWithinQuota, getQuotaExceededMessage } from '@/lib/quotas';
 import { headers } from 'next/headers';
 import { v7 as uuidv7 } from 'uuid';
 import { saveChat, saveMessages } from '@/lib/db/queries';
@@ -2348,6 +2371,24 @@ export async function deleteTrailingMessages({ id }: { id: string }) {
   }
 }
 
+// Stops the chat's running extreme search; the research wraps up and the model writes a report from what it found
+export async function cancelExtremeSearchAction({ chatId }: { chatId: string }) {
+  'use server';
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('Authentication required');
+    }
+
+    const cancelled = await requestExtremeSearchRunCancellation({ chatId, userId: user.id });
+    return { success: true, cancelled };
+  } catch (error) {
+    console.error('Error cancelling extreme search:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
 // Add function to update chat title
 export async function updateChatTitle(chatId: string, title: string) {
   'use server';
@@ -2672,6 +2713,69 @@ export async function getHistoricalUsage(providedUser?: any, days: number = 30)
   }
 }
 
+interface UsageBreakdownRow {
+  key: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+function emptyUsageRow(key: string): UsageBreakdownRow {
+  return { key, requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+// The settings dialog's longest period is 12 months
+const MAX_USAGE_BREAKDOWN_DAYS = 365;
+
+// Token and cost totals from the usage ledger for the signed-in user, broken down by day, model and search group
+export async function getUsageBreakdown(days: number = 30) {
+  'use server';
+
+  // days comes from the client and bounds the ledger scan
+  const windowDays = Math.min(Math.max(Math.floor(Number(days)) || 1, 1), MAX_USAGE_BREAKDOWN_DAYS);
+
+  const totals = emptyUsageRow('total');
+  const byDay = new Map<string, UsageBreakdownRow>();
+  const byModel = new Map<string, UsageBreakdownRow>();
+  const byGroup = new Map<string, UsageBreakdownRow>();
+
+  try {
+    const user = await getUser();
+    if (user) {
+      const rows = await getUsageLedgerData({ userId: user.id, days: windowDays });
+
+      rows.forEach((row) => {
+        const day = byDay.get(row.date) ?? emptyUsageRow(row.date);
+        const model = byModel.get(row.model) ?? emptyUsageRow(row.model);
+        const group = byGroup.get(row.searchGroup ?? 'unknown') ?? emptyUsageRow(row.searchGroup ?? 'unknown');
+
+        for (const target of [totals, day, model, group]) {
+          target.requests += row.requests;
+          target.inputTokens += row.inputTokens;
+          target.outputTokens += row.outputTokens;
+          target.totalTokens += row.totalTokens;
+          target.cost += row.cost;
+        }
+
+        byDay.set(day.key, day);
+        byModel.set(model.key, model);
+        byGroup.set(group.key, group);
+      });
+    }
+  } catch (error) {
+    console.error('Error getting usage breakdown:', error);
+  }
+
+  return {
+    totals,
+    byDay: Array.from(byDay.values()).sort((a, b) => b.key.localeCompare(a.key)),
+    byModel: Array.from(byModel.values()).sort((a, b) => b.cost - a.cost),
+    byGroup: Array.from(byGroup.values()).sort((a, b) => b.cost - a.cost),
+  };
+}
+
 // Custom Instructions Server Actions
 export async function getCustomInstructions(providedUser?: any) {
   'use server';
@@ -2756,8 +2860,9 @@ export async function getUserPreferences(providedUser?: any) {
 }
 
 export async function saveUserPreferences(preferences: Partial<{
-  'rovo-search-provider'?: 'exa' | 'tavily' | 'firecrawl';
-  'rovo-extreme-search-provider'?: 'exa';
+  'rovo-search-provider'?: 'exa' | 'tavily' | 'firecrawl' | 'searxng' | 'hybrid';
+  'rovo-extreme-search-provider'?: 'exa' | 'tavily' | 'firecrawl' | 'parallel' | 'searxng';
+  'rovo-extreme-search-budget'?: 'standard' | 'thorough' | 'exhaustive';
   'rovo-group-order'?: string[];
   'rovo-model-order-global'?: string[];
   'rovo-blur-personal-info'?: boolean;
@@ -2811,36 +2916,25 @@ export async function getProUserStatusOnly(): Promise<boolean> {
   return await isUserPro();
 }
 
-// Initialize QStash client
-const qstash = new Client({ token: serverEnv.QSTASH_TOKEN });
-
-// Helper function to convert frequency to cron schedule with timezone
-function frequencyToCron(frequency: string, time: string, timezone: string, dayOfWeek?: string): string {
-  const [hours, minutes] = time.split(':').map(Number);
+// Helper function to convert frequency to cron schedule with timezone; throws if the schedule can't be used
+function frequencyToCron(
+  frequency: LookoutFrequency,
+  time: string,
+  timezone: string,
+  recurrence: LookoutRecurrenceOptions = {},
+): string {
+  if (frequency === 'once') {
+    // For 'once', we'll handle it differently - no cron schedule needed
+    return '';
+  }
 
-  let cronExpression = '';
-  switch (frequency) {
-    case 'once':
-      // For 'once', we'll handle it differently - no cron schedule needed
-      return '';
-    case 'daily':
-      cronExpression = `${minutes} ${hours} * * *`;
-      break;
-    case 'weekly':
-      // Use the day of week if provided, otherwise default to Sunday (0)
-      const day = dayOfWeek || '0';
-      cronExpression = `${minutes} ${hours} * * ${day}`;
-      break;
-    case 'monthly':
-      // Run on the 1st of each month
-      cronExpression = `${minutes} ${hours} 1 * *`;
-      break;
-    case 'yearly':
-      // Run on January 1st
-      cronExpression = `${minutes} ${hours} 1 1 *`;
-      break;
-    default:
-      cronExpression = `${minutes} ${hours} * * *`; // Default to daily
+  const cronExpression = recurrenceToCron(frequency, {
+    ...recurrence,
+    times: recurrence.times?.length ? recurrence.times : [time],
+  });
+  const scheduleError = validateLookoutCron(cronExpression, timezone);
+  if (scheduleError) {
+    throw new Error(scheduleError);
   }
 
   // Prepend timezone to cron expression for QStash
@@ -2850,19 +2944,7 @@ function frequencyToCron(frequency: string, time: string, timezone: string, dayO
 // Helper function to calculate next run time using cron-parser
 function calculateNextRun(cronSchedule: string, timezone: string): Date {
   try {
-    // Extract the actual cron expression from the timezone-prefixed format
-    // Format: "CRON_TZ=timezone 0 9 * * *" -> "0 9 * * *"
-    const actualCronExpression = cronSchedule.startsWith('CRON_TZ=')
-      ? cronSchedule.split(' ').slice(1).join(' ')
-      : cronSchedule;
-
-    const options = {
-      currentDate: new Date(),
-      tz: timezone,
-    };
-
-    const interval = CronExpressionParser.parse(actualCronExpression, options);
-    return interval.next().toDate();
+    return calculateCronNextRun(cronSchedule, timezone);
   } catch (error) {
     console.error('Error parsing cron expression:', cronSchedule, error);
     // Fallback to simple calculation
@@ -2873,6 +2955,68 @@ function calculateNextRun(cronSchedule: string, timezone: string): Date {
   }
 }
 
+// Lookouts run unattended, so their search group and model are checked when saved rather than on each run
+function validateLookoutSearch(user: { isProUser: boolean }, searchGroup: LookoutSearchGroup, model: string) {
+  if (!LOOKOUT_SEARCH_GROUPS.includes(searchGroup)) {
+    throw new Error('Lookouts cannot run in this search mode');
+  }
+  if (searchGroup === 'connectors' && !user.isProUser) {
+    throw new Error('Connectors require a Pro subscription');
+  }
+
+  const { canUse, reason } = canUseModel(model, user, user.isProUser);
+  if (!canUse) {
+    throw new Error(
+      reason === 'pro_subscription_required' ? 'This model requires a Pro subscription' : 'Unknown model',
+    );
+  }
+}
+
+// Validates the form's delivery channels and gives new webhooks a signing secret; saved channels keep theirs
+function prepareDeliveryChannels(
+  channels: LookoutDeliveryChannel[],
+  existingChannels: LookoutDeliveryChannel[] = [],
+): LookoutDeliveryChannel[] {
+  if (channels.length > MAX_DELIVERY_CHANNELS) {
+    throw new Error(`A lookout can deliver to at most ${MAX_DELIVERY_CHANNELS} channels`);
+  }
+
+  // One feed entry per run however many times RSS was added
+  const uniqueChannels = channels.filter(
+    (channel, index) => channel.type !== 'rss' || channels.findIndex((other) => other.type === 'rss') === index,
+  );
+
+  return uniqueChannels.map((channel) => {
+    if (!LOOKOUT_CHANNEL_OPTIONS.some((option) => option.value === channel.type)) {
+      throw new Error('Unknown delivery channel');
+    }
+    const channelError = validateDeliveryChannel(channel);
+    if (channelError) {
+      throw new Error(channelError);
+    }
+
+    const existing = existingChannels.find(
+      (existingChannel) => existingChannel.id === channel.id && existingChannel.type === channel.type,
+    );
+    const id = existing?.id ?? uuidv7();
+    if (channel.type === 'rss') {
+      return { id, type: channel.type };
+    }
+    return {
+      id,
+      type: channel.type,
+      url: channel.url!.trim(),
+      ...(channel.type === 'webhook' && { secret: existing?.secret ?? generateWebhookSecret() }),
+    };
+  });
+}
+
+async function getOrCreateLookoutFeed(userId: string) {
+  return (
+    (await getLookoutFeedByUserId({ userId })) ?? (await saveLookoutFeedToken({ userId, token: generateFeedToken() }))
+  );
+}
+
 // Helper function to calculate next run for 'once' frequency
 function calculateOnceNextRun(time: string, timezone: string, date?: string): Date {
   const [hours, minutes] = time.split(':').map(Number);
@@ -2904,13 +3048,23 @@ export async function createScheduledLookout({
   time,
   timezone = 'UTC',
   date,
+  recurrence,
+  searchGroup = 'extreme',
+  model = DEFAULT_LOOKOUT_MODEL,
+  notifyOnlyOnChange = false,
+  deliveryChannels = [],
 }: {
   title: string;
   prompt: string;
-  frequency: 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+  frequency: LookoutFrequency;
   time: string; // Format: "HH:MM" or "HH:MM:dayOfWeek" for weekly
   timezone?: string;
   date?: string; // For 'once' frequency
+  recurrence?: LookoutRecurrenceOptions; // Times, days, interval or cron expression for recurring frequencies
+  searchGroup?: LookoutSearchGroup; // Whose tools and instructions each run uses
+  model?: string;
+  notifyOnlyOnChange?: boolean; // Skip the email for runs with nothing new since the previous run
+  deliveryChannels?: LookoutDeliveryChannel[]; // Webhook, Slack, Discord and RSS targets besides the email
 }) {
   try {
     const user = await getCurrentUser();
@@ -2918,25 +3072,11 @@ export async function createScheduledLookout({
       throw new Error('Authentication required');
     }
 
-    // Check if user is Pro
-    if (!user.isProUser) {
-      throw new Error('Pro subscription required for scheduled searches');
-    }
-
-    // Check lookout limits
+    // Check lookout limits for the user's plan (free plans have none)
+    const plan = await getUserPlan(user);
     const existingLookouts = await getLookoutsByUserId({ userId: user.id });
-    if (existingLookouts.length >= 10) {
-      throw new Error('You have reached the maximum limit of 10 lookouts');
-    }
-
-    // Check daily lookout limit specifically
-    if (frequency === 'daily') {
-      const activeDailyLookouts = existingLookouts.filter(
-        (lookout) => lookout.frequency === 'daily' && lookout.status === 'active',
-      );
-      if (activeDailyLookouts.length >= 5) {
-        throw new Error('You have reached the maximum limit of 5 active daily lookouts');
-      }
+    if (!isWithinQuota(plan, 'lookouts', existingLookouts.length)) {
+      throw new Error(getQuotaExceededMessage(plan, 'lookouts'));
     }
 
     let cronSchedule = '';
@@ -2958,10 +3098,30 @@ export async function createScheduledLookout({
       nextRunAt = calculateOnceNextRun(actualTime, timezone, date);
     } else {
       // Generate cron schedule for recurring frequencies
-      cronSchedule = frequencyToCron(frequency, actualTime, timezone, dayOfWeek);
+      cronSchedule = frequencyToCron(frequency, actualTime, timezone, {
+        daysOfWeek: dayOfWeek ? [dayOfWeek] : undefined,
+        ...recurrence,
+      });
       nextRunAt = calculateNextRun(cronSchedule, timezone);
     }
 
+    // Check daily lookout limit specifically; anything running five or more times a week counts
+    if (isDailyLookout({ frequency, cronSchedule, timezone })) {
+      const activeDailyLookouts = existingLookouts.filter(
+        (lookout) => isDailyLookout(lookout) && lookout.status === 'active',
+      );
+      if (!isWithinQuota(plan, 'dailyLookouts', activeDailyLookouts.length)) {
+        throw new Error(getQuotaExceededMessage(plan, 'dailyLookouts'));
+      }
+    }
+
+    validateLookoutSearch(user, searchGroup, model);
+
+    const channels = prepareDeliveryChannels(deliveryChannels);
+    if (channels.some((channel) => channel.type === 'rss')) {
+      await getOrCreateLookoutFeed(user.id);
+    }
+
     // Create lookout in database first
     const lookout = await createLookout({
       userId: user.id,
@@ -2972,94 +3132,47 @@ export async function createScheduledLookout({
       timezone,
       nextRunAt,
       qstashScheduleId: undefined, // Will be updated if needed
+      searchGroup,
+      model,
+      notifyOnlyOnChange,
+      deliveryChannels: channels,
     });
 
-    console.log('📝 Created lookout in database:', lookout.id, 'Now scheduling with QStash...');
+    console.log('📝 Created lookout in database:', lookout.id, 'Now scheduling...');
 
     // Small delay to ensure database transaction is committed
     await new Promise((resolve) => setTimeout(resolve, 100));
 
-    // Create QStash schedule for all frequencies (recurring and once)
-    if (lookout.id) {
-      try {
-        if (frequency === 'once') {
-          console.log('⏰ Creating QStash one-time execution for lookout:', lookout.id);
-          console.log('📅 Scheduled time:', nextRunAt.toISOString());
-
-          const delay = Math.floor((nextRunAt.getTime() - Date.now()) / 1000); // Delay in seconds
-          const minimumDelay = Math.max(delay, 5); // At least 5 seconds to ensure DB consistency
-
-          if (delay > 0) {
-            await qstash.publish({
-              // if dev env use localhost:3000/api/lookout, else use rovo.ai/api/lookout
-              url:
-                process.env.NODE_ENV === 'development'
-                  ? process.env.NGROK_URL + '/api/lookout'
-                  : `https://rovo.ai/api/lookout`,
-              body: JSON.stringify({
-                lookoutId: lookout.id,
-                prompt,
-                userId: user.id,
-              }),
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              delay: minimumDelay,
-            });
-
-            console.log(
-              '✅ QStash one-time execution scheduled for lookout:',
-              lookout.id,
-              'with delay:',
-              minimumDelay,
-              'seconds',
-            );
-
-            // For consistency, we don't store a qstashScheduleId for one-time executions
-            // since they use the publish API instead of schedules API
-          } else {
-            throw new Error('Cannot schedule for a time in the past');
-          }
-        } else {
-          console.log('⏰ Creating QStash recurring schedule for lookout:', lookout.id);
-          console.log('📅 Cron schedule with timezone:', cronSchedule);
-
-          const scheduleResponse = await qstash.schedules.create({
-            // if dev env use localhost:3000/api/lookout, else use rovo.ai/api/lookout
-            destination:
-              process.env.NODE_ENV === 'development'
-                ? process.env.NGROK_URL + '/api/lookout'
-                : `https://rovo.ai/api/lookout`,
-            method: 'POST',
-            cron: cronSchedule,
-            body: JSON.stringify({
-              lookoutId: lookout.id,
-              prompt,
-              userId: user.id,
-            }),
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          });
-
-          console.log('✅ QStash recurring schedule created:', scheduleResponse.scheduleId, 'for lookout:', lookout.id);
-
-          // Update lookout with QStash schedule ID
-          await updateLookout({
-            id: lookout.id,
-            qstashScheduleId: scheduleResponse.scheduleId,
-          });
-
-          lookout.qstashScheduleId = scheduleResponse.scheduleId;
-        }
-      } catch (qstashError) {
-        console.error('Error creating QStash schedule:', qstashError);
-        // Delete the lookout if QStash creation fails
-        await deleteLookout({ id: lookout.id });
-        throw new Error(
-          `Failed to ${frequency === 'once' ? 'schedule one-time search' : 'create recurring schedule'}. Please try again.`,
-        );
+    try {
+      if (frequency === 'once' && nextRunAt.getTime() <= Date.now()) {
+        throw new Error('Cannot schedule for a time in the past');
       }
+
+      console.log('⏰ Scheduling lookout:', lookout.id, 'next run:', nextRunAt.toISOString(), 'cron:', cronSchedule);
+      const scheduleId = await getLookoutScheduler().schedule({
+        id: lookout.id,
+        userId: user.id,
+        prompt,
+        frequency,
+        cronSchedule,
+        nextRunAt,
+      });
+
+      if (scheduleId) {
+        await updateLookout({
+          id: lookout.id,
+          qstashScheduleId: scheduleId,
+        });
+
+        lookout.qstashScheduleId = scheduleId;
+      }
+    } catch (scheduleError) {
+      console.error('Error scheduling lookout:', scheduleError);
+      // Delete the lookout if scheduling fails
+      await deleteLookout({ id: lookout.id });
+      throw new Error(
+        `Failed to ${frequency === 'once' ? 'schedule one-time search' : 'create recurring schedule'}. Please try again.`,
+      );
     }
 
     return { success: true, lookout };
@@ -3118,27 +3231,29 @@ export async function updateLookoutStatusAction({
       throw new Error('Lookout not found or access denied');
     }
 
-    // Update QStash schedule status if it exists
+    // Update the external schedule status if there is one
     if (lookout.qstashScheduleId) {
+      const scheduler = getLookoutScheduler();
       try {
         if (status === 'paused') {
-          await qstash.schedules.pause({ schedule: lookout.qstashScheduleId });
+          await scheduler.pause(lookout.qstashScheduleId);
         } else if (status === 'active') {
-          await qstash.schedules.resume({ schedule: lookout.qstashScheduleId });
-          // Update next run time when resuming
-          if (lookout.cronSchedule) {
-            const nextRunAt = calculateNextRun(lookout.cronSchedule, lookout.timezone);
-            await updateLookout({ id, nextRunAt });
-          }
+          await scheduler.resume(lookout.qstashScheduleId);
         } else if (status === 'archived') {
-          await qstash.schedules.delete(lookout.qstashScheduleId);
+          await scheduler.unschedule(lookout.qstashScheduleId);
         }
-      } catch (qstashError) {
-        console.error('Error updating QStash schedule:', qstashError);
-        // Continue with database update even if QStash fails
+      } catch (scheduleError) {
+        console.error('Error updating lookout schedule:', scheduleError);
+        // Continue with database update even if the scheduler fails
       }
     }
 
+    // Update next run time when resuming, so runs missed while paused aren't started at once
+    if (status === 'active' && lookout.cronSchedule) {
+      const nextRunAt = calculateNextRun(lookout.cronSchedule, lookout.timezone);
+      await updateLookout({ id, nextRunAt });
+    }
+
     // Update database
     const updatedLookout = await updateLookoutStatus({ id, status });
     return { success: true, lookout: updatedLookout };
@@ -3156,14 +3271,24 @@ export async function updateLookoutAction({
   time,
   timezone,
   dayOfWeek,
+  recurrence,
+  searchGroup,
+  model,
+  notifyOnlyOnChange,
+  deliveryChannels,
 }: {
   id: string;
   title: string;
   prompt: string;
-  frequency: 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly';
-  time: string;
+  frequency: LookoutFrequency;
+  time: string; // Format: "HH:MM" or "HH:MM:dayOfWeek" for weekly
   timezone: string;
   dayOfWeek?: string;
+  recurrence?: LookoutRecurrenceOptions;
+  searchGroup?: LookoutSearchGroup;
+  model?: string;
+  notifyOnlyOnChange?: boolean;
+  deliveryChannels?: LookoutDeliveryChannel[];
 }) {
   try {
     const user = await getCurrentUser();
@@ -3177,22 +3302,22 @@ export async function updateLookoutAction({
       throw new Error('Lookout not found or access denied');
     }
 
-    // Check daily lookout limit if changing to daily frequency
-    if (frequency === 'daily' && lookout.frequency !== 'daily') {
-      const existingLookouts = await getLookoutsByUserId({ userId: user.id });
-      const activeDailyLookouts = existingLookouts.filter(
-        (existingLookout) =>
-          existingLookout.frequency === 'daily' && existingLookout.status === 'active' && existingLookout.id !== id,
-      );
-      if (activeDailyLookouts.length >= 5) {
-        throw new Error('You have reached the maximum limit of 5 active daily lookouts');
-      }
+    if (searchGroup !== undefined || model !== undefined) {
+      validateLookoutSearch(user, searchGroup ?? (lookout.searchGroup as LookoutSearchGroup), model ?? lookout.model);
     }
 
-    // Handle weekly day selection
-    let adjustedTime = time;
-    if (frequency === 'weekly' && dayOfWeek) {
-      adjustedTime = `${time}:${dayOfWeek}`;
+    const channels = deliveryChannels && prepareDeliveryChannels(deliveryChannels, lookout.deliveryChannels);
+    if (channels?.some((channel) => channel.type === 'rss')) {
+      await getOrCreateLookoutFeed(user.id);
+    }
+
+    // Handle weekly day selection sent as "HH:MM:dayOfWeek"
+    let actualTime = time;
+    let weeklyDay = dayOfWeek;
+    if (frequency === 'weekly' && time.split(':').length === 3) {
+      const parts = time.split(':');
+      actualTime = `${parts[0]}:${parts[1]}`;
+      weeklyDay = weeklyDay || parts[2];
     }
 
     // Generate new cron schedule if frequency changed
@@ -3201,7 +3326,7 @@ export async function updateLookoutAction({
 
     if (frequency === 'once') {
       // For 'once', set next run to today/tomorrow at specified time
-      const [hours, minutes] = time.split(':').map(Number);
+      const [hours, minutes] = actualTime.split(':').map(Number);
       const now = new Date();
       nextRunAt = new Date(now);
       nextRunAt.setHours(hours, minutes, 0, 0);
@@ -3210,36 +3335,44 @@ export async function updateLookoutAction({
         nextRunAt.setDate(nextRunAt.getDate() + 1);
       }
     } else {
-      cronSchedule = frequencyToCron(frequency, time, timezone, dayOfWeek);
+      cronSchedule = frequencyToCron(frequency, actualTime, timezone, {
+        daysOfWeek: weeklyDay ? [weeklyDay] : undefined,
+        ...recurrence,
+      });
       nextRunAt = calculateNextRun(cronSchedule, timezone);
     }
 
-    // Update QStash schedule if it exists and frequency/time changed
+    // Check daily lookout limit if the new schedule makes this a daily lookout
+    if (isDailyLookout({ frequency, cronSchedule, timezone }) && !isDailyLookout(lookout)) {
+      const existingLookouts = await getLookoutsByUserId({ userId: user.id });
+      const activeDailyLookouts = existingLookouts.filter(
+        (existingLookout) =>
+          isDailyLookout(existingLookout) && existingLookout.status === 'active' && existingLookout.id !== id,
+      );
+      const plan = await getUserPlan(user);
+      if (!isWithinQuota(plan, 'dailyLookouts', activeDailyLookouts.length)) {
+        throw new Error(getQuotaExceededMessage(plan, 'dailyLookouts'));
+      }
+    }
+
+    // Update the external schedule if it exists and frequency/time changed
     if (lookout.qstashScheduleId && frequency !== 'once') {
       try {
+        const scheduler = getLookoutScheduler();
         // Delete old schedule
-        await qstash.schedules.delete(lookout.qstashScheduleId);
+        await scheduler.unschedule(lookout.qstashScheduleId);
 
-        console.log('⏰ Recreating QStash schedule for lookout:', id);
+        console.log('⏰ Recreating schedule for lookout:', id);
         console.log('📅 Updated cron schedule with timezone:', cronSchedule);
 
         // Create new schedule with updated cron
-        const scheduleResponse = await qstash.schedules.create({
-          // if dev env use localhost:3000/api/lookout, else use rovo.ai/api/lookout
-          destination:
-            process.env.NODE_ENV === 'development'
-              ? process.env.NGROK_URL + '/api/lookout'
-              : `https://rovo.ai/api/lookout`,
-          method: 'POST',
-          cron: cronSchedule,
-          body: JSON.stringify({
-            lookoutId: id,
-            prompt: prompt.trim(),
-            userId: user.id,
-          }),
-          headers: {
-            'Content-Type': 'application/json',
-          },
+        const scheduleId = await scheduler.schedule({
+          id,
+          userId: user.id,
+          prompt: prompt.trim(),
+          frequency,
+          cronSchedule,
+          nextRunAt,
         });
 
         // Update database with new details
@@ -3251,12 +3384,16 @@ export async function updateLookoutAction({
           cronSchedule,
           timezone,
           nextRunAt,
-          qstashScheduleId: scheduleResponse.scheduleId,
+          qstashScheduleId: scheduleId ?? undefined,
+          searchGroup,
+          model,
+          notifyOnlyOnChange,
+          deliveryChannels: channels,
         });
 
         return { success: true, lookout: updatedLookout };
-      } catch (qstashError) {
-        console.error('Error updating QStash schedule:', qstashError);
+      } catch (scheduleError) {
+        console.error('Error updating lookout schedule:', scheduleError);
         throw new Error('Failed to update schedule. Please try again.');
       }
     } else {
@@ -3269,6 +3406,10 @@ export async function updateLookoutAction({
         cronSchedule,
         timezone,
         nextRunAt,
+        searchGroup,
+        model,
+        notifyOnlyOnChange,
+        deliveryChannels: channels,
       });
 
       return { success: true, lookout: updatedLookout };
@@ -3279,6 +3420,38 @@ export async function updateLookoutAction({
   }
 }
 
+// Path of the user's private lookout feed, created on first use
+export async function getLookoutFeedAction() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('Authentication required');
+    }
+
+    const feed = await getOrCreateLookoutFeed(user.id);
+    return { success: true, path: getLookoutFeedPath(feed.token) };
+  } catch (error) {
+    console.error('Error getting lookout feed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// Replaces the feed token, so anyone holding the old feed URL loses access
+export async function rotateLookoutFeedAction() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('Authentication required');
+    }
+
+    const feed = await saveLookoutFeedToken({ userId: user.id, token: generateFeedToken() });
+    return { success: true, path: getLookoutFeedPath(feed.token) };
+  } catch (error) {
+    console.error('Error rotating lookout feed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
 export async function deleteLookoutAction({ id }: { id: string }) {
   try {
     const user = await getCurrentUser();
@@ -3292,13 +3465,13 @@ export async function deleteLookoutAction({ id }: { id: string }) {
       throw new Error('Lookout not found or access denied');
     }
 
-    // Delete QStash schedule if it exists
+    // Delete the external schedule if it exists
     if (lookout.qstashScheduleId) {
       try {
-        await qstash.schedules.delete(lookout.qstashScheduleId);
+        await getLookoutScheduler().unschedule(lookout.qstashScheduleId);
       } catch (error) {
-        console.error('Error deleting QStash schedule:', error);
-        // Continue with database deletion even if QStash deletion fails
+        console.error('Error deleting lookout schedule:', error);
+        // Continue with database deletion even if the scheduler fails
       }
     }
 
@@ -3330,20 +3503,7 @@ export async function testLookoutAction({ id }: { id: string }) {
     }
 
     // Make a POST request to the lookout API endpoint to trigger the run
-    const response = await fetch(
-      process.env.NODE_ENV === 'development' ? process.env.NGROK_URL + '/api/lookout' : `https://rovo.ai/api/lookout`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          lookoutId: lookout.id,
-          prompt: lookout.prompt,
-          userId: user.id,
-        }),
-      },
-    );
+    const response = await getLookoutScheduler().trigger(lookout);
 
     if (!response.ok) {
       throw new Error(`Failed to trigger lookout test: ${response.statusText}`);
@@ -3595,3 +3755,74 @@ export async function searchChatsByTitle(query: string, limit: number = 25, offs
     return { error: 'Failed to search chats', status: 500 };
   }
 }
+
+// API Key Server Actions
+const MAX_API_KEYS = 10;
+
+export async function listApiKeysAction() {
+  'use server';
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { success: false, error: 'Authentication required', keys: [] };
+    }
+
+    const keys = await getApiKeysByUserId({ userId: user.id });
+    return { success: true, keys };
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    return { success: false, error: 'Failed to list API keys', keys: [] };
+  }
+}
+
+// Returns the plaintext key once; only its hash is stored
+export async function createApiKeyAction(name: string) {
+  'use server';
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const trimmedName = name.trim().slice(0, 64);
+    if (!trimmedName) {
+      return { success: false, error: 'Name is required' };
+    }
+
+    const existingKeys = await getApiKeysByUserId({ userId: user.id });
+    if (existingKeys.length >= MAX_API_KEYS) {
+      return { success: false, error: `You can have at most ${MAX_API_KEYS} API keys` };
+    }
+
+    const { key, keyHash, keyPrefix } = generateApiKey();
+    const created = await createApiKey({ userId: user.id, name: trimmedName, keyHash, keyPrefix });
+
+    return { success: true, key, id: created.id };
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return { success: false, error: 'Failed to create API key' };
+  }
+}
+
+export async function revokeApiKeyAction(id: string) {
+  'use server';
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const deleted = await deleteApiKey({ id, userId: user.id });
+    if (!deleted) {
+      return { success: false, error: 'API key not found' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return { success: false, error: 'Failed to revoke API key' };
+  }
+}
@@ -1,15 +1,24 @@
 import { serverEnv } from '@/env/server';
-import { del, list, ListBlobResult } from '@vercel/blob';
+import { deleteAttachmentsByIds, getOrphanedAttachments, getTrackedAttachmentUrls } from '@/lib/db/queries';
+import { getStorage } from '@/lib/storage';
 import { NextRequest, NextResponse } from 'next/server';
 
+// Uploads get this long to be sent in a chat before they count as orphaned
+const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 500;
+const MAX_BATCHES_PER_RUN = 20;
+// Prefix of every upload key, see app/api/upload
+const UPLOAD_PREFIX = 'mplx/';
+
 export async function GET(req: NextRequest) {
   if (req.headers.get('Authorization') !== `Bearer ${serverEnv.CRON_SECRET}`) {
     return new NextResponse('Unauthorized', { status: 401 });
   }
 
   try {
-    await deleteAllBlobsWithPrefix('mplx/public');
-    return new NextResponse('All public files with mplx/public prefix were deleted', {
+    const createdBefore = new Date(Date.now() - ORPHAN_GRACE_PERIOD_MS);
+    const deleted = (await deleteOrphanedAttachments(createdBefore)) + (await deleteUntrackedFiles(createdBefore));
+    return new NextResponse(`Deleted ${deleted} orphaned files`, {
       status: 200,
     });
   } catch (error) {
@@ -20,23 +29,48 @@ export async function GET(req: NextRequest) {
   }
 }
 
-async function deleteAllBlobsWithPrefix(filePrefix: string) {
-  let cursor;
+// Orphans are uploads that never made it into a saved chat, or whose chat or owner was deleted
+async function deleteOrphanedAttachments(createdBefore: Date) {
+  const storage = getStorage();
+  let deleted = 0;
 
-  do {
-    const listResult: ListBlobResult = await list({
-      prefix: filePrefix,
-      cursor,
-      limit: 1000,
-    });
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const orphans = await getOrphanedAttachments({ createdBefore, limit: BATCH_SIZE });
+    if (orphans.length === 0) break;
+
+    await storage.delete(orphans.map((attachment) => attachment.storageKey));
+    await deleteAttachmentsByIds({ ids: orphans.map((attachment) => attachment.id) });
+    deleted += orphans.length;
+    console.log(`Deleted ${orphans.length} orphaned files`);
+
+    if (orphans.length < BATCH_SIZE) break;
+  }
 
-    if (listResult.blobs.length > 0) {
-      await del(listResult.blobs.map((blob) => blob.url));
-      console.log(`Deleted ${listResult.blobs.length} blobs`);
+  return deleted;
+}
+
+// Files in the store without an attachment record: uploads from before uploads were tracked that were never
+// sent in a saved chat (the ones that were are backfilled by migration 0021_legacy_attachments)
+async function deleteUntrackedFiles(createdBefore: Date) {
+  const storage = getStorage();
+  let deleted = 0;
+  let cursor: string | undefined;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const page = await storage.list(UPLOAD_PREFIX, cursor);
+    const candidates = page.objects.filter((object) => object.uploadedAt < createdBefore);
+    const tracked = await getTrackedAttachmentUrls({ urls: candidates.map((object) => object.url) });
+    const untracked = candidates.filter((object) => !tracked.has(object.url));
+
+    if (untracked.length > 0) {
+      await storage.delete(untracked.map((object) => object.key));
+      deleted += untracked.length;
+      console.log(`Deleted ${untracked.length} untracked files`);
     }
 
-    cursor = listResult.cursor;
-  } while (cursor);
+    cursor = page.cursor;
+    if (!cursor) break;
+  }
 
-  console.log('All blobs in the specified folder were deleted');
+  return deleted;
 }
@@ -0,0 +1,47 @@
+import { serverEnv } from '@/env/server';
+import { claimDueLookouts, startLookoutRun } from '@/lib/lookout-scheduler';
+import { after, NextRequest, NextResponse } from 'next/server';
+
+// Runs stream their results back, so the dispatcher stays up until they finish
+export const maxDuration = 800;
+
+// Polled every minute when SCHEDULER_PROVIDER=builtin, by a Vercel cron or a system crontab on self-hosted deployments
+export async function GET(req: NextRequest) {
+  if (req.headers.get('Authorization') !== `Bearer ${serverEnv.CRON_SECRET}`) {
+    return new NextResponse('Unauthorized', { status: 401 });
+  }
+
+  if (serverEnv.SCHEDULER_PROVIDER !== 'builtin') {
+    return new NextResponse('The built-in lookout scheduler is disabled', { status: 200 });
+  }
+
+  try {
+    const dueLookouts = await claimDueLookouts();
+    const runUrl = new URL('/api/lookout', req.url).toString();
+
+    after(
+      Promise.all(
+        dueLookouts.map(async (dueLookout) => {
+          console.log('⏰ Dispatching lookout:', dueLookout.id);
+          try {
+            const response = await startLookoutRun(runUrl, dueLookout);
+            if (!response.ok) {
+              console.error(`Lookout ${dueLookout.id} run was rejected: ${response.status} ${await response.text()}`);
+              return;
+            }
+            await response.text();
+          } catch (error) {
+            console.error(`Lookout ${dueLookout.id} run failed:`, error);
+          }
+        }),
+      ),
+    );
+
+    return new NextResponse(`Dispatched ${dueLookouts.length} lookouts`, { status: 200 });
+  } catch (error) {
+    console.error('An error occurred:', error);
+    return new NextResponse('An error occurred while dispatching lookouts', {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,21 @@
+import { getLookoutFeedByToken, getLookoutsByUserId } from '@/lib/db/queries';
+import { buildLookoutAtomFeed } from '@/lib/lookout-feed';
+
+// Private Atom feed of a user's lookout reports. Anyone with the URL can read it, so it can be rotated from the lookout form
+export async function GET(req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  const feed = token ? await getLookoutFeedByToken({ token }) : null;
+  if (!feed) {
+    return new Response('Feed not found', { status: 404 });
+  }
+
+  const lookouts = await getLookoutsByUserId({ userId: feed.userId });
+
+  return new Response(buildLookoutAtomFeed({ feedUrl: req.url, lookouts }), {
+    headers: {
+      'Content-Type': 'application/atom+xml; charset=utf-8',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+}
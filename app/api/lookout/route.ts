@@ -1,7 +1,14 @@
 // /app/api/lookout/route.ts
-import { generateTitleFromUserMessage } from '@/app/actions';
+import { generateTitleFromUserMessage, getGroupConfig } from '@/app/actions';
 import { convertToModelMessages, streamText, createUIMessageStream, stepCountIs, JsonToSseTransformStream } from 'ai';
-import { rovo } from '@/ai/providers';
+import {
+  getModelCallOptions,
+  calculateModelCost,
+  filterToolsForModel,
+  getLanguageModelWithFallbacks,
+  getModelConfig,
+  getModelParameters,
+} from '@/ai/providers';
 import {
   createStreamId,
   saveChat,
@@ -12,20 +19,30 @@ import {
   updateLookoutLastRun,
   updateLookout,
   updateLookoutStatus,
+  claimLookoutRun,
   getUserById,
+  getExtremeSearchCount,
+  getUserPreferencesByUserId,
+  recordUsage,
 } from '@/lib/db/queries';
+import { ChatSDKError } from '@/lib/errors';
+import { getUserPlan } from '@/lib/rate-limit';
+import { clampExtremeSearchBudget, getQuotaExceededMessage, isUnlimited, isWithinQuota } from '@/lib/quotas';
 import { createResumableStreamContext, type ResumableStreamContext } from 'resumable-stream';
 import { after } from 'next/server';
 import { v7 as uuidv7 } from 'uuid';
-import { CronExpressionParser } from 'cron-parser';
+import { calculateNextRun, isLookoutRunAuthorized, LOOKOUT_RUN_STALE_MS } from '@/lib/lookout-scheduler';
 import { sendLookoutCompletionEmail } from '@/lib/email';
+import { getResearchSources, streamCitationVerification } from '@/lib/citation-verification';
+import { compareWithPreviousRun, getRunSnapshot } from '@/lib/lookout-changes';
+import { deliverLookoutRun, getReportSummary } from '@/lib/lookout-delivery';
 import { db } from '@/lib/db';
 import { subscription } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-
-// Import extreme search tool
-import { extremeSearchTool } from '@/lib/tools';
+import { createSearchTools } from '@/lib/tools/registry';
+import { markdownJoinerTransform } from '@/lib/parser';
 import { ChatMessage } from '@/lib/types';
+import { DEFAULT_LOOKOUT_MODEL, type LookoutSearchGroup } from '@/lib/utils';
 
 // Helper function to check if a user is pro by userId
 async function checkUserIsProById(userId: string): Promise<boolean> {
@@ -47,139 +64,9 @@ async function checkUserIsProById(userId: string): Promise<boolean> {
   }
 }
 
-let globalStreamContext: ResumableStreamContext | null = null;
-
-function getStreamContext() {
-  if (!globalStreamContext) {
-    try {
-      globalStreamContext = createResumableStreamContext({
-        waitUntil: after,
-      });
-    } catch (error: any) {
-      if (error.message.includes('REDIS_URL')) {
-        console.log(' > Resumable streams are disabled due to missing REDIS_URL');
-      } else {
-        console.error(error);
-      }
-    }
-  }
-
-  return globalStreamContext;
-}
-
-export async function POST(req: Request) {
-  console.log('🔍 Lookout API endpoint hit from QStash');
-
-  const requestStartTime = Date.now();
-  let runDuration = 0;
-  let runError: string | undefined;
-
-  try {
-    const { lookoutId, prompt, userId } = await req.json();
-
-    console.log('--------------------------------');
-    console.log('Lookout ID:', lookoutId);
-    console.log('User ID:', userId);
-    console.log('Prompt:', prompt);
-    console.log('--------------------------------');
-
-    // Verify lookout exists and get details with retry logic
-    let lookout: any = null;
-    let retryCount = 0;
-    const maxRetries = 3;
-
-    while (!lookout && retryCount < maxRetries) {
-      lookout = await getLookoutById({ id: lookoutId });
-      if (!lookout) {
-        retryCount++;
-        if (retryCount < maxRetries) {
-          console.log(`Lookout not found on attempt ${retryCount}, retrying in ${retryCount * 500}ms...`);
-          await new Promise((resolve) => setTimeout(resolve, retryCount * 500)); // Exponential backoff
-        }
-      }
-    }
-
-    if (!lookout) {
-      console.error('Lookout not found after', maxRetries, 'attempts:', lookoutId);
-      return new Response('Lookout not found', { status: 404 });
-    }
-
-    // Get user details
-    const userResult = await getUserById(userId);
-    if (!userResult) {
-      console.error('User not found:', userId);
-      return new Response('User not found', { status: 404 });
-    }
-
-    // Check if user is pro (lookouts are a pro feature)
-    const isUserPro = await checkUserIsProById(userId);
-    if (!isUserPro) {
-      console.error('User is not pro, cannot run lookout:', userId);
-      return new Response('Lookouts require a Pro subscription', { status: 403 });
-    }
-
-    // Generate a new chat ID for this scheduled search
-    const chatId = uuidv7();
-    const streamId = 'stream-' + uuidv7();
-
-    // Create the chat
-    await saveChat({
-      id: chatId,
-      userId: userResult.id,
-      title: `Scheduled: ${lookout.title}`,
-      visibility: 'private',
-    });
-
-    // Create user message
-    const userMessage = {
-      id: uuidv7(),
-      role: 'user' as const,
-      content: prompt,
-      parts: [{ type: 'text' as const, text: prompt }],
-      experimental_attachments: [],
-    };
-
-    // Save user message and create stream ID
-    await Promise.all([
-      saveMessages({
-        messages: [
-          {
-            chatId,
-            id: userMessage.id,
-            role: 'user',
-            parts: userMessage.parts,
-            attachments: [],
-            createdAt: new Date(),
-            model: 'rovo-grok-4-fast-think',
-            completionTime: null,
-            inputTokens: null,
-            outputTokens: null,
-            totalTokens: null,
-          },
-        ],
-      }),
-      createStreamId({ streamId, chatId }),
-    ]);
-
-    // Set lookout status to running
-    await updateLookoutStatus({
-      id: lookoutId,
-      status: 'running',
-    });
-
-    // Create data stream with execute function
-    const stream = createUIMessageStream<ChatMessage>({
-      execute: async ({ writer: dataStream }) => {
-        const streamStartTime = Date.now();
-
-        // Start streaming
-        const result = streamText({
-          model: rovo.languageModel('rovo-grok-4-fast-think'),
-          messages: await convertToModelMessages([userMessage]),
-          stopWhen: stepCountIs(2),
-          maxRetries: 10,
-          activeTools: ['extreme_search'],
-          system: `# Rovo AI Scheduled Research Assistant
+// Extreme lookouts keep their research-paper report format
+function getExtremeLookoutInstructions() {
+  return `# Rovo AI Scheduled Research Assistant
 
 You are an advanced research assistant focused on deep analysis and comprehensive understanding with focus to be backed by citations in a 3-page research paper format.
 
@@ -361,17 +248,222 @@ $$
 - ❌ **UNFORMATTED CODE**: Never show code without proper \`\`\`language blocks
 - ❌ **PLAIN TABLES**: Never use plain text for tabular data - use markdown tables
 - ❌ **SHORT RESPONSES**: Never write brief responses - aim for 3-page research paper format
-- ❌ **BULLET-POINT RESPONSES**: Use paragraphs for main content, bullets only for Key Points section`,
-          toolChoice: 'auto',
-          tools: {
-            extreme_search: extremeSearchTool(dataStream),
+- ❌ **BULLET-POINT RESPONSES**: Use paragraphs for main content, bullets only for Key Points section`;
+}
+
+// Other groups answer with their own instructions; change detection and deliveries summarise from the Key Points
+const SCHEDULED_RUN_INSTRUCTIONS = `
+
+## Scheduled run
+- This question was scheduled by the user and runs without them present, so never ask for clarification; make the best interpretation and answer
+- Run the tools you need straight away, then write the report
+- ⚠️ **MANDATORY**: Start the response with a "## Key Points" heading followed by a bulleted list of the main findings, then continue in the format above`;
+
+let globalStreamContext: ResumableStreamContext | null = null;
+
+function getStreamContext() {
+  if (!globalStreamContext) {
+    try {
+      globalStreamContext = createResumableStreamContext({
+        waitUntil: after,
+      });
+    } catch (error: any) {
+      if (error.message.includes('REDIS_URL')) {
+        console.log(' > Resumable streams are disabled due to missing REDIS_URL');
+      } else {
+        console.error(error);
+      }
+    }
+  }
+
+  return globalStreamContext;
+}
+
+export async function POST(req: Request) {
+  console.log('🔍 Lookout API endpoint hit');
+
+  const requestStartTime = Date.now();
+  let runDuration = 0;
+  let runError: string | undefined;
+  // Set once the run holds the lookout, so failures before the stream starts can release it
+  let claimedRun: { id: string; idleStatus: 'active' | 'paused' } | undefined;
+
+  try {
+    const body = await req.text();
+    if (!(await isLookoutRunAuthorized(req, body))) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+    const { lookoutId, userId } = JSON.parse(body);
+
+    console.log('--------------------------------');
+    console.log('Lookout ID:', lookoutId);
+    console.log('User ID:', userId);
+    console.log('--------------------------------');
+
+    // Verify lookout exists and get details with retry logic
+    let lookout: any = null;
+    let retryCount = 0;
+    const maxRetries = 3;
+
+    while (!lookout && retryCount < maxRetries) {
+      lookout = await getLookoutById({ id: lookoutId });
+      if (!lookout) {
+        retryCount++;
+        if (retryCount < maxRetries) {
+          console.log(`Lookout not found on attempt ${retryCount}, retrying in ${retryCount * 500}ms...`);
+          await new Promise((resolve) => setTimeout(resolve, retryCount * 500)); // Exponential backoff
+        }
+      }
+    }
+
+    if (!lookout) {
+      console.error('Lookout not found after', maxRetries, 'attempts:', lookoutId);
+      return new Response('Lookout not found', { status: 404 });
+    }
+
+    if (lookout.userId !== userId) {
+      console.error('Lookout does not belong to user:', lookoutId, userId);
+      return new Response('Lookout not found', { status: 404 });
+    }
+    const prompt: string = lookout.prompt;
+
+    // Get user details
+    const userResult = await getUserById(userId);
+    if (!userResult) {
+      console.error('User not found:', userId);
+      return new Response('User not found', { status: 404 });
+    }
+
+    // Check if user is pro (lookouts are a pro feature)
+    const isUserPro = await checkUserIsProById(userId);
+    if (!isUserPro) {
+      console.error('User is not pro, cannot run lookout:', userId);
+      return new Response('Lookouts require a Pro subscription', { status: 403 });
+    }
+
+    const searchGroup: LookoutSearchGroup = lookout.searchGroup;
+    // A model that has since been retired falls back to the default rather than failing the run
+    const model: string = getModelConfig(lookout.model) ? lookout.model : DEFAULT_LOOKOUT_MODEL;
+
+    // Extreme lookouts count against the plan's extreme search quota
+    const plan = await getUserPlan({ isProUser: isUserPro, email: userResult.email });
+    if (searchGroup === 'extreme' && !isUnlimited(plan, 'extremeSearches')) {
+      const extremeSearchCount = await getExtremeSearchCount({ userId: userResult.id });
+      if (!isWithinQuota(plan, 'extremeSearches', extremeSearchCount)) {
+        console.error('Extreme search quota exhausted, skipping lookout run:', lookoutId);
+        return new ChatSDKError('rate_limit:chat', getQuotaExceededMessage(plan, 'extremeSearches')).toResponse();
+      }
+    }
+
+    // Only one run of a lookout at a time, whichever scheduler or test run started it
+    const claimedLookout = await claimLookoutRun({
+      id: lookoutId,
+      staleBefore: new Date(Date.now() - LOOKOUT_RUN_STALE_MS),
+    });
+    if (!claimedLookout) {
+      console.log('Lookout is already running or archived, skipping:', lookoutId);
+      return new Response('Lookout is already running', { status: 409 });
+    }
+
+    // Status to go back to once the run ends; one-time lookouts don't run again on their own
+    const idleStatus = lookout.frequency === 'once' || lookout.status === 'paused' ? 'paused' : 'active';
+    claimedRun = { id: lookoutId, idleStatus };
+
+    // Generate a new chat ID for this scheduled search
+    const chatId = uuidv7();
+    const streamId = 'stream-' + uuidv7();
+
+    // Scheduled runs search with the same providers and budget the user picked in settings
+    const [userPreferences, { tools: activeTools, instructions }] = await Promise.all([
+      getUserPreferencesByUserId({ userId: userResult.id }),
+      getGroupConfig(searchGroup, { userId: userResult.id, email: userResult.email, isProUser: isUserPro }),
+    ]);
+    const searchProvider = userPreferences?.preferences?.['rovo-search-provider'] ?? 'exa';
+    const extremeSearchProvider = userPreferences?.preferences?.['rovo-extreme-search-provider'] ?? 'exa';
+    const extremeSearchBudget = clampExtremeSearchBudget(
+      plan,
+      userPreferences?.preferences?.['rovo-extreme-search-budget'],
+    );
+
+    // Create the chat
+    await saveChat({
+      id: chatId,
+      userId: userResult.id,
+      title: `Scheduled: ${lookout.title}`,
+      visibility: 'private',
+    });
+
+    // Create user message
+    const userMessage = {
+      id: uuidv7(),
+      role: 'user' as const,
+      content: prompt,
+      parts: [{ type: 'text' as const, text: prompt }],
+      experimental_attachments: [],
+    };
+
+    // Save user message and create stream ID
+    await Promise.all([
+      saveMessages({
+        messages: [
+          {
+            chatId,
+            id: userMessage.id,
+            role: 'user',
+            parts: userMessage.parts,
+            attachments: [],
+            createdAt: new Date(),
+            model,
+            completionTime: null,
+            inputTokens: null,
+            outputTokens: null,
+            totalTokens: null,
           },
+        ],
+      }),
+      createStreamId({ streamId, chatId }),
+    ]);
+
+    // Create data stream with execute function
+    const stream = createUIMessageStream<ChatMessage>({
+      execute: async ({ writer: dataStream }) => {
+        const streamStartTime = Date.now();
+
+        // The model behind the latest step, which is a fallback only for steps whose request to the lookout's model
+        // failed; each step is costed with the model that served it
+        let answeringModel = model;
+        let usageCost = 0;
+
+        // Start streaming with the same tools and instructions as the lookout's search group in chat
+        const result = streamText({
+          model: getLanguageModelWithFallbacks(model, (usedModel) => {
+            answeringModel = usedModel;
+          }),
+          messages: await convertToModelMessages([userMessage]),
+          ...getModelParameters(model),
+          ...getModelCallOptions(model),
+          stopWhen: stepCountIs(5),
+          maxRetries: 10,
+          activeTools: filterToolsForModel(model, [...activeTools]),
+          experimental_transform: markdownJoinerTransform(),
+          system:
+            searchGroup === 'extreme' ? getExtremeLookoutInstructions() : instructions + SCHEDULED_RUN_INSTRUCTIONS,
+          toolChoice: 'auto',
+          tools: createSearchTools({
+            dataStream,
+            searchProvider,
+            extremeSearchProvider,
+            extremeSearchBudget,
+            timezone: lookout.timezone,
+            userId: userResult.id,
+          }),
           onChunk(event) {
             if (event.chunk.type === 'tool-call') {
               console.log('Called Tool: ', event.chunk.toolName);
             }
           },
           onStepFinish(event) {
+            usageCost += calculateModelCost(answeringModel, event.usage);
             if (event.warnings) {
               console.log('Warnings: ', event.warnings);
             }
@@ -381,6 +473,24 @@ $$
             console.log('Steps: ', event.steps);
             console.log('Usage: ', event.usage);
 
+            try {
+              const inputTokens = event.totalUsage.inputTokens ?? 0;
+              const outputTokens = event.totalUsage.outputTokens ?? 0;
+              await recordUsage({
+                userId: userResult.id,
+                chatId,
+                source: 'lookout',
+                model: answeringModel,
+                searchGroup,
+                inputTokens,
+                outputTokens,
+                totalTokens: event.totalUsage.totalTokens ?? inputTokens + outputTokens,
+                cost: usageCost,
+              });
+            } catch (error) {
+              console.error('Failed to record usage ledger entry:', error);
+            }
+
             if (event.finishReason === 'stop') {
               try {
                 // Generate title for the chat
@@ -397,9 +507,11 @@ $$
                 });
 
                 // Track extreme search usage
-                const extremeSearchUsed = event.steps?.some((step) =>
-                  step.toolCalls?.some((toolCall) => toolCall.toolName === 'extreme_search'),
-                );
+                const extremeSearchUsed =
+                  searchGroup === 'extreme' &&
+                  event.steps?.some((step) =>
+                    step.toolCalls?.some((toolCall) => toolCall.toolName === 'extreme_search'),
+                  );
 
                 if (extremeSearchUsed) {
                   console.log('Extreme search was used, incrementing count');
@@ -409,12 +521,34 @@ $$
                 // Calculate run duration
                 runDuration = Date.now() - requestStartTime;
 
-                // Count searches performed (look for extreme_search tool calls)
+                // Count searches performed (every tool call the group made)
                 const searchesPerformed =
                   event.steps?.reduce((total, step) => {
-                    return total + (step.toolCalls?.filter((call) => call.toolName === 'extreme_search').length || 0);
+                    return total + (step.toolCalls?.length || 0);
                   }, 0) || 0;
 
+                // Runs with nothing to compare against always notify
+                const comparison = await runComparison;
+                const changes = comparison?.changes;
+                const shouldNotify = !lookout.notifyOnlyOnChange || !changes || changes.materiallyChanged;
+
+                // Send the run to the lookout's webhook, Slack, Discord and feed channels
+                const deliveries =
+                  shouldNotify && lookout.deliveryChannels?.length
+                    ? await deliverLookoutRun(lookout.deliveryChannels, {
+                        lookout: { id: lookoutId, title: lookout.title },
+                        title,
+                        summary: getReportSummary(event.text),
+                        sources: getResearchSources(event.steps.flatMap((step) => step.toolResults)).map((source) => ({
+                          url: source.url,
+                          title: source.title,
+                        })),
+                        whatsNew: changes?.materiallyChanged ? changes.whatsNew : undefined,
+                        chatId,
+                        runAt: new Date(),
+                      })
+                    : [];
+
                 // Update lookout with last run info including metrics
                 await updateLookoutLastRun({
                   id: lookoutId,
@@ -424,23 +558,16 @@ $$
                   duration: runDuration,
                   tokensUsed: event.usage?.totalTokens,
                   searchesPerformed,
+                  ...comparison?.snapshot,
+                  changed: changes?.materiallyChanged,
+                  notified: shouldNotify && Boolean(userResult.email),
+                  deliveries,
                 });
 
                 // Calculate next run time for recurring lookouts
                 if (lookout.frequency !== 'once' && lookout.cronSchedule) {
                   try {
-                    const options = {
-                      currentDate: new Date(),
-                      tz: lookout.timezone,
-                    };
-
-                    // Strip CRON_TZ= prefix if present
-                    const cleanCronSchedule = lookout.cronSchedule.startsWith('CRON_TZ=')
-                      ? lookout.cronSchedule.split(' ').slice(1).join(' ')
-                      : lookout.cronSchedule;
-
-                    const interval = CronExpressionParser.parse(cleanCronSchedule, options);
-                    const nextRunAt = interval.next().toDate();
+                    const nextRunAt = calculateNextRun(lookout.cronSchedule, lookout.timezone);
 
                     await updateLookout({
                       id: lookoutId,
@@ -449,16 +576,12 @@ $$
                   } catch (error) {
                     console.error('Error calculating next run time:', error);
                   }
-                } else if (lookout.frequency === 'once') {
-                  // Mark one-time lookouts as paused after running
-                  await updateLookoutStatus({
-                    id: lookoutId,
-                    status: 'paused',
-                  });
                 }
 
                 // Send completion email to user
-                if (userResult.email) {
+                if (!shouldNotify) {
+                  console.log('📧 Nothing materially changed since the last run, skipping email and deliveries');
+                } else if (userResult.email) {
                   try {
                     // Extract assistant response - use event.text which contains the full response
                     let assistantResponseText = event.text || '';
@@ -492,22 +615,40 @@ $$
                       chatTitle: title,
                       assistantResponse: finalResponse,
                       chatId,
+                      changes: changes?.materiallyChanged ? changes : undefined,
                     });
                   } catch (emailError) {
                     console.error('Failed to send completion email:', emailError);
                   }
                 }
 
-                // Set lookout status back to active after successful completion
-                await updateLookoutStatus({
-                  id: lookoutId,
-                  status: 'active',
-                });
-
                 console.log('Scheduled search completed successfully');
               } catch (error) {
                 console.error('Error in onFinish:', error);
               }
+            } else {
+              try {
+                await updateLookoutLastRun({
+                  id: lookoutId,
+                  lastRunAt: new Date(),
+                  lastRunChatId: chatId,
+                  runStatus: 'error',
+                  error: `Run ended with finish reason ${event.finishReason}`,
+                  duration: Date.now() - requestStartTime,
+                });
+              } catch (updateError) {
+                console.error('Failed to update lookout with error info:', updateError);
+              }
+            }
+
+            // Release the lookout however the run finished
+            try {
+              await updateLookoutStatus({
+                id: lookoutId,
+                status: idleStatus,
+              });
+            } catch (statusError) {
+              console.error('Failed to reset lookout status after run:', statusError);
             }
 
             // Calculate and log overall request processing time
@@ -538,13 +679,13 @@ $$
               console.error('Failed to update lookout with error info:', updateError);
             }
 
-            // Set lookout status back to active on error
+            // Release the lookout on error
             try {
               await updateLookoutStatus({
                 id: lookoutId,
-                status: 'active',
+                status: idleStatus,
               });
-              console.log('Reset lookout status to active after error');
+              console.log(`Reset lookout status to ${idleStatus} after error`);
             } catch (statusError) {
               console.error('Failed to reset lookout status after error:', statusError);
             }
@@ -557,6 +698,22 @@ $$
           },
         });
 
+        // Compared with the previous run once the report is written; onFinish waits for it before emailing
+        const runComparison = (async () => {
+          try {
+            const steps = await result.steps;
+            const report = await result.text;
+            const sources = getResearchSources(steps.flatMap((step) => step.toolResults));
+            return {
+              snapshot: getRunSnapshot(report, sources),
+              changes: await compareWithPreviousRun({ lookout, report, sources }),
+            };
+          } catch (error) {
+            console.error('Skipping lookout change detection:', error);
+            return null;
+          }
+        })();
+
         result.consumeStream();
 
         dataStream.merge(
@@ -567,7 +724,8 @@ $$
                 console.log('Finish part: ', part);
                 const processingTime = (Date.now() - streamStartTime) / 1000;
                 return {
-                  model: 'rovo-grok-4-fast-think',
+                  model: answeringModel,
+                  ...(answeringModel !== model ? { requestedModel: model } : {}),
                   completionTime: processingTime,
                   createdAt: new Date().toISOString(),
                   totalTokens: part.totalUsage?.totalTokens ?? null,
@@ -578,6 +736,26 @@ $$
             },
           }),
         );
+
+        // What's new since the previous run, shown above the citation check
+        const comparison = await runComparison;
+        if (comparison?.changes) {
+          dataStream.write({ type: 'data-lookout_changes', data: comparison.changes });
+        }
+
+        // Check the report's citations against the sources extreme search actually retrieved
+        if (searchGroup === 'extreme') {
+          try {
+            const steps = await result.steps;
+            await streamCitationVerification(
+              dataStream,
+              await result.text,
+              getResearchSources(steps.flatMap((step) => step.toolResults)),
+            );
+          } catch (error) {
+            console.error('Skipping citation verification:', error);
+          }
+        }
       },
       onError(error) {
         console.log('Error: ', error);
@@ -598,7 +776,7 @@ $$
                 createdAt: new Date(),
                 attachments: [],
                 chatId: chatId,
-                model: 'rovo-grok-4-fast-think',
+                model: message.metadata?.model ?? model,
                 completionTime: message.metadata?.completionTime ?? 0,
                 inputTokens: message.metadata?.inputTokens ?? 0,
                 outputTokens: message.metadata?.outputTokens ?? 0,
@@ -623,6 +801,11 @@ $$
     }
   } catch (error) {
     console.error('Error in lookout API:', error);
+    if (claimedRun) {
+      await updateLookoutStatus({ id: claimedRun.id, status: claimedRun.idleStatus }).catch((statusError) =>
+        console.error('Failed to reset lookout status after error:', statusError),
+      );
+    }
     return new Response('Internal server error', { status: 500 });
   }
 }
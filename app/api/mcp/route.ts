@@ -0,0 +1,39 @@
+// Model Context Protocol endpoint (streamable HTTP, stateless). Authenticates with a personal API key
+// and exposes rovo's search tools to external agents such as Claude Desktop or Cursor.
+
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import { getApiKeyUser, getBearerToken } from '@/lib/api-keys';
+import { ChatSDKError } from '@/lib/errors';
+import { createMcpServer } from '@/lib/mcp-server';
+
+export const maxDuration = 300;
+
+async function handleMcpRequest(req: Request) {
+  if (!getBearerToken(req)) {
+    return new ChatSDKError('unauthorized:api', 'Missing API key').toResponse();
+  }
+
+  const user = await getApiKeyUser(req);
+  if (!user) {
+    return new ChatSDKError('unauthorized:api', 'Invalid API key').toResponse();
+  }
+
+  const server = createMcpServer(user, { timezone: req.headers.get('x-timezone') ?? undefined });
+  const transport = new WebStandardStreamableHTTPServerTransport({
+    sessionIdGenerator: undefined,
+    enableJsonResponse: true,
+  });
+
+  try {
+    await server.connect(transport);
+    return await transport.handleRequest(req);
+  } catch (error) {
+    console.error('MCP request failed:', error);
+    return Response.json(
+      { jsonrpc: '2.0', error: { code: -32603, message: 'Internal server error' }, id: null },
+      { status: 500 },
+    );
+  }
+}
+
+export { handleMcpRequest as GET, handleMcpRequest as POST, handleMcpRequest as DELETE };
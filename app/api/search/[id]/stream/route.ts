@@ -1,22 +1,173 @@
 import { auth } from '@/lib/auth';
-import { getChatById, getMessagesByChatId, getStreamIdsByChatId } from '@/lib/db/queries';
-import type { Chat } from '@/lib/db/schema';
+import {
+  claimInterruptedExtremeSearchRun,
+  getChatById,
+  getMessagesByChatId,
+  getStreamIdsByChatId,
+  recordUsage,
+  saveMessages,
+} from '@/lib/db/queries';
+import type { Chat, ExtremeSearchRun } from '@/lib/db/schema';
 import { ChatSDKError } from '@/lib/errors';
 import type { ChatMessage } from '@/lib/types';
-import { createUIMessageStream, JsonToSseTransformStream } from 'ai';
+import { INTERRUPTED_RUN_STALE_MS } from '@/lib/extreme-search-runs';
+import { getResearchSources, streamCitationVerification } from '@/lib/citation-verification';
+import { resumeExtremeSearch } from '@/lib/tools/extreme-search';
+import { getGroupConfig } from '@/app/actions';
+import { rovo, calculateModelCost, getModelCallOptions } from '@/ai/providers';
+import {
+  convertToModelMessages,
+  createUIMessageStream,
+  generateId,
+  JsonToSseTransformStream,
+  streamText,
+  type JSONValue,
+} from 'ai';
 import { getStreamContext } from '../../route';
 import { differenceInSeconds } from 'date-fns';
 
+// Finishes research whose function died mid-run, then writes the report, as a new assistant message
+function resumeInterruptedExtremeSearch(run: ExtremeSearchRun) {
+  const streamStartTime = Date.now();
+
+  return createUIMessageStream<ChatMessage>({
+    execute: async ({ writer }) => {
+      writer.write({ type: 'start', messageId: generateId() });
+      writer.write({
+        type: 'tool-input-available',
+        toolCallId: run.toolCallId,
+        toolName: 'extreme_search',
+        input: { prompt: run.prompt },
+      });
+
+      const output = await resumeExtremeSearch(run, writer);
+      writer.write({ type: 'tool-output-available', toolCallId: run.toolCallId, output });
+
+      const history = await getMessagesByChatId({ id: run.chatId });
+      const { instructions } = await getGroupConfig('extreme');
+      let usageCost = 0;
+
+      const result = streamText({
+        model: rovo.languageModel(run.model),
+        ...getModelCallOptions(run.model),
+        system: instructions,
+        messages: [
+          ...(await convertToModelMessages(
+            history.map((message) => ({
+              id: message.id,
+              role: message.role as ChatMessage['role'],
+              parts: message.parts as ChatMessage['parts'],
+            })),
+            { ignoreIncompleteToolCalls: true },
+          )),
+          {
+            role: 'assistant',
+            content: [
+              {
+                type: 'tool-call',
+                toolCallId: run.toolCallId,
+                toolName: 'extreme_search',
+                input: { prompt: run.prompt },
+              },
+            ],
+          },
+          {
+            role: 'tool',
+            content: [
+              {
+                type: 'tool-result',
+                toolCallId: run.toolCallId,
+                toolName: 'extreme_search',
+                output: { type: 'json', value: output as unknown as JSONValue },
+              },
+            ],
+          },
+        ],
+        onStepFinish(event) {
+          usageCost += calculateModelCost(run.model, event.usage);
+        },
+        // The report of a resumed run is billed like the one /api/search would have written
+        onFinish: async (event) => {
+          try {
+            const inputTokens = event.totalUsage.inputTokens ?? 0;
+            const outputTokens = event.totalUsage.outputTokens ?? 0;
+            await recordUsage({
+              userId: run.userId,
+              chatId: run.chatId,
+              source: 'search',
+              model: run.model,
+              searchGroup: 'extreme',
+              inputTokens,
+              outputTokens,
+              totalTokens: event.totalUsage.totalTokens ?? inputTokens + outputTokens,
+              cost: usageCost,
+            });
+          } catch (error) {
+            console.error('Failed to record usage ledger entry:', error);
+          }
+        },
+      });
+
+      writer.merge(
+        result.toUIMessageStream({
+          sendStart: false,
+          messageMetadata: ({ part }) => {
+            if (part.type === 'finish') {
+              return {
+                model: run.model,
+                completionTime: (Date.now() - streamStartTime) / 1000,
+                createdAt: new Date().toISOString(),
+                totalTokens: part.totalUsage?.totalTokens ?? null,
+                inputTokens: part.totalUsage?.inputTokens ?? null,
+                outputTokens: part.totalUsage?.outputTokens ?? null,
+              };
+            }
+          },
+        }),
+      );
+
+      try {
+        await streamCitationVerification(
+          writer,
+          await result.text,
+          getResearchSources([{ toolName: 'extreme_search', output }]),
+        );
+      } catch (error) {
+        console.error('Skipping citation verification:', error);
+      }
+    },
+    onError(error) {
+      console.error('Error resuming extreme search:', error);
+      return 'Oops, an error occurred while resuming the research!';
+    },
+    onFinish: async ({ responseMessage }) => {
+      await saveMessages({
+        messages: [
+          {
+            id: responseMessage.id,
+            role: responseMessage.role,
+            parts: responseMessage.parts,
+            createdAt: new Date(),
+            attachments: [],
+            chatId: run.chatId,
+            model: run.model,
+            completionTime: responseMessage.metadata?.completionTime ?? 0,
+            inputTokens: responseMessage.metadata?.inputTokens ?? 0,
+            outputTokens: responseMessage.metadata?.outputTokens ?? 0,
+            totalTokens: responseMessage.metadata?.totalTokens ?? 0,
+          },
+        ],
+      });
+    },
+  });
+}
+
 export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
   const { id: chatId } = await params;
 
   const streamContext = getStreamContext();
   const resumeRequestedAt = new Date();
 
-  if (!streamContext) {
-    return new Response(null, { status: 204 });
-  }
-
   if (!chatId) {
     return new ChatSDKError('bad_request:api').toResponse();
   }
@@ -46,6 +197,27 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
     return new ChatSDKError('forbidden:chat').toResponse();
   }
 
+  // Research that stopped checkpointing belongs to a function that died; its owner picks it back up here
+  if (chat.userId === session.user.id) {
+    const interruptedRun = await claimInterruptedExtremeSearchRun({
+      chatId,
+      staleBefore: new Date(Date.now() - INTERRUPTED_RUN_STALE_MS),
+    }).catch((error) => {
+      console.error('Failed to check for interrupted extreme search:', error);
+      return null;
+    });
+
+    if (interruptedRun) {
+      return new Response(resumeInterruptedExtremeSearch(interruptedRun).pipeThrough(new JsonToSseTransformStream()), {
+        status: 200,
+      });
+    }
+  }
+
+  if (!streamContext) {
+    return new Response(null, { status: 204 });
+  }
+
   const streamIds = await getStreamIdsByChatId({ chatId });
 
   if (!streamIds.length) {
@@ -17,22 +17,26 @@ import {
   stepCountIs,
   JsonToSseTransformStream,
 } from 'ai';
-import { createMemoryTools } from '@/lib/tools/supermemory';
 import {
   rovo,
+  getLanguageModelWithFallbacks,
   requiresAuthentication,
   requiresProSubscription,
   shouldBypassRateLimits,
   getModelParameters,
-  getMaxOutputTokens,
+  getModelCallOptions,
+  filterToolsForModel,
+  calculateModelCost,
 } from '@/ai/providers';
 import {
   createStreamId,
   getChatByIdForValidation,
   saveChat,
   saveMessages,
+  linkAttachmentsToChat,
   incrementExtremeSearchUsage,
   incrementMessageUsage,
+  recordUsage,
 } from '@/lib/db/queries';
 import { ChatSDKError } from '@/lib/errors';
 import { createResumableStreamContext, type ResumableStreamContext } from 'resumable-stream';
@@ -41,44 +45,21 @@ import { CustomInstructions } from '@/lib/db/schema';
 import { v7 as uuidv7 } from 'uuid';
 import { geolocation } from '@vercel/functions';
 
+import { createSearchTools } from '@/lib/tools/registry';
+import { expandDocumentParts } from '@/lib/document-extraction';
 import {
-  stockChartTool,
-  currencyConverterTool,
-  xSearchTool,
-  textTranslateTool,
-  webSearchTool,
-  movieTvSearchTool,
-  trendingMoviesTool,
-  trendingTvTool,
-  academicSearchTool,
-  youtubeSearchTool,
-  retrieveTool,
-  weatherTool,
-  codeInterpreterTool,
-  findPlaceOnMapTool,
-  nearbyPlacesSearchTool,
-  flightTrackerTool,
-  coinDataTool,
-  coinDataByContractTool,
-  coinOhlcTool,
-  datetimeTool,
-  greetingTool,
-  // mcpSearchTool,
-  redditSearchTool,
-  extremeSearchTool,
-  createConnectorsSearchTool,
-  codeContextTool,
-} from '@/lib/tools';
-import { GroqProviderOptions } from '@ai-sdk/groq';
+  getAttachmentInstructions,
+  indexChatAttachments,
+  replaceLargeAttachmentParts,
+  type IndexedAttachment,
+} from '@/lib/attachment-index';
+import { getResearchSources, streamCitationVerification } from '@/lib/citation-verification';
 import { markdownJoinerTransform } from '@/lib/parser';
 import { ChatMessage } from '@/lib/types';
-import { OpenAIResponsesProviderOptions } from '@ai-sdk/openai';
-import { AnthropicProviderOptions } from '@ai-sdk/anthropic';
 import { getCachedCustomInstructionsByUserId, getCachedUserPreferencesByUserId } from '@/lib/user-data-server';
-import { GoogleGenerativeAIProviderOptions } from '@ai-sdk/google';
-import { unauthenticatedRateLimit, getClientIdentifier } from '@/lib/rate-limit';
-import { CohereChatModelOptions } from '@ai-sdk/cohere';
-import { XaiProviderOptions } from '@ai-sdk/xai';
+import { unauthenticatedRateLimit, getClientIdentifier, getUserPlan, assertWithinQuota } from '@/lib/rate-limit';
+import { clampExtremeSearchBudget, getQuotaExceededMessage, isUnlimited } from '@/lib/quotas';
+import { getApiKeyUser, getBearerToken } from '@/lib/api-keys';
 
 let globalStreamContext: ResumableStreamContext | null = null;
 
@@ -105,6 +86,7 @@ interface ChatInitializationParams {
   selectedVisibilityType: any;
   messages: any[];
   model: string;
+  group: string;
 }
 
 function initializeChatAndChecks({
@@ -117,6 +99,7 @@ function initializeChatAndChecks({
   selectedVisibilityType,
   messages,
   model,
+  group,
 }: ChatInitializationParams): {
   criticalChecksPromise: Promise<CriticalChecksResult>;
   chatInitializationPromise: Promise<{ isNewChat: boolean; chatTitle?: string }>;
@@ -153,8 +136,14 @@ function initializeChatAndChecks({
   let criticalChecksPromise: Promise<CriticalChecksResult>;
 
   if (isProUser) {
-    // Pro users: only validate ownership, skip usage checks
-    criticalChecksPromise = Promise.all([fullUserPromise, validatedChatPromise]).then(([user]) => {
+    // Pro users: validate ownership; only plans with a finite extreme search quota are checked
+    criticalChecksPromise = Promise.all([fullUserPromise, validatedChatPromise]).then(async ([user]) => {
+      const plan = await getUserPlan(user);
+      if (group === 'extreme' && !isUnlimited(plan, 'extremeSearches')) {
+        const extremeSearchUsage = await getExtremeSearchUsageCount(user);
+        assertWithinQuota(plan, 'extremeSearches', extremeSearchUsage.count);
+      }
+
       return {
         canProceed: true,
         isProUser: true,
@@ -190,9 +179,13 @@ function initializeChatAndChecks({
           throw new ChatSDKError('bad_request:api', 'Failed to verify extreme search usage limits');
         }
 
+        const plan = await getUserPlan(user);
         const shouldBypassLimits = shouldBypassRateLimits(model, user);
-        if (!shouldBypassLimits && messageCountResult.count !== undefined && messageCountResult.count >= 100) {
-          throw new ChatSDKError('rate_limit:chat', 'Daily search limit reached');
+        if (!shouldBypassLimits) {
+          assertWithinQuota(plan, 'messages', messageCountResult.count);
+        }
+        if (group === 'extreme') {
+          assertWithinQuota(plan, 'extremeSearches', extremeSearchUsage.count);
         }
 
         return {
@@ -292,6 +285,7 @@ export async function POST(req: Request) {
     isCustomInstructionsEnabled,
     searchProvider,
     extremeSearchProvider,
+    extremeSearchBudget,
     selectedConnectors,
   } = await req.json();
   recordTiming('parse_request_body', opStart);
@@ -306,7 +300,13 @@ export async function POST(req: Request) {
 
   // Start all independent operations in parallel immediately
   opStart = Date.now();
-  const lightweightUserPromise = getLightweightUser();
+  // API key requests (/api/v1) authenticate with a bearer token instead of the session cookie
+  const apiKeyUserPromise = getBearerToken(req) ? getApiKeyUser(req) : null;
+  const lightweightUserPromise = apiKeyUserPromise
+    ? apiKeyUserPromise.then((apiKeyUser) =>
+        apiKeyUser ? { userId: apiKeyUser.id, email: apiKeyUser.email, isProUser: apiKeyUser.isProUser } : null,
+      )
+    : getLightweightUser();
   // Use lightweight validation query - only fetches id and userId
   const chatQueryPromise = getChatByIdForValidation({ id }); // Start immediately - doesn't depend on auth
   const rateLimitPromise = (async () => {
@@ -320,23 +320,27 @@ export async function POST(req: Request) {
   const lightweightUser = await lightweightUserPromise;
   recordTiming('get_lightweight_user', opStart);
 
+  if (apiKeyUserPromise && !lightweightUser) {
+    return new ChatSDKError('unauthorized:api', 'Invalid API key').toResponse();
+  }
+
   // Start full user fetch immediately (doesn't block early exits)
   const isProUser = lightweightUser?.isProUser ?? false;
   opStart = Date.now();
-  const fullUserPromise = lightweightUser ? getCurrentUser() : Promise.resolve(null);
+  const fullUserPromise = apiKeyUserPromise ?? (lightweightUser ? getCurrentUser() : Promise.resolve(null));
   recordTiming('create_full_user_promise', opStart);
 
   // Rate limit check for unauthenticated users (already started in parallel)
   if (!lightweightUser) {
     opStart = Date.now();
-    const { success, limit, reset } = await rateLimitPromise;
+    const { success, reset } = await rateLimitPromise;
     recordTiming('unauthenticated_rate_limit', opStart);
 
     if (!success) {
       const resetDate = new Date(reset);
       return new ChatSDKError(
         'rate_limit:api',
-        `You've reached the limit of ${limit} searches per day for unauthenticated users. Sign in for more searches or wait until ${resetDate.toLocaleString()}.`,
+        `${getQuotaExceededMessage('anonymous', 'messages')} Sign in for more searches or wait until ${resetDate.toLocaleString()}.`,
       ).toResponse();
     }
   }
@@ -381,6 +385,7 @@ export async function POST(req: Request) {
     selectedVisibilityType,
     messages,
     model,
+    group,
   });
   recordTiming('initialize_chat_and_checks', opStart);
 
@@ -432,6 +437,14 @@ export async function POST(req: Request) {
       ],
     });
     recordTiming('save_user_message', opStart);
+
+    // Files sent in a saved chat are kept by orphan cleanup
+    const fileUrls = messages[messages.length - 1].parts.flatMap((part: ChatMessage['parts'][number]) =>
+      part.type === 'file' ? [part.url] : [],
+    );
+    await linkAttachmentsToChat({ chatId: id, userId: user.id, urls: fileUrls }).catch((error) =>
+      console.error('Failed to link attachments to chat:', error),
+    );
   }
 
   const setupTimeMs = Date.now() - requestStartTime;
@@ -443,19 +456,44 @@ export async function POST(req: Request) {
 
   const shouldPrune = messages.length > 10;
 
+  // PDFs and documents are chunked into the chat's retrieval index; large ones are only reachable via search_attachments
+  opStart = Date.now();
+  const indexedAttachments = await indexChatAttachments({ chatId: id, messages, persistent: Boolean(user) }).catch(
+    (error) => {
+      console.error('Failed to index chat attachments:', error);
+      return [] as IndexedAttachment[];
+    },
+  );
+  recordTiming('index_attachments', opStart);
+
+  // Every file sent in the chat is mounted into its code interpreter sandbox
+  const chatFiles = messages.flatMap((message: ChatMessage) =>
+    message.parts.flatMap((part) =>
+      part.type === 'file'
+        ? [{ name: (part as { name?: string }).name ?? part.filename ?? 'attachment', url: part.url }]
+        : [],
+    ),
+  );
+
+  // Document attachments (DOCX, XLSX, CSV, ...) reach the model as extracted text
+  const modelInputMessages = await expandDocumentParts(replaceLargeAttachmentParts(messages, indexedAttachments));
+
   const prunedMessages = shouldPrune
     ? await (async () => {
         console.log(`🔧 Pruning messages: ${messages.length} messages`);
         const pruned = pruneMessages({
           reasoning: 'none',
-          messages: await convertToModelMessages(messages),
+          messages: await convertToModelMessages(modelInputMessages),
           toolCalls: 'before-last-3-messages',
           emptyMessages: 'remove',
         });
         console.log(`✂️ Pruned to ${pruned.length} messages`);
         return pruned;
       })()
-    : await convertToModelMessages(messages);
+    : await convertToModelMessages(modelInputMessages);
+
+  // The request's extreme search budget, capped by plan
+  const allowedExtremeSearchBudget = clampExtremeSearchBudget(await getUserPlan(lightweightUser), extremeSearchBudget);
 
   const stream = createUIMessageStream<ChatMessage>({
     execute: async ({ writer: dataStream }) => {
@@ -468,19 +506,24 @@ export async function POST(req: Request) {
         });
       }
 
+      // The model behind the latest step, which is a fallback only for steps whose request to the selected model
+      // failed; each step is costed with the model that served it
+      let answeringModel: string = model;
+      let usageCost = 0;
+
       const result = streamText({
-        model: rovo.languageModel(model),
+        model: getLanguageModelWithFallbacks(model, (usedModel) => {
+          answeringModel = usedModel;
+        }),
         messages: prunedMessages,
         ...getModelParameters(model),
+        ...getModelCallOptions(model),
         stopWhen: stepCountIs(5),
-        ...(model === "rovo-default" || model === "rovo-grok4.1-fast-thinking" || model === "rovo-glm-4.6" || model === "rovo-glm-4.6v-flash" || model === "rovo-glm-4.6v" ? {
-          maxOutputTokens: getMaxOutputTokens(model),
-        } : {}),
         maxRetries: 10,
-        activeTools:
-          model === 'rovo-qwen-coder-plus'
-            ? [...activeTools].filter((tool) => tool !== 'code_interpreter')
-            : [...activeTools],
+        activeTools: filterToolsForModel(model, [
+          ...activeTools,
+          ...(indexedAttachments.length > 0 ? ['search_attachments'] : []),
+        ]),
         experimental_transform: markdownJoinerTransform(),
         system:
           instructions +
@@ -489,193 +532,9 @@ export async function POST(req: Request) {
             : '\n') +
           (latitude && longitude && userPreferencesResult?.preferences?.['rovo-location-metadata-enabled'] === true
             ? `\n\nThe user's location is ${latitude}, ${longitude}.`
-            : ''),
+            : '') +
+          getAttachmentInstructions(indexedAttachments),
         toolChoice: 'auto',
-        ...(model === 'rovo-anthropic' || model === 'rovo-anthropic-think'
-          ? {
-            headers: {
-              'anthropic-beta': 'context-1m-2025-08-07',
-            },
-          } : {}),
-        providerOptions: {
-          gateway: {
-            only: ['openai', 'google', 'zai', 'arcee-ai', 'deepseek', 'alibaba', 'baseten', 'minimax', 'fireworks', 'bedrock', 'vercel'],
-            ...(model === 'rovo-kimi-k2-v2-thinking' || model === 'rovo-kimi-k2-v2'
-              ? {
-                order: ['baseten', 'fireworks'],
-              }
-              : {}),
-            ...(model === 'rovo-qwen-coder' || model === 'rovo-deepseek-v3' || model === 'rovo-qwen-235'
-              ? {
-                order: ['baseten'],
-              }
-              : {}),
-            ...(model === 'rovo-nova-2-lite'
-              ? {
-                order: ['bedrock'],
-              }
-              : {}),
-          },
-          openai: {
-            ...(model !== 'rovo-qwen-coder'
-              ? {
-                parallelToolCalls: false,
-              }
-              : {}),
-            ...((model === 'rovo-gpt5' ||
-              model === 'rovo-gpt5-mini' ||
-              model === 'rovo-o3' ||
-              model === 'rovo-gpt5-nano' ||
-              model === 'rovo-gpt5-codex' ||
-              model === 'rovo-gpt5-medium' ||
-              model === 'rovo-o4-mini' ||
-              model === 'rovo-gpt-4.1' ||
-              model === 'rovo-gpt-4.1-mini' ||
-              model === 'rovo-gpt-4.1-nano' ||
-              model === 'rovo-gpt-5.1' ||
-              model === 'rovo-gpt-5.1-thinking' ||
-              model === 'rovo-gpt-5.1-codex' ||
-              model === 'rovo-gpt-5.1-codex-mini' ||
-              model === 'rovo-gpt-5.1-codex-max' ||
-              model === 'rovo-gpt-5.2' ||
-              model === 'rovo-gpt-5.2-thinking'
-              ? {
-                reasoningEffort:
-                  model === 'rovo-gpt5-nano' || model === 'rovo-gpt5' || model === 'rovo-gpt5-mini'
-                    ? 'minimal'
-                    : model === 'rovo-gpt-5.1' || model === 'rovo-gpt-5.2'
-                      ? 'none'
-                      : 'medium',
-                parallelToolCalls: false,
-                reasoningSummary: 'detailed',
-                promptCacheKey: 'rovo-oai',
-                ...(model === 'rovo-gpt-5.1' ||
-                  model === 'rovo-gpt-5.2' ||
-                  model === 'rovo-gpt-5.2-thinking' ||
-                  model === 'rovo-gpt-5.1-codex' ||
-                  model === 'rovo-gpt-5.1-codex-mini' ||
-                  model === 'rovo-gpt-5.1-codex-max' ||
-                  model === 'rovo-gpt5' ||
-                  model === 'rovo-gpt5-codex' ||
-                  model === 'rovo-gpt4.1'
-                  ? {
-                    promptCacheRetention: '24h',
-                  }
-                  : {}),
-                store: false,
-                // only for reasoning models
-                ...(model === 'rovo-gpt-5.1' ||
-                  model === 'rovo-gpt-5.1-codex' ||
-                  model === 'rovo-gpt-5.1-codex-mini' ||
-                  model === 'rovo-gpt5' ||
-                  model === 'rovo-gpt5-codex' ||
-                  model === 'rovo-gpt-5.1-thinking' ||
-                  model === 'rovo-gpt5-nano' ||
-                  model === 'rovo-gpt5-mini' ||
-                  model === 'rovo-gpt-5.1-codex-max' ||
-                  model === 'rovo-gpt-5.2' ||
-                  model === 'rovo-gpt-5.2-thinking'
-                  ? {
-                    include: ['reasoning.encrypted_content'],
-                  }
-                  : {}),
-                textVerbosity:
-                  model === 'rovo-o3' ||
-                    model === 'rovo-gpt5-codex' ||
-                    model === 'rovo-gpt-5.1-codex' ||
-                    model === 'rovo-gpt-5.1-codex-mini' ||
-                    model === 'rovo-gpt-5.1-codex-max' ||
-                    model === 'rovo-o4-mini' ||
-                    model === 'rovo-gpt-4.1' ||
-                    model === 'rovo-gpt-4.1-mini' ||
-                    model === 'rovo-gpt-4.1-nano'
-                    ? 'medium'
-                    : 'high',
-              }
-              : {}) satisfies OpenAIResponsesProviderOptions),
-          },
-          deepseek: {
-            parallelToolCalls: false,
-          },
-          groq: {
-            ...(model === 'rovo-gpt-oss-20' || model === 'rovo-gpt-oss-120'
-              ? {
-                reasoningEffort: 'high',
-                reasoningFormat: 'hidden',
-              }
-              : {}),
-            ...(model === 'rovo-qwen-32b'
-              ? {
-                reasoningEffort: 'none',
-              }
-              : {}),
-            parallelToolCalls: false,
-            structuredOutputs: true,
-            serviceTier: 'auto',
-          } satisfies GroqProviderOptions,
-          xai: {
-            parallel_function_calling: false,
-          } satisfies XaiProviderOptions,
-          cohere: {
-            ...(model === 'rovo-cmd-a-think'
-              ? {
-                thinking: {
-                  type: 'enabled',
-                  tokenBudget: 1000,
-                },
-              }
-              : {}),
-          } satisfies CohereChatModelOptions,
-          anthropic: {
-            ...(model === 'rovo-anthropic-think' || model === 'rovo-anthropic-opus-think'
-              ? {
-                sendReasoning: true,
-                thinking: {
-                  type: 'enabled',
-                  budgetTokens: 4000,
-                },
-              }
-              : {}),
-            disableParallelToolUse: true,
-          } satisfies AnthropicProviderOptions,
-          google: {
-            ...(model === 'rovo-google-think' || model === 'rovo-google-pro-think'
-              ? {
-                thinkingConfig: {
-                  thinkingBudget: 400,
-                  includeThoughts: true,
-                },
-              }
-              : {}),
-            ...(model === 'rovo-gemini-3-pro'
-              ? {
-                thinkingConfig: {
-                  thinkingLevel: 'low',
-                  includeThoughts: true,
-                },
-              }
-              : {}),
-            ...(model === 'rovo-gemini-3-flash-think'
-              ? {
-                thinkingConfig: {
-                  thinkingLevel: 'medium',
-                  includeThoughts: true,
-                },
-              }
-              : {}),
-            threshold: 'OFF',
-          } satisfies GoogleGenerativeAIProviderOptions,
-          openrouter: {
-            ...(model === 'rovo-anthropic-think' || model === 'rovo-anthropic-opus-think'
-              ? {
-                reasoning: {
-                  exclude: false,
-                  max_tokens: 400,
-                },
-              }
-              : {}),
-          },
-        },
         prepareStep: async ({ steps }) => {
           // Check if we should disable tool calls (after first tool execution)
           const shouldDisableTools =
@@ -693,50 +552,19 @@ export async function POST(req: Request) {
 
           return undefined;
         },
-        tools: (() => {
-          const baseTools = {
-            stock_chart: stockChartTool,
-            currency_converter: currencyConverterTool,
-            coin_data: coinDataTool,
-            coin_data_by_contract: coinDataByContractTool,
-            coin_ohlc: coinOhlcTool,
-
-            x_search: xSearchTool(dataStream),
-            web_search: webSearchTool(dataStream, searchProvider),
-            academic_search: academicSearchTool(dataStream),
-            youtube_search: youtubeSearchTool,
-            reddit_search: redditSearchTool(dataStream),
-            retrieve: retrieveTool,
-
-            movie_or_tv_search: movieTvSearchTool,
-            trending_movies: trendingMoviesTool,
-            trending_tv: trendingTvTool,
-
-            find_place_on_map: findPlaceOnMapTool,
-            nearby_places_search: nearbyPlacesSearchTool,
-            get_weather_data: weatherTool,
-
-            text_translate: textTranslateTool,
-            ...(model !== 'rovo-qwen-coder-plus' ? { code_interpreter: codeInterpreterTool } : {}),
-            track_flight: flightTrackerTool,
-            datetime: datetimeTool,
-            extreme_search: extremeSearchTool(dataStream, extremeSearchProvider || 'exa'),
-            greeting: greetingTool(timezone),
-            code_context: codeContextTool,
-          };
-
-          if (!user) {
-            return baseTools;
-          }
-
-          const memoryTools = createMemoryTools(user.id);
-          return {
-            ...baseTools,
-            search_memories: memoryTools.searchMemories as any,
-            add_memory: memoryTools.addMemory as any,
-            connectors_search: createConnectorsSearchTool(user.id, selectedConnectors),
-          } as any;
-        })(),
+        tools: createSearchTools({
+          dataStream,
+          searchProvider,
+          extremeSearchProvider: extremeSearchProvider || 'exa',
+          extremeSearchBudget: allowedExtremeSearchBudget,
+          extremeSearchRun: user && group === 'extreme' ? { chatId: id, userId: user.id, model } : undefined,
+          timezone,
+          userId: user?.id,
+          selectedConnectors,
+          chatId: indexedAttachments.length > 0 ? id : undefined,
+          // Only for a signed-in user, whose ownership of the chat was checked above; anonymous runs stay stateless
+          interpreterSession: user ? { chatId: id, userId: user.id, files: chatFiles } : undefined,
+        }),
         experimental_repairToolCall: async ({ toolCall, tools, inputSchema, error }) => {
           if (NoSuchToolError.isInstance(error)) {
             return null;
@@ -783,6 +611,7 @@ export async function POST(req: Request) {
           }
         },
         onStepFinish(event) {
+          usageCost += calculateModelCost(answeringModel, event.usage);
           console.log('Step Request:', event.request);
           if (event.warnings) {
             console.log('Warnings: ', event.warnings);
@@ -813,6 +642,26 @@ export async function POST(req: Request) {
               console.error('Failed to track usage:', error);
             }
           }
+
+          if (user?.id) {
+            try {
+              const inputTokens = event.totalUsage.inputTokens ?? 0;
+              const outputTokens = event.totalUsage.outputTokens ?? 0;
+              await recordUsage({
+                userId: user.id,
+                chatId: id,
+                source: 'search',
+                model: answeringModel,
+                searchGroup: group,
+                inputTokens,
+                outputTokens,
+                totalTokens: event.totalUsage.totalTokens ?? inputTokens + outputTokens,
+                cost: usageCost,
+              });
+            } catch (error) {
+              console.error('Failed to record usage ledger entry:', error);
+            }
+          }
         },
         onError(event) {
           const processingTime = (Date.now() - requestStartTime) / 1000;
@@ -830,7 +679,8 @@ export async function POST(req: Request) {
               console.log('Finish part: ', part);
               const processingTime = (Date.now() - streamStartTime) / 1000;
               return {
-                model: model as string,
+                model: answeringModel,
+                ...(answeringModel !== model ? { requestedModel: model as string } : {}),
                 completionTime: processingTime,
                 createdAt: new Date().toISOString(),
                 totalTokens: part.totalUsage?.totalTokens ?? null,
@@ -841,6 +691,20 @@ export async function POST(req: Request) {
           },
         }),
       );
+
+      // Check the report's citations against the sources extreme search actually retrieved
+      if (group === 'extreme') {
+        try {
+          const steps = await result.steps;
+          await streamCitationVerification(
+            dataStream,
+            await result.text,
+            getResearchSources(steps.flatMap((step) => step.toolResults)),
+          );
+        } catch (error) {
+          console.error('Skipping citation verification:', error);
+        }
+      }
     },
     onError(error) {
       console.log('Error: ', error);
@@ -874,7 +738,7 @@ export async function POST(req: Request) {
             createdAt,
             attachments,
             chatId: id,
-            model: model,
+            model: message.metadata?.model ?? model,
             completionTime: message.metadata?.completionTime ?? 0,
             inputTokens: message.metadata?.inputTokens ?? 0,
             outputTokens: message.metadata?.outputTokens ?? 0,
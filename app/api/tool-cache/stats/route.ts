@@ -0,0 +1,20 @@
+import { serverEnv } from '@/env/server';
+import { getToolCacheStats } from '@/lib/tool-cache';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Tool cache hit/miss counts per tool, for operators; authorized with the cron secret
+export async function GET(req: NextRequest) {
+  if (req.headers.get('Authorization') !== `Bearer ${serverEnv.CRON_SECRET}`) {
+    return new NextResponse('Unauthorized', { status: 401 });
+  }
+
+  const stats = await getToolCacheStats();
+  const tools = Object.fromEntries(
+    Object.entries(stats).map(([toolName, { hits, misses }]) => [
+      toolName,
+      { hits, misses, hitRate: hits + misses > 0 ? hits / (hits + misses) : 0 },
+    ]),
+  );
+
+  return NextResponse.json({ tools });
+}
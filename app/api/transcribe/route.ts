@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 
 import { openai } from '@ai-sdk/openai';
 import { experimental_transcribe as transcribe } from 'ai';
+import { ChatSDKError } from '@/lib/errors';
+import { consumeQuota, getClientIdentifier, getRemainingQuota, getUserPlan } from '@/lib/rate-limit';
+import { getQuotaExceededMessage } from '@/lib/quotas';
+import { getLightweightUserAuth } from '@/lib/user-data-server';
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,6 +16,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No audio file found in form data.' }, { status: 400 });
     }
 
+    // Voice minutes are checked up front and charged once the audio duration is known
+    const user = await getLightweightUserAuth();
+    const plan = await getUserPlan(user);
+    const identifier = user ? `user:${user.userId}` : getClientIdentifier(request);
+    if ((await getRemainingQuota(plan, 'voiceMinutes', identifier)) <= 0) {
+      return new ChatSDKError('rate_limit:api', getQuotaExceededMessage(plan, 'voiceMinutes')).toResponse();
+    }
+
     const result = await transcribe({
       model: openai.transcription('gpt-4o-transcribe'),
       audio: await audio.arrayBuffer(),
@@ -19,6 +31,8 @@ export async function POST(request: NextRequest) {
 
     console.log(result);
 
+    await consumeQuota(plan, 'voiceMinutes', identifier, Math.max(1, Math.ceil((result.durationInSeconds ?? 0) / 60)));
+
     return NextResponse.json({ text: result.text });
   } catch (error) {
     console.error('Error processing transcription request:', error);
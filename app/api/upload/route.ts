@@ -1,8 +1,21 @@
-import { put, del } from '@vercel/blob';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 
 import { auth } from '@/lib/auth';
+import { deleteAttachmentsByIds, getAttachmentByUrl, getUserStorageUsage, saveAttachment } from '@/lib/db/queries';
+import { extractDocument, type ExtractedDocument } from '@/lib/document-extraction';
+import { getDocumentKind, getDocumentMediaType } from '@/lib/documents';
+import { ChatSDKError } from '@/lib/errors';
+import type { Plan } from '@/lib/quotas';
+import {
+  assertQuotaRemaining,
+  assertWithinQuota,
+  consumeQuota,
+  getClientIdentifier,
+  getUserPlan,
+} from '@/lib/rate-limit';
+import { createStorageKey, getStorage } from '@/lib/storage';
+import { getLightweightUserAuth } from '@/lib/user-data-server';
 
 // File validation schema
 const FileSchema = z.object({
@@ -14,10 +27,13 @@ const FileSchema = z.object({
     .refine(
       (file) => {
         const validTypes = ['image/jpeg', 'image/png', 'image/gif', 'application/pdf'];
-        return validTypes.includes(file.type);
+        return (
+          validTypes.includes(file.type) ||
+          getDocumentKind({ type: file.type, name: file instanceof File ? file.name : undefined }) !== null
+        );
       },
       {
-        message: 'File type should be JPEG, PNG, GIF or PDF',
+        message: 'File type should be JPEG, PNG, GIF, PDF, DOCX, XLSX, CSV, Markdown or plain text',
       },
     ),
 });
@@ -50,21 +66,74 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: errorMessage }, { status: 400 });
   }
 
+  // Check the plan's upload quota, per user when signed in and per IP otherwise; it is only
+  // consumed once the file is stored, and an unavailable quota store rejects the upload
+  const lightweightUser = isAuthenticated ? await getLightweightUserAuth() : null;
+  const quotaIdentifier = lightweightUser ? `user:${lightweightUser.userId}` : getClientIdentifier(request);
+  let plan: Plan;
+  try {
+    plan = await getUserPlan(lightweightUser);
+    if (lightweightUser) {
+      const usedBytes = await getUserStorageUsage({ userId: lightweightUser.userId });
+      assertWithinQuota(plan, 'storageMb', usedBytes / (1024 * 1024), file.size / (1024 * 1024));
+    }
+    await assertQuotaRemaining(plan, 'uploads', quotaIdentifier);
+  } catch (error) {
+    if (error instanceof ChatSDKError) {
+      return error.toResponse();
+    }
+    console.error('Error checking upload quota:', error);
+    return NextResponse.json({ error: 'Could not verify upload quota' }, { status: 503 });
+  }
+
+  // Documents are extracted up front so unreadable files are rejected before they are stored
+  const documentKind = getDocumentKind(file);
+  let extracted: ExtractedDocument | null = null;
+  if (documentKind) {
+    try {
+      extracted = await extractDocument(file, file.name);
+    } catch (error) {
+      console.error('Error extracting document:', error);
+      return NextResponse.json({ error: `Could not read ${file.name}` }, { status: 400 });
+    }
+  }
+
+  const contentType = documentKind ? getDocumentMediaType(documentKind) : file.type;
+
   try {
     // Use a different prefix for authenticated vs unauthenticated uploads
     const prefix = isAuthenticated ? 'auth' : 'public';
+    const storageKey = createStorageKey(`mplx/${prefix}`, file.name);
+
+    const storage = getStorage();
+    const { url } = await storage.put(storageKey, file, contentType);
+
+    // Every stored file gets a record; files that never end up in a saved chat are removed by /api/clean_images
+    try {
+      await saveAttachment({
+        userId: lightweightUser?.userId ?? null,
+        storageKey,
+        url,
+        name: file.name,
+        contentType,
+        size: file.size,
+      });
+    } catch (error) {
+      await storage.delete([storageKey]).catch(() => {});
+      throw error;
+    }
 
-    const blob = await put(`mplx/${prefix}.${file.name.split('.').pop()}`, file, {
-      access: 'public',
-      addRandomSuffix: true,
+    await consumeQuota(plan, 'uploads', quotaIdentifier).catch((error) => {
+      console.error('Error recording upload quota:', error);
     });
 
     return NextResponse.json({
       name: file.name,
-      contentType: file.type,
-      url: blob.url,
+      contentType,
+      url,
       size: file.size,
       authenticated: isAuthenticated,
+      ...(extracted ? { preview: extracted.preview, truncated: extracted.truncated } : {}),
     });
   } catch (error) {
     console.error('Error uploading file:', error);
@@ -73,16 +142,19 @@ export async function POST(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
-  // Check for authentication but don't require it
-  let isAuthenticated = false;
+  // Only the uploader can delete a file, so anonymous uploads are left to orphan cleanup
+  let userId: string | null = null;
   try {
     const session = await auth.api.getSession({
       headers: request.headers,
     });
-    isAuthenticated = !!session;
+    userId = session?.user?.id ?? null;
   } catch (error) {
     console.warn('Error checking authentication:', error);
-    // Continue as unauthenticated
+  }
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Sign in to delete files' }, { status: 401 });
   }
 
   try {
@@ -93,18 +165,20 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'No URL provided' }, { status: 400 });
     }
 
-    // Validate that the URL is from Vercel Blob
-    if (!url.includes('blob.vercel-storage.com')) {
-      return NextResponse.json({ error: 'Invalid blob URL' }, { status: 400 });
+    const attachment = await getAttachmentByUrl({ url });
+    if (!attachment) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    if (attachment.userId !== userId) {
+      return NextResponse.json({ error: 'You can only delete your own files' }, { status: 403 });
     }
 
-    // Delete the file from Vercel Blob
-    await del(url);
+    await getStorage().delete([attachment.storageKey]);
+    await deleteAttachmentsByIds({ ids: [attachment.id] });
 
     return NextResponse.json({
       success: true,
       message: 'File deleted successfully',
-      authenticated: isAuthenticated,
     });
   } catch (error) {
     console.error('Error deleting file:', error);
@@ -0,0 +1,296 @@
+// OpenAI-compatible chat completions. Authenticates with a personal API key, maps `model` onto the rovo
+// provider and can run a search group's tools through the `rovo.group` extension field.
+
+import { streamText, stepCountIs } from 'ai';
+import { v7 as uuidv7 } from 'uuid';
+import { getExtremeSearchUsageCount, getGroupConfig, getUserMessageCount } from '@/app/actions';
+import {
+  calculateModelCost,
+  filterToolsForModel,
+  getLanguageModelWithFallbacks,
+  getMaxOutputTokens,
+  getModelCallOptions,
+  getModelConfig,
+  getModelParameters,
+  requiresProSubscription,
+  shouldBypassRateLimits,
+} from '@/ai/providers';
+import { getApiKeyUser, getBearerToken } from '@/lib/api-keys';
+import { incrementExtremeSearchUsage, incrementMessageUsage, recordUsage } from '@/lib/db/queries';
+import { ChatSDKError } from '@/lib/errors';
+import {
+  chatCompletionRequestSchema,
+  createCompletionChunk,
+  openAIErrorResponse,
+  toModelMessages,
+  toOpenAIErrorResponse,
+  toOpenAIFinishReason,
+  toOpenAIUsage,
+} from '@/lib/openai-compat';
+import { isUnlimited } from '@/lib/quotas';
+import { assertWithinQuota, getUserPlan } from '@/lib/rate-limit';
+import { createSearchTools } from '@/lib/tools/registry';
+import type { SearchGroupId } from '@/lib/utils';
+
+export const maxDuration = 800;
+
+export async function POST(req: Request) {
+  if (!getBearerToken(req)) {
+    return openAIErrorResponse(
+      401,
+      'Missing API key. Pass it as `Authorization: Bearer <key>`.',
+      'invalid_request_error',
+      'invalid_api_key',
+    );
+  }
+
+  const user = await getApiKeyUser(req);
+  if (!user) {
+    return openAIErrorResponse(401, 'Invalid API key', 'invalid_request_error', 'invalid_api_key');
+  }
+
+  const parsed = chatCompletionRequestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return openAIErrorResponse(
+      400,
+      parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+      'invalid_request_error',
+    );
+  }
+
+  const body = parsed.data;
+  const model = body.model;
+  const group = body.rovo?.group;
+
+  if (!getModelConfig(model)) {
+    return openAIErrorResponse(404, `The model '${model}' does not exist`, 'invalid_request_error', 'model_not_found');
+  }
+
+  let groupConfig: { tools: readonly string[]; instructions: string } | null = null;
+
+  try {
+    if (requiresProSubscription(model) && !user.isProUser) {
+      throw new ChatSDKError('upgrade_required:model');
+    }
+
+    if (group) {
+      groupConfig = await getGroupConfig(
+        group as SearchGroupId,
+        { userId: user.id, email: user.email, isProUser: user.isProUser },
+        Promise.resolve(user),
+      );
+      if (!groupConfig.tools) {
+        return openAIErrorResponse(400, `Unknown search group '${group}'`, 'invalid_request_error');
+      }
+    }
+
+    const plan = await getUserPlan(user);
+
+    if (!shouldBypassRateLimits(model, user) && !isUnlimited(plan, 'messages')) {
+      const messageCount = await getUserMessageCount(user);
+      if (messageCount.error) {
+        throw new ChatSDKError('bad_request:api', 'Failed to verify usage limits');
+      }
+      assertWithinQuota(plan, 'messages', messageCount.count);
+    }
+
+    if (group === 'extreme' && !isUnlimited(plan, 'extremeSearches')) {
+      const extremeSearchUsage = await getExtremeSearchUsageCount(user);
+      if (extremeSearchUsage.error) {
+        throw new ChatSDKError('bad_request:api', 'Failed to verify extreme search usage limits');
+      }
+      assertWithinQuota(plan, 'extremeSearches', extremeSearchUsage.count);
+    }
+  } catch (error) {
+    return toOpenAIErrorResponse(error);
+  }
+
+  const { system, messages } = toModelMessages(body.messages);
+  const requestedMaxTokens = body.max_completion_tokens ?? body.max_tokens;
+  const hasTools = Boolean(groupConfig && groupConfig.tools.length > 0);
+
+  const completionId = `chatcmpl-${uuidv7()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  // The model behind the latest step, which is a fallback only for steps whose request to the selected model
+  // failed; each step is costed with the model that served it
+  let answeringModel: string = model;
+  let usageCost = 0;
+
+  const result = streamText({
+    model: getLanguageModelWithFallbacks(model, (usedModel) => {
+      answeringModel = usedModel;
+    }),
+    messages,
+    system: [groupConfig?.instructions, system].filter(Boolean).join('\n\n') || undefined,
+    ...getModelParameters(model),
+    ...getModelCallOptions(model),
+    ...(body.temperature != null ? { temperature: body.temperature } : {}),
+    ...(body.top_p != null ? { topP: body.top_p } : {}),
+    ...(body.presence_penalty != null ? { presencePenalty: body.presence_penalty } : {}),
+    ...(body.frequency_penalty != null ? { frequencyPenalty: body.frequency_penalty } : {}),
+    ...(requestedMaxTokens ? { maxOutputTokens: Math.min(requestedMaxTokens, getMaxOutputTokens(model)) } : {}),
+    ...(body.stop ? { stopSequences: Array.isArray(body.stop) ? body.stop : [body.stop] } : {}),
+    maxRetries: 3,
+    ...(hasTools && groupConfig
+      ? {
+          tools: createSearchTools({
+            searchProvider: body.rovo?.search_provider,
+            timezone: body.rovo?.timezone,
+            userId: user.id,
+          }),
+          activeTools: filterToolsForModel(model, [...groupConfig.tools]),
+          toolChoice: 'auto' as const,
+          stopWhen: stepCountIs(5),
+        }
+      : {}),
+    abortSignal: req.signal,
+    onStepFinish(event) {
+      usageCost += calculateModelCost(answeringModel, event.usage);
+    },
+    onFinish: async (event) => {
+      if (event.finishReason === 'stop') {
+        try {
+          if (!shouldBypassRateLimits(model, user)) {
+            await incrementMessageUsage({ userId: user.id });
+          }
+
+          if (group === 'extreme') {
+            const extremeSearchUsed = event.steps?.some((step) =>
+              step.toolCalls?.some((toolCall) => toolCall && toolCall.toolName === 'extreme_search'),
+            );
+            if (extremeSearchUsed) {
+              await incrementExtremeSearchUsage({ userId: user.id });
+            }
+          }
+        } catch (error) {
+          console.error('Failed to track usage:', error);
+        }
+      }
+
+      try {
+        const inputTokens = event.totalUsage.inputTokens ?? 0;
+        const outputTokens = event.totalUsage.outputTokens ?? 0;
+        await recordUsage({
+          userId: user.id,
+          source: 'api',
+          model: answeringModel,
+          searchGroup: group,
+          inputTokens,
+          outputTokens,
+          totalTokens: event.totalUsage.totalTokens ?? inputTokens + outputTokens,
+          cost: usageCost,
+        });
+      } catch (error) {
+        console.error('Failed to record usage ledger entry:', error);
+      }
+    },
+    onError(event) {
+      console.error('❌ Chat completion failed:', event.error);
+    },
+  });
+
+  if (!body.stream) {
+    try {
+      const [text, reasoningText, finishReason, usage] = await Promise.all([
+        result.text,
+        result.reasoningText,
+        result.finishReason,
+        result.totalUsage,
+      ]);
+
+      return Response.json({
+        id: completionId,
+        object: 'chat.completion',
+        created,
+        model: answeringModel,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: text,
+              ...(reasoningText ? { reasoning_content: reasoningText } : {}),
+            },
+            finish_reason: toOpenAIFinishReason(finishReason),
+          },
+        ],
+        usage: toOpenAIUsage(usage),
+      });
+    } catch (error) {
+      return toOpenAIErrorResponse(error);
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const includeUsage = body.stream_options?.include_usage === true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+
+      send(createCompletionChunk({ id: completionId, created, model, delta: { role: 'assistant', content: '' } }));
+
+      try {
+        for await (const part of result.fullStream) {
+          if (part.type === 'text-delta' && part.text) {
+            send(
+              createCompletionChunk({
+                id: completionId,
+                created,
+                model: answeringModel,
+                delta: { content: part.text },
+              }),
+            );
+          } else if (part.type === 'reasoning-delta' && part.text) {
+            send(
+              createCompletionChunk({
+                id: completionId,
+                created,
+                model: answeringModel,
+                delta: { reasoning_content: part.text },
+              }),
+            );
+          } else if (part.type === 'error') {
+            const message = part.error instanceof Error ? part.error.message : 'Something went wrong';
+            send({ error: { message, type: 'server_error', param: null, code: null } });
+          } else if (part.type === 'finish') {
+            send(
+              createCompletionChunk({
+                id: completionId,
+                created,
+                model: answeringModel,
+                delta: {},
+                finishReason: toOpenAIFinishReason(part.finishReason),
+              }),
+            );
+            if (includeUsage) {
+              send({
+                id: completionId,
+                object: 'chat.completion.chunk',
+                created,
+                model: answeringModel,
+                choices: [],
+                usage: toOpenAIUsage(part.totalUsage),
+              });
+            }
+          }
+        }
+      } catch (error) {
+        console.error('❌ Chat completion stream failed:', error);
+        send({ error: { message: 'Stream interrupted', type: 'server_error', param: null, code: null } });
+      }
+
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+}
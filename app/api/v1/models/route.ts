@@ -0,0 +1,41 @@
+// OpenAI-compatible model list. Ids are the rovo provider's language model ids accepted by /api/v1/chat/completions.
+
+import { models } from '@/ai/providers';
+import { getApiKeyUser, getBearerToken } from '@/lib/api-keys';
+import { openAIErrorResponse } from '@/lib/openai-compat';
+
+export async function GET(req: Request) {
+  if (!getBearerToken(req)) {
+    return openAIErrorResponse(
+      401,
+      'Missing API key. Pass it as `Authorization: Bearer <key>`.',
+      'invalid_request_error',
+      'invalid_api_key',
+    );
+  }
+
+  const user = await getApiKeyUser(req);
+  if (!user) {
+    return openAIErrorResponse(401, 'Invalid API key', 'invalid_request_error', 'invalid_api_key');
+  }
+
+  return Response.json({
+    object: 'list',
+    data: models.map((model) => ({
+      id: model.value,
+      object: 'model',
+      created: 0,
+      owned_by: 'rovo',
+      rovo: {
+        label: model.label,
+        description: model.description,
+        category: model.category,
+        vision: model.vision,
+        reasoning: model.reasoning,
+        requiresProSubscription: model.pro,
+        available: !model.pro || user.isProUser,
+        maxOutputTokens: model.maxOutputTokens,
+      },
+    })),
+  });
+}
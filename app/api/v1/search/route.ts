@@ -0,0 +1,97 @@
+// Public search API. Authenticates with a personal API key and runs the same pipeline as /api/search
+// (groups, models, tools and plan quotas), returning the SSE stream or a final JSON answer.
+
+import { z } from 'zod';
+import { v7 as uuidv7 } from 'uuid';
+import { POST as searchPOST } from '@/app/api/search/route';
+import { getBearerToken } from '@/lib/api-keys';
+import { ChatSDKError } from '@/lib/errors';
+import { collectSearchAnswer } from '@/lib/search-stream';
+
+export const maxDuration = 800;
+
+const searchRequestSchema = z.object({
+  query: z.string().trim().min(1, 'query is required'),
+  model: z.string().trim().default('rovo-default'),
+  group: z.string().trim().default('web'),
+  stream: z.boolean().default(false),
+  timezone: z.string().default('UTC'),
+  searchProvider: z.enum(['exa', 'tavily', 'firecrawl', 'searxng', 'hybrid']).optional(),
+});
+
+export async function POST(req: Request) {
+  if (!getBearerToken(req)) {
+    return new ChatSDKError('unauthorized:api', 'Missing API key').toResponse();
+  }
+
+  const parsed = searchRequestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return new ChatSDKError(
+      'bad_request:api',
+      parsed.error.issues.map((issue) => issue.message).join(', '),
+    ).toResponse();
+  }
+
+  const { query, model, group, stream, timezone, searchProvider } = parsed.data;
+  const chatId = uuidv7();
+
+  // Forward to /api/search with the same headers so auth, geolocation and rate limiting behave identically
+  const searchRequest = new Request(new URL('/api/search', req.url), {
+    method: 'POST',
+    headers: req.headers,
+    body: JSON.stringify({
+      id: chatId,
+      messages: [{ id: uuidv7(), role: 'user', parts: [{ type: 'text', text: query }] }],
+      model,
+      group,
+      timezone,
+      searchProvider,
+      selectedVisibilityType: 'private',
+      isCustomInstructionsEnabled: false,
+    }),
+  });
+
+  let response: Response;
+  try {
+    response = await searchPOST(searchRequest);
+  } catch (error) {
+    if (error instanceof ChatSDKError) {
+      return error.toResponse();
+    }
+    console.error('v1 search failed:', error);
+    return new ChatSDKError('bad_request:api', 'Search failed').toResponse();
+  }
+
+  if (!response.ok || !response.body) {
+    return response;
+  }
+
+  if (stream) {
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'X-Chat-Id': chatId,
+      },
+    });
+  }
+
+  const { message, text, sources, error } = await collectSearchAnswer(response.body);
+  if (error && !text) {
+    return Response.json({ code: 'bad_request:api', message: error, chatId }, { status: 502 });
+  }
+
+  return Response.json({
+    id: message?.id,
+    chatId,
+    model: message?.metadata?.model ?? model,
+    group,
+    answer: text,
+    sources,
+    usage: {
+      inputTokens: message?.metadata?.inputTokens ?? null,
+      outputTokens: message?.metadata?.outputTokens ?? null,
+      totalTokens: message?.metadata?.totalTokens ?? null,
+    },
+  });
+}
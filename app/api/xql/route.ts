@@ -14,12 +14,13 @@ import {
 import { ChatSDKError } from '@/lib/errors';
 
 import { markdownJoinerTransform } from '@/lib/parser';
-import { rovo } from '@/ai/providers';
+import { rovo, getModelCallOptions } from '@/ai/providers';
 
 import { z } from 'zod';
-import { GroqProviderOptions } from '@ai-sdk/groq';
 import { createXai } from '@ai-sdk/xai';
 
+const XQL_MODEL = 'rovo-default';
+
 const xai = createXai({
   apiKey: process.env.XAI_API_KEY,
   baseURL: 'https://eu-west-1.api.x.ai/v1',
@@ -143,8 +144,9 @@ export async function POST(req: Request) {
   }
 
   const result = streamText({
-    model: rovo.languageModel('rovo-default'),
+    model: rovo.languageModel(XQL_MODEL),
     messages: await convertToModelMessages(messages),
+    ...getModelCallOptions(XQL_MODEL),
     stopWhen: hasToolCall('xql'),
     onAbort: ({ steps }) => {
       console.log('Stream aborted after', steps.length, 'steps');
@@ -157,14 +159,6 @@ export async function POST(req: Request) {
         };
       }
     },
-    providerOptions: {
-      groq: {
-        reasoningEffort: 'none',
-        parallelToolCalls: false,
-        structuredOutputs: true,
-        serviceTier: 'auto',
-      } satisfies GroqProviderOptions,
-    },
     maxRetries: 10,
     experimental_transform: markdownJoinerTransform(),
     system: `You are a helpful assistant that searches for X posts, You will be given a search query and you will need to search for the posts and return the results in a structured format.
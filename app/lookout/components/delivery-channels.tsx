@@ -0,0 +1,164 @@
+'use client';
+
+import React from 'react';
+import { toast } from 'sonner';
+import { HugeiconsIcon } from '@/components/ui/hugeicons';
+import { Cancel01Icon, Copy01Icon, PlusSignIcon, RefreshIcon } from '@hugeicons/core-free-icons';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getLookoutFeedAction, rotateLookoutFeedAction } from '@/app/actions';
+import {
+  LOOKOUT_CHANNEL_OPTIONS,
+  MAX_DELIVERY_CHANNELS,
+  type LookoutChannelType,
+  type LookoutDeliveryChannel,
+} from '@/lib/lookout-channels';
+
+interface DeliveryChannelsProps {
+  channels: LookoutDeliveryChannel[];
+  onChange: (channels: LookoutDeliveryChannel[]) => void;
+}
+
+function copyToClipboard(text: string, label: string) {
+  navigator.clipboard.writeText(text).then(
+    () => toast.success(`${label} copied`),
+    () => toast.error(`Failed to copy ${label.toLowerCase()}`),
+  );
+}
+
+export function DeliveryChannels({ channels, onChange }: DeliveryChannelsProps) {
+  const [feedUrl, setFeedUrl] = React.useState<string | null>(null);
+  const hasFeed = channels.some((channel) => channel.type === 'rss');
+
+  // The feed is per user, so its URL is only fetched once a lookout delivers to it
+  React.useEffect(() => {
+    if (!hasFeed || feedUrl) return;
+    getLookoutFeedAction().then((result) => {
+      if (result.success && result.path) setFeedUrl(window.location.origin + result.path);
+    });
+  }, [hasFeed, feedUrl]);
+
+  const rotateFeed = async () => {
+    const result = await rotateLookoutFeedAction();
+    if (result.success && result.path) {
+      setFeedUrl(window.location.origin + result.path);
+      toast.success('Feed URL replaced; the old URL no longer works');
+    } else {
+      toast.error(result.error || 'Failed to replace feed URL');
+    }
+  };
+
+  const addChannel = (type: LookoutChannelType) => {
+    // New channels get their real id, and webhooks their secret, when the lookout is saved
+    onChange([...channels, { id: `new-${crypto.randomUUID()}`, type }]);
+  };
+
+  const updateChannel = (id: string, url: string) => {
+    onChange(channels.map((channel) => (channel.id === id ? { ...channel, url } : channel)));
+  };
+
+  const availableOptions = LOOKOUT_CHANNEL_OPTIONS.filter((option) => option.value !== 'rss' || !hasFeed);
+
+  return (
+    <div className="space-y-2">
+      {channels.map((channel) => {
+        const option = LOOKOUT_CHANNEL_OPTIONS.find((channelOption) => channelOption.value === channel.type);
+
+        return (
+          <div key={channel.id} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="w-16 shrink-0 text-xs text-muted-foreground">{option?.label}</span>
+              {channel.type === 'rss' ? (
+                <div className="flex-1 min-w-0 flex items-center gap-1">
+                  <Input
+                    value={feedUrl ?? 'Loading feed URL...'}
+                    readOnly
+                    className="h-8 text-xs font-mono"
+                    onFocus={(e) => e.target.select()}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 shrink-0"
+                    disabled={!feedUrl}
+                    onClick={() => feedUrl && copyToClipboard(feedUrl, 'Feed URL')}
+                    title="Copy feed URL"
+                  >
+                    <HugeiconsIcon icon={Copy01Icon} size={14} color="currentColor" strokeWidth={1.5} />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 shrink-0"
+                    disabled={!feedUrl}
+                    onClick={rotateFeed}
+                    title="Replace feed URL"
+                  >
+                    <HugeiconsIcon icon={RefreshIcon} size={14} color="currentColor" strokeWidth={1.5} />
+                  </Button>
+                </div>
+              ) : (
+                <Input
+                  value={channel.url ?? ''}
+                  onChange={(e) => updateChannel(channel.id, e.target.value)}
+                  placeholder={option?.placeholder}
+                  className="h-8 text-xs flex-1 min-w-0"
+                  type="url"
+                  spellCheck={false}
+                />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 shrink-0"
+                onClick={() => onChange(channels.filter((other) => other.id !== channel.id))}
+                title="Remove channel"
+              >
+                <HugeiconsIcon icon={Cancel01Icon} size={14} color="currentColor" strokeWidth={1.5} />
+              </Button>
+            </div>
+            {channel.type === 'webhook' && (
+              <p className="pl-[4.5rem] text-[11px] text-muted-foreground">
+                {channel.secret ? (
+                  <>
+                    Signed with{' '}
+                    <button
+                      type="button"
+                      className="font-mono underline-offset-2 hover:underline"
+                      onClick={() => copyToClipboard(channel.secret!, 'Signing secret')}
+                    >
+                      {channel.secret.slice(0, 12)}…
+                    </button>{' '}
+                    in X-Rovo-Signature
+                  </>
+                ) : (
+                  'A signing secret is generated when you save'
+                )}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      {channels.length < MAX_DELIVERY_CHANNELS && (
+        <Select value="" onValueChange={(value) => addChannel(value as LookoutChannelType)}>
+          <SelectTrigger className="h-8 w-auto text-xs gap-1">
+            <HugeiconsIcon icon={PlusSignIcon} size={12} color="currentColor" strokeWidth={1.5} />
+            <SelectValue placeholder="Add delivery channel" />
+          </SelectTrigger>
+          <SelectContent>
+            {availableOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
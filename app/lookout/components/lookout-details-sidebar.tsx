@@ -22,6 +22,9 @@ import { Button } from '@/components/ui/button';
 import { BorderTrail } from '@/components/core/border-trail';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import Link from 'next/link';
+import { LOOKOUT_CHANNEL_OPTIONS, type LookoutDelivery } from '@/lib/lookout-channels';
+import { cn, searchGroups } from '@/lib/utils';
+import { getModelConfig } from '@/ai/providers';
 
 interface LookoutRun {
   runAt: string;
@@ -31,6 +34,7 @@ interface LookoutRun {
   duration?: number;
   tokensUsed?: number;
   searchesPerformed?: number;
+  deliveries?: LookoutDelivery[];
 }
 
 interface LookoutWithHistory {
@@ -39,6 +43,8 @@ interface LookoutWithHistory {
   prompt: string;
   frequency: string;
   timezone: string;
+  searchGroup?: string;
+  model?: string;
   nextRunAt: Date;
   status: 'active' | 'paused' | 'archived' | 'running';
   lastRunAt?: Date | null;
@@ -227,6 +233,13 @@ export function LookoutDetailsSidebar({
                   <span className="text-xs text-muted-foreground">Timezone</span>
                   <span className="text-sm font-medium">{lookout.timezone}</span>
                 </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-muted-foreground">Searches with</span>
+                  <span className="text-sm font-medium">
+                    {searchGroups.find((group) => group.id === lookout.searchGroup)?.name ?? 'Extreme'}
+                    {lookout.model && ` • ${getModelConfig(lookout.model)?.label ?? lookout.model}`}
+                  </span>
+                </div>
                 <div className="flex justify-between items-center">
                   <span className="text-xs text-muted-foreground">Status</span>
                   <span className="text-sm font-medium capitalize">{lookout.status}</span>
@@ -400,6 +413,24 @@ export function LookoutDetailsSidebar({
                             {typeof run.searchesPerformed === 'number' && (
                               <p className="text-xs text-muted-foreground">{run.searchesPerformed} searches</p>
                             )}
+                            {run.deliveries && run.deliveries.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {run.deliveries.map((delivery) => (
+                                  <Badge
+                                    key={delivery.channelId}
+                                    variant="outline"
+                                    className={cn(
+                                      'text-xs h-4',
+                                      delivery.status === 'failed' && 'border-red-300 text-red-600',
+                                    )}
+                                    title={delivery.error}
+                                  >
+                                    {LOOKOUT_CHANNEL_OPTIONS.find((option) => option.value === delivery.type)?.label}
+                                    {delivery.status === 'failed' ? ' failed' : ''}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         </div>
                         {run.status === 'success' && (
@@ -3,20 +3,36 @@
 import React from 'react';
 import { format } from 'date-fns';
 import { HugeiconsIcon } from '@/components/ui/hugeicons';
-import { Calendar01Icon, AlarmClockIcon } from '@hugeicons/core-free-icons';
+import { Calendar01Icon, AlarmClockIcon, PlusSignIcon, Cancel01Icon } from '@hugeicons/core-free-icons';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { ProgressRing } from '@/components/ui/progress-ring';
-import { cn } from '@/lib/utils';
+import { cn, LOOKOUT_SEARCH_GROUPS, searchGroups, type LookoutSearchGroup } from '@/lib/utils';
+import { models } from '@/ai/providers';
+import { HOURLY_INTERVAL_OPTIONS, runsAtLeastDaily } from '@/lib/lookout-recurrence';
 import { TimezoneSelector } from './timezone-selector';
 import { TimePicker } from './time-picker';
-import { frequencyOptions, dayOfWeekOptions, LOOKOUT_LIMITS } from '../constants';
+import { DeliveryChannels } from './delivery-channels';
+import {
+  frequencyOptions,
+  dayOfWeekOptions,
+  LOOKOUT_LIMITS,
+  MAX_TIMES_PER_DAY,
+  MULTI_TIME_FREQUENCIES,
+} from '../constants';
 import { LookoutFormHookReturn } from '../hooks/use-lookout-form';
+import { formatNextRun } from '../utils/time-utils';
+
+const DAYS_OF_MONTH = Array.from({ length: 31 }, (_, i) => i + 1);
+const LOOKOUT_GROUP_OPTIONS = searchGroups.filter((group) =>
+  (LOOKOUT_SEARCH_GROUPS as readonly string[]).includes(group.id),
+);
 
 interface LookoutFormProps {
   formHook: LookoutFormHookReturn;
@@ -45,6 +61,15 @@ export function LookoutForm({
     selectedTimezone,
     selectedDate,
     selectedDayOfWeek,
+    additionalTimes,
+    selectedDaysOfMonth,
+    selectedIntervalHours,
+    cronExpression,
+    selectedSearchGroup,
+    selectedModel,
+    notifyOnlyOnChange,
+    deliveryChannels,
+    schedulePreview,
     selectedExample,
     editingLookout,
     setSelectedFrequency,
@@ -52,6 +77,14 @@ export function LookoutForm({
     setSelectedTimezone,
     setSelectedDate,
     setSelectedDayOfWeek,
+    setAdditionalTimes,
+    setSelectedDaysOfMonth,
+    setSelectedIntervalHours,
+    setCronExpression,
+    setSelectedSearchGroup,
+    setSelectedModel,
+    setNotifyOnlyOnChange,
+    setDeliveryChannels,
     createLookoutFromForm,
     updateLookoutFromForm,
   } = formHook;
@@ -64,10 +97,22 @@ export function LookoutForm({
     }
   };
 
+  // Anything that runs five or more times a week on average counts against the daily limit
+  const isDailySchedule =
+    !!schedulePreview?.cronExpression &&
+    !schedulePreview.error &&
+    runsAtLeastDaily(schedulePreview.cronExpression, selectedTimezone);
+  const allowsMultipleTimes = MULTI_TIME_FREQUENCIES.includes(selectedFrequency);
+
+  const toggleDayOfMonth = (day: number) => {
+    const days = selectedDaysOfMonth.includes(day)
+      ? selectedDaysOfMonth.filter((selectedDay) => selectedDay !== day)
+      : [...selectedDaysOfMonth, day];
+    setSelectedDaysOfMonth(days.sort((a, b) => a - b));
+  };
+
   const isSubmitDisabled =
-    isMutating ||
-    (!editingLookout && selectedFrequency === 'daily' && !canCreateDailyMore) ||
-    (!editingLookout && !canCreateMore);
+    isMutating || (!editingLookout && isDailySchedule && !canCreateDailyMore) || (!editingLookout && !canCreateMore);
 
   return (
     <form action={handleSubmit} className="space-y-4">
@@ -97,6 +142,43 @@ export function LookoutForm({
         </div>
       </div>
 
+      {/* Search group and model each run uses */}
+      <div className="flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4">
+        <Label className="text-sm font-medium sm:pt-2 sm:w-20 sm:flex-shrink-0">Search with</Label>
+        <div className="flex-1 flex flex-col sm:flex-row gap-3">
+          <Select
+            value={selectedSearchGroup}
+            onValueChange={(value) => setSelectedSearchGroup(value as LookoutSearchGroup)}
+          >
+            <SelectTrigger className="h-9 flex-1 min-w-0 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOOKOUT_GROUP_OPTIONS.map((group) => (
+                <SelectItem key={group.id} value={group.id}>
+                  <span className="flex items-center gap-2">
+                    <HugeiconsIcon icon={group.icon} size={14} color="currentColor" strokeWidth={1.5} />
+                    {group.name}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={selectedModel} onValueChange={setSelectedModel}>
+            <SelectTrigger className="h-9 flex-1 min-w-0 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+              {models.map((model) => (
+                <SelectItem key={model.value} value={model.value}>
+                  {model.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
       {/* Frequency Selection */}
       <div className="flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4">
         <Label className="text-sm font-medium sm:pt-2 sm:w-20 sm:flex-shrink-0">Frequency</Label>
@@ -129,19 +211,59 @@ export function LookoutForm({
       <div className="space-y-4">
         {/* On/Time/Date row */}
         <div className="flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4">
-          <Label className="text-sm font-medium sm:pt-2 sm:w-20 sm:flex-shrink-0">On</Label>
-          <div className="flex-1">
+          <Label className="text-sm font-medium sm:pt-2 sm:w-20 sm:flex-shrink-0">
+            {selectedFrequency === 'custom' ? 'Cron' : selectedFrequency === 'hourly' ? 'Every' : 'On'}
+          </Label>
+          <div className="flex-1 space-y-3">
             <div className="flex flex-col sm:flex-row gap-3">
-              {/* Time Picker */}
-              <div className="flex-1 min-w-0">
-                <TimePicker
-                  name="time"
-                  value={selectedTime}
-                  onChange={setSelectedTime}
-                  selectedDate={selectedFrequency === 'once' ? selectedDate : undefined}
-                  filterPastTimes={selectedFrequency === 'once'}
-                />
-              </div>
+              {/* Time Picker; hourly runs keep the minute of this time */}
+              {selectedFrequency === 'hourly' || selectedFrequency === 'custom' ? (
+                <input type="hidden" name="time" value={selectedTime} />
+              ) : (
+                <div className="flex-1 min-w-0">
+                  <TimePicker
+                    name="time"
+                    value={selectedTime}
+                    onChange={setSelectedTime}
+                    selectedDate={selectedFrequency === 'once' ? selectedDate : undefined}
+                    filterPastTimes={selectedFrequency === 'once'}
+                  />
+                </div>
+              )}
+
+              {/* Interval selection for 'hourly' frequency */}
+              {selectedFrequency === 'hourly' && (
+                <div className="flex-1 min-w-0">
+                  <Select
+                    value={String(selectedIntervalHours)}
+                    onValueChange={(value) => setSelectedIntervalHours(Number(value))}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Select interval" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOURLY_INTERVAL_OPTIONS.map((hours) => (
+                        <SelectItem key={hours} value={String(hours)}>
+                          {hours === 1 ? 'Every hour' : `Every ${hours} hours`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Cron expression for 'custom' frequency */}
+              {selectedFrequency === 'custom' && (
+                <div className="flex-1 min-w-0">
+                  <Input
+                    value={cronExpression}
+                    onChange={(e) => setCronExpression(e.target.value)}
+                    placeholder="minute hour day-of-month month day-of-week"
+                    className="h-9 font-mono text-sm"
+                    spellCheck={false}
+                  />
+                </div>
+              )}
 
               {/* Date selection for 'once' frequency */}
               {selectedFrequency === 'once' && (
@@ -197,6 +319,64 @@ export function LookoutForm({
                 </div>
               )}
             </div>
+
+            {/* Extra times of day */}
+            {allowsMultipleTimes &&
+              additionalTimes.map((time, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <TimePicker
+                      name={`additionalTime-${index}`}
+                      value={time}
+                      onChange={(value) =>
+                        setAdditionalTimes(additionalTimes.map((other, i) => (i === index ? value : other)))
+                      }
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-9 w-9 p-0 shrink-0"
+                    onClick={() => setAdditionalTimes(additionalTimes.filter((_, i) => i !== index))}
+                    title="Remove time"
+                  >
+                    <HugeiconsIcon icon={Cancel01Icon} size={14} color="currentColor" strokeWidth={1.5} />
+                  </Button>
+                </div>
+              ))}
+            {allowsMultipleTimes && additionalTimes.length < MAX_TIMES_PER_DAY - 1 && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() => setAdditionalTimes([...additionalTimes, selectedTime])}
+              >
+                <HugeiconsIcon icon={PlusSignIcon} size={12} color="currentColor" strokeWidth={1.5} />
+                Add time
+              </Button>
+            )}
+
+            {/* Days of the month for 'monthly' frequency */}
+            {selectedFrequency === 'monthly' && (
+              <div className="grid grid-cols-7 gap-1">
+                {DAYS_OF_MONTH.map((day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDayOfMonth(day)}
+                    className={cn(
+                      'py-1.5 text-xs rounded-md border transition-colors hover:bg-accent',
+                      selectedDaysOfMonth.includes(day) &&
+                        'bg-primary text-primary-foreground border-primary hover:bg-primary/90',
+                    )}
+                  >
+                    {day}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -210,11 +390,47 @@ export function LookoutForm({
 
         {/* Single hidden input for timezone form submission */}
         <input type="hidden" name="timezone" value={selectedTimezone} />
+
+        {/* Next runs preview for recurring schedules */}
+        {schedulePreview && (
+          <div className="flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4">
+            <Label className="text-sm font-medium sm:w-20 sm:flex-shrink-0">Next runs</Label>
+            <div className="flex-1 text-xs">
+              {schedulePreview.error ? (
+                <p className="text-destructive">{schedulePreview.error}</p>
+              ) : (
+                <ul className="space-y-0.5 text-muted-foreground">
+                  {schedulePreview.nextRuns.map((run) => (
+                    <li key={run.toISOString()}>{formatNextRun(run, selectedTimezone)}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Delivery channels besides the email */}
+      <div className="flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4">
+        <Label className="text-sm font-medium sm:pt-2 sm:w-20 sm:flex-shrink-0">Deliver to</Label>
+        <div className="flex-1 min-w-0">
+          <DeliveryChannels channels={deliveryChannels} onChange={setDeliveryChannels} />
+        </div>
       </div>
 
       <div className="flex items-center gap-2 text-xs text-muted-foreground bg-muted/20 rounded-md p-2">
         <HugeiconsIcon icon={AlarmClockIcon} size={12} color="currentColor" strokeWidth={1.5} />
-        <span>Email notifications enabled</span>
+        <span className="flex-1">
+          {selectedFrequency !== 'once' && notifyOnlyOnChange
+            ? 'Email only when something changed since the last run'
+            : 'Email notifications enabled'}
+        </span>
+        {selectedFrequency !== 'once' && (
+          <label className="flex items-center gap-2 cursor-pointer">
+            <span>Only if changed</span>
+            <Switch checked={notifyOnlyOnChange} onCheckedChange={setNotifyOnlyOnChange} />
+          </label>
+        )}
       </div>
 
       {/* Footer */}
@@ -222,7 +438,7 @@ export function LookoutForm({
         <div className="flex items-center gap-3 justify-center sm:justify-start">
           {!editingLookout && activeDailyLookouts !== undefined && totalLookouts !== undefined && (
             <div className="flex items-center gap-2">
-              {selectedFrequency === 'daily' ? (
+              {isDailySchedule ? (
                 <ProgressRing
                   value={activeDailyLookouts}
                   max={LOOKOUT_LIMITS.DAILY_LOOKOUTS}
@@ -254,7 +470,7 @@ export function LookoutForm({
                 />
               )}
               <div className="text-xs text-muted-foreground">
-                {selectedFrequency === 'daily'
+                {isDailySchedule
                   ? `${Math.max(0, LOOKOUT_LIMITS.DAILY_LOOKOUTS - activeDailyLookouts)} daily remaining`
                   : `${LOOKOUT_LIMITS.TOTAL_LOOKOUTS - totalLookouts} remaining`}
               </div>
@@ -1,8 +1,11 @@
 export const frequencyOptions = [
   { value: 'once', label: 'Once' },
+  { value: 'hourly', label: 'Hourly' },
   { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Weekdays' },
   { value: 'weekly', label: 'Weekly' },
   { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom' },
 ];
 
 export const timezoneOptions = [
@@ -96,6 +99,7 @@ export const allExampleLookouts = [
     time: '18:00',
     timezone: 'UTC',
     dayOfWeek: '0', // Sunday
+    searchGroup: 'crypto',
   },
   {
     title: 'Monthly Climate Tech Report',
@@ -112,6 +116,7 @@ export const allExampleLookouts = [
     frequency: 'daily',
     time: '16:30',
     timezone: 'America/New_York',
+    searchGroup: 'stocks',
   },
   {
     title: 'Weekly Startup Funding Roundup',
@@ -208,8 +213,16 @@ export const DEFAULT_FORM_VALUES = {
   TIME: '09:00',
   TIMEZONE: 'UTC',
   DAY_OF_WEEK: '0', // Sunday
+  DAY_OF_MONTH: 1,
+  INTERVAL_HOURS: 4,
+  CRON: '0 9 * * 1-5',
+  SEARCH_GROUP: 'extreme',
 } as const;
 
+// Frequencies that can run at several times a day
+export const MULTI_TIME_FREQUENCIES = ['daily', 'weekdays', 'weekly', 'monthly'];
+export const MAX_TIMES_PER_DAY = 4;
+
 export const dayOfWeekOptions = [
   { value: '0', label: 'Sunday' },
   { value: '1', label: 'Monday' },
@@ -2,17 +2,40 @@
 
 import React from 'react';
 import { toast } from 'sonner';
-import { DEFAULT_FORM_VALUES } from '../constants';
+import {
+  cronToRecurrence,
+  getNextRunTimes,
+  recurrenceToCron,
+  validateLookoutCron,
+  type LookoutFrequency,
+  type LookoutRecurrenceOptions,
+} from '@/lib/lookout-recurrence';
+import { validateDeliveryChannel, type LookoutDeliveryChannel } from '@/lib/lookout-channels';
+import { DEFAULT_LOOKOUT_MODEL, type LookoutSearchGroup } from '@/lib/utils';
+import { DEFAULT_FORM_VALUES, MULTI_TIME_FREQUENCIES } from '../constants';
 import { isTimeInPast } from '../utils/time-utils';
 
+const PREVIEW_RUN_COUNT = 5;
+
 export interface LookoutFormData {
   title: string;
   prompt: string;
-  frequency: 'once' | 'daily' | 'weekly' | 'monthly';
+  frequency: LookoutFrequency;
   time: string;
   timezone: string;
   date?: string;
   dayOfWeek?: string;
+  recurrence?: LookoutRecurrenceOptions;
+  searchGroup?: LookoutSearchGroup;
+  model?: string;
+  notifyOnlyOnChange?: boolean;
+  deliveryChannels?: LookoutDeliveryChannel[];
+}
+
+export interface SchedulePreview {
+  cronExpression: string | null;
+  nextRuns: Date[];
+  error: string | null;
 }
 
 export interface LookoutFormHookReturn {
@@ -22,6 +45,19 @@ export interface LookoutFormHookReturn {
   selectedTimezone: string;
   selectedDate: Date | undefined;
   selectedDayOfWeek: string;
+  additionalTimes: string[];
+  selectedDaysOfMonth: number[];
+  selectedIntervalHours: number;
+  cronExpression: string;
+  // Search group whose tools each run uses, and the model that writes the report
+  selectedSearchGroup: LookoutSearchGroup;
+  selectedModel: string;
+  // Email only when a run found something materially new since the previous one
+  notifyOnlyOnChange: boolean;
+  // Webhook, Slack, Discord and RSS targets besides the email
+  deliveryChannels: LookoutDeliveryChannel[];
+  // Next runs of the recurring schedule in the selected timezone, null for one-time lookouts
+  schedulePreview: SchedulePreview | null;
   selectedExample: any | null;
   isCreateDialogOpen: boolean;
   editingLookout: any | null;
@@ -32,6 +68,14 @@ export interface LookoutFormHookReturn {
   setSelectedTimezone: (timezone: string) => void;
   setSelectedDate: (date: Date | undefined) => void;
   setSelectedDayOfWeek: (day: string) => void;
+  setAdditionalTimes: (times: string[]) => void;
+  setSelectedDaysOfMonth: (days: number[]) => void;
+  setSelectedIntervalHours: (hours: number) => void;
+  setCronExpression: (expression: string) => void;
+  setSelectedSearchGroup: (group: LookoutSearchGroup) => void;
+  setSelectedModel: (model: string) => void;
+  setNotifyOnlyOnChange: (enabled: boolean) => void;
+  setDeliveryChannels: (channels: LookoutDeliveryChannel[]) => void;
   setSelectedExample: (example: any | null) => void;
   setIsCreateDialogOpen: (open: boolean) => void;
   setEditingLookout: (lookout: any | null) => void;
@@ -60,6 +104,16 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
   console.log('🔧 Initial selectedTimezone state:', detectedTimezone);
   const [selectedDate, setSelectedDate] = React.useState<Date | undefined>();
   const [selectedDayOfWeek, setSelectedDayOfWeek] = React.useState<string>(DEFAULT_FORM_VALUES.DAY_OF_WEEK);
+  const [additionalTimes, setAdditionalTimes] = React.useState<string[]>([]);
+  const [selectedDaysOfMonth, setSelectedDaysOfMonth] = React.useState<number[]>([DEFAULT_FORM_VALUES.DAY_OF_MONTH]);
+  const [selectedIntervalHours, setSelectedIntervalHours] = React.useState<number>(DEFAULT_FORM_VALUES.INTERVAL_HOURS);
+  const [cronExpression, setCronExpression] = React.useState<string>(DEFAULT_FORM_VALUES.CRON);
+  const [selectedSearchGroup, setSelectedSearchGroup] = React.useState<LookoutSearchGroup>(
+    DEFAULT_FORM_VALUES.SEARCH_GROUP,
+  );
+  const [selectedModel, setSelectedModel] = React.useState<string>(DEFAULT_LOOKOUT_MODEL);
+  const [notifyOnlyOnChange, setNotifyOnlyOnChange] = React.useState(false);
+  const [deliveryChannels, setDeliveryChannels] = React.useState<LookoutDeliveryChannel[]>([]);
   const [selectedExample, setSelectedExample] = React.useState<any | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = React.useState(false);
   const [editingLookout, setEditingLookout] = React.useState<any | null>(null);
@@ -73,6 +127,47 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
     }
   }, [detectedTimezone, editingLookout]);
 
+  // Schedule options for the recurring frequencies, as the server actions take them
+  const recurrence = React.useMemo<LookoutRecurrenceOptions>(
+    () => ({
+      times: MULTI_TIME_FREQUENCIES.includes(selectedFrequency) ? [selectedTime, ...additionalTimes] : [selectedTime],
+      daysOfWeek: selectedFrequency === 'weekly' ? [selectedDayOfWeek] : undefined,
+      daysOfMonth: selectedFrequency === 'monthly' ? selectedDaysOfMonth : undefined,
+      intervalHours: selectedFrequency === 'hourly' ? selectedIntervalHours : undefined,
+      cron: selectedFrequency === 'custom' ? cronExpression : undefined,
+    }),
+    [
+      selectedFrequency,
+      selectedTime,
+      additionalTimes,
+      selectedDayOfWeek,
+      selectedDaysOfMonth,
+      selectedIntervalHours,
+      cronExpression,
+    ],
+  );
+
+  // Validated the same way the server validates it, so the preview shows exactly what will be scheduled
+  const schedulePreview = React.useMemo<SchedulePreview | null>(() => {
+    if (selectedFrequency === 'once') return null;
+
+    try {
+      const expression = recurrenceToCron(selectedFrequency as Exclude<LookoutFrequency, 'once'>, recurrence);
+      const error = validateLookoutCron(expression, selectedTimezone);
+      return {
+        cronExpression: expression,
+        nextRuns: error ? [] : getNextRunTimes(expression, selectedTimezone, PREVIEW_RUN_COUNT),
+        error,
+      };
+    } catch (error) {
+      return {
+        cronExpression: null,
+        nextRuns: [],
+        error: error instanceof Error ? error.message : 'Invalid schedule',
+      };
+    }
+  }, [selectedFrequency, recurrence, selectedTimezone]);
+
   // Reset form to default values
   const resetForm = React.useCallback(() => {
     setSelectedFrequency(DEFAULT_FORM_VALUES.FREQUENCY as string);
@@ -80,6 +175,14 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
     setSelectedTimezone(detectedTimezone);
     setSelectedDate(undefined);
     setSelectedDayOfWeek(DEFAULT_FORM_VALUES.DAY_OF_WEEK as string);
+    setAdditionalTimes([]);
+    setSelectedDaysOfMonth([DEFAULT_FORM_VALUES.DAY_OF_MONTH]);
+    setSelectedIntervalHours(DEFAULT_FORM_VALUES.INTERVAL_HOURS);
+    setCronExpression(DEFAULT_FORM_VALUES.CRON);
+    setSelectedSearchGroup(DEFAULT_FORM_VALUES.SEARCH_GROUP);
+    setSelectedModel(DEFAULT_LOOKOUT_MODEL);
+    setNotifyOnlyOnChange(false);
+    setDeliveryChannels([]);
     setSelectedExample(null);
     setEditingLookout(null);
   }, [detectedTimezone]);
@@ -105,6 +208,7 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
     setSelectedTime(example.time);
     setSelectedTimezone(example.timezone || (DEFAULT_FORM_VALUES.TIMEZONE as string));
     setSelectedDayOfWeek(example.dayOfWeek || (DEFAULT_FORM_VALUES.DAY_OF_WEEK as string));
+    setSelectedSearchGroup(example.searchGroup || DEFAULT_FORM_VALUES.SEARCH_GROUP);
     setIsCreateDialogOpen(true);
   }, []);
 
@@ -113,64 +217,75 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
     setEditingLookout(lookout);
     setSelectedFrequency(lookout.frequency);
     setSelectedTimezone(lookout.timezone);
-
-    // Parse time from existing data or use default
-    if (lookout.cronSchedule) {
-      // Parse time from cron schedule if available
-      const parts = lookout.cronSchedule.split(' ');
-      const cronParts = parts[0]?.startsWith('CRON_TZ=') ? parts.slice(1) : parts;
-
-      if (cronParts.length >= 2) {
-        const minutes = cronParts[0];
-        const hours = cronParts[1];
-        setSelectedTime(`${hours.padStart(2, '0')}:${minutes.padStart(2, '0')}` as string);
-      }
-
-      // Parse day of week for weekly frequency
-      if (lookout.frequency === 'weekly' && cronParts.length >= 5) {
-        const dayOfWeek = cronParts[4]; // Day of week is the 5th field in cron
-        setSelectedDayOfWeek(dayOfWeek);
-      }
+    setSelectedSearchGroup(lookout.searchGroup ?? DEFAULT_FORM_VALUES.SEARCH_GROUP);
+    setSelectedModel(lookout.model ?? DEFAULT_LOOKOUT_MODEL);
+    setNotifyOnlyOnChange(Boolean(lookout.notifyOnlyOnChange));
+    setDeliveryChannels(lookout.deliveryChannels ?? []);
+
+    // Read the schedule options back from the stored cron schedule
+    if (lookout.frequency !== 'once' && lookout.cronSchedule) {
+      const { frequency, options } = cronToRecurrence(lookout.frequency, lookout.cronSchedule);
+      const [firstTime, ...otherTimes] = options.times ?? [];
+
+      setSelectedFrequency(frequency);
+      if (firstTime) setSelectedTime(firstTime);
+      setAdditionalTimes(otherTimes);
+      if (options.daysOfWeek?.[0]) setSelectedDayOfWeek(options.daysOfWeek[0]);
+      if (options.daysOfMonth) setSelectedDaysOfMonth(options.daysOfMonth);
+      if (options.intervalHours) setSelectedIntervalHours(options.intervalHours);
+      if (options.cron) setCronExpression(options.cron);
     }
 
     setIsCreateDialogOpen(true);
   }, []);
 
   // Form validation
-  const validateForm = React.useCallback((formData: FormData): boolean => {
-    const title = formData.get('title') as string;
-    const prompt = formData.get('prompt') as string;
-    const frequency = formData.get('frequency') as string;
-    const time = formData.get('time') as string;
-    const date = formData.get('date') as string;
-
-    if (!title?.trim() || !prompt?.trim()) {
-      toast.error('Please fill in all required fields');
-      return false;
-    }
+  const validateForm = React.useCallback(
+    (formData: FormData): boolean => {
+      const title = formData.get('title') as string;
+      const prompt = formData.get('prompt') as string;
+      const frequency = formData.get('frequency') as string;
+      const time = formData.get('time') as string;
+      const date = formData.get('date') as string;
 
-    // For once frequency, validate date and time
-    if (frequency === 'once') {
-      if (!date) {
-        toast.error('Please select a date for one-time lookouts');
+      if (!title?.trim() || !prompt?.trim()) {
+        toast.error('Please fill in all required fields');
         return false;
       }
 
-      if (!time) {
-        toast.error('Please select a time');
+      // For once frequency, validate date and time
+      if (frequency === 'once') {
+        if (!date) {
+          toast.error('Please select a date for one-time lookouts');
+          return false;
+        }
+
+        if (!time) {
+          toast.error('Please select a time');
+          return false;
+        }
+
+        // Check if the selected date and time is in the past
+        const selectedDateTime = new Date(date);
+        if (isTimeInPast(time, selectedDateTime)) {
+          toast.error('Cannot schedule lookout in the past');
+          return false;
+        }
+      } else if (schedulePreview?.error) {
+        toast.error(schedulePreview.error);
         return false;
       }
 
-      // Check if the selected date and time is in the past
-      const selectedDateTime = new Date(date);
-      if (isTimeInPast(time, selectedDateTime)) {
-        toast.error('Cannot schedule lookout in the past');
+      const channelError = deliveryChannels.map(validateDeliveryChannel).find(Boolean);
+      if (channelError) {
+        toast.error(channelError);
         return false;
       }
-    }
 
-    return true;
-  }, []);
+      return true;
+    },
+    [schedulePreview, deliveryChannels],
+  );
 
   // Create lookout from form data
   const createLookoutFromForm = React.useCallback(
@@ -194,14 +309,27 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
       createLookout({
         title: title.trim(),
         prompt: prompt.trim(),
-        frequency: frequency as 'once' | 'daily' | 'weekly' | 'monthly',
+        frequency: frequency as LookoutFrequency,
         time: adjustedTime,
         timezone,
         date: frequency === 'once' ? date : undefined,
+        recurrence: frequency === 'once' ? undefined : recurrence,
+        searchGroup: selectedSearchGroup,
+        model: selectedModel,
+        notifyOnlyOnChange: frequency !== 'once' && notifyOnlyOnChange,
+        deliveryChannels,
         onSuccess: () => handleDialogOpenChange(false),
       });
     },
-    [validateForm, handleDialogOpenChange],
+    [
+      validateForm,
+      handleDialogOpenChange,
+      recurrence,
+      selectedSearchGroup,
+      selectedModel,
+      notifyOnlyOnChange,
+      deliveryChannels,
+    ],
   );
 
   // Update lookout from form data
@@ -220,13 +348,27 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
         id: editingLookout.id,
         title: title.trim(),
         prompt: prompt.trim(),
-        frequency: frequency as 'once' | 'daily' | 'weekly' | 'monthly',
+        frequency: frequency as LookoutFrequency,
         time: frequency === 'weekly' && dayOfWeek ? `${time}:${dayOfWeek}` : time,
         timezone,
+        recurrence: frequency === 'once' ? undefined : recurrence,
+        searchGroup: selectedSearchGroup,
+        model: selectedModel,
+        notifyOnlyOnChange: frequency !== 'once' && notifyOnlyOnChange,
+        deliveryChannels,
         onSuccess: () => handleDialogOpenChange(false),
       });
     },
-    [editingLookout, validateForm, handleDialogOpenChange],
+    [
+      editingLookout,
+      validateForm,
+      handleDialogOpenChange,
+      recurrence,
+      selectedSearchGroup,
+      selectedModel,
+      notifyOnlyOnChange,
+      deliveryChannels,
+    ],
   );
 
   return {
@@ -236,6 +378,15 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
     selectedTimezone,
     selectedDate,
     selectedDayOfWeek,
+    additionalTimes,
+    selectedDaysOfMonth,
+    selectedIntervalHours,
+    cronExpression,
+    selectedSearchGroup,
+    selectedModel,
+    notifyOnlyOnChange,
+    deliveryChannels,
+    schedulePreview,
     selectedExample,
     isCreateDialogOpen,
     editingLookout,
@@ -246,6 +397,14 @@ export function useLookoutForm(detectedTimezone: string = DEFAULT_FORM_VALUES.TI
     setSelectedTimezone,
     setSelectedDate,
     setSelectedDayOfWeek,
+    setAdditionalTimes,
+    setSelectedDaysOfMonth,
+    setSelectedIntervalHours,
+    setCronExpression,
+    setSelectedSearchGroup,
+    setSelectedModel,
+    setNotifyOnlyOnChange,
+    setDeliveryChannels,
     setSelectedExample,
     setIsCreateDialogOpen,
     setEditingLookout,
@@ -36,6 +36,7 @@ import { LookoutForm } from './components/lookout-form';
 import { useLookoutForm } from './hooks/use-lookout-form';
 import { getRandomExamples, LOOKOUT_LIMITS, timezoneOptions } from './constants';
 import { formatFrequency } from './utils/time-utils';
+import { isDailyLookout } from '@/lib/lookout-recurrence';
 
 interface Lookout {
   id: string;
@@ -172,9 +173,7 @@ export default function LookoutPage() {
   }, [error]);
 
   // Calculate limits and counts
-  const activeDailyLookouts = allLookouts.filter(
-    (l: Lookout) => l.frequency === 'daily' && l.status === 'active',
-  ).length;
+  const activeDailyLookouts = allLookouts.filter((l: Lookout) => isDailyLookout(l) && l.status === 'active').length;
   const totalLookouts = allLookouts.filter((l: Lookout) => l.status !== 'archived').length;
   const canCreateMore = totalLookouts < LOOKOUT_LIMITS.TOTAL_LOOKOUTS;
   const canCreateDailyMore = activeDailyLookouts < LOOKOUT_LIMITS.DAILY_LOOKOUTS;
@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import { ArrowUpRight, FileText } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+interface AttachmentPassage {
+  fileName: string;
+  page: number | null;
+  content: string;
+  score: number;
+  citationUrl: string;
+}
+
+interface AttachmentSearchResultsProps {
+  query: string;
+  results: AttachmentPassage[];
+  error?: string;
+}
+
+const PassageRow: React.FC<{ passage: AttachmentPassage }> = ({ passage }) => {
+  return (
+    <a
+      href={passage.citationUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={cn(
+        'group block border-b border-border last:border-b-0',
+        'py-2.5 px-3 transition-colors hover:bg-accent/50',
+      )}
+    >
+      <div className="flex items-baseline gap-1.5">
+        <span className="font-medium text-[13px] text-foreground line-clamp-1 flex-1">{passage.fileName}</span>
+        {passage.page !== null && <span className="text-[11px] text-muted-foreground shrink-0">p. {passage.page}</span>}
+        <ArrowUpRight className="w-3 h-3 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
+      </div>
+      <p className="mt-1 text-[12px] text-muted-foreground line-clamp-3 leading-relaxed">{passage.content}</p>
+    </a>
+  );
+};
+
+export const AttachmentSearchResults: React.FC<AttachmentSearchResultsProps> = ({ query, results, error }) => {
+  return (
+    <Accordion type="single" collapsible className="w-full my-4">
+      <AccordionItem value="attachments" className="border rounded-lg overflow-hidden">
+        <AccordionTrigger className="px-3 py-2.5 hover:no-underline">
+          <div className="flex items-center gap-2 min-w-0">
+            <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="text-sm font-medium truncate">Searched attachments for &ldquo;{query}&rdquo;</span>
+            <Badge variant="secondary" className="rounded-full text-[10px] px-1.5 py-0 shrink-0">
+              {results.length}
+            </Badge>
+          </div>
+        </AccordionTrigger>
+        <AccordionContent className="pb-0">
+          {error ? (
+            <p className="px-3 py-2.5 text-xs text-red-600 dark:text-red-400">{error}</p>
+          ) : results.length === 0 ? (
+            <p className="px-3 py-2.5 text-xs text-muted-foreground">No matching passages found.</p>
+          ) : (
+            <div className="border-t border-border">
+              {results.map((passage, index) => (
+                <PassageRow key={`${passage.citationUrl}-${index}`} passage={passage} />
+              ))}
+            </div>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
@@ -185,12 +185,20 @@ const ChatInterface = memo(
       false,
     );
 
-    const [searchProvider, _] = useLocalStorage<'exa' | 'parallel' | 'tavily' | 'firecrawl'>(
+    const [searchProvider, _] = useLocalStorage<'exa' | 'parallel' | 'tavily' | 'firecrawl' | 'searxng' | 'hybrid'>(
       'rovo-search-provider',
       'firecrawl',
     );
 
-    const [extremeSearchProvider, __] = useLocalStorage<'exa' | 'parallel'>('rovo-extreme-search-provider', 'exa');
+    const [extremeSearchProvider, __] = useLocalStorage<'exa' | 'tavily' | 'firecrawl' | 'parallel' | 'searxng'>(
+      'rovo-extreme-search-provider',
+      'exa',
+    );
+
+    const [extremeSearchBudget, ___] = useLocalStorage<'standard' | 'thorough' | 'exhaustive'>(
+      'rovo-extreme-search-budget',
+      'standard',
+    );
 
     // Use reducer for complex state management
     const [chatState, dispatch] = useReducer(
@@ -427,6 +435,7 @@ const ChatInterface = memo(
     const isCustomInstructionsEnabledRef = useRef(isCustomInstructionsEnabled);
     const searchProviderRef = useRef(searchProvider);
     const extremeSearchProviderRef = useRef(extremeSearchProvider);
+    const extremeSearchBudgetRef = useRef(extremeSearchBudget);
     const selectedConnectorsRef = useRef(selectedConnectors);
 
     // Update refs whenever state changes - this ensures we always have current values
@@ -435,6 +444,7 @@ const ChatInterface = memo(
     isCustomInstructionsEnabledRef.current = isCustomInstructionsEnabled;
     searchProviderRef.current = searchProvider;
     extremeSearchProviderRef.current = extremeSearchProvider;
+    extremeSearchBudgetRef.current = extremeSearchBudget;
     selectedConnectorsRef.current = selectedConnectors;
 
     const { messages, sendMessage, setMessages, regenerate, stop, status, error, resumeStream } = useChat<ChatMessage>({
@@ -454,6 +464,7 @@ const ChatInterface = memo(
               isCustomInstructionsEnabled: isCustomInstructionsEnabledRef.current,
               searchProvider: searchProviderRef.current,
               extremeSearchProvider: extremeSearchProviderRef.current,
+              extremeSearchBudget: extremeSearchBudgetRef.current,
               selectedConnectors: selectedConnectorsRef.current,
               ...(initialChatId ? { chat_id: initialChatId } : {}),
               ...body,
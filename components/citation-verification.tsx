@@ -0,0 +1,118 @@
+'use client';
+
+import React from 'react';
+import { ArrowUpRight, ShieldCheck } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Spinner } from '@/components/ui/spinner';
+import { cn } from '@/lib/utils';
+import type { CitationVerdict, DataCitationVerificationPart, VerifiedCitation } from '@/lib/types';
+
+const VERDICT_STYLES: Record<CitationVerdict, { label: string; className: string }> = {
+  supported: {
+    label: 'Supported',
+    className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  },
+  partial: {
+    label: 'Partial',
+    className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  },
+  unsupported: {
+    label: 'Unsupported',
+    className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  },
+  unretrieved: {
+    label: 'Not retrieved',
+    className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  },
+  unverified: {
+    label: 'Not checked',
+    className: 'bg-muted text-muted-foreground',
+  },
+};
+
+// Shown first so the citations that need a second look are at the top
+const VERDICT_ORDER: CitationVerdict[] = ['unretrieved', 'unsupported', 'partial', 'unverified', 'supported'];
+
+const CitationRow: React.FC<{ citation: VerifiedCitation }> = ({ citation }) => {
+  const style = VERDICT_STYLES[citation.verdict];
+  const showConfidence = citation.verdict !== 'unretrieved' && citation.verdict !== 'unverified';
+
+  return (
+    <a
+      href={citation.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={cn(
+        'group block border-b border-border last:border-b-0',
+        'py-2.5 px-3 transition-colors hover:bg-accent/50',
+      )}
+    >
+      <div className="flex items-center gap-1.5">
+        <Badge
+          variant="secondary"
+          className={cn('rounded-full text-[10px] px-1.5 py-0 shrink-0 border-0', style.className)}
+        >
+          {style.label}
+          {showConfidence && ` · ${Math.round(citation.confidence * 100)}%`}
+        </Badge>
+        <span className="font-medium text-[13px] text-foreground line-clamp-1 flex-1">{citation.title}</span>
+        <ArrowUpRight className="w-3 h-3 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
+      </div>
+      <p className="mt-1 text-[12px] text-muted-foreground line-clamp-2 leading-relaxed">{citation.sentence}</p>
+    </a>
+  );
+};
+
+export const CitationVerification: React.FC<DataCitationVerificationPart['data']> = ({ status, citations }) => {
+  if (status === 'verifying') {
+    return (
+      <div className="flex items-center gap-2 my-3 text-xs text-muted-foreground">
+        <Spinner className="size-3.5" />
+        <span>Verifying citations against research sources...</span>
+      </div>
+    );
+  }
+
+  if (status === 'error' || citations.length === 0) {
+    return null;
+  }
+
+  const counts = citations.reduce<Partial<Record<CitationVerdict, number>>>((acc, citation) => {
+    acc[citation.verdict] = (acc[citation.verdict] ?? 0) + 1;
+    return acc;
+  }, {});
+  const sorted = [...citations].sort((a, b) => VERDICT_ORDER.indexOf(a.verdict) - VERDICT_ORDER.indexOf(b.verdict));
+
+  return (
+    <Accordion type="single" collapsible className="w-full my-4">
+      <AccordionItem value="citations" className="border rounded-lg overflow-hidden">
+        <AccordionTrigger className="px-3 py-2.5 hover:no-underline">
+          <div className="flex items-center gap-2 min-w-0 flex-wrap">
+            <ShieldCheck className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="text-sm font-medium">Citation check</span>
+            {VERDICT_ORDER.filter((verdict) => counts[verdict]).map((verdict) => (
+              <Badge
+                key={verdict}
+                variant="secondary"
+                className={cn(
+                  'rounded-full text-[10px] px-1.5 py-0 shrink-0 border-0',
+                  VERDICT_STYLES[verdict].className,
+                )}
+              >
+                {counts[verdict]} {VERDICT_STYLES[verdict].label.toLowerCase()}
+              </Badge>
+            ))}
+          </div>
+        </AccordionTrigger>
+        <AccordionContent className="pb-0">
+          <div className="border-t border-border">
+            {sorted.map((citation, index) => (
+              <CitationRow key={`${citation.url}-${index}`} citation={citation} />
+            ))}
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
@@ -1,10 +1,24 @@
 import * as React from 'react';
-import { Html, Head, Body, Container, Section, Img, Text, Button, Tailwind, Markdown } from '@react-email/components';
+import {
+  Html,
+  Head,
+  Body,
+  Container,
+  Section,
+  Img,
+  Text,
+  Button,
+  Tailwind,
+  Markdown,
+  Link,
+} from '@react-email/components';
+import type { LookoutRunChanges } from '@/lib/types';
 
 interface SearchCompletedEmailProps {
   chatTitle: string;
   assistantResponse: string;
   chatId: string;
+  changes?: LookoutRunChanges;
 }
 
 const SearchCompletedEmail = (props: SearchCompletedEmailProps) => {
@@ -22,6 +36,32 @@ const SearchCompletedEmail = (props: SearchCompletedEmailProps) => {
               </Text>
             </Section>
 
+            {props.changes && (props.changes.whatsNew.length > 0 || props.changes.newSources.length > 0) && (
+              <Section className="mb-6 bg-[#F9FAFB] border border-solid border-neutral-200 rounded-lg px-[20px] py-[16px]">
+                <Text className="text-[16px] font-semibold text-[#020304] m-0 mb-[8px]">
+                  What&apos;s new since last run
+                </Text>
+                {props.changes.whatsNew.map((item, index) => (
+                  <Text key={index} className="text-[14px] leading-[1.6] text-[#374151] m-0 mb-[6px]">
+                    • {item}
+                  </Text>
+                ))}
+                {props.changes.newSources.length > 0 && (
+                  <Text className="text-[13px] text-[#6B7280] m-0 mt-[8px]">
+                    New sources:{' '}
+                    {props.changes.newSources.map((source, index) => (
+                      <React.Fragment key={source.url}>
+                        {index > 0 && ', '}
+                        <Link href={source.url} className="text-[#374151] underline">
+                          {source.title}
+                        </Link>
+                      </React.Fragment>
+                    ))}
+                  </Text>
+                )}
+              </Section>
+            )}
+
             <Section className="mb-6">
               <Markdown
                 markdownCustomStyles={{
@@ -5,11 +5,13 @@ import { Sheet, SheetContent } from '@/components/ui/sheet';
 import { Drawer, DrawerContent } from '@/components/ui/drawer';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useOptimizedScroll } from '@/hooks/use-optimized-scroll';
-import type { extremeSearchTool, Research } from '@/lib/tools/extreme-search';
+import type { extremeSearchTool, ExtremeSearchProvider, Research, ResearchRound } from '@/lib/tools/extreme-search';
 import type { UIToolInvocation } from 'ai';
 import React, { useEffect, useState, memo, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChevronDown, ChevronRight, Search, Target, Zap, FlaskConical } from 'lucide-react';
+import { ChevronDown, ChevronRight, Search, Target, Zap, FlaskConical, Square } from 'lucide-react';
+import { toast } from 'sonner';
+import { cancelExtremeSearchAction } from '@/app/actions';
 
 // Custom minimal icons
 const Icons = {
@@ -49,6 +51,14 @@ const CHART_COLORS = {
   red: ['#ef4444', '#f87171'],
 };
 
+const RESEARCH_PROVIDER_LABELS: Record<ExtremeSearchProvider, string> = {
+  exa: 'Exa',
+  tavily: 'Tavily',
+  firecrawl: 'Firecrawl',
+  parallel: 'Parallel',
+  searxng: 'SearXNG',
+};
+
 // Update the ExtremeChart component to be more standalone without the card wrapper
 const ExtremeChart = memo(({ chart }: { chart: any }) => {
   const { resolvedTheme } = useTheme();
@@ -801,6 +811,42 @@ const getFaviconUrl = (url: string) => {
 };
 
 // Source Card Component for Extreme Search (minimal design)
+// Plans per round with the gaps each follow-up round was started for
+const ResearchRoundsSummary: React.FC<{ rounds: ResearchRound[] }> = ({ rounds }) => {
+  return (
+    <div className="space-y-3">
+      {rounds.map((round) => (
+        <div key={round.round} className="space-y-1">
+          <div className="flex items-center gap-1.5">
+            <span className="text-[10px] font-medium text-primary bg-primary/10 px-1.5 py-0.5 rounded-full">
+              Round {round.round}
+            </span>
+            <span className="text-[10px] text-muted-foreground">
+              {round.plan.length} {round.plan.length === 1 ? 'topic' : 'topics'}
+            </span>
+          </div>
+          {round.gaps.length > 0 && (
+            <ul className="space-y-0.5 pl-1">
+              {round.gaps.map((gap, index) => (
+                <li key={index} className="text-[11px] text-muted-foreground leading-snug">
+                  Gap: {gap}
+                </li>
+              ))}
+            </ul>
+          )}
+          <ul className="space-y-0.5 pl-1">
+            {round.plan.map((item, index) => (
+              <li key={index} className="text-[11px] text-foreground font-medium leading-snug">
+                {item.title}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const ExtremeSourceCard: React.FC<{
   source: ExtremeSearchSource;
   onClick?: () => void;
@@ -945,11 +991,15 @@ interface XSearchExecution {
 const ExtremeSearchComponent = ({
   toolInvocation,
   annotations,
+  chatId,
 }: {
   toolInvocation: UIToolInvocation<ReturnType<typeof extremeSearchTool>>;
   annotations?: DataExtremeSearchPart[];
+  // Set for the chat owner, who can stop the research while it runs
+  chatId?: string;
 }) => {
   const { state } = toolInvocation;
+  const [isStopping, setIsStopping] = useState(false);
   const [expandedItems, setExpandedItems] = useState<Record<string, boolean>>({});
   const [userExpandedItems, setUserExpandedItems] = useState<Record<string, boolean>>({});
   const [researchProcessOpen, setResearchProcessOpen] = useState(false);
@@ -986,10 +1036,10 @@ const ExtremeSearchComponent = ({
   }, [toolInvocation, annotations]);
 
   // Extract current status and plan from annotations
-  const { currentStatus, planData } = useMemo(() => {
+  const { currentStatus, planData, currentRound } = useMemo(() => {
     // Check if we're completed first
     if (isCompleted) {
-      return { currentStatus: 'Research completed', planData: null };
+      return { currentStatus: 'Research completed', planData: null, currentRound: null };
     }
 
     if (!annotations?.length) {
@@ -997,6 +1047,7 @@ const ExtremeSearchComponent = ({
         currentStatus:
           state === 'input-streaming' || state === 'input-available' ? 'Processing research...' : 'Initializing...',
         planData: null,
+        currentRound: null,
       };
     }
 
@@ -1004,7 +1055,13 @@ const ExtremeSearchComponent = ({
     const planAnnotations = annotations.filter((ann) => ann.type === 'data-extreme_search' && ann.data.kind === 'plan');
 
     const latestPlan = planAnnotations[planAnnotations.length - 1];
-    const plan = latestPlan?.data.kind === 'plan' && 'plan' in latestPlan.data ? latestPlan.data.plan : null;
+    // Status-only plan parts (e.g. reflecting between rounds) carry no plan, so keep the last one that did
+    const latestPlanWithItems = planAnnotations.findLast((ann) => ann.data.kind === 'plan' && ann.data.plan);
+    const plan = latestPlanWithItems?.data.kind === 'plan' ? (latestPlanWithItems.data.plan ?? null) : null;
+    const round =
+      latestPlanWithItems?.data.kind === 'plan' && latestPlanWithItems.data.round
+        ? { round: latestPlanWithItems.data.round, gaps: latestPlanWithItems.data.gaps ?? [] }
+        : null;
 
     // Derive dynamic status from current tool states (query, x_search, code)
     const toolAnnotations = annotations.filter(
@@ -1078,9 +1135,16 @@ const ExtremeSearchComponent = ({
       dynamicStatus = planStatus || 'Processing research...';
     }
 
+    // Between rounds the reflection status is more informative than the last tool call of the previous round
+    const planStatus = latestPlan?.data.kind === 'plan' ? latestPlan.data.status?.title : undefined;
+    if (planStatus && annotations[annotations.length - 1] === latestPlan && round) {
+      dynamicStatus = planStatus;
+    }
+
     return {
       currentStatus: dynamicStatus,
       planData: plan,
+      currentRound: round,
     };
   }, [annotations, state, isCompleted]);
 
@@ -1456,6 +1520,46 @@ const ExtremeSearchComponent = ({
     return Array.from(new Map(querySources.map((s) => [s.url, s])).values());
   }, [isCompleted, toolInvocation, searchQueries]);
 
+  // Provider the research ran against; missing on results from before providers were selectable
+  const researchProvider = useMemo(() => {
+    if (isCompleted && 'output' in toolInvocation) {
+      const researchData = toolInvocation.output as { research?: Research } | null;
+      return researchData?.research?.provider;
+    }
+    return undefined;
+  }, [isCompleted, toolInvocation]);
+
+  const researchCancelled = useMemo(() => {
+    if (isCompleted && 'output' in toolInvocation) {
+      const researchData = toolInvocation.output as { research?: Research } | null;
+      return researchData?.research?.cancelled ?? false;
+    }
+    return false;
+  }, [isCompleted, toolInvocation]);
+
+  const handleStop = async () => {
+    if (!chatId || isStopping) return;
+
+    setIsStopping(true);
+    const result = await cancelExtremeSearchAction({ chatId });
+    if (!result.success) {
+      toast.error('Failed to stop research');
+      setIsStopping(false);
+      return;
+    }
+    toast.success('Stopping research, the report will use what was found so far');
+  };
+
+  // Rounds only differ from the plain timeline when research ran more than one round
+  const researchRounds = useMemo(() => {
+    if (isCompleted && 'output' in toolInvocation) {
+      const researchData = toolInvocation.output as { research?: Research } | null;
+      const rounds = researchData?.research?.rounds ?? [];
+      return rounds.length > 1 ? rounds : [];
+    }
+    return [];
+  }, [isCompleted, toolInvocation]);
+
   // Get all charts for final result view
   const allCharts = useMemo(() => {
     if (isCompleted && 'output' in toolInvocation) {
@@ -2100,6 +2204,16 @@ const ExtremeSearchComponent = ({
                 <FlaskConical className="h-3.5 w-3.5 text-muted-foreground" />
               </div>
               <h3 className="font-semibold text-sm text-foreground">Research Process</h3>
+              {researchProvider && (
+                <span className="text-[11px] text-muted-foreground">
+                  via {RESEARCH_PROVIDER_LABELS[researchProvider]}
+                </span>
+              )}
+              {researchCancelled && (
+                <span className="text-[10px] font-medium text-amber-700 dark:text-amber-400 bg-amber-100 dark:bg-amber-900/30 px-1.5 py-0.5 rounded-full">
+                  Stopped early
+                </span>
+              )}
             </div>
             <ChevronDown
               className={cn(
@@ -2111,7 +2225,14 @@ const ExtremeSearchComponent = ({
 
           {researchProcessOpen && (
             <div className="border-t border-border bg-background">
-              <div className="p-4 max-h-[300px] overflow-y-auto">{renderTimeline()}</div>
+              <div className="p-4 max-h-[300px] overflow-y-auto">
+                {researchRounds.length > 0 && (
+                  <div className="mb-3 pb-3 border-b border-border">
+                    <ResearchRoundsSummary rounds={researchRounds} />
+                  </div>
+                )}
+                {renderTimeline()}
+              </div>
             </div>
           )}
         </div>
@@ -2226,17 +2347,45 @@ const ExtremeSearchComponent = ({
   // In-progress view
   return (
     <div className="border border-border rounded-lg overflow-hidden bg-card shadow-none">
-      <div className="py-2.5 px-4 border-b border-border bg-muted/30">
-        <div className="text-sm font-medium text-foreground">
+      <div className="py-2.5 px-4 border-b border-border bg-muted/30 flex items-center justify-between gap-3">
+        <div className="text-sm font-medium text-foreground min-w-0">
           {state === 'input-streaming' || state === 'input-available' ? (
             <TextShimmer duration={2}>{currentStatus}</TextShimmer>
           ) : (
             currentStatus
           )}
         </div>
+        {chatId && (
+          <button
+            onClick={handleStop}
+            disabled={isStopping}
+            className="flex items-center gap-1.5 shrink-0 px-2 py-1 rounded-md border border-border text-[11px] text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Square className="h-3 w-3" />
+            {isStopping ? 'Stopping...' : 'Stop'}
+          </button>
+        )}
       </div>
 
       <div className="p-4">
+        {/* Follow-up rounds: show which gaps the current round is chasing */}
+        {currentRound && currentRound.round > 1 && (
+          <div className="mb-2.5 space-y-1">
+            <span className="text-[10px] font-medium text-primary bg-primary/10 px-1.5 py-0.5 rounded-full">
+              Round {currentRound.round}
+            </span>
+            {currentRound.gaps.length > 0 && (
+              <ul className="space-y-0.5 pl-1">
+                {currentRound.gaps.map((gap, index) => (
+                  <li key={index} className="text-[11px] text-muted-foreground leading-snug">
+                    Gap: {gap}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Show plan if available and no timeline items yet */}
         {planData && searchQueries.length === 0 && codeExecutions.length === 0 && xSearchExecutions.length === 0 && (
           <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="mb-2.5">
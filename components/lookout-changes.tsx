@@ -0,0 +1,90 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { ArrowUpRight, History } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { DataLookoutChangesPart } from '@/lib/types';
+
+export const LookoutChanges: React.FC<DataLookoutChangesPart['data']> = ({
+  previousRunAt,
+  previousChatId,
+  materiallyChanged,
+  whatsNew,
+  newSources,
+}) => {
+  const previousRunDate = new Date(previousRunAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+  return (
+    <Accordion type="single" collapsible defaultValue="changes" className="w-full my-4">
+      <AccordionItem value="changes" className="border rounded-lg overflow-hidden">
+        <AccordionTrigger className="px-3 py-2.5 hover:no-underline">
+          <div className="flex items-center gap-2 min-w-0 flex-wrap">
+            <History className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="text-sm font-medium">What&apos;s new since last run</span>
+            <Badge
+              variant="secondary"
+              className={cn(
+                'rounded-full text-[10px] px-1.5 py-0 shrink-0 border-0',
+                materiallyChanged
+                  ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                  : 'bg-muted text-muted-foreground',
+              )}
+            >
+              {materiallyChanged ? 'Changed' : 'No material changes'}
+            </Badge>
+          </div>
+        </AccordionTrigger>
+        <AccordionContent className="pb-0">
+          <div className="border-t border-border px-3 py-2.5 space-y-3">
+            {whatsNew.length > 0 ? (
+              <ul className="list-disc pl-4 space-y-1 text-[13px] text-foreground leading-relaxed">
+                {whatsNew.map((item, index) => (
+                  <li key={index}>{item}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-[13px] text-muted-foreground">
+                The findings match the previous run{newSources.length > 0 ? ', though new sources were used' : ''}.
+              </p>
+            )}
+
+            {newSources.length > 0 && (
+              <div>
+                <p className="text-[11px] font-medium uppercase tracking-wide text-muted-foreground mb-1">
+                  New sources
+                </p>
+                {newSources.map((source) => (
+                  <a
+                    key={source.url}
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="group flex items-center gap-1.5 py-1 text-[13px] text-foreground hover:underline"
+                  >
+                    <span className="line-clamp-1 flex-1">{source.title}</span>
+                    <ArrowUpRight className="w-3 h-3 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            <Link
+              href={`/search/${previousChatId}`}
+              className="block text-[12px] text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Compared with the run on {previousRunDate} →
+            </Link>
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
@@ -84,7 +84,10 @@ import { CoinData as CryptoCoinsData } from '@/components/crypto-coin-data';
 import { CurrencyConverter } from '@/components/currency_conv';
 import { YouTubeSearchResults } from '@/components/youtube-search-results';
 import { ConnectorsSearchResults } from '@/components/connectors-search-results';
-import { CodeInterpreterView, NearbySearchSkeleton } from '@/components/tool-invocation-list-view';
+import { AttachmentSearchResults } from '@/components/attachment-search-results';
+import { CitationVerification } from '@/components/citation-verification';
+import { LookoutChanges } from '@/components/lookout-changes';
+import { CodeArtifactList, CodeInterpreterView, NearbySearchSkeleton } from '@/components/tool-invocation-list-view';
 import { RetrieveResults } from '@/components/retrieve-results';
 import { useDataStream } from '../data-stream-provider';
 
@@ -243,6 +246,9 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
       const meta = message?.metadata;
       const modelConfig = meta?.model ? getModelConfig(meta.model) : null;
       const modelLabel = modelConfig?.label ?? meta?.model ?? null;
+      const requestedModelLabel = meta?.requestedModel
+        ? (getModelConfig(meta.requestedModel)?.label ?? meta.requestedModel)
+        : null;
       const tokenTotal = (meta?.totalTokens ?? (meta?.inputTokens ?? 0) + (meta?.outputTokens ?? 0)) || null;
       const inputCount = meta?.inputTokens ?? null;
       const outputCount = meta?.outputTokens ?? null;
@@ -631,6 +637,13 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
                         </div>
                       )}
 
+                      {requestedModelLabel && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-muted-foreground">Fallback</span>
+                          <span className="text-xs text-muted-foreground">{requestedModelLabel} was unavailable</span>
+                        </div>
+                      )}
+
                       {typeof meta.completionTime === 'number' && (
                         <div className="flex items-center justify-between">
                           <span className="text-sm text-muted-foreground">Generation Time</span>
@@ -747,6 +760,16 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
       return <div key={`${messageIndex}-${partIndex}-step-start`}></div>;
     }
 
+    // Handle citation verification streamed after extreme search reports
+    if (part.type === 'data-citation_verification') {
+      return <CitationVerification key={`${messageIndex}-${partIndex}-citations`} {...part.data} />;
+    }
+
+    // Handle the comparison with the previous run streamed after lookout reports
+    if (part.type === 'data-lookout_changes') {
+      return <LookoutChanges key={`${messageIndex}-${partIndex}-lookout-changes`} {...part.data} />;
+    }
+
     // Handle tool parts with new granular states system
     if (isStaticToolUIPart(part)) {
       // Check if this part has the new state system
@@ -1253,13 +1276,20 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
                 return (
                   <ExtremeSearch
                     key={`${messageIndex}-${partIndex}-tool`}
-                    // @ts-ignore - Complex type intersection resolved to never
-                    toolInvocation={{ toolName: 'extreme_search', input: part.input, result: part.output }}
+                    toolInvocation={{
+                      // @ts-ignore - Complex type intersection resolved to never
+                      toolName: 'extreme_search',
+                      input: part.input,
+                      result: part.output,
+                      // The component reads the research from output once the tool has finished
+                      ...(part.state === 'output-available' ? { output: part.output } : {}),
+                    }}
                     annotations={
                       (annotations?.filter(
                         (annotation) => annotation.type === 'data-extreme_search',
                       ) as DataExtremeSearchPart[]) || []
                     }
+                    chatId={isOwner ? chatId : undefined}
                   />
                 );
             }
@@ -1857,6 +1887,35 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
             }
             break;
 
+          case 'tool-search_attachments':
+            switch (part.state) {
+              case 'input-streaming':
+                return (
+                  <div key={`${messageIndex}-${partIndex}-tool`} className="text-sm text-neutral-500">
+                    Preparing attachment search...
+                  </div>
+                );
+              case 'input-available':
+                return (
+                  <SearchLoadingState
+                    key={`${messageIndex}-${partIndex}-tool`}
+                    icon={FileText}
+                    text="Searching attachments..."
+                    color="blue"
+                  />
+                );
+              case 'output-available':
+                return (
+                  <AttachmentSearchResults
+                    key={`${messageIndex}-${partIndex}-tool`}
+                    query={part.output.query}
+                    results={part.output.results}
+                    error={part.output.success ? undefined : part.output.error}
+                  />
+                );
+            }
+            break;
+
           case 'tool-nearby_places_search':
             switch (part.state) {
               case 'input-streaming':
@@ -1956,7 +2015,8 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
                       code={part.input?.code}
                       output={part.output?.message}
                       error={part.output && 'error' in part.output ? String(part.output.error) : undefined}
-                      language="python"
+                      table={part.output?.table}
+                      language={part.input?.language ?? 'python'}
                       title={part.input?.title || 'Code Execution'}
                       status={
                         part.output && 'error' in part.output && part.output.error
@@ -1967,10 +2027,15 @@ export const MessagePartRenderer = memo<MessagePartRendererProps>(
                       }
                     />
 
-                    {part.output?.chart && (
-                      <div className="pt-1 overflow-x-auto">
-                        <InteractiveChart chart={part.output.chart} />
+                    {/* Results from before charts and files were returned only have `chart` */}
+                    {(part.output?.charts ?? (part.output?.chart ? [part.output.chart] : [])).map((chart, index) => (
+                      <div key={index} className="pt-1 overflow-x-auto">
+                        <InteractiveChart chart={chart} />
                       </div>
+                    ))}
+
+                    {part.output?.files && part.output.files.length > 0 && (
+                      <CodeArtifactList files={part.output.files} />
                     )}
                   </div>
                 );
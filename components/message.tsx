@@ -42,6 +42,7 @@ import { Attachment, ChatMessage, ChatTools, CustomUIDataTypes } from '@/lib/typ
 import { UseChatHelpers } from '@ai-sdk/react';
 import { ComprehensiveUserData } from '@/lib/user-data-server';
 import { cn } from '@/lib/utils';
+import { isDocumentMediaType } from '@/lib/documents';
 import remend from 'remend';
 import { useDataStream } from './data-stream-provider';
 
@@ -808,7 +809,8 @@ export const EditableAttachmentsBadge = ({
       att.contentType?.startsWith('image/') ||
       att.mediaType?.startsWith('image/') ||
       att.contentType === 'application/pdf' ||
-      att.mediaType === 'application/pdf',
+      att.mediaType === 'application/pdf' ||
+      isDocumentMediaType(att.contentType || att.mediaType),
   );
 
   if (fileAttachments.length === 0) return null;
@@ -1001,6 +1003,20 @@ export const EditableAttachmentsBadge = ({
                       </object>
                     </div>
                   </div>
+                ) : isDocumentMediaType(
+                    fileAttachments[selectedIndex].contentType || fileAttachments[selectedIndex].mediaType,
+                  ) ? (
+                  <div className="flex flex-col items-center justify-center h-[40vh] gap-3">
+                    <FileText className="h-12 w-12 text-blue-500 dark:text-blue-400" />
+                    <p className="text-sm text-muted-foreground">{fileAttachments[selectedIndex].name || 'Document'}</p>
+                    <a
+                      href={fileAttachments[selectedIndex].url}
+                      download={fileAttachments[selectedIndex].name}
+                      className="px-3 py-1.5 bg-muted text-muted-foreground text-xs font-medium rounded-md hover:bg-muted-foreground/10 transition-colors"
+                    >
+                      Download
+                    </a>
+                  </div>
                 ) : (
                   <div className="flex items-center justify-center h-[60vh]">
                     <img
@@ -1046,7 +1062,7 @@ export const EditableAttachmentsBadge = ({
                         : 'opacity-70 hover:opacity-100'
                         }`}
                     >
-                      {isPdf(attachment) ? (
+                      {isPdf(attachment) || isDocumentMediaType(attachment.contentType || attachment.mediaType) ? (
                         <div className="h-full w-full flex items-center justify-center bg-neutral-100 dark:bg-neutral-800">
                           <svg
                             xmlns="http://www.w3.org/2000/svg"
@@ -1100,7 +1116,8 @@ export const AttachmentsBadge = ({ attachments }: { attachments: Attachment[] })
       att.contentType?.startsWith('image/') ||
       att.mediaType?.startsWith('image/') ||
       att.contentType === 'application/pdf' ||
-      att.mediaType === 'application/pdf',
+      att.mediaType === 'application/pdf' ||
+      isDocumentMediaType(att.contentType || att.mediaType),
   );
 
   React.useEffect(() => {
@@ -1287,6 +1304,20 @@ export const AttachmentsBadge = ({ attachments }: { attachments: Attachment[] })
                       </object>
                     </div>
                   </div>
+                ) : isDocumentMediaType(
+                    fileAttachments[selectedIndex].contentType || fileAttachments[selectedIndex].mediaType,
+                  ) ? (
+                  <div className="flex flex-col items-center justify-center h-[40vh] gap-3">
+                    <FileText className="h-12 w-12 text-blue-500 dark:text-blue-400" />
+                    <p className="text-sm text-muted-foreground">{fileAttachments[selectedIndex].name || 'Document'}</p>
+                    <a
+                      href={fileAttachments[selectedIndex].url}
+                      download={fileAttachments[selectedIndex].name}
+                      className="px-3 py-1.5 bg-muted text-muted-foreground text-xs font-medium rounded-md hover:bg-muted-foreground/10 transition-colors"
+                    >
+                      Download
+                    </a>
+                  </div>
                 ) : (
                   <div className="flex items-center justify-center h-[60vh]">
                     <img
@@ -1332,7 +1363,7 @@ export const AttachmentsBadge = ({ attachments }: { attachments: Attachment[] })
                         : 'opacity-70 hover:opacity-100'
                         }`}
                     >
-                      {isPdf(attachment) ? (
+                      {isPdf(attachment) || isDocumentMediaType(attachment.contentType || attachment.mediaType) ? (
                         <div className="h-full w-full flex items-center justify-center bg-muted dark:bg-muted">
                           <svg
                             xmlns="http://www.w3.org/2000/svg"
@@ -71,6 +71,8 @@ type SearchResult = {
   content: string;
   published_date?: string;
   author?: string;
+  // Present for hybrid searches: every provider that returned this result
+  providers?: string[];
 };
 
 type SearchQueryResult = {
@@ -166,6 +168,12 @@ const SourceCard: React.FC<{ result: SearchResult; onClick?: () => void }> = ({
                 <span className="truncate">{result.author}</span>
               </>
             )}
+            {result.providers && result.providers.length > 0 && (
+              <>
+                <span>·</span>
+                <span className="truncate capitalize">via {result.providers.join(', ')}</span>
+              </>
+            )}
           </div>
 
           {/* Description */}
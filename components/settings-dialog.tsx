@@ -4,6 +4,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { ButtonGroup } from '@/components/ui/button-group';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -20,6 +21,7 @@ import {
   getSubDetails,
   getExtremeSearchUsageCount,
   getHistoricalUsage,
+  getUsageBreakdown,
   getCustomInstructions,
   saveCustomInstructions,
   deleteCustomInstructionsAction,
@@ -28,6 +30,9 @@ import {
   deleteConnectorAction,
   manualSyncConnectorAction,
   getConnectorSyncStatusAction,
+  listApiKeysAction,
+  createApiKeyAction,
+  revokeApiKeyAction,
 } from '@/app/actions';
 import { SEARCH_LIMITS } from '@/lib/constants';
 import { authClient, betterauthClient } from '@/lib/auth-client';
@@ -76,6 +81,7 @@ import {
   ConnectIcon,
   InformationCircleIcon,
   Rocket01Icon,
+  Key01Icon,
 } from '@hugeicons/core-free-icons';
 import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
 import { LineChart, Line, Area, AreaChart, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
@@ -172,6 +178,18 @@ const FirecrawlIcon = ({ className }: { className?: string }) => (
   <span className={cn('text-base sm:text-lg mb-3! pr-1!', className)}>🔥</span>
 );
 
+const SearXNGIcon = ({ className }: { className?: string }) => (
+  <span className={cn('text-base sm:text-lg mb-3! pr-1!', className)}>🔍</span>
+);
+
+const HybridIcon = ({ className }: { className?: string }) => (
+  <span className={cn('text-base sm:text-lg mb-3! pr-1!', className)}>🔀</span>
+);
+
+const ParallelIcon = ({ className }: { className?: string }) => (
+  <Image src="/parallel-icon.svg" alt="Parallel" width={16} height={16} className={className} />
+);
+
 // Search Provider Options
 const searchProviders = [
   {
@@ -195,6 +213,20 @@ const searchProviders = [
     icon: TavilyIcon,
     default: false,
   },
+  {
+    value: 'searxng',
+    label: 'SearXNG',
+    description: 'Self-hosted metasearch with web, news, and image results',
+    icon: SearXNGIcon,
+    default: false,
+  },
+  {
+    value: 'hybrid',
+    label: 'Hybrid',
+    description: 'Queries several providers in parallel and fuses their rankings',
+    icon: HybridIcon,
+    default: false,
+  },
 ] as const;
 
 // Extreme Search Provider list
@@ -206,6 +238,56 @@ const extremeSearchProviders = [
     icon: ExaIcon,
     default: true,
   },
+  {
+    value: 'tavily',
+    label: 'Tavily',
+    description: 'Search and extraction built for research agents',
+    icon: TavilyIcon,
+    default: false,
+  },
+  {
+    value: 'firecrawl',
+    label: 'Firecrawl',
+    description: 'Web search with full-page scraping, including PDFs',
+    icon: FirecrawlIcon,
+    default: false,
+  },
+  {
+    value: 'parallel',
+    label: 'Parallel',
+    description: 'Agentic web search with full-content extraction',
+    icon: ParallelIcon,
+    default: false,
+  },
+  {
+    value: 'searxng',
+    label: 'SearXNG',
+    description: 'Self-hosted search, pages fetched directly without a third-party API',
+    icon: SearXNGIcon,
+    default: false,
+  },
+] as const;
+
+// Extreme Search research budgets, mirroring RESEARCH_BUDGETS in lib/tools/extreme-search.ts
+const extremeSearchBudgets = [
+  {
+    value: 'standard',
+    label: 'Standard',
+    description: 'One research pass, up to 5 minutes',
+    default: true,
+  },
+  {
+    value: 'thorough',
+    label: 'Thorough',
+    description: 'Up to 3 rounds that follow up on gaps, up to 8 minutes',
+    default: false,
+  },
+  {
+    value: 'exhaustive',
+    label: 'Exhaustive',
+    description: 'Up to 6 rounds for broad topics, up to 12 minutes',
+    default: false,
+  },
 ] as const;
 
 // Search Provider Selector Component
@@ -216,7 +298,7 @@ function SearchProviderSelector({
   className,
 }: {
   value: string;
-  onValueChange: (value: 'exa' | 'tavily' | 'firecrawl') => void;
+  onValueChange: (value: 'exa' | 'tavily' | 'firecrawl' | 'searxng' | 'hybrid') => void;
   disabled?: boolean;
   className?: string;
 }) {
@@ -266,7 +348,7 @@ function ExtremeSearchProviderSelector({
   className,
 }: {
   value: string;
-  onValueChange: (value: 'exa') => void;
+  onValueChange: (value: 'exa' | 'tavily' | 'firecrawl' | 'parallel' | 'searxng') => void;
   disabled?: boolean;
   className?: string;
 }) {
@@ -308,6 +390,51 @@ function ExtremeSearchProviderSelector({
   );
 }
 
+// Extreme Search Budget Selector Component
+function ExtremeSearchBudgetSelector({
+  value,
+  onValueChange,
+  disabled,
+  className,
+}: {
+  value: string;
+  onValueChange: (value: 'standard' | 'thorough' | 'exhaustive') => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  return (
+    <div className={cn('w-full', className)}>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {extremeSearchBudgets.map((budget) => (
+          <button
+            key={budget.value}
+            onClick={() => onValueChange(budget.value)}
+            disabled={disabled}
+            className={cn(
+              'flex flex-col items-start p-4 rounded-lg border transition-all duration-200',
+              'hover:bg-accent/50 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2',
+              'disabled:opacity-50 disabled:cursor-not-allowed',
+              value === budget.value
+                ? 'border-primary bg-primary/5 ring-1 ring-primary/20'
+                : 'border-border bg-background hover:border-border/80',
+            )}
+          >
+            <div className="font-medium text-sm flex items-center gap-2 mb-2">
+              {budget.label}
+              {budget.default && (
+                <Badge variant="secondary" className="text-[9px] px-1 py-0.5 bg-primary/10 text-primary border-0">
+                  Default
+                </Badge>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground leading-relaxed text-left">{budget.description}</div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // Component for Combined Preferences (Search + Custom Instructions)
 export function PreferencesSection({
   user,
@@ -319,14 +446,18 @@ export function PreferencesSection({
   setIsCustomInstructionsEnabled?: (value: boolean | ((val: boolean) => boolean)) => void;
 }) {
   const isMobile = useMediaQuery('(max-width: 768px)');
-  const [searchProvider, setSearchProvider] = useSyncedPreferences<'exa' | 'tavily' | 'firecrawl'>(
+  const [searchProvider, setSearchProvider] = useSyncedPreferences<'exa' | 'tavily' | 'firecrawl' | 'searxng' | 'hybrid'>(
     'rovo-search-provider',
     'exa',
   );
 
-  const [extremeSearchProvider, setExtremeSearchProvider] = useSyncedPreferences<'exa'>(
-    'rovo-extreme-search-provider',
-    'exa',
+  const [extremeSearchProvider, setExtremeSearchProvider] = useSyncedPreferences<
+    'exa' | 'tavily' | 'firecrawl' | 'parallel' | 'searxng'
+  >('rovo-extreme-search-provider', 'exa');
+
+  const [extremeSearchBudget, setExtremeSearchBudget] = useSyncedPreferences<'standard' | 'thorough' | 'exhaustive'>(
+    'rovo-extreme-search-budget',
+    'standard',
   );
 
   const [locationMetadataEnabled, setLocationMetadataEnabled] = useSyncedPreferences<boolean>(
@@ -364,21 +495,22 @@ export function PreferencesSection({
   const enabled = isCustomInstructionsEnabled ?? true;
   const setEnabled = setIsCustomInstructionsEnabled ?? (() => { });
 
-  const handleSearchProviderChange = (newProvider: 'exa' | 'tavily' | 'firecrawl') => {
+  const handleSearchProviderChange = (newProvider: 'exa' | 'tavily' | 'firecrawl' | 'searxng' | 'hybrid') => {
     setSearchProvider(newProvider);
-    toast.success(
-      `Search provider changed to ${newProvider === 'exa'
-          ? 'Exa'
-          : newProvider === 'tavily'
-            ? 'Tavily'
-            : 'Firecrawl'
-      }`,
-    );
+    const label = searchProviders.find((provider) => provider.value === newProvider)?.label ?? newProvider;
+    toast.success(`Search provider changed to ${label}`);
   };
 
-  const handleExtremeSearchProviderChange = (newProvider: 'exa') => {
+  const handleExtremeSearchProviderChange = (newProvider: 'exa' | 'tavily' | 'firecrawl' | 'parallel' | 'searxng') => {
     setExtremeSearchProvider(newProvider);
-    toast.success(`Extreme search provider changed to Exa`);
+    const label = extremeSearchProviders.find((provider) => provider.value === newProvider)?.label ?? newProvider;
+    toast.success(`Extreme search provider changed to ${label}`);
+  };
+
+  const handleExtremeSearchBudgetChange = (newBudget: 'standard' | 'thorough' | 'exhaustive') => {
+    setExtremeSearchBudget(newBudget);
+    const label = extremeSearchBudgets.find((budget) => budget.value === newBudget)?.label ?? newBudget;
+    toast.success(`Research depth changed to ${label}`);
   };
 
   // Custom Instructions queries and handlers
@@ -618,7 +750,7 @@ export function PreferencesSection({
                 </div>
                 <div>
                   <h4 className="font-semibold text-sm">Extreme Search Provider</h4>
-                  <p className="text-xs text-muted-foreground">Choose your content extraction engine</p>
+                  <p className="text-xs text-muted-foreground">Choose your research search and extraction engine</p>
                 </div>
               </div>
 
@@ -628,8 +760,34 @@ export function PreferencesSection({
                   onValueChange={handleExtremeSearchProviderChange}
                 />
                 <p className="text-xs text-muted-foreground leading-relaxed">
-                  Select your preferred provider for extreme search content extraction. This determines how web content
-                  is fetched and processed during deep research.
+                  Select your preferred provider for extreme search. It is used both to search the web and to extract
+                  page content during deep research, and is shown alongside the research results.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Extreme Search Budget Section */}
+          <div className="space-y-3">
+            <div className="space-y-2.5">
+              <div className="flex items-center gap-2.5">
+                <div className="p-1.5 rounded-lg bg-primary/10">
+                  <HugeiconsIcon icon={Rocket01Icon} className="h-3.5 w-3.5 text-primary" />
+                </div>
+                <div>
+                  <h4 className="font-semibold text-sm">Research Depth</h4>
+                  <p className="text-xs text-muted-foreground">How far extreme search may go before it writes up</p>
+                </div>
+              </div>
+
+              <div className="space-y-2.5">
+                <ExtremeSearchBudgetSelector
+                  value={extremeSearchBudget}
+                  onValueChange={handleExtremeSearchBudgetChange}
+                />
+                <p className="text-xs text-muted-foreground leading-relaxed">
+                  Deeper research reflects on what it found after each round and searches again to fill the gaps. Each
+                  depth caps time, searches and tokens, and research stops early once the topic is covered.
                 </p>
               </div>
             </div>
@@ -790,10 +948,23 @@ const ReorderList = memo(function ReorderList<T extends string>({
 
 // Component for Usage Information
 type TimePeriod = '7d' | '30d' | '12m';
+type BreakdownView = 'day' | 'model' | 'group';
+
+function formatCost(cost: number) {
+  if (cost === 0) return '$0.00';
+  return cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number) {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return `${tokens}`;
+}
 
 export function UsageSection({ user }: any) {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [timePeriod, setTimePeriod] = useState<TimePeriod>('7d');
+  const [breakdownView, setBreakdownView] = useState<BreakdownView>('model');
 
   const isMobile = useMediaQuery('(max-width: 768px)');
   const isTablet = useMediaQuery('(min-width: 769px) and (max-width: 1024px)');
@@ -848,9 +1019,42 @@ export function UsageSection({ user }: any) {
     staleTime: 1000 * 60 * 10,
   });
 
+  const {
+    data: usageBreakdown,
+    isLoading: breakdownLoading,
+    refetch: refetchBreakdown,
+  } = useQuery({
+    queryKey: ['usageBreakdown', user?.id, daysWindow],
+    queryFn: () => getUsageBreakdown(daysWindow),
+    enabled: !!user,
+    staleTime: 1000 * 60 * 10,
+  });
+
   const searchCount = usageData?.searchCount;
   const extremeSearchCount = usageData?.extremeSearchCount;
 
+  const breakdownRows = useMemo(() => {
+    if (!usageBreakdown) return [];
+
+    if (breakdownView === 'day') {
+      return usageBreakdown.byDay.map((row) => ({
+        ...row,
+        label: new Date(`${row.key}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      }));
+    }
+    if (breakdownView === 'group') {
+      const groups = getSearchGroups();
+      return usageBreakdown.byGroup.map((row) => ({
+        ...row,
+        label: groups.find((group) => group.id === row.key)?.name ?? row.key,
+      }));
+    }
+    return usageBreakdown.byModel.map((row) => ({
+      ...row,
+      label: models.find((model) => model.value === row.key)?.label ?? row.key,
+    }));
+  }, [usageBreakdown, breakdownView]);
+
   // Transform historical data for chart
   const chartData = useMemo(() => {
     if (!historicalUsageData || historicalUsageData.length === 0) return [];
@@ -903,7 +1107,7 @@ export function UsageSection({ user }: any) {
   const handleRefreshUsage = async () => {
     try {
       setIsRefreshing(true);
-      await Promise.all([refetchUsageData(), refetchHistoricalData()]);
+      await Promise.all([refetchUsageData(), refetchHistoricalData(), refetchBreakdown()]);
       toast.success('Usage data refreshed');
     } catch (error) {
       toast.error('Failed to refresh usage data');
@@ -1179,6 +1383,77 @@ export function UsageSection({ user }: any) {
           </div>
         </div>
       )}
+
+      {!usageLoading && (
+        <div className="space-y-2 w-full">
+          <div className="flex items-center justify-between">
+            <h4 className={cn('font-semibold text-muted-foreground', isMobile ? 'text-[11px]' : 'text-xs')}>
+              Tokens & Cost
+            </h4>
+            <ButtonGroup orientation="horizontal" className="h-7">
+              {(['day', 'model', 'group'] as const).map((view) => (
+                <Button
+                  key={view}
+                  variant={breakdownView === view ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setBreakdownView(view)}
+                  className={cn('h-7 px-2 text-[10px] capitalize', isMobile && 'px-1.5')}
+                >
+                  {view}
+                </Button>
+              ))}
+            </ButtonGroup>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: 'Requests', value: `${usageBreakdown?.totals.requests ?? 0}` },
+              { label: 'Tokens', value: formatTokens(usageBreakdown?.totals.totalTokens ?? 0) },
+              { label: 'Est. cost', value: formatCost(usageBreakdown?.totals.cost ?? 0) },
+            ].map((stat) => (
+              <div key={stat.label} className="bg-muted/50 rounded-lg space-y-1 p-3">
+                <span className={cn('text-muted-foreground', isMobile ? 'text-[11px]' : 'text-xs')}>{stat.label}</span>
+                {breakdownLoading ? (
+                  <Skeleton className={cn('font-semibold', isMobile ? 'text-base h-4' : 'text-lg h-5')} />
+                ) : (
+                  <div className={cn('font-semibold', isMobile ? 'text-base' : 'text-lg')}>{stat.value}</div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-muted/50 dark:bg-card rounded-lg p-3 w-full">
+            {breakdownLoading ? (
+              <div className="space-y-2">
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-2/3" />
+              </div>
+            ) : breakdownRows.length > 0 ? (
+              <div className="space-y-1.5">
+                <div className="grid grid-cols-[1fr_auto_auto_auto] gap-3 text-[10px] text-muted-foreground">
+                  <span className="capitalize">{breakdownView}</span>
+                  <span className="text-right">Requests</span>
+                  <span className="text-right w-12">Tokens</span>
+                  <span className="text-right w-12">Cost</span>
+                </div>
+                {breakdownRows.map((row) => (
+                  <div key={row.key} className="grid grid-cols-[1fr_auto_auto_auto] gap-3 text-xs">
+                    <span className="truncate">{row.label}</span>
+                    <span className="text-right text-muted-foreground">{row.requests}</span>
+                    <span className="text-right text-muted-foreground w-12">{formatTokens(row.totalTokens)}</span>
+                    <span className="text-right font-medium w-12">{formatCost(row.cost)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className={cn('text-muted-foreground text-center py-4', isMobile ? 'text-[11px]' : 'text-xs')}>
+                No usage recorded
+              </p>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1857,6 +2132,169 @@ export function ConnectorsSection({ user }: { user: any }) {
   );
 }
 
+// Component for API Keys
+export function ApiKeysSection({ user }: { user: any }) {
+  const queryClient = useQueryClient();
+  const isMobile = useMediaQuery('(max-width: 768px)');
+  const [newKeyName, setNewKeyName] = useState('');
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [revokingKeyIds, setRevokingKeyIds] = useState<Set<string>>(new Set());
+
+  const { data: apiKeysData, isLoading: apiKeysLoading } = useQuery({
+    queryKey: ['apiKeys', user?.id],
+    queryFn: listApiKeysAction,
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createApiKeyAction,
+    onSuccess: (result) => {
+      if (result.success && result.key) {
+        setCreatedKey(result.key);
+        setNewKeyName('');
+        queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
+        toast.success('API key created');
+      } else {
+        toast.error(result.error || 'Failed to create API key');
+      }
+    },
+    onError: () => {
+      toast.error('Failed to create API key');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeApiKeyAction,
+    onSettled: (_, __, keyId) => {
+      setRevokingKeyIds((prev) => {
+        const newSet = new Set(prev);
+        newSet.delete(keyId);
+        return newSet;
+      });
+    },
+    onSuccess: (result) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
+        toast.success('API key revoked');
+      } else {
+        toast.error(result.error || 'Failed to revoke API key');
+      }
+    },
+    onError: () => {
+      toast.error('Failed to revoke API key');
+    },
+  });
+
+  const handleRevokeKey = (id: string) => {
+    setRevokingKeyIds((prev) => new Set(prev).add(id));
+    revokeMutation.mutate(id);
+  };
+
+  const handleCopyKey = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey);
+      toast.success('API key copied to clipboard');
+    } catch {
+      toast.error('Failed to copy API key');
+    }
+  };
+
+  const apiKeys = apiKeysData?.keys ?? [];
+
+  return (
+    <div className={cn('space-y-4', isMobile ? 'space-y-3' : 'space-y-4')}>
+      <div className="space-y-1">
+        <h3 className="text-sm font-semibold">API Keys</h3>
+        <p className={cn('text-muted-foreground', isMobile ? 'text-[11px]' : 'text-xs')}>
+          Use a key with <code className="px-1 py-0.5 rounded bg-muted text-[10px]">Authorization: Bearer</code> on{' '}
+          <code className="px-1 py-0.5 rounded bg-muted text-[10px]">POST /api/v1/search</code>. Requests count
+          against your plan&apos;s usage limits.
+        </p>
+      </div>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (newKeyName.trim()) createMutation.mutate(newKeyName);
+        }}
+      >
+        <Input
+          value={newKeyName}
+          onChange={(e) => setNewKeyName(e.target.value)}
+          placeholder="Key name, e.g. CI scripts"
+          maxLength={64}
+          className="h-8 text-sm"
+        />
+        <Button type="submit" size="sm" className="h-8" disabled={!newKeyName.trim() || createMutation.isPending}>
+          {createMutation.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Create'}
+        </Button>
+      </form>
+
+      {createdKey && (
+        <Alert>
+          <AlertTitle className="text-xs">Copy your new key now</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p className="text-[11px]">It won&apos;t be shown again.</p>
+            <div className="flex items-center gap-2 w-full">
+              <code className="flex-1 min-w-0 truncate rounded bg-muted px-2 py-1 text-[11px]">{createdKey}</code>
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleCopyKey}>
+                Copy
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setCreatedKey(null)}>
+                Done
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        {apiKeysLoading ? (
+          <div className="flex justify-center items-center h-20">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : apiKeys.length === 0 ? (
+          <div className="flex flex-col justify-center items-center h-20 border border-dashed rounded-lg bg-muted/20">
+            <p className="text-sm text-muted-foreground">No API keys yet</p>
+          </div>
+        ) : (
+          apiKeys.map((apiKey) => (
+            <div key={apiKey.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border bg-card/50">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{apiKey.name}</p>
+                <div className="flex items-center gap-3 text-[10px] text-muted-foreground mt-1">
+                  <code>{apiKey.keyPrefix}…</code>
+                  <span>Created {new Date(apiKey.createdAt).toLocaleDateString()}</span>
+                  <span>
+                    {apiKey.lastUsedAt ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleDateString()}` : 'Never used'}
+                  </span>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRevokeKey(apiKey.id)}
+                disabled={revokingKeyIds.has(apiKey.id)}
+                className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+                aria-label={`Revoke ${apiKey.name}`}
+              >
+                {revokingKeyIds.has(apiKey.id) ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <TrashIcon className="h-3 w-3" />
+                )}
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function SettingsDialog({
   open,
   onOpenChange,
@@ -1939,6 +2377,11 @@ export function SettingsDialog({
       label: 'Memories',
       icon: ({ className }: { className?: string }) => <HugeiconsIcon icon={Brain02Icon} className={className} />,
     },
+    {
+      value: 'api-keys',
+      label: 'API Keys',
+      icon: ({ className }: { className?: string }) => <HugeiconsIcon icon={Key01Icon} className={className} />,
+    },
   ];
 
   const contentSections = (
@@ -1978,6 +2421,10 @@ export function SettingsDialog({
       <TabsContent value="memories" className="mt-0">
         <MemoriesSection />
       </TabsContent>
+
+      <TabsContent value="api-keys" className="mt-0">
+        <ApiKeysSection user={user} />
+      </TabsContent>
     </>
   );
 
@@ -2020,7 +2467,7 @@ export function SettingsDialog({
                     : 'pb-[calc(env(safe-area-inset-bottom)+1rem)]',
                 )}
               >
-                <TabsList className="w-full py-1.5 h-24 bg-transparent rounded-none grid grid-cols-3 sm:grid-cols-6 gap-2 mb-2! px-3 sm:px-4">
+                <TabsList className="w-full py-1.5 h-24 bg-transparent rounded-none grid grid-cols-4 sm:grid-cols-7 gap-2 mb-2! px-3 sm:px-4">
                   {tabItems.map((item) => (
                     <TabsTrigger
                       key={item.value}
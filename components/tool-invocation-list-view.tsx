@@ -12,7 +12,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 
 // Icons
-import { ChevronDown, Copy, Loader2, MapPin, XCircle } from 'lucide-react';
+import { ChevronDown, Copy, Download, FileText, Loader2, MapPin, XCircle } from 'lucide-react';
 
 export const SearchLoadingState = ({
   icon: Icon,
@@ -249,6 +249,51 @@ const OutputBlock = memo(({ output, error }: { output?: string; error?: string }
 
 OutputBlock.displayName = 'OutputBlock';
 
+const TableBlock = memo(
+  ({
+    table,
+  }: {
+    table: { columns: string[]; rows: Array<Array<string | number | boolean | null>>; truncated: boolean };
+  }) => (
+    <div className="max-w-full overflow-auto max-h-72 scrollbar-thin scrollbar-thumb-neutral-300 dark:scrollbar-thumb-neutral-700 scrollbar-track-transparent">
+      <table className="w-full font-mono text-[11px] sm:text-xs">
+        <thead className="sticky top-0 bg-neutral-50 dark:bg-neutral-800">
+          <tr>
+            {table.columns.map((column, index) => (
+              <th
+                key={index}
+                className="px-2 sm:px-3 py-1.5 text-left font-medium text-neutral-600 dark:text-neutral-300 whitespace-nowrap"
+              >
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="border-t border-neutral-100 dark:border-neutral-800">
+              {row.map((value, columnIndex) => (
+                <td
+                  key={columnIndex}
+                  className={cn(
+                    'px-2 sm:px-3 py-1 whitespace-nowrap text-neutral-800 dark:text-neutral-300',
+                    typeof value === 'number' && 'text-right tabular-nums',
+                    value === null && 'text-neutral-400 dark:text-neutral-500',
+                  )}
+                >
+                  {value === null ? 'NULL' : String(value)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  ),
+);
+
+TableBlock.displayName = 'TableBlock';
+
 export function CodeInterpreterView({
   code,
   output,
@@ -256,6 +301,7 @@ export function CodeInterpreterView({
   title,
   status,
   error,
+  table,
 }: {
   code: string;
   output?: string;
@@ -263,6 +309,8 @@ export function CodeInterpreterView({
   title?: string;
   status?: 'running' | 'completed' | 'error';
   error?: string;
+  // Query results, shown in place of the text output
+  table?: { columns: string[]; rows: Array<Array<string | number | boolean | null>>; truncated: boolean };
 }) {
   // Set initial state based on status - expanded while running, collapsed when complete
   const [isExpanded, setIsExpanded] = useState(status !== 'completed');
@@ -316,7 +364,7 @@ export function CodeInterpreterView({
           <div className="max-w-full overflow-x-auto max-h-60 scrollbar-thin scrollbar-thumb-neutral-300 dark:scrollbar-thumb-neutral-700 scrollbar-track-transparent">
             <CodeBlock code={code} language={language} />
           </div>
-          {(output || error) && (
+          {(output || error) && !table && (
             <>
               <div className="border-t border-neutral-200 dark:border-neutral-800 px-2.5 sm:px-3 py-1.5 bg-neutral-50 dark:bg-neutral-800/30">
                 <div className="text-[10px] font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wide">
@@ -330,6 +378,55 @@ export function CodeInterpreterView({
           )}
         </div>
       )}
+
+      {table && (
+        <div className="border-t border-neutral-200 dark:border-neutral-800">
+          <div className="px-2.5 sm:px-3 py-1.5 bg-neutral-50 dark:bg-neutral-800/30 border-b border-neutral-200 dark:border-neutral-800">
+            <div className="text-[10px] font-medium text-neutral-500 dark:text-neutral-400 uppercase tracking-wide">
+              {table.rows.length} {table.rows.length === 1 ? 'row' : 'rows'}
+              {table.truncated && ' (truncated)'}
+            </div>
+          </div>
+          <TableBlock table={table} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatArtifactSize(bytes: number): string {
+  if (bytes < 1024) return bytes + ' bytes';
+  else if (bytes < 1048576) return (bytes / 1024).toFixed(1) + ' KB';
+  else return (bytes / 1048576).toFixed(1) + ' MB';
+}
+
+// Files written by code_interpreter, downloadable from storage
+export function CodeArtifactList({
+  files,
+}: {
+  files: Array<{ name: string; path: string; url: string; contentType: string; size: number }>;
+}) {
+  return (
+    <div className="rounded-lg border border-neutral-200 dark:border-neutral-800 overflow-hidden">
+      {files.map((file) => (
+        <a
+          key={file.url}
+          href={file.url}
+          download={file.name}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="group flex items-center gap-2 px-3 py-2 border-b border-neutral-200 dark:border-neutral-800 last:border-b-0 hover:bg-neutral-50 dark:hover:bg-neutral-800/50 transition-colors"
+        >
+          <FileText className="h-3.5 w-3.5 shrink-0 text-neutral-500 dark:text-neutral-400" />
+          <span className="text-xs font-medium text-neutral-700 dark:text-neutral-200 truncate flex-1">
+            {file.path}
+          </span>
+          <span className="text-[10px] text-neutral-500 dark:text-neutral-400 shrink-0">
+            {formatArtifactSize(file.size)}
+          </span>
+          <Download className="h-3.5 w-3.5 shrink-0 text-neutral-400 group-hover:text-neutral-700 dark:group-hover:text-neutral-200 transition-colors" />
+        </a>
+      ))}
     </div>
   );
 }
@@ -28,6 +28,7 @@ import { ComprehensiveUserData } from '@/hooks/use-user-data';
 import { checkImageModeration, enhancePrompt, getDiscountConfigAction, getUserCountryCode } from '@/app/actions';
 import { DiscountConfig } from '@/lib/discount';
 import { PRICING, SEARCH_LIMITS } from '@/lib/constants';
+import { DOCUMENT_TYPES, getDocumentKind } from '@/lib/documents';
 import { LockIcon, Eye, Brain, FilePdf } from '@phosphor-icons/react';
 import { HugeiconsIcon } from '@/components/ui/hugeicons';
 import {
@@ -1231,6 +1232,9 @@ interface Attachment {
   mediaType?: string;
   url: string;
   size: number;
+  // Extracted text excerpt for document attachments (DOCX, XLSX, CSV, ...)
+  preview?: string;
+  truncated?: boolean;
 }
 
 const ArrowUpIcon = ({ size = 16 }: { size?: number }) => {
@@ -1311,6 +1315,29 @@ const AttachmentPreview: React.FC<{
     [isUploadingAttachment],
   );
 
+  const documentKind = isUploadingAttachment(attachment)
+    ? null
+    : getDocumentKind({ type: (attachment as Attachment).contentType, name: attachment.name });
+  const documentPreview = documentKind ? (attachment as Attachment).preview : undefined;
+
+  const attachmentDetails = (
+    <div className="grow min-w-0">
+      {!isUploadingAttachment(attachment) && (
+        <p className="text-xs font-medium truncate text-foreground">{truncateFilename(attachment.name)}</p>
+      )}
+      <p className="text-[10px] text-muted-foreground">
+        {isUploadingAttachment(attachment)
+          ? 'Uploading...'
+          : documentKind
+            ? `${DOCUMENT_TYPES[documentKind].label} · ${formatFileSize((attachment as Attachment).size)}`
+            : formatFileSize((attachment as Attachment).size)}
+      </p>
+      {documentPreview && (
+        <p className="text-[10px] text-muted-foreground/80 truncate max-w-40">{documentPreview.split('\n')[0]}</p>
+      )}
+    </div>
+  );
+
   return (
     <motion.div
       layout
@@ -1395,6 +1422,24 @@ const AttachmentPreview: React.FC<{
               <path d="M9 15v-2h6v2"></path>
               <path d="M12 18v-5"></path>
             </svg>
+          ) : documentKind ? (
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="text-blue-500"
+            >
+              <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
+              <polyline points="14 2 14 8 20 8"></polyline>
+              <path d="M8 13h8"></path>
+              <path d="M8 17h5"></path>
+            </svg>
           ) : (
             <img
               src={(attachment as Attachment).url}
@@ -1404,14 +1449,21 @@ const AttachmentPreview: React.FC<{
           )}
         </div>
       )}
-      <div className="grow min-w-0">
-        {!isUploadingAttachment(attachment) && (
-          <p className="text-xs font-medium truncate text-foreground">{truncateFilename(attachment.name)}</p>
-        )}
-        <p className="text-[10px] text-muted-foreground">
-          {isUploadingAttachment(attachment) ? 'Uploading...' : formatFileSize((attachment as Attachment).size)}
-        </p>
-      </div>
+      {documentPreview ? (
+        <Tooltip>
+          <TooltipTrigger asChild>{attachmentDetails}</TooltipTrigger>
+          <TooltipContent side="top" className="max-w-sm p-3">
+            <p className="text-[10px] font-medium mb-1">
+              Extracted preview{(attachment as Attachment).truncated ? ' (truncated for the model)' : ''}
+            </p>
+            <pre className="text-[10px] leading-snug whitespace-pre-wrap font-mono max-h-40 overflow-hidden">
+              {documentPreview}
+            </pre>
+          </TooltipContent>
+        </Tooltip>
+      ) : (
+        attachmentDetails
+      )}
       <motion.button
         whileHover={{ scale: 1.1 }}
         whileTap={{ scale: 0.9 }}
@@ -1647,6 +1699,16 @@ const WEB_SEARCH_PROVIDERS: Array<{
       label: 'Tavily',
       description: 'Wide-reaching search with comprehensive summaries and analysis.',
     },
+    {
+      value: 'searxng',
+      label: 'SearXNG',
+      description: 'Self-hosted metasearch with web, news, and image results.',
+    },
+    {
+      value: 'hybrid',
+      label: 'Hybrid',
+      description: 'Queries several providers at once and fuses their rankings.',
+    },
   ];
 
 const GroupModeToggle: React.FC<GroupSelectorProps> = React.memo(
@@ -2811,6 +2873,7 @@ const FormComponent: React.FC<FormComponentProps> = ({
 
       const imageFiles: File[] = [];
       const pdfFiles: File[] = [];
+      const documentFiles: File[] = [];
       const unsupportedFiles: File[] = [];
       const oversizedFiles: File[] = [];
       const blockedPdfFiles: File[] = [];
@@ -2829,6 +2892,8 @@ const FormComponent: React.FC<FormComponentProps> = ({
           } else {
             pdfFiles.push(file);
           }
+        } else if (getDocumentKind(file)) {
+          documentFiles.push(file);
         } else {
           unsupportedFiles.push(file);
         }
@@ -2855,7 +2920,7 @@ const FormComponent: React.FC<FormComponentProps> = ({
         });
       }
 
-      if (imageFiles.length === 0 && pdfFiles.length === 0) {
+      if (imageFiles.length === 0 && pdfFiles.length === 0 && documentFiles.length === 0) {
         console.log('No supported files found');
         event.target.value = '';
         return;
@@ -2874,14 +2939,15 @@ const FormComponent: React.FC<FormComponentProps> = ({
           console.warn('No PDF-compatible model found');
           toast.error('PDFs are only supported by Gemini and Claude models');
 
-          if (imageFiles.length === 0) {
+          if (imageFiles.length === 0 && documentFiles.length === 0) {
             event.target.value = '';
             return;
           }
         }
       }
 
-      let validFiles: File[] = [...imageFiles];
+      // Documents are converted to text on the server, so they work with any model
+      let validFiles: File[] = [...imageFiles, ...documentFiles];
       if (hasPdfSupport(selectedModel) || pdfFiles.length > 0) {
         validFiles = [...validFiles, ...pdfFiles];
       }
@@ -2977,8 +3043,8 @@ const FormComponent: React.FC<FormComponentProps> = ({
       // Get the attachment to delete
       const attachmentToDelete = attachments[index];
 
-      // Delete from Vercel Blob if it's a blob URL
-      if (attachmentToDelete?.url && attachmentToDelete.url.includes('blob.vercel-storage.com')) {
+      // Delete from storage; the server only allows the uploader to delete it
+      if (attachmentToDelete?.url) {
         try {
           await fetch('/api/upload', {
             method: 'DELETE',
@@ -3047,6 +3113,7 @@ const FormComponent: React.FC<FormComponentProps> = ({
 
       const imageFiles: File[] = [];
       const pdfFiles: File[] = [];
+      const documentFiles: File[] = [];
       const unsupportedFiles: File[] = [];
       const oversizedFiles: File[] = [];
       const blockedPdfFiles: File[] = [];
@@ -3067,13 +3134,15 @@ const FormComponent: React.FC<FormComponentProps> = ({
           } else {
             pdfFiles.push(file);
           }
+        } else if (getDocumentKind(file)) {
+          documentFiles.push(file);
         } else {
           unsupportedFiles.push(file);
         }
       });
 
       console.log(
-        `Images: ${imageFiles.length}, PDFs: ${pdfFiles.length}, Unsupported: ${unsupportedFiles.length}, Oversized: ${oversizedFiles.length}`,
+        `Images: ${imageFiles.length}, PDFs: ${pdfFiles.length}, Documents: ${documentFiles.length}, Unsupported: ${unsupportedFiles.length}, Oversized: ${oversizedFiles.length}`,
       );
 
       if (unsupportedFiles.length > 0) {
@@ -3105,8 +3174,8 @@ const FormComponent: React.FC<FormComponentProps> = ({
         });
       }
 
-      if (imageFiles.length === 0 && pdfFiles.length === 0) {
-        toast.error('Only image and PDF files are supported');
+      if (imageFiles.length === 0 && pdfFiles.length === 0 && documentFiles.length === 0) {
+        toast.error('Only images, PDFs and documents (DOCX, XLSX, CSV, Markdown, text) are supported');
         return;
       }
 
@@ -3123,11 +3192,12 @@ const FormComponent: React.FC<FormComponentProps> = ({
         } else {
           console.warn('No PDF-compatible model found');
           toast.error('PDFs are only supported by Gemini and Claude models');
-          if (imageFiles.length === 0) return;
+          if (imageFiles.length === 0 && documentFiles.length === 0) return;
         }
       }
 
-      let validFiles: File[] = [...imageFiles];
+      // Documents are converted to text on the server, so they work with any model
+      let validFiles: File[] = [...imageFiles, ...documentFiles];
       if (hasPdfSupport(selectedModel) || pdfFiles.length > 0) {
         validFiles = [...validFiles, ...pdfFiles];
       }
@@ -3176,7 +3246,7 @@ const FormComponent: React.FC<FormComponentProps> = ({
         }
       }
 
-      if (!currentModelData?.vision) {
+      if (!currentModelData?.vision && (imageFiles.length > 0 || pdfFiles.length > 0)) {
         let visionModel: string;
 
         if (pdfFiles.length > 0) {
@@ -3819,7 +3889,9 @@ const FormComponent: React.FC<FormComponentProps> = ({
                         <div className="flex flex-col gap-0.5">
                           <span className="font-medium text-[11px]">Attach File</span>
                           <span className="text-[10px] text-accent leading-tight">
-                            {hasPdfSupport(selectedModel) ? 'Upload an image or PDF document' : 'Upload an image'}
+                            {hasPdfSupport(selectedModel)
+                              ? 'Upload an image, PDF or document'
+                              : 'Upload an image or document'}
                           </span>
                         </div>
                       </TooltipContent>
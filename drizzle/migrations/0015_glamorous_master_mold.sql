@@ -0,0 +1,17 @@
+CREATE EXTENSION IF NOT EXISTS vector;
+--> statement-breakpoint
+CREATE TABLE "attachment_chunk" (
+	"id" text PRIMARY KEY NOT NULL,
+	"chat_id" text NOT NULL,
+	"attachment_url" text NOT NULL,
+	"file_name" text NOT NULL,
+	"page" integer,
+	"chunk_index" integer NOT NULL,
+	"content" text NOT NULL,
+	"embedding" vector(1536) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "attachment_chunk" ADD CONSTRAINT "attachment_chunk_chat_id_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chat"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "attachment_chunk_chatId_url_idx" ON "attachment_chunk" USING btree ("chat_id","attachment_url");--> statement-breakpoint
+CREATE INDEX "attachment_chunk_embedding_idx" ON "attachment_chunk" USING hnsw ("embedding" vector_cosine_ops);
\ No newline at end of file
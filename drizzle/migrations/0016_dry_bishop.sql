@@ -0,0 +1,17 @@
+CREATE TABLE "attachment" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text,
+	"chat_id" text,
+	"storage_key" text NOT NULL,
+	"url" text NOT NULL,
+	"name" text NOT NULL,
+	"content_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "attachment_url_unique" UNIQUE("url")
+);
+--> statement-breakpoint
+ALTER TABLE "attachment" ADD CONSTRAINT "attachment_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attachment" ADD CONSTRAINT "attachment_chat_id_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chat"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "attachment_userId_idx" ON "attachment" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "attachment_orphan_idx" ON "attachment" USING btree ("chat_id","created_at");
\ No newline at end of file
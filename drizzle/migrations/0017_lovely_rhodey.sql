@@ -0,0 +1,19 @@
+CREATE TABLE "extreme_search_run" (
+	"id" text PRIMARY KEY NOT NULL,
+	"chat_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"tool_call_id" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt" text NOT NULL,
+	"provider" text NOT NULL,
+	"budget" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"checkpoint" json,
+	"cancel_requested_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "extreme_search_run" ADD CONSTRAINT "extreme_search_run_chat_id_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chat"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "extreme_search_run" ADD CONSTRAINT "extreme_search_run_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "extreme_search_run_chatId_status_idx" ON "extreme_search_run" USING btree ("chat_id","status");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "lookout" ADD COLUMN "notify_only_on_change" boolean DEFAULT false NOT NULL;
\ No newline at end of file
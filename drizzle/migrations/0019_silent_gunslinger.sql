@@ -0,0 +1,11 @@
+CREATE TABLE "lookout_feed" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"token" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "lookout_feed_user_id_unique" UNIQUE("user_id"),
+	CONSTRAINT "lookout_feed_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+ALTER TABLE "lookout" ADD COLUMN "delivery_channels" json DEFAULT '[]'::json NOT NULL;--> statement-breakpoint
+ALTER TABLE "lookout_feed" ADD CONSTRAINT "lookout_feed_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
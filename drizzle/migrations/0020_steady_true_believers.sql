@@ -0,0 +1,2 @@
+ALTER TABLE "lookout" ADD COLUMN "search_group" text DEFAULT 'extreme' NOT NULL;--> statement-breakpoint
+ALTER TABLE "lookout" ADD COLUMN "model" text DEFAULT 'rovo-grok-4-fast-think' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,21 @@
+-- Backfill attachment records for files sent in saved chats before uploads were tracked.
+-- Those uploads all went to Vercel Blob, where the URL path is the storage key; the size is unknown.
+INSERT INTO "attachment" ("id", "user_id", "chat_id", "storage_key", "url", "name", "content_type", "size", "created_at")
+SELECT DISTINCT ON (part->>'url')
+	gen_random_uuid()::text,
+	"chat"."user_id",
+	"message"."chat_id",
+	regexp_replace(part->>'url', '^https://[^/]+/', ''),
+	part->>'url',
+	coalesce(part->>'name', part->>'filename', 'file'),
+	coalesce(nullif(part->>'mediaType', ''), 'application/octet-stream'),
+	0,
+	"message"."created_at"
+FROM "message"
+JOIN "chat" ON "chat"."id" = "message"."chat_id"
+CROSS JOIN LATERAL json_array_elements("message"."parts") AS part
+WHERE "message"."role" = 'user'
+	AND part->>'type' = 'file'
+	AND part->>'url' ~ '^https://[^/]+\.blob\.vercel-storage\.com/'
+ORDER BY part->>'url', "message"."created_at"
+ON CONFLICT ("url") DO NOTHING;
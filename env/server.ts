@@ -9,7 +9,13 @@ export const serverEnv = createEnv({
     ANTHROPIC_API_KEY: z.string().min(1),
     GROQ_API_KEY: z.string().min(1),
     GOOGLE_GENERATIVE_AI_API_KEY: z.string().min(1),
-    DAYTONA_API_KEY: z.string().min(1),
+    DAYTONA_API_KEY: z.string().optional(),
+    SANDBOX_PROVIDER: z.enum(['daytona', 'local']).optional().default('daytona'),
+    LOCAL_SANDBOX_RUNTIME: z.enum(['docker', 'process']).optional().default('docker'),
+    LOCAL_SANDBOX_IMAGE: z.string().optional().default('rovo-sandbox'),
+    LOCAL_SANDBOX_DOCKER_RUNTIME: z.string().optional(),
+    LOCAL_SANDBOX_NETWORK: z.string().optional().default('none'),
+    LOCAL_SANDBOX_PYTHON: z.string().optional().default('python3'),
     DATABASE_URL: z.string().min(1),
     BETTER_AUTH_SECRET: z.string().min(1),
     GITHUB_CLIENT_ID: z.string().min(1),
@@ -21,22 +27,36 @@ export const serverEnv = createEnv({
     REDIS_URL: z.string().min(1),
     UPSTASH_REDIS_REST_URL: z.string().min(1),
     UPSTASH_REDIS_REST_TOKEN: z.string().min(1),
-    TAVILY_API_KEY: z.string().min(1),
-    EXA_API_KEY: z.string().min(1),
+    TAVILY_API_KEY: z.string().optional(),
+    EXA_API_KEY: z.string().optional(),
     VALYU_API_KEY: z.string().min(1),
     OMDB_API_KEY: z.string().min(1),
     YT_ENDPOINT: z.string().min(1),
-    FIRECRAWL_API_KEY: z.string().min(1),
+    FIRECRAWL_API_KEY: z.string().optional(),
+    PARALLEL_API_KEY: z.string().optional(),
+    SEARXNG_URL: z.string().optional().default('http://localhost:8080'),
+    HYBRID_SEARCH_PROVIDERS: z.string().optional().default('exa,tavily'),
     OPENWEATHER_API_KEY: z.string().min(1),
     GOOGLE_MAPS_API_KEY: z.string().min(1),
     AMADEUS_API_KEY: z.string().min(1),
     AMADEUS_API_SECRET: z.string().min(1),
     CRON_SECRET: z.string().min(1),
-    BLOB_READ_WRITE_TOKEN: z.string().min(1),
+    BLOB_READ_WRITE_TOKEN: z.string().optional(),
+    STORAGE_PROVIDER: z.enum(['vercel-blob', 's3']).optional().default('vercel-blob'),
+    S3_BUCKET: z.string().optional(),
+    S3_REGION: z.string().optional().default('us-east-1'),
+    S3_ENDPOINT: z.string().optional(),
+    S3_ACCESS_KEY_ID: z.string().optional(),
+    S3_SECRET_ACCESS_KEY: z.string().optional(),
+    S3_PUBLIC_URL: z.string().optional(),
     SMITHERY_API_KEY: z.string().min(1),
     COINGECKO_API_KEY: z.string().min(1),
     SUPADATA_API_KEY: z.string().min(1),
-    QSTASH_TOKEN: z.string().min(1),
+    QSTASH_TOKEN: z.string().optional(),
+    QSTASH_CURRENT_SIGNING_KEY: z.string().optional(),
+    QSTASH_NEXT_SIGNING_KEY: z.string().optional(),
+    SCHEDULER_PROVIDER: z.enum(['qstash', 'builtin']).optional().default('qstash'),
+    LOOKOUT_RUN_URL: z.string().optional(),
     RESEND_API_KEY: z.string().min(1),
     SUPERMEMORY_API_KEY: z.string().min(1),
     YOUTUBE_API_KEY: z.string().optional(),
@@ -11,6 +11,9 @@ import {
   deleteLookoutAction,
   testLookoutAction,
 } from '@/app/actions';
+import type { LookoutFrequency, LookoutRecurrenceOptions } from '@/lib/lookout-recurrence';
+import type { LookoutDeliveryChannel } from '@/lib/lookout-channels';
+import type { LookoutSearchGroup } from '@/lib/utils';
 
 interface Lookout {
   id: string;
@@ -127,10 +130,15 @@ export function useLookouts() {
     mutationFn: async (params: {
       title: string;
       prompt: string;
-      frequency: 'once' | 'daily' | 'weekly' | 'monthly';
+      frequency: LookoutFrequency;
       time: string;
       timezone: string;
       date?: string;
+      recurrence?: LookoutRecurrenceOptions;
+      searchGroup?: LookoutSearchGroup;
+      model?: string;
+      notifyOnlyOnChange?: boolean;
+      deliveryChannels?: LookoutDeliveryChannel[];
       onSuccess?: () => void;
     }) => {
       const { onSuccess: successCallback, ...mutationParams } = params;
@@ -213,9 +221,14 @@ export function useLookouts() {
       id: string;
       title: string;
       prompt: string;
-      frequency: 'once' | 'daily' | 'weekly' | 'monthly';
+      frequency: LookoutFrequency;
       time: string;
       timezone: string;
+      recurrence?: LookoutRecurrenceOptions;
+      searchGroup?: LookoutSearchGroup;
+      model?: string;
+      notifyOnlyOnChange?: boolean;
+      deliveryChannels?: LookoutDeliveryChannel[];
       onSuccess?: () => void;
     }) => {
       const { onSuccess: successCallback, ...mutationParams } = params;
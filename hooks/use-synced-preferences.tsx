@@ -8,6 +8,7 @@ import { useUser } from '@/contexts/user-context';
 type PreferenceKey =
   | 'rovo-search-provider'
   | 'rovo-extreme-search-provider'
+  | 'rovo-extreme-search-budget'
   | 'rovo-group-order'
   | 'rovo-model-order-global'
   | 'rovo-blur-personal-info'
@@ -56,6 +57,7 @@ function collectLocalStoragePreferences(): Partial<Record<PreferenceKey, Prefere
   const keys: PreferenceKey[] = [
     'rovo-search-provider',
     'rovo-extreme-search-provider',
+    'rovo-extreme-search-budget',
     'rovo-group-order',
     'rovo-model-order-global',
     'rovo-blur-personal-info',
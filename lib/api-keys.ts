@@ -0,0 +1,44 @@
+import 'server-only';
+
+import { createHash, randomBytes } from 'crypto';
+import { getApiKeyByHash, updateApiKeyLastUsed } from '@/lib/db/queries';
+import { getComprehensiveUserDataById, type ComprehensiveUserData } from '@/lib/user-data-server';
+
+const API_KEY_PREFIX = 'rovo_';
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// Returns the plaintext key (shown to the user once) and what gets stored
+export function generateApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return {
+    key,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6),
+  };
+}
+
+export function getBearerToken(req: Request): string | null {
+  const authorization = req.headers.get('authorization');
+  if (!authorization?.toLowerCase().startsWith('bearer ')) return null;
+
+  const token = authorization.slice('bearer '.length).trim();
+  return token.startsWith(API_KEY_PREFIX) ? token : null;
+}
+
+// Resolve the user behind an `Authorization: Bearer rovo_…` header, or null if missing or unknown
+export async function getApiKeyUser(req: Request): Promise<ComprehensiveUserData | null> {
+  const token = getBearerToken(req);
+  if (!token) return null;
+
+  const key = await getApiKeyByHash({ keyHash: hashApiKey(token) });
+  if (!key) return null;
+
+  updateApiKeyLastUsed({ id: key.id }).catch((error) => {
+    console.error('Failed to update API key last used:', error);
+  });
+
+  return getComprehensiveUserDataById(key.userId);
+}
@@ -0,0 +1,286 @@
+import 'server-only';
+
+import { cosineSimilarity, embed, embedMany, type UIMessage } from 'ai';
+import { rovo } from '@/ai/providers';
+import { getAttachmentIndexSummary, saveAttachmentChunks, searchAttachmentChunks } from '@/lib/db/queries';
+import { extractAttachmentPages, type AttachmentPage } from '@/lib/document-extraction';
+import { isDocumentMediaType } from '@/lib/documents';
+import { PerformanceCache } from '@/lib/performance-cache';
+
+const CHUNK_CHARS = 1500;
+const CHUNK_OVERLAP_CHARS = 200;
+
+// Attachments up to this size stay inline in the prompt; larger ones are only reachable through search_attachments
+const MAX_INLINE_CHARS = 20_000;
+
+export interface IndexedAttachment {
+  url: string;
+  fileName: string;
+  pageCount: number | null;
+  chunkCount: number;
+  charCount: number;
+}
+
+export interface AttachmentPassage {
+  url: string;
+  fileName: string;
+  page: number | null;
+  content: string;
+  score: number;
+}
+
+interface AttachmentChunkInput {
+  attachmentUrl: string;
+  fileName: string;
+  page: number | null;
+  chunkIndex: number;
+  content: string;
+  embedding: number[];
+}
+
+// Where chunks live: pgvector for saved chats, process memory for anonymous chats that have no chat row
+interface AttachmentStore {
+  getSummary(chatId: string): Promise<IndexedAttachment[]>;
+  save(chatId: string, chunks: AttachmentChunkInput[]): Promise<void>;
+  search(chatId: string, embedding: number[], limit: number): Promise<AttachmentPassage[]>;
+}
+
+function summarize(chunks: Omit<AttachmentChunkInput, 'embedding'>[]): IndexedAttachment[] {
+  const byUrl = new Map<string, IndexedAttachment>();
+  for (const chunk of chunks) {
+    const summary = byUrl.get(chunk.attachmentUrl) ?? {
+      url: chunk.attachmentUrl,
+      fileName: chunk.fileName,
+      pageCount: null,
+      chunkCount: 0,
+      charCount: 0,
+    };
+    summary.chunkCount++;
+    summary.charCount += chunk.content.length;
+    if (chunk.page !== null) summary.pageCount = Math.max(summary.pageCount ?? 0, chunk.page);
+    byUrl.set(chunk.attachmentUrl, summary);
+  }
+  return Array.from(byUrl.values());
+}
+
+const pgvectorStore: AttachmentStore = {
+  async getSummary(chatId) {
+    const rows = await getAttachmentIndexSummary({ chatId });
+    return rows.map((row) => ({
+      url: row.attachmentUrl,
+      fileName: row.fileName,
+      pageCount: row.pageCount,
+      chunkCount: row.chunkCount,
+      charCount: row.charCount,
+    }));
+  },
+  async save(chatId, chunks) {
+    await saveAttachmentChunks({ chunks: chunks.map((chunk) => ({ chatId, ...chunk })) });
+  },
+  async search(chatId, embedding, limit) {
+    const rows = await searchAttachmentChunks({ chatId, embedding, limit });
+    return rows.map((row) => ({
+      url: row.attachmentUrl,
+      fileName: row.fileName,
+      page: row.page,
+      content: row.content,
+      score: row.score,
+    }));
+  },
+};
+
+const memoryChunks = new PerformanceCache<AttachmentChunkInput[]>('attachment-index', 500, 6 * 60 * 60 * 1000);
+
+const memoryStore: AttachmentStore = {
+  async getSummary(chatId) {
+    return summarize(memoryChunks.get(chatId) ?? []);
+  },
+  async save(chatId, chunks) {
+    memoryChunks.set(chatId, [...(memoryChunks.get(chatId) ?? []), ...chunks]);
+  },
+  async search(chatId, embedding, limit) {
+    return (memoryChunks.get(chatId) ?? [])
+      .map((chunk) => ({
+        url: chunk.attachmentUrl,
+        fileName: chunk.fileName,
+        page: chunk.page,
+        content: chunk.content,
+        score: cosineSimilarity(embedding, chunk.embedding),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  },
+};
+
+function getStore(persistent: boolean): AttachmentStore {
+  return persistent ? pgvectorStore : memoryStore;
+}
+
+// Paragraph-aware chunks of roughly CHUNK_CHARS with a small overlap, never crossing page boundaries
+export function chunkPages(pages: AttachmentPage[]): { page: number | null; content: string }[] {
+  const chunks: { page: number | null; content: string }[] = [];
+
+  for (const { page, text } of pages) {
+    const paragraphs = text
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean);
+    let current = '';
+
+    for (const paragraph of paragraphs) {
+      if (current && current.length + paragraph.length + 2 > CHUNK_CHARS) {
+        chunks.push({ page, content: current });
+        current = current.slice(-CHUNK_OVERLAP_CHARS);
+      }
+
+      // Paragraphs longer than a chunk are split on whitespace near the limit
+      let remaining = current ? `${current}\n\n${paragraph}` : paragraph;
+      while (remaining.length > CHUNK_CHARS) {
+        const splitAt = remaining.lastIndexOf(' ', CHUNK_CHARS);
+        const end = splitAt > CHUNK_CHARS / 2 ? splitAt : CHUNK_CHARS;
+        chunks.push({ page, content: remaining.slice(0, end).trim() });
+        remaining = remaining.slice(Math.max(end - CHUNK_OVERLAP_CHARS, 1));
+      }
+      current = remaining;
+    }
+
+    if (current.trim()) {
+      chunks.push({ page, content: current.trim() });
+    }
+  }
+
+  return chunks;
+}
+
+function isIndexableMediaType(mediaType: string | undefined): boolean {
+  return mediaType === 'application/pdf' || isDocumentMediaType(mediaType);
+}
+
+function getAttachmentParts(messages: UIMessage[]) {
+  return messages.flatMap((message) =>
+    message.parts.filter(
+      (part): part is Extract<UIMessage['parts'][number], { type: 'file' }> =>
+        part.type === 'file' && isIndexableMediaType(part.mediaType),
+    ),
+  );
+}
+
+// Index any PDF or document attachment in the chat that isn't indexed yet and return everything indexed so far
+export async function indexChatAttachments({
+  chatId,
+  messages,
+  persistent,
+}: {
+  chatId: string;
+  messages: UIMessage[];
+  persistent: boolean;
+}): Promise<IndexedAttachment[]> {
+  // Clients send the full history, so a chat without attachment parts has nothing indexed
+  const attachmentParts = getAttachmentParts(messages);
+  if (attachmentParts.length === 0) return [];
+
+  const store = getStore(persistent);
+
+  const indexed = await store.getSummary(chatId);
+  const indexedUrls = new Set(indexed.map((attachment) => attachment.url));
+  const pending = attachmentParts.filter(
+    (part, index) =>
+      !indexedUrls.has(part.url) && attachmentParts.findIndex((other) => other.url === part.url) === index,
+  );
+
+  for (const part of pending) {
+    const fileName = (part as { name?: string }).name ?? part.filename ?? 'attachment';
+
+    try {
+      const startTime = Date.now();
+      const chunks = chunkPages(await extractAttachmentPages(part.url, fileName, part.mediaType));
+      if (chunks.length === 0) continue;
+
+      const { embeddings } = await embedMany({
+        model: rovo.embeddingModel('rovo-embedding'),
+        values: chunks.map((chunk) => chunk.content),
+        maxParallelCalls: 4,
+      });
+
+      await store.save(
+        chatId,
+        chunks.map((chunk, chunkIndex) => ({
+          attachmentUrl: part.url,
+          fileName,
+          page: chunk.page,
+          chunkIndex,
+          content: chunk.content,
+          embedding: embeddings[chunkIndex],
+        })),
+      );
+      console.log(`📎 Indexed ${fileName}: ${chunks.length} chunks in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`Failed to index attachment ${fileName}:`, error);
+    }
+  }
+
+  return pending.length > 0 ? store.getSummary(chatId) : indexed;
+}
+
+export async function searchChatAttachments({
+  chatId,
+  query,
+  persistent,
+  limit = 6,
+}: {
+  chatId: string;
+  query: string;
+  persistent: boolean;
+  limit?: number;
+}): Promise<AttachmentPassage[]> {
+  const { embedding } = await embed({ model: rovo.embeddingModel('rovo-embedding'), value: query });
+  return getStore(persistent).search(chatId, embedding, limit);
+}
+
+export function isInlineAttachment(attachment: IndexedAttachment): boolean {
+  return attachment.charCount <= MAX_INLINE_CHARS;
+}
+
+// Large indexed attachments are replaced by a pointer to search_attachments instead of being sent whole
+export function replaceLargeAttachmentParts<T extends UIMessage>(messages: T[], indexed: IndexedAttachment[]): T[] {
+  const large = new Map(
+    indexed.filter((attachment) => !isInlineAttachment(attachment)).map((attachment) => [attachment.url, attachment]),
+  );
+  if (large.size === 0) return messages;
+
+  return messages.map((message) => {
+    if (!message.parts.some((part) => part.type === 'file' && large.has(part.url))) return message;
+
+    return {
+      ...message,
+      parts: message.parts.map((part) => {
+        const attachment = part.type === 'file' ? large.get(part.url) : undefined;
+        if (!attachment) return part;
+
+        return {
+          type: 'text' as const,
+          text:
+            `<attachment name="${attachment.fileName}"${attachment.pageCount ? ` pages="${attachment.pageCount}"` : ''}>` +
+            'This attachment is too large to include in full. Use the search_attachments tool to read the relevant passages.' +
+            '</attachment>',
+        };
+      }),
+    };
+  });
+}
+
+export function getAttachmentInstructions(indexed: IndexedAttachment[]): string {
+  if (indexed.length === 0) return '';
+
+  const list = indexed
+    .map((attachment) =>
+      attachment.pageCount ? `- ${attachment.fileName} (${attachment.pageCount} pages)` : `- ${attachment.fileName}`,
+    )
+    .join('\n');
+
+  return (
+    `\n\nFiles attached to this chat are indexed for retrieval:\n${list}\n` +
+    'Call search_attachments to find passages in them whenever the question may be answered by these files, on every turn, ' +
+    'even if the files were attached earlier in the conversation. Cite passages with their page, e.g. [report.pdf, p. 12](url).'
+  );
+}
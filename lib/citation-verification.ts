@@ -0,0 +1,240 @@
+import 'server-only';
+
+import { generateId, generateObject, type UIMessageStreamWriter } from 'ai';
+import { z } from 'zod';
+import { rovo } from '@/ai/providers';
+import type { ChatMessage, CitationVerdict, VerifiedCitation } from '@/lib/types';
+
+// Citations past this many are listed but not sent to the model
+const MAX_VERIFIED_CITATIONS = 40;
+const BATCH_SIZE = 10;
+const PASSAGE_CHARS = 800;
+
+export interface CitationSource {
+  url: string;
+  title: string;
+  content: string;
+}
+
+interface Citation {
+  url: string;
+  title: string;
+  sentence: string;
+}
+
+// Same page regardless of tracking params, fragments, www. or a trailing slash
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (key.startsWith('utm_')) parsed.searchParams.delete(key);
+    }
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    return `${host}${parsed.pathname.replace(/\/$/, '')}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+// Every [title](url) link with the sentence it appears in, links stripped so only the claim remains
+export function extractCitations(text: string): Citation[] {
+  const citations = new Map<string, Citation>();
+
+  for (const match of text.matchAll(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g)) {
+    const index = match.index ?? 0;
+    const before = text.slice(0, index);
+    const start = Math.max(before.search(/[^.!?\n]*$/), 0);
+    const afterMatch = text.slice(index + match[0].length).search(/[.!?](\s|$)|\n/);
+    const end = afterMatch === -1 ? text.length : index + match[0].length + afterMatch + 1;
+
+    const sentence = text
+      .slice(start, end)
+      .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '')
+      .replace(/[*_#>|`]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const citation = { url: match[2], title: match[1], sentence: sentence || match[1] };
+    citations.set(`${normalizeUrl(citation.url)}::${citation.sentence}`, citation);
+  }
+
+  return Array.from(citations.values());
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 3),
+  );
+}
+
+// The window of the source that shares the most words with the sentence
+function findPassage(sentence: string, content: string): string {
+  if (content.length <= PASSAGE_CHARS) return content;
+
+  const words = tokenize(sentence);
+  let best = { score: -1, start: 0 };
+  for (let start = 0; start < content.length; start += PASSAGE_CHARS / 2) {
+    const window = tokenize(content.slice(start, start + PASSAGE_CHARS));
+    let score = 0;
+    for (const word of words) if (window.has(word)) score++;
+    if (score > best.score) best = { score, start };
+  }
+  return content.slice(best.start, best.start + PASSAGE_CHARS);
+}
+
+async function judgeCitations(
+  items: Array<{ sentence: string; passage: string }>,
+): Promise<Array<{ verdict: CitationVerdict; confidence: number }>> {
+  const { object } = await generateObject({
+    model: rovo.languageModel('rovo-default'),
+    schema: z.object({
+      results: z.array(
+        z.object({
+          id: z.number().describe('The id of the claim being judged'),
+          verdict: z
+            .enum(['supported', 'partial', 'unsupported'])
+            .describe('Whether the passage backs the claim fully, in part, or not at all'),
+          confidence: z.number().min(0).max(1).describe('How confident you are in the verdict'),
+        }),
+      ),
+    }),
+    prompt: `For each claim, decide whether the source passage cited for it supports it. Judge only from the passage, not from your own knowledge. A claim with numbers, dates or names the passage does not contain is at most partial.
+
+${items.map((item, id) => `<claim id="${id}">${item.sentence}</claim>\n<passage id="${id}">${item.passage}</passage>`).join('\n\n')}`,
+  });
+
+  return items.map((_, id) => {
+    const result = object.results.find((entry) => entry.id === id);
+    return result
+      ? { verdict: result.verdict, confidence: result.confidence }
+      : { verdict: 'unverified', confidence: 0 };
+  });
+}
+
+export async function verifyCitations(text: string, sources: CitationSource[]): Promise<VerifiedCitation[]> {
+  const sourcesByUrl = new Map(sources.map((source) => [normalizeUrl(source.url), source]));
+  const citations = extractCitations(text);
+
+  const verified: VerifiedCitation[] = citations.map((citation) => ({
+    ...citation,
+    verdict: sourcesByUrl.has(normalizeUrl(citation.url)) ? 'unverified' : 'unretrieved',
+    confidence: sourcesByUrl.has(normalizeUrl(citation.url)) ? 0 : 1,
+  }));
+
+  const pending = verified
+    .filter((citation) => citation.verdict === 'unverified')
+    .slice(0, MAX_VERIFIED_CITATIONS)
+    .map((citation) => {
+      const source = sourcesByUrl.get(normalizeUrl(citation.url))!;
+      citation.passage = findPassage(citation.sentence, source.content || source.title);
+      return citation;
+    });
+
+  const batches: VerifiedCitation[][] = [];
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    batches.push(pending.slice(i, i + BATCH_SIZE));
+  }
+
+  await Promise.all(
+    batches.map(async (batch) => {
+      try {
+        const results = await judgeCitations(
+          batch.map((citation) => ({ sentence: citation.sentence, passage: citation.passage! })),
+        );
+        batch.forEach((citation, index) => Object.assign(citation, results[index]));
+      } catch (error) {
+        console.error('Citation verification batch failed:', error);
+      }
+    }),
+  );
+
+  return verified;
+}
+
+// Tools besides extreme_search whose outputs list pages the answer can cite, under results or searches[]
+const SOURCE_TOOLS = new Set([
+  'web_search',
+  'academic_search',
+  'reddit_search',
+  'x_search',
+  'youtube_search',
+  'retrieve',
+  'connectors_search',
+]);
+
+// The fields the search tools' result items use for a page: x_search posts have link and text, academic
+// papers a summary, YouTube videos their title under details
+interface ToolSourceItem {
+  url?: string;
+  link?: string;
+  title?: string | null;
+  content?: string | null;
+  text?: string;
+  summary?: string | null;
+  details?: { title?: string };
+}
+
+interface ToolSourceOutput {
+  research?: { sources?: CitationSource[] };
+  results?: ToolSourceItem[];
+  searches?: Array<{ results?: ToolSourceItem[]; sources?: ToolSourceItem[] }>;
+}
+
+function toCitationSource(item: ToolSourceItem): CitationSource | null {
+  const url = item.url || item.link;
+  if (!url) return null;
+  return {
+    url,
+    title: item.title || item.details?.title || url,
+    content: item.content || item.text || item.summary || '',
+  };
+}
+
+// Sources collected by the search tools in a finished generation, first occurrence of each URL kept
+export function getResearchSources(toolResults: Array<{ toolName: string; output?: unknown }>): CitationSource[] {
+  const sources = toolResults.flatMap((result): CitationSource[] => {
+    const output = result.output as ToolSourceOutput | undefined;
+    if (result.toolName === 'extreme_search') return output?.research?.sources ?? [];
+    if (!SOURCE_TOOLS.has(result.toolName)) return [];
+
+    const items = [
+      ...(output?.results ?? []),
+      ...(output?.searches ?? []).flatMap((search) => [...(search.results ?? []), ...(search.sources ?? [])]),
+    ];
+    return items.flatMap((item) => toCitationSource(item) ?? []);
+  });
+
+  const seenUrls = new Set<string>();
+  return sources.filter((source) => {
+    const key = normalizeUrl(source.url);
+    if (seenUrls.has(key)) return false;
+    seenUrls.add(key);
+    return true;
+  });
+}
+
+// Streams a pending part straight away and replaces it with the results, so the badges appear under the answer
+export async function streamCitationVerification(
+  dataStream: UIMessageStreamWriter<ChatMessage>,
+  text: string,
+  sources: CitationSource[],
+): Promise<void> {
+  if (sources.length === 0 || extractCitations(text).length === 0) return;
+
+  const id = `citations-${generateId()}`;
+  dataStream.write({ type: 'data-citation_verification', id, data: { status: 'verifying', citations: [] } });
+
+  try {
+    const startTime = Date.now();
+    const citations = await verifyCitations(text, sources);
+    dataStream.write({ type: 'data-citation_verification', id, data: { status: 'completed', citations } });
+    console.log(`🔎 Verified ${citations.length} citations in ${Date.now() - startTime}ms`);
+  } catch (error) {
+    console.error('Citation verification failed:', error);
+    dataStream.write({ type: 'data-citation_verification', id, data: { status: 'error', citations: [] } });
+  }
+}
@@ -1,7 +1,9 @@
+import { PLAN_QUOTAS } from '@/lib/quotas';
+
 // Search limits for free users
 export const SEARCH_LIMITS = {
-  DAILY_SEARCH_LIMIT: 10,
-  EXTREME_SEARCH_LIMIT: 5,
+  DAILY_SEARCH_LIMIT: PLAN_QUOTAS.free.messages.limit,
+  EXTREME_SEARCH_LIMIT: PLAN_QUOTAS.free.extremeSearches.limit,
 } as const;
 
 export const PRICING = {
@@ -1,6 +1,6 @@
 import 'server-only';
 
-import { and, asc, desc, eq, gt, gte, inArray, lt, type SQL } from 'drizzle-orm';
+import { and, asc, cosineDistance, desc, eq, gt, gte, inArray, isNull, lt, lte, or, sql, type SQL } from 'drizzle-orm';
 import {
   user,
   chat,
@@ -9,13 +9,25 @@ import {
   type Message,
   type Chat,
   stream,
+  extremeSearchRun,
+  type ExtremeSearchRun,
   extremeSearchUsage,
   messageUsage,
+  usageLedger,
+  apiKey,
+  type ApiKey,
+  attachmentChunk,
+  attachment,
+  type Attachment,
   customInstructions,
   userPreferences,
   lookout,
+  lookoutFeed,
+  type LookoutFeed,
 } from './schema';
 import { ChatSDKError } from '../errors';
+import type { LookoutDelivery, LookoutDeliveryChannel } from '../lookout-channels';
+import type { LookoutSearchGroup } from '../utils';
 import { db, getReadReplica, maindb } from './index';
 
 type VisibilityType = 'public' | 'private';
@@ -340,6 +352,118 @@ export async function getStreamIdsByChatId({ chatId }: { chatId: string }) {
   }
 }
 
+export async function createExtremeSearchRun({
+  chatId,
+  userId,
+  toolCallId,
+  model,
+  prompt,
+  provider,
+  budget,
+}: {
+  chatId: string;
+  userId: string;
+  toolCallId: string;
+  model: string;
+  prompt: string;
+  provider: string;
+  budget: string;
+}): Promise<ExtremeSearchRun> {
+  try {
+    const [run] = await db
+      .insert(extremeSearchRun)
+      .values({ chatId, userId, toolCallId, model, prompt, provider, budget })
+      .returning();
+    return run;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to create extreme search run');
+  }
+}
+
+export async function getExtremeSearchRunById({ id }: { id: string }): Promise<ExtremeSearchRun | null> {
+  try {
+    const [run] = await maindb.select().from(extremeSearchRun).where(eq(extremeSearchRun.id, id)).limit(1);
+    return run ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get extreme search run');
+  }
+}
+
+export async function updateExtremeSearchRun({
+  id,
+  checkpoint,
+  status,
+}: {
+  id: string;
+  checkpoint?: ExtremeSearchRun['checkpoint'];
+  status?: 'running' | 'completed' | 'cancelled' | 'failed';
+}) {
+  try {
+    await db
+      .update(extremeSearchRun)
+      .set({
+        ...(checkpoint !== undefined ? { checkpoint } : {}),
+        ...(status ? { status } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(extremeSearchRun.id, id));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to update extreme search run');
+  }
+}
+
+// Flags every running research in the chat; the runs notice on their next step and wrap up
+export async function requestExtremeSearchRunCancellation({
+  chatId,
+  userId,
+}: {
+  chatId: string;
+  userId: string;
+}): Promise<number> {
+  try {
+    const cancelled = await db
+      .update(extremeSearchRun)
+      .set({ cancelRequestedAt: new Date() })
+      .where(
+        and(
+          eq(extremeSearchRun.chatId, chatId),
+          eq(extremeSearchRun.userId, userId),
+          eq(extremeSearchRun.status, 'running'),
+        ),
+      )
+      .returning({ id: extremeSearchRun.id });
+    return cancelled.length;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to cancel extreme search run');
+  }
+}
+
+// Takes over a running research that stopped checkpointing; bumping updatedAt keeps a second resume from claiming it
+export async function claimInterruptedExtremeSearchRun({
+  chatId,
+  staleBefore,
+}: {
+  chatId: string;
+  staleBefore: Date;
+}): Promise<ExtremeSearchRun | null> {
+  try {
+    const [run] = await db
+      .update(extremeSearchRun)
+      .set({ updatedAt: new Date() })
+      .where(
+        and(
+          eq(extremeSearchRun.chatId, chatId),
+          eq(extremeSearchRun.status, 'running'),
+          lt(extremeSearchRun.updatedAt, staleBefore),
+        ),
+      )
+      .returning();
+    return run ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to claim interrupted extreme search run');
+  }
+}
+
 export async function getExtremeSearchUsageByUserId({ userId }: { userId: string }) {
   try {
     const now = new Date();
@@ -542,6 +666,325 @@ export async function getHistoricalUsageData({ userId, months = 6 }: { userId: s
   }
 }
 
+export async function recordUsage({
+  userId,
+  chatId,
+  source,
+  model,
+  searchGroup,
+  inputTokens,
+  outputTokens,
+  totalTokens,
+  cost,
+}: {
+  userId: string;
+  chatId?: string | null;
+  source: 'search' | 'lookout' | 'api';
+  model: string;
+  searchGroup?: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}) {
+  try {
+    const [entry] = await db
+      .insert(usageLedger)
+      .values({
+        userId,
+        chatId: chatId ?? null,
+        source,
+        model,
+        searchGroup: searchGroup ?? null,
+        inputTokens,
+        outputTokens,
+        totalTokens,
+        cost,
+      })
+      .returning();
+    return entry;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to record usage');
+  }
+}
+
+// Ledger totals grouped by day, model and search group
+export async function getUsageLedgerData({ userId, days = 30 }: { userId: string; days?: number }) {
+  try {
+    const startDate = new Date();
+    startDate.setHours(0, 0, 0, 0);
+    startDate.setDate(startDate.getDate() - (days - 1));
+
+    const day = sql<string>`to_char(${usageLedger.createdAt}, 'YYYY-MM-DD')`;
+
+    return await getReadReplica()
+      .select({
+        date: day,
+        model: usageLedger.model,
+        searchGroup: usageLedger.searchGroup,
+        requests: sql<number>`count(*)::int`,
+        inputTokens: sql<number>`coalesce(sum(${usageLedger.inputTokens}), 0)::int`,
+        outputTokens: sql<number>`coalesce(sum(${usageLedger.outputTokens}), 0)::int`,
+        totalTokens: sql<number>`coalesce(sum(${usageLedger.totalTokens}), 0)::int`,
+        cost: sql<number>`coalesce(sum(${usageLedger.cost}), 0)::float8`,
+      })
+      .from(usageLedger)
+      .where(and(eq(usageLedger.userId, userId), gte(usageLedger.createdAt, startDate)))
+      .groupBy(day, usageLedger.model, usageLedger.searchGroup)
+      .orderBy(asc(day));
+  } catch (error) {
+    console.error('Error getting usage ledger data:', error);
+    return [];
+  }
+}
+
+// API key operations
+export async function createApiKey({
+  userId,
+  name,
+  keyHash,
+  keyPrefix,
+}: {
+  userId: string;
+  name: string;
+  keyHash: string;
+  keyPrefix: string;
+}): Promise<ApiKey> {
+  try {
+    const [created] = await db.insert(apiKey).values({ userId, name, keyHash, keyPrefix }).returning();
+    return created;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to create API key');
+  }
+}
+
+export async function getApiKeysByUserId({ userId }: { userId: string }) {
+  try {
+    return await db
+      .select({
+        id: apiKey.id,
+        name: apiKey.name,
+        keyPrefix: apiKey.keyPrefix,
+        lastUsedAt: apiKey.lastUsedAt,
+        createdAt: apiKey.createdAt,
+      })
+      .from(apiKey)
+      .where(eq(apiKey.userId, userId))
+      .orderBy(desc(apiKey.createdAt));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get API keys by user id');
+  }
+}
+
+export async function getApiKeyByHash({ keyHash }: { keyHash: string }): Promise<ApiKey | null> {
+  try {
+    const [found] = await db.select().from(apiKey).where(eq(apiKey.keyHash, keyHash)).limit(1);
+    return found || null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get API key');
+  }
+}
+
+export async function updateApiKeyLastUsed({ id }: { id: string }) {
+  try {
+    await db.update(apiKey).set({ lastUsedAt: new Date() }).where(eq(apiKey.id, id));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to update API key');
+  }
+}
+
+export async function deleteApiKey({ id, userId }: { id: string; userId: string }) {
+  try {
+    const [deleted] = await db
+      .delete(apiKey)
+      .where(and(eq(apiKey.id, id), eq(apiKey.userId, userId)))
+      .returning({ id: apiKey.id });
+    return deleted || null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to delete API key');
+  }
+}
+
+// Attachment retrieval index operations
+export async function getAttachmentIndexSummary({ chatId }: { chatId: string }) {
+  try {
+    return await db
+      .select({
+        attachmentUrl: attachmentChunk.attachmentUrl,
+        fileName: sql<string>`min(${attachmentChunk.fileName})`,
+        pageCount: sql<number | null>`max(${attachmentChunk.page})`,
+        chunkCount: sql<number>`count(*)::int`,
+        charCount: sql<number>`sum(length(${attachmentChunk.content}))::int`,
+      })
+      .from(attachmentChunk)
+      .where(eq(attachmentChunk.chatId, chatId))
+      .groupBy(attachmentChunk.attachmentUrl);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get attachment index summary');
+  }
+}
+
+export async function saveAttachmentChunks({
+  chunks,
+}: {
+  chunks: Array<{
+    chatId: string;
+    attachmentUrl: string;
+    fileName: string;
+    page: number | null;
+    chunkIndex: number;
+    content: string;
+    embedding: number[];
+  }>;
+}) {
+  if (chunks.length === 0) return;
+
+  try {
+    // Batched to stay under Postgres' bind parameter limit for large documents
+    for (let i = 0; i < chunks.length; i += 500) {
+      await db.insert(attachmentChunk).values(chunks.slice(i, i + 500));
+    }
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to save attachment chunks');
+  }
+}
+
+export async function searchAttachmentChunks({
+  chatId,
+  embedding,
+  limit,
+}: {
+  chatId: string;
+  embedding: number[];
+  limit: number;
+}) {
+  try {
+    const distance = cosineDistance(attachmentChunk.embedding, embedding);
+    return await db
+      .select({
+        attachmentUrl: attachmentChunk.attachmentUrl,
+        fileName: attachmentChunk.fileName,
+        page: attachmentChunk.page,
+        content: attachmentChunk.content,
+        score: sql<number>`1 - (${distance})`,
+      })
+      .from(attachmentChunk)
+      .where(eq(attachmentChunk.chatId, chatId))
+      .orderBy(distance)
+      .limit(limit);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to search attachment chunks');
+  }
+}
+
+export async function saveAttachment({
+  userId,
+  chatId = null,
+  storageKey,
+  url,
+  name,
+  contentType,
+  size,
+}: {
+  userId: string | null;
+  chatId?: string | null;
+  storageKey: string;
+  url: string;
+  name: string;
+  contentType: string;
+  size: number;
+}): Promise<Attachment> {
+  try {
+    const [saved] = await db
+      .insert(attachment)
+      .values({ userId, chatId, storageKey, url, name, contentType, size })
+      .returning();
+    return saved;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to save attachment');
+  }
+}
+
+export async function getAttachmentByUrl({ url }: { url: string }): Promise<Attachment | null> {
+  try {
+    const [selected] = await db.select().from(attachment).where(eq(attachment.url, url)).limit(1);
+    return selected || null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get attachment by url');
+  }
+}
+
+// Total bytes stored by a user, for the storage quota
+export async function getUserStorageUsage({ userId }: { userId: string }): Promise<number> {
+  try {
+    const [result] = await db
+      .select({ total: sql<number>`coalesce(sum(${attachment.size}), 0)::bigint` })
+      .from(attachment)
+      .where(eq(attachment.userId, userId));
+    return Number(result?.total ?? 0);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get user storage usage');
+  }
+}
+
+// Claim the user's unlinked uploads that were sent in a chat, so cleanup keeps them
+export async function linkAttachmentsToChat({
+  chatId,
+  userId,
+  urls,
+}: {
+  chatId: string;
+  userId: string;
+  urls: string[];
+}) {
+  if (urls.length === 0) return;
+
+  try {
+    await db
+      .update(attachment)
+      .set({ chatId })
+      .where(and(inArray(attachment.url, urls), eq(attachment.userId, userId), isNull(attachment.chatId)));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to link attachments to chat');
+  }
+}
+
+// Attachments never sent in a saved chat, or whose chat was deleted, created before `createdBefore`
+export async function getOrphanedAttachments({ createdBefore, limit }: { createdBefore: Date; limit: number }) {
+  try {
+    return await db
+      .select()
+      .from(attachment)
+      .where(and(isNull(attachment.chatId), lt(attachment.createdAt, createdBefore)))
+      .orderBy(asc(attachment.createdAt))
+      .limit(limit);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get orphaned attachments');
+  }
+}
+
+// Which of `urls` have an attachment record
+export async function getTrackedAttachmentUrls({ urls }: { urls: string[] }): Promise<Set<string>> {
+  if (urls.length === 0) return new Set();
+
+  try {
+    const rows = await db.select({ url: attachment.url }).from(attachment).where(inArray(attachment.url, urls));
+    return new Set(rows.map((row) => row.url));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get tracked attachments');
+  }
+}
+
+export async function deleteAttachmentsByIds({ ids }: { ids: string[] }) {
+  if (ids.length === 0) return;
+
+  try {
+    await db.delete(attachment).where(inArray(attachment.id, ids));
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to delete attachments');
+  }
+}
+
 // Custom Instructions CRUD operations
 export async function getCustomInstructionsByUserId({ userId }: { userId: string }) {
   try {
@@ -626,8 +1069,9 @@ export async function upsertUserPreferences({
 }: {
   userId: string;
   preferences: Partial<{
-    'rovo-search-provider'?: 'exa' | 'tavily' | 'firecrawl';
-    'rovo-extreme-search-provider'?: 'exa';
+    'rovo-search-provider'?: 'exa' | 'tavily' | 'firecrawl' | 'searxng' | 'hybrid';
+    'rovo-extreme-search-provider'?: 'exa' | 'tavily' | 'firecrawl' | 'parallel' | 'searxng';
+    'rovo-extreme-search-budget'?: 'standard' | 'thorough' | 'exhaustive';
     'rovo-group-order'?: string[];
     'rovo-model-order-global'?: string[];
     'rovo-blur-personal-info'?: boolean;
@@ -712,6 +1156,10 @@ export async function createLookout({
   timezone,
   nextRunAt,
   qstashScheduleId,
+  searchGroup,
+  model,
+  notifyOnlyOnChange,
+  deliveryChannels,
 }: {
   userId: string;
   title: string;
@@ -721,6 +1169,10 @@ export async function createLookout({
   timezone: string;
   nextRunAt: Date;
   qstashScheduleId?: string;
+  searchGroup?: LookoutSearchGroup;
+  model?: string;
+  notifyOnlyOnChange?: boolean;
+  deliveryChannels?: LookoutDeliveryChannel[];
 }) {
   try {
     const [newLookout] = await db
@@ -734,6 +1186,10 @@ export async function createLookout({
         timezone,
         nextRunAt,
         qstashScheduleId,
+        searchGroup,
+        model,
+        notifyOnlyOnChange,
+        deliveryChannels,
       })
       .returning();
 
@@ -784,6 +1240,10 @@ export async function updateLookout({
   timezone,
   nextRunAt,
   qstashScheduleId,
+  searchGroup,
+  model,
+  notifyOnlyOnChange,
+  deliveryChannels,
 }: {
   id: string;
   title?: string;
@@ -793,6 +1253,10 @@ export async function updateLookout({
   timezone?: string;
   nextRunAt?: Date;
   qstashScheduleId?: string;
+  searchGroup?: LookoutSearchGroup;
+  model?: string;
+  notifyOnlyOnChange?: boolean;
+  deliveryChannels?: LookoutDeliveryChannel[];
 }) {
   try {
     const updateData: any = { updatedAt: new Date() };
@@ -803,6 +1267,10 @@ export async function updateLookout({
     if (timezone !== undefined) updateData.timezone = timezone;
     if (nextRunAt !== undefined) updateData.nextRunAt = nextRunAt;
     if (qstashScheduleId !== undefined) updateData.qstashScheduleId = qstashScheduleId;
+    if (searchGroup !== undefined) updateData.searchGroup = searchGroup;
+    if (model !== undefined) updateData.model = model;
+    if (notifyOnlyOnChange !== undefined) updateData.notifyOnlyOnChange = notifyOnlyOnChange;
+    if (deliveryChannels !== undefined) updateData.deliveryChannels = deliveryChannels;
 
     const [updatedLookout] = await db.update(lookout).set(updateData).where(eq(lookout.id, id)).returning();
 
@@ -832,6 +1300,82 @@ export async function updateLookoutStatus({
   }
 }
 
+// Marks a lookout as running unless a run already holds it; a run that went quiet before staleBefore is assumed dead
+export async function claimLookoutRun({ id, staleBefore }: { id: string; staleBefore: Date }) {
+  try {
+    const [claimedLookout] = await db
+      .update(lookout)
+      .set({ status: 'running', updatedAt: new Date() })
+      .where(
+        and(
+          eq(lookout.id, id),
+          or(
+            inArray(lookout.status, ['active', 'paused']),
+            and(eq(lookout.status, 'running'), lt(lookout.updatedAt, staleBefore)),
+          ),
+        ),
+      )
+      .returning();
+
+    return claimedLookout ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to claim lookout run');
+  }
+}
+
+// Due lookouts that are active, or stuck in 'running' by a run that stopped updating them before `staleBefore`
+export async function getDueLookouts({ now, staleBefore, limit }: { now: Date; staleBefore: Date; limit: number }) {
+  try {
+    return await db
+      .select()
+      .from(lookout)
+      .where(
+        and(
+          or(eq(lookout.status, 'active'), and(eq(lookout.status, 'running'), lt(lookout.updatedAt, staleBefore))),
+          lte(lookout.nextRunAt, now),
+        ),
+      )
+      .orderBy(asc(lookout.nextRunAt))
+      .limit(limit);
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get due lookouts');
+  }
+}
+
+// Moves a due lookout past its current run and releases a stale run's hold on it. Only succeeds if nextRunAt
+// is still `from`, so concurrent dispatchers can't both start the same run
+export async function advanceLookoutSchedule({
+  id,
+  from,
+  nextRunAt,
+  status,
+  staleBefore,
+}: {
+  id: string;
+  from: Date;
+  nextRunAt: Date;
+  status: 'active' | 'paused';
+  staleBefore: Date;
+}) {
+  try {
+    const [advancedLookout] = await db
+      .update(lookout)
+      .set({ nextRunAt, status, updatedAt: new Date() })
+      .where(
+        and(
+          eq(lookout.id, id),
+          or(eq(lookout.status, 'active'), and(eq(lookout.status, 'running'), lt(lookout.updatedAt, staleBefore))),
+          eq(lookout.nextRunAt, from),
+        ),
+      )
+      .returning();
+
+    return advancedLookout ?? null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to advance lookout schedule');
+  }
+}
+
 export async function updateLookoutLastRun({
   id,
   lastRunAt,
@@ -842,6 +1386,11 @@ export async function updateLookoutLastRun({
   duration,
   tokensUsed,
   searchesPerformed,
+  sources,
+  keyPoints,
+  changed,
+  notified,
+  deliveries,
 }: {
   id: string;
   lastRunAt: Date;
@@ -852,6 +1401,11 @@ export async function updateLookoutLastRun({
   duration?: number;
   tokensUsed?: number;
   searchesPerformed?: number;
+  sources?: string[];
+  keyPoints?: string[];
+  changed?: boolean;
+  notified?: boolean;
+  deliveries?: LookoutDelivery[];
 }) {
   try {
     // Get current lookout to append to run history
@@ -871,6 +1425,11 @@ export async function updateLookoutLastRun({
       ...(duration && { duration }),
       ...(tokensUsed && { tokensUsed }),
       ...(searchesPerformed && { searchesPerformed }),
+      ...(sources && { sources }),
+      ...(keyPoints && { keyPoints }),
+      ...(changed !== undefined && { changed }),
+      ...(notified !== undefined && { notified }),
+      ...(deliveries?.length && { deliveries }),
     };
 
     // Keep only last 100 runs to prevent unbounded growth
@@ -892,6 +1451,38 @@ export async function updateLookoutLastRun({
   }
 }
 
+export async function getLookoutFeedByUserId({ userId }: { userId: string }): Promise<LookoutFeed | null> {
+  try {
+    const [feed] = await db.select().from(lookoutFeed).where(eq(lookoutFeed.userId, userId)).limit(1);
+    return feed || null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get lookout feed');
+  }
+}
+
+export async function getLookoutFeedByToken({ token }: { token: string }): Promise<LookoutFeed | null> {
+  try {
+    const [feed] = await getReadReplica().select().from(lookoutFeed).where(eq(lookoutFeed.token, token)).limit(1);
+    return feed || null;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to get lookout feed');
+  }
+}
+
+// Creates the user's feed, or replaces its token so the old feed URL stops working
+export async function saveLookoutFeedToken({ userId, token }: { userId: string; token: string }): Promise<LookoutFeed> {
+  try {
+    const [feed] = await db
+      .insert(lookoutFeed)
+      .values({ userId, token })
+      .onConflictDoUpdate({ target: lookoutFeed.userId, set: { token, createdAt: new Date() } })
+      .returning();
+    return feed;
+  } catch (error) {
+    throw new ChatSDKError('bad_request:database', 'Failed to save lookout feed');
+  }
+}
+
 // New function to get run statistics
 export async function getLookoutRunStats({ id }: { id: string }) {
   try {
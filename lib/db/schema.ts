@@ -1,8 +1,21 @@
 import { relations } from 'drizzle-orm';
-import { pgTable, text, timestamp, boolean, json, varchar, integer, uuid, real, index } from 'drizzle-orm/pg-core';
+import {
+  pgTable,
+  text,
+  timestamp,
+  boolean,
+  json,
+  varchar,
+  integer,
+  uuid,
+  real,
+  index,
+  vector,
+} from 'drizzle-orm/pg-core';
 import { generateId } from 'ai';
 import { InferSelectModel } from 'drizzle-orm';
 import { v7 as uuidv7 } from 'uuid';
+import type { ResearchCheckpoint } from '@/lib/extreme-search-runs';
 
 export const user = pgTable('user', {
   id: text('id').primaryKey(),
@@ -122,6 +135,35 @@ export const stream = pgTable('stream', {
   createdAt: timestamp('createdAt').notNull().defaultNow(),
 });
 
+// Checkpointed extreme search research, so an interrupted run can resume and a running one can be cancelled
+export const extremeSearchRun = pgTable(
+  'extreme_search_run',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => generateId()),
+    chatId: text('chat_id')
+      .notNull()
+      .references(() => chat.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    toolCallId: text('tool_call_id').notNull(),
+    // Model answering the chat, used to write the report when a run is resumed
+    model: text('model').notNull(),
+    prompt: text('prompt').notNull(),
+    provider: text('provider').notNull(),
+    budget: text('budget').notNull(),
+    status: text('status').notNull().default('running'), // 'running', 'completed', 'cancelled', 'failed'
+    checkpoint: json('checkpoint').$type<ResearchCheckpoint>(),
+    cancelRequestedAt: timestamp('cancel_requested_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    // Bumped on every checkpoint; a running row that stops updating belongs to a dead function
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [index('extreme_search_run_chatId_status_idx').on(table.chatId, table.status)],
+);
+
 // Subscription table for Stripe (Better Auth Stripe plugin)
 export const subscription = pgTable('subscription', {
   // Better Auth Stripe Plugin Schema
@@ -173,6 +215,94 @@ export const messageUsage = pgTable('message_usage', {
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+// Usage ledger: one row per completed model request, with token counts and cost
+export const usageLedger = pgTable(
+  'usage_ledger',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => generateId()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    chatId: text('chat_id').references(() => chat.id, { onDelete: 'set null' }),
+    source: text('source').notNull(), // 'search', 'lookout', 'api'
+    model: text('model').notNull(),
+    searchGroup: text('search_group'),
+    inputTokens: integer('input_tokens').notNull().default(0),
+    outputTokens: integer('output_tokens').notNull().default(0),
+    totalTokens: integer('total_tokens').notNull().default(0),
+    cost: real('cost').notNull().default(0), // USD
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [index('usage_ledger_userId_createdAt_idx').on(table.userId, table.createdAt)],
+);
+
+// Personal API keys; only the SHA-256 hash of the key is stored
+export const apiKey = pgTable(
+  'api_key',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => generateId()),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    keyHash: text('key_hash').notNull().unique(),
+    keyPrefix: text('key_prefix').notNull(), // shown in settings to identify the key
+    lastUsedAt: timestamp('last_used_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [index('api_key_userId_idx').on(table.userId)],
+);
+
+// Chat attachments split into chunks and embedded for retrieval (requires the pgvector extension)
+export const attachmentChunk = pgTable(
+  'attachment_chunk',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => generateId()),
+    chatId: text('chat_id')
+      .notNull()
+      .references(() => chat.id, { onDelete: 'cascade' }),
+    attachmentUrl: text('attachment_url').notNull(),
+    fileName: text('file_name').notNull(),
+    page: integer('page'), // 1-based PDF page; null for formats without pages
+    chunkIndex: integer('chunk_index').notNull(),
+    content: text('content').notNull(),
+    embedding: vector('embedding', { dimensions: 1536 }).notNull(), // rovo-embedding
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [
+    index('attachment_chunk_chatId_url_idx').on(table.chatId, table.attachmentUrl),
+    index('attachment_chunk_embedding_idx').using('hnsw', table.embedding.op('vector_cosine_ops')),
+  ],
+);
+
+// Uploaded files. chatId is set once the file is sent in a saved chat; files without a chat are orphans
+export const attachment = pgTable(
+  'attachment',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => generateId()),
+    userId: text('user_id').references(() => user.id, { onDelete: 'set null' }), // null for anonymous uploads
+    chatId: text('chat_id').references(() => chat.id, { onDelete: 'set null' }),
+    storageKey: text('storage_key').notNull(),
+    url: text('url').notNull().unique(),
+    name: text('name').notNull(),
+    contentType: text('content_type').notNull(),
+    size: integer('size').notNull(), // bytes
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [
+    index('attachment_userId_idx').on(table.userId),
+    index('attachment_orphan_idx').on(table.chatId, table.createdAt),
+  ],
+);
+
 // Custom instructions table
 export const customInstructions = pgTable('custom_instructions', {
   id: text('id')
@@ -197,8 +327,9 @@ export const userPreferences = pgTable('user_preferences', {
     .references(() => user.id, { onDelete: 'cascade' }),
   preferences: json('preferences')
     .$type<{
-      'rovo-search-provider'?: 'exa' | 'tavily' | 'firecrawl';
-      'rovo-extreme-search-provider'?: 'exa';
+      'rovo-search-provider'?: 'exa' | 'tavily' | 'firecrawl' | 'searxng' | 'hybrid';
+      'rovo-extreme-search-provider'?: 'exa' | 'tavily' | 'firecrawl' | 'parallel' | 'searxng';
+      'rovo-extreme-search-budget'?: 'standard' | 'thorough' | 'exhaustive';
       'rovo-group-order'?: string[];
       'rovo-model-order-global'?: string[];
       'rovo-blur-personal-info'?: boolean;
@@ -287,12 +418,29 @@ export const lookout = pgTable('lookout', {
     .references(() => user.id, { onDelete: 'cascade' }),
   title: text('title').notNull(),
   prompt: text('prompt').notNull(),
-  frequency: text('frequency').notNull(), // 'once', 'daily', 'weekly', 'monthly', 'yearly'
+  frequency: text('frequency').notNull(), // 'once', 'hourly', 'daily', 'weekdays', 'weekly', 'monthly', 'yearly', 'custom'
   cronSchedule: text('cron_schedule').notNull(),
   timezone: text('timezone').notNull().default('UTC'),
   nextRunAt: timestamp('next_run_at').notNull(),
   qstashScheduleId: text('qstash_schedule_id'),
   status: text('status').notNull().default('active'), // 'active', 'paused', 'archived', 'running'
+  // The search group whose tools and instructions each run uses, and the model that answers
+  searchGroup: text('search_group').notNull().default('extreme'),
+  model: text('model').notNull().default('rovo-grok-4-fast-think'),
+  // Skip the completion email when a run found nothing materially new since the previous one
+  notifyOnlyOnChange: boolean('notify_only_on_change').notNull().default(false),
+  // Where runs are sent besides the completion email, see lib/lookout-channels.ts
+  deliveryChannels: json('delivery_channels')
+    .$type<
+      Array<{
+        id: string;
+        type: 'webhook' | 'slack' | 'discord' | 'rss';
+        url?: string;
+        secret?: string;
+      }>
+    >()
+    .notNull()
+    .default([]),
   lastRunAt: timestamp('last_run_at'),
   lastRunChatId: text('last_run_chat_id'),
   // Store all run history as JSON
@@ -306,6 +454,17 @@ export const lookout = pgTable('lookout', {
         duration?: number; // milliseconds
         tokensUsed?: number;
         searchesPerformed?: number;
+        // What the run found, kept so the next run can tell what is new
+        sources?: string[]; // source URLs
+        keyPoints?: string[];
+        changed?: boolean; // whether it differed materially from the previous run
+        notified?: boolean; // whether the completion email was sent
+        deliveries?: Array<{
+          channelId: string;
+          type: 'webhook' | 'slack' | 'discord' | 'rss';
+          status: 'delivered' | 'failed';
+          error?: string;
+        }>;
       }>
     >()
     .default([]),
@@ -313,12 +472,27 @@ export const lookout = pgTable('lookout', {
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+// Private per-user Atom feed of lookout reports; the token in the feed URL is the only credential
+export const lookoutFeed = pgTable('lookout_feed', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => generateId()),
+  userId: text('user_id')
+    .notNull()
+    .unique()
+    .references(() => user.id, { onDelete: 'cascade' }),
+  token: text('token').notNull().unique(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
 export const userRelations = relations(user, ({ many }) => ({
   sessions: many(session),
   accounts: many(account),
   chats: many(chat),
   extremeSearchUsages: many(extremeSearchUsage),
   messageUsages: many(messageUsage),
+  usageLedger: many(usageLedger),
+  apiKeys: many(apiKey),
   customInstructions: many(customInstructions),
   userPreferences: many(userPreferences),
   payments: many(payment),
@@ -347,6 +521,9 @@ export const chatRelations = relations(chat, ({ one, many }) => ({
   }),
   messages: many(message),
   streams: many(stream),
+  extremeSearchRuns: many(extremeSearchRun),
+  attachmentChunks: many(attachmentChunk),
+  attachments: many(attachment),
 }));
 
 export const messageRelations = relations(message, ({ one }) => ({
@@ -363,6 +540,35 @@ export const streamRelations = relations(stream, ({ one }) => ({
   }),
 }));
 
+export const extremeSearchRunRelations = relations(extremeSearchRun, ({ one }) => ({
+  chat: one(chat, {
+    fields: [extremeSearchRun.chatId],
+    references: [chat.id],
+  }),
+  user: one(user, {
+    fields: [extremeSearchRun.userId],
+    references: [user.id],
+  }),
+}));
+
+export const attachmentChunkRelations = relations(attachmentChunk, ({ one }) => ({
+  chat: one(chat, {
+    fields: [attachmentChunk.chatId],
+    references: [chat.id],
+  }),
+}));
+
+export const attachmentRelations = relations(attachment, ({ one }) => ({
+  user: one(user, {
+    fields: [attachment.userId],
+    references: [user.id],
+  }),
+  chat: one(chat, {
+    fields: [attachment.chatId],
+    references: [chat.id],
+  }),
+}));
+
 export const lookoutRelations = relations(lookout, ({ one }) => ({
   user: one(user, {
     fields: [lookout.userId],
@@ -377,11 +583,17 @@ export type Verification = InferSelectModel<typeof verification>;
 export type Chat = InferSelectModel<typeof chat>;
 export type Message = InferSelectModel<typeof message>;
 export type Stream = InferSelectModel<typeof stream>;
+export type ExtremeSearchRun = InferSelectModel<typeof extremeSearchRun>;
 export type Subscription = InferSelectModel<typeof subscription>;
 export type Payment = InferSelectModel<typeof payment>;
 export type DodoSubscription = InferSelectModel<typeof dodosubscription>;
 export type ExtremeSearchUsage = InferSelectModel<typeof extremeSearchUsage>;
 export type MessageUsage = InferSelectModel<typeof messageUsage>;
+export type UsageLedgerEntry = InferSelectModel<typeof usageLedger>;
+export type ApiKey = InferSelectModel<typeof apiKey>;
+export type AttachmentChunk = InferSelectModel<typeof attachmentChunk>;
+export type Attachment = InferSelectModel<typeof attachment>;
 export type CustomInstructions = InferSelectModel<typeof customInstructions>;
 export type UserPreferences = InferSelectModel<typeof userPreferences>;
 export type Lookout = InferSelectModel<typeof lookout>;
+export type LookoutFeed = InferSelectModel<typeof lookoutFeed>;
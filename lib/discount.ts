@@ -35,39 +35,43 @@ export function isStudentEmail(email: string, studentDomains: string[]): boolean
 }
 
 /**
- * Fetches student discount configuration
- * Returns enabled config only for verified student emails
+ * Fetches student email domains from Edge Config
  */
-export async function getDiscountConfig(userEmail?: string): Promise<DiscountConfig> {
-  const defaultConfig: DiscountConfig = {
-    enabled: false,
-    isStudentDiscount: false,
-  };
-
-  // No email provided
-  if (!userEmail) {
-    return defaultConfig;
-  }
-
-  // Fetch student domains from Edge Config
-  let studentDomains: string[] = [];
+export async function getStudentDomains(): Promise<string[]> {
   try {
     const studentDomainsConfig = await get('student_domains');
     if (studentDomainsConfig && typeof studentDomainsConfig === 'string') {
       // Parse CSV string to array, trim whitespace
-      studentDomains = studentDomainsConfig
+      return studentDomainsConfig
         .split(',')
         .map((domain) => domain.trim())
         .filter((domain) => domain.length > 0);
     }
+    return [];
   } catch (error) {
     console.warn('Failed to fetch student domains from Edge Config:', error);
     // Fallback to hardcoded domains
-    studentDomains = ['.edu', '.ac.in', '.edu.in'];
+    return ['.edu', '.ac.in', '.edu.in'];
+  }
+}
+
+/**
+ * Fetches student discount configuration
+ * Returns enabled config only for verified student emails
+ */
+export async function getDiscountConfig(userEmail?: string): Promise<DiscountConfig> {
+  const defaultConfig: DiscountConfig = {
+    enabled: false,
+    isStudentDiscount: false,
+  };
+
+  // No email provided
+  if (!userEmail) {
+    return defaultConfig;
   }
 
   // Check if user is a student
-  const isStudent = isStudentEmail(userEmail, studentDomains);
+  const isStudent = isStudentEmail(userEmail, await getStudentDomains());
 
   // If not a student, return default config
   if (!isStudent) {
@@ -0,0 +1,242 @@
+import 'server-only';
+
+import type { UIMessage } from 'ai';
+import ExcelJS from 'exceljs';
+import mammoth from 'mammoth';
+import { extractText as extractPdfText, getDocumentProxy } from 'unpdf';
+import { PerformanceCache } from '@/lib/performance-cache';
+import { getStorage } from '@/lib/storage';
+import { DOCUMENT_TYPES, getDocumentKind, isDocumentMediaType, type DocumentKind } from '@/lib/documents';
+
+const MAX_DOCUMENT_CHARS = 100_000;
+const MAX_TABLE_ROWS = 500;
+const PREVIEW_CHARS = 280;
+
+export interface ExtractedDocument {
+  kind: DocumentKind;
+  // Model-facing text; spreadsheets and CSVs are rendered as markdown tables
+  text: string;
+  // Short excerpt for the attachment badge
+  preview: string;
+  truncated: boolean;
+}
+
+// Extracted text by attachment URL, so follow-up messages in a chat don't re-download and re-parse
+const extractionCache = new PerformanceCache<ExtractedDocument>('document-extraction', 200, 60 * 60 * 1000);
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ').trim();
+}
+
+function toMarkdownTable(rows: string[][], maxRows = MAX_TABLE_ROWS): { table: string; truncated: boolean } {
+  const nonEmptyRows = rows.filter((row) => row.some((cell) => cell.trim() !== ''));
+  if (nonEmptyRows.length === 0) return { table: '(empty)', truncated: false };
+
+  const truncated = nonEmptyRows.length > maxRows + 1;
+  const [header, ...body] = nonEmptyRows.slice(0, maxRows + 1);
+  const columnCount = Math.max(...nonEmptyRows.map((row) => row.length));
+  const pad = (row: string[]) => Array.from({ length: columnCount }, (_, i) => escapeCell(row[i] ?? ''));
+
+  const lines = [
+    `| ${pad(header).join(' | ')} |`,
+    `| ${Array(columnCount).fill('---').join(' | ')} |`,
+    ...body.map((row) => `| ${pad(row).join(' | ')} |`),
+  ];
+  if (truncated) {
+    lines.push(`\n(${nonEmptyRows.length - maxRows - 1} more rows not shown)`);
+  }
+
+  return { table: lines.join('\n'), truncated };
+}
+
+// RFC 4180 CSV: quoted fields may contain delimiters, escaped quotes and newlines
+function parseCsv(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+async function extractSpreadsheet(buffer: ArrayBuffer, maxRows: number): Promise<{ text: string; truncated: boolean }> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  let truncated = false;
+  const sections: string[] = [];
+
+  workbook.eachSheet((sheet) => {
+    const rows: string[][] = [];
+    for (let r = 1; r <= sheet.actualRowCount; r++) {
+      const row = sheet.getRow(r);
+      const cells: string[] = [];
+      for (let c = 1; c <= sheet.actualColumnCount; c++) {
+        cells.push(row.getCell(c).text ?? '');
+      }
+      rows.push(cells);
+    }
+
+    const { table, truncated: sheetTruncated } = toMarkdownTable(rows, maxRows);
+    truncated ||= sheetTruncated;
+    sections.push(`## Sheet: ${sheet.name}\n\n${table}`);
+  });
+
+  return { text: sections.join('\n\n'), truncated };
+}
+
+// `maxTableRows` caps spreadsheets and CSVs that are inlined into the prompt; retrieval indexes every row
+async function extractDocumentText(
+  kind: DocumentKind,
+  buffer: ArrayBuffer,
+  maxTableRows: number = MAX_TABLE_ROWS,
+): Promise<{ text: string; truncated: boolean }> {
+  switch (kind) {
+    case 'docx': {
+      const { value } = await mammoth.extractRawText({ buffer: Buffer.from(buffer) });
+      return { text: value.replace(/\n{3,}/g, '\n\n').trim(), truncated: false };
+    }
+    case 'xlsx':
+      return extractSpreadsheet(buffer, maxTableRows);
+    case 'csv': {
+      const { table, truncated } = toMarkdownTable(parseCsv(new TextDecoder().decode(buffer)), maxTableRows);
+      return { text: table, truncated };
+    }
+    case 'markdown':
+    case 'text':
+      return { text: new TextDecoder().decode(buffer).trim(), truncated: false };
+  }
+}
+
+export async function extractDocument(file: Blob, name: string): Promise<ExtractedDocument> {
+  const kind = getDocumentKind({ type: file.type, name });
+  if (!kind) {
+    throw new Error(`Unsupported document type: ${file.type || name}`);
+  }
+
+  const extracted = await extractDocumentText(kind, await file.arrayBuffer());
+  const truncated = extracted.truncated || extracted.text.length > MAX_DOCUMENT_CHARS;
+  const text = extracted.text.slice(0, MAX_DOCUMENT_CHARS);
+
+  return {
+    kind,
+    text,
+    preview: text.slice(0, PREVIEW_CHARS).trim(),
+    truncated,
+  };
+}
+
+// Only our own uploads are fetched, never arbitrary URLs from the request
+async function fetchUploadedFile(url: string, mediaType: string): Promise<Blob> {
+  if (!getStorage().isStoredUrl(url)) {
+    throw new Error('Attachment URL is not an uploaded file');
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch attachment: ${response.status}`);
+  }
+
+  return new Blob([await response.blob()], { type: mediaType });
+}
+
+async function extractDocumentFromUrl(url: string, name: string, mediaType: string): Promise<ExtractedDocument> {
+  const cached = extractionCache.get(url);
+  if (cached) return cached;
+
+  const extracted = await extractDocument(await fetchUploadedFile(url, mediaType), name);
+  extractionCache.set(url, extracted);
+  return extracted;
+}
+
+export interface AttachmentPage {
+  // 1-based PDF page; null for formats without pages
+  page: number | null;
+  text: string;
+}
+
+// Full text of a PDF or document attachment, per page where the format has pages. Not truncated.
+export async function extractAttachmentPages(url: string, name: string, mediaType: string): Promise<AttachmentPage[]> {
+  const file = await fetchUploadedFile(url, mediaType);
+
+  if (mediaType === 'application/pdf') {
+    const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()));
+    const { text } = await extractPdfText(pdf, { mergePages: false });
+    return text.map((pageText, index) => ({ page: index + 1, text: pageText.trim() }));
+  }
+
+  const kind = getDocumentKind({ type: mediaType, name });
+  if (!kind) {
+    throw new Error(`Unsupported attachment type: ${mediaType}`);
+  }
+
+  const { text } = await extractDocumentText(kind, await file.arrayBuffer(), Infinity);
+  return [{ page: null, text }];
+}
+
+// Replace document file parts with their extracted text so models without document support can read them
+export async function expandDocumentParts<T extends UIMessage>(messages: T[]): Promise<T[]> {
+  return Promise.all(
+    messages.map(async (message) => {
+      if (!message.parts?.some((part) => part.type === 'file' && isDocumentMediaType(part.mediaType))) {
+        return message;
+      }
+
+      const parts = await Promise.all(
+        message.parts.map(async (part) => {
+          if (part.type !== 'file' || !isDocumentMediaType(part.mediaType)) return part;
+
+          // The composer sends `name`; AI SDK file parts use `filename`
+          const name: string = (part as { name?: string }).name ?? part.filename ?? 'document';
+          try {
+            const extracted = await extractDocumentFromUrl(part.url, name, part.mediaType);
+            return {
+              type: 'text' as const,
+              text:
+                `<document name="${name}" type="${DOCUMENT_TYPES[extracted.kind].label}"${extracted.truncated ? ' truncated="true"' : ''}>\n` +
+                `${extracted.text}\n</document>`,
+            };
+          } catch (error) {
+            console.error(`Failed to extract document ${name}:`, error);
+            return { type: 'text' as const, text: `[The attached document "${name}" could not be read]` };
+          }
+        }),
+      );
+
+      return { ...message, parts };
+    }),
+  );
+}
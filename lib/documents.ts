@@ -0,0 +1,64 @@
+// Document attachments (DOCX, XLSX, CSV, Markdown, plain text). Client-safe: extraction lives in
+// lib/document-extraction.ts. Documents are converted to text on the server, so every model can read them.
+
+export type DocumentKind = 'docx' | 'xlsx' | 'csv' | 'markdown' | 'text';
+
+interface DocumentType {
+  label: string;
+  // The first MIME type is the canonical one stored on the attachment
+  mimeTypes: string[];
+  extensions: string[];
+}
+
+export const DOCUMENT_TYPES: Record<DocumentKind, DocumentType> = {
+  docx: {
+    label: 'Word',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx'],
+  },
+  xlsx: {
+    label: 'Excel',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    extensions: ['.xlsx'],
+  },
+  csv: {
+    label: 'CSV',
+    mimeTypes: ['text/csv', 'application/csv', 'application/vnd.ms-excel'],
+    extensions: ['.csv'],
+  },
+  markdown: {
+    label: 'Markdown',
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extensions: ['.md', '.markdown'],
+  },
+  text: {
+    label: 'Text',
+    mimeTypes: ['text/plain'],
+    extensions: ['.txt'],
+  },
+};
+
+const DOCUMENT_KINDS = Object.keys(DOCUMENT_TYPES) as DocumentKind[];
+
+// For the file input's `accept` attribute
+export const DOCUMENT_ACCEPT = DOCUMENT_KINDS.flatMap((kind) => DOCUMENT_TYPES[kind].extensions).join(',');
+
+// Browsers often report '' or a generic type for these files, so the extension decides when the MIME type doesn't
+export function getDocumentKind(file: { type?: string; name?: string }): DocumentKind | null {
+  const extension = file.name?.includes('.') ? `.${file.name.split('.').pop()!.toLowerCase()}` : '';
+  const byExtension = DOCUMENT_KINDS.find((kind) => DOCUMENT_TYPES[kind].extensions.includes(extension));
+  if (byExtension) return byExtension;
+
+  const mimeType = file.type?.split(';')[0].trim().toLowerCase();
+  // application/vnd.ms-excel is also sent for legacy .xls, so it only counts with a .csv extension
+  if (!mimeType || mimeType === 'application/vnd.ms-excel') return null;
+  return DOCUMENT_KINDS.find((kind) => DOCUMENT_TYPES[kind].mimeTypes.includes(mimeType)) ?? null;
+}
+
+export function getDocumentMediaType(kind: DocumentKind): string {
+  return DOCUMENT_TYPES[kind].mimeTypes[0];
+}
+
+export function isDocumentMediaType(mediaType: string | undefined | null): boolean {
+  return Boolean(mediaType && DOCUMENT_KINDS.some((kind) => getDocumentMediaType(kind) === mediaType));
+}
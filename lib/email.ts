@@ -1,6 +1,7 @@
 import { Resend } from 'resend';
 import { serverEnv } from '@/env/server';
 import SearchCompletedEmail from '@/components/emails/lookout-completed';
+import type { LookoutRunChanges } from '@/lib/types';
 
 const resend = new Resend(serverEnv.RESEND_API_KEY);
 
@@ -9,6 +10,8 @@ interface SendLookoutCompletionEmailParams {
   chatTitle: string;
   assistantResponse: string;
   chatId: string;
+  // Set when the run found something new since the previous run
+  changes?: LookoutRunChanges;
 }
 
 export async function sendLookoutCompletionEmail({
@@ -16,6 +19,7 @@ export async function sendLookoutCompletionEmail({
   chatTitle,
   assistantResponse,
   chatId,
+  changes,
 }: SendLookoutCompletionEmailParams) {
   try {
     const data = await resend.emails.send({
@@ -26,6 +30,7 @@ export async function sendLookoutCompletionEmail({
         chatTitle,
         assistantResponse,
         chatId,
+        changes,
       }),
     });
 
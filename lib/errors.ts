@@ -74,6 +74,8 @@ export function getMessageByErrorCode(errorCode: ErrorCode): string {
       return "The request couldn't be processed. Please check your input and try again.";
     case 'rate_limit:api':
       return 'You have reached your daily free limit for today.';
+    case 'unauthorized:api':
+      return 'A valid API key is required. Pass it as `Authorization: Bearer <key>`.';
 
     case 'unauthorized:auth':
       return 'You need to sign in before continuing.';
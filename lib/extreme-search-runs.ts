@@ -0,0 +1,121 @@
+import 'server-only';
+
+import { createExtremeSearchRun, getExtremeSearchRunById, updateExtremeSearchRun } from '@/lib/db/queries';
+import type { ExtremeSearchRun } from '@/lib/db/schema';
+
+// A running row is kept fresh by the heartbeat; once it stops for this long the function is assumed dead
+export const INTERRUPTED_RUN_STALE_MS = 2 * 60 * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+const CANCEL_POLL_MS = 3 * 1000;
+// Same cap the tool output applies to source content
+const CHECKPOINT_SOURCE_CHARS = 3000;
+
+export type ResearchSource = {
+  title: string;
+  url: string;
+  content: string;
+  publishedDate: string;
+  favicon: string;
+};
+
+export type ResearchRound = {
+  round: number;
+  plan: Array<{ title: string; todos: string[] }>;
+  // Gaps from the previous round's reflection that this round targets
+  gaps: string[];
+};
+
+// An agent tool call and its output, as the AI SDK reports them at the end of a step
+export type ResearchToolResult = {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  output: unknown;
+};
+
+// Everything needed to pick research back up where it stopped, saved after every agent step
+export type ResearchCheckpoint = {
+  plan: Array<{ title: string; todos: string[] }>;
+  gaps: string[];
+  rounds: ResearchRound[];
+  round: number;
+  // Agent steps already taken in the current round
+  roundSteps: number;
+  searchedQueries: string[];
+  sources: ResearchSource[];
+  toolResults: ResearchToolResult[];
+  usage: { searches: number; tokens: number };
+  elapsedMs: number;
+};
+
+export interface ExtremeSearchRunOwner {
+  chatId: string;
+  userId: string;
+  model: string;
+}
+
+export interface ResearchRunTracker {
+  resumeFrom?: ResearchCheckpoint;
+  checkpoint(state: ResearchCheckpoint): Promise<void>;
+  isCancelled(): Promise<boolean>;
+  finish(status: 'completed' | 'cancelled' | 'failed'): Promise<void>;
+}
+
+export function createResearchRunTracker(run: ExtremeSearchRun): ResearchRunTracker {
+  let cancelled = Boolean(run.cancelRequestedAt);
+  let lastPolledAt = 0;
+
+  const heartbeat = setInterval(() => {
+    updateExtremeSearchRun({ id: run.id }).catch((error) =>
+      console.error(`Extreme search run ${run.id} heartbeat failed:`, error),
+    );
+  }, HEARTBEAT_MS);
+
+  return {
+    resumeFrom: run.checkpoint ?? undefined,
+    async checkpoint(state) {
+      await updateExtremeSearchRun({
+        id: run.id,
+        checkpoint: {
+          ...state,
+          sources: state.sources.map((source) => ({
+            ...source,
+            content: source.content.slice(0, CHECKPOINT_SOURCE_CHARS),
+          })),
+        },
+      });
+    },
+    // Polled from every agent step, so reads are throttled
+    async isCancelled() {
+      if (cancelled || Date.now() - lastPolledAt < CANCEL_POLL_MS) return cancelled;
+      lastPolledAt = Date.now();
+      const current = await getExtremeSearchRunById({ id: run.id }).catch(() => null);
+      cancelled = Boolean(current?.cancelRequestedAt);
+      return cancelled;
+    },
+    async finish(status) {
+      clearInterval(heartbeat);
+      await updateExtremeSearchRun({ id: run.id, status }).catch((error) =>
+        console.error(`Failed to finish extreme search run ${run.id}:`, error),
+      );
+    },
+  };
+}
+
+export async function startExtremeSearchRun({
+  chatId,
+  userId,
+  model,
+  toolCallId,
+  prompt,
+  provider,
+  budget,
+}: ExtremeSearchRunOwner & {
+  toolCallId: string;
+  prompt: string;
+  provider: string;
+  budget: string;
+}): Promise<ResearchRunTracker> {
+  const run = await createExtremeSearchRun({ chatId, userId, toolCallId, model, prompt, provider, budget });
+  return createResearchRunTracker(run);
+}
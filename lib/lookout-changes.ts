@@ -0,0 +1,184 @@
+import 'server-only';
+
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { rovo } from '@/ai/providers';
+import { getMessagesByChatId } from '@/lib/db/queries';
+import { getResearchSources, normalizeUrl, type CitationSource } from '@/lib/citation-verification';
+import type { LookoutRunChanges } from '@/lib/types';
+
+const MAX_SNAPSHOT_SOURCES = 50;
+const MAX_KEY_POINTS = 20;
+const KEY_POINT_CHARS = 300;
+const MAX_NEW_SOURCES = 10;
+const REPORT_EXCERPT_CHARS = 6000;
+
+// What a run found, stored in its run history entry for the next run to compare against
+export interface LookoutRunSnapshot {
+  sources: string[];
+  keyPoints: string[];
+}
+
+interface PreviousRun extends LookoutRunSnapshot {
+  runAt: string;
+  chatId: string;
+}
+
+interface LookoutRunHistory {
+  lastRunChatId: string | null;
+  runHistory: Array<{ runAt: string; chatId: string; status: string; sources?: string[]; keyPoints?: string[] }> | null;
+}
+
+// The bullets under the report's "## Key Points" heading, with citation links stripped
+export function extractKeyPoints(report: string): string[] {
+  const lines = report.split('\n');
+  const start = lines.findIndex((line) => /^#{1,6}\s*key points\b/i.test(line.trim()));
+  if (start === -1) return [];
+
+  const keyPoints: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const trimmed = line.trim();
+    if (/^#{1,6}\s/.test(trimmed)) break;
+
+    const bullet = trimmed.match(/^(?:[-*+]|\d+\.)\s+(.*)$/);
+    if (!bullet) continue;
+    const keyPoint = bullet[1]
+      .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '')
+      .replace(/[*_`]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (keyPoint) keyPoints.push(keyPoint.slice(0, KEY_POINT_CHARS));
+  }
+
+  return keyPoints.slice(0, MAX_KEY_POINTS);
+}
+
+export function getRunSnapshot(report: string, sources: CitationSource[]): LookoutRunSnapshot {
+  return {
+    sources: [...new Set(sources.map((source) => source.url))].slice(0, MAX_SNAPSHOT_SOURCES),
+    keyPoints: extractKeyPoints(report),
+  };
+}
+
+// The latest successful run. Runs recorded before snapshots were kept are read back from their chat
+async function getPreviousRun({ lastRunChatId, runHistory }: LookoutRunHistory): Promise<PreviousRun | null> {
+  const history = runHistory ?? [];
+  const previousRun = [...history].reverse().find((run) => run.status === 'success');
+  if (previousRun?.sources || previousRun?.keyPoints) {
+    return {
+      runAt: previousRun.runAt,
+      chatId: previousRun.chatId,
+      sources: previousRun.sources ?? [],
+      keyPoints: previousRun.keyPoints ?? [],
+    };
+  }
+
+  const chatId = previousRun?.chatId ?? (history.length === 0 ? lastRunChatId : null);
+  if (!chatId) return null;
+
+  const messages = await getMessagesByChatId({ id: chatId });
+  const parts = messages
+    .filter((message) => message.role === 'assistant')
+    .flatMap((message) => (message.parts as Array<{ type: string; text?: string; output?: unknown }>) ?? []);
+  const report = parts
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text ?? '')
+    .join('\n');
+  if (!report.trim()) return null;
+
+  const sources = getResearchSources(
+    parts
+      .filter((part) => part.type.startsWith('tool-'))
+      .map((part) => ({ toolName: part.type.slice('tool-'.length), output: part.output })),
+  );
+
+  return {
+    runAt: previousRun?.runAt ?? messages[0].createdAt.toISOString(),
+    chatId,
+    ...getRunSnapshot(report, sources),
+  };
+}
+
+async function summarizeChanges({
+  previous,
+  keyPoints,
+  report,
+  newSources,
+}: {
+  previous: PreviousRun;
+  keyPoints: string[];
+  report: string;
+  newSources: CitationSource[];
+}): Promise<{ materiallyChanged: boolean; whatsNew: string[] }> {
+  const { object } = await generateObject({
+    model: rovo.languageModel('rovo-default'),
+    schema: z.object({
+      materiallyChanged: z
+        .boolean()
+        .describe('Whether the new report contains findings a reader of the previous report would want to know about'),
+      whatsNew: z
+        .array(z.string())
+        .max(5)
+        .describe('Short bullet points describing what is new or different, empty if nothing material changed'),
+    }),
+    prompt: `A scheduled research report was run again. Compare the new report with the previous run's key points and decide whether anything materially changed: new developments, changed numbers, dates or outcomes, or claims that no longer hold. Rewording, reordering or the same facts from different sources are not material changes.
+
+<previous_key_points>
+${previous.keyPoints.map((keyPoint) => `- ${keyPoint}`).join('\n') || 'None recorded'}
+</previous_key_points>
+
+<new_report>
+${keyPoints.length > 0 ? keyPoints.map((keyPoint) => `- ${keyPoint}`).join('\n') : report.slice(0, REPORT_EXCERPT_CHARS)}
+</new_report>
+
+<new_sources>
+${newSources.map((source) => `- ${source.title}`).join('\n') || 'None'}
+</new_sources>`,
+  });
+
+  return object;
+}
+
+// Compares a finished run with the previous one. Returns null when there is no earlier run to compare with
+export async function compareWithPreviousRun({
+  lookout,
+  report,
+  sources,
+}: {
+  lookout: LookoutRunHistory;
+  report: string;
+  sources: CitationSource[];
+}): Promise<LookoutRunChanges | null> {
+  const previous = await getPreviousRun(lookout);
+  if (!previous) return null;
+
+  const seenUrls = new Set(previous.sources.map(normalizeUrl));
+  const newSources = sources.filter((source) => {
+    const url = normalizeUrl(source.url);
+    if (seenUrls.has(url)) return false;
+    seenUrls.add(url);
+    return true;
+  });
+
+  const changes = {
+    previousRunAt: previous.runAt,
+    previousChatId: previous.chatId,
+    newSources: newSources.slice(0, MAX_NEW_SOURCES).map(({ url, title }) => ({ url, title })),
+  };
+
+  try {
+    const startTime = Date.now();
+    const summary = await summarizeChanges({
+      previous,
+      keyPoints: extractKeyPoints(report),
+      report,
+      newSources,
+    });
+    console.log(`🔁 Compared lookout run with previous run in ${Date.now() - startTime}ms`);
+    return { ...changes, ...summary };
+  } catch (error) {
+    // Without the model, new sources are the only signal left
+    console.error('Lookout run comparison failed:', error);
+    return { ...changes, materiallyChanged: newSources.length > 0, whatsNew: [] };
+  }
+}
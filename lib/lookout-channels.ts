@@ -0,0 +1,56 @@
+// Shared by the lookout form and the server actions that store a lookout's delivery targets
+
+export type LookoutChannelType = 'webhook' | 'slack' | 'discord' | 'rss';
+
+export interface LookoutDeliveryChannel {
+  id: string;
+  type: LookoutChannelType;
+  // webhook, slack and discord: where each run is POSTed
+  url?: string;
+  // webhook: signs every request, generated when the channel is saved
+  secret?: string;
+}
+
+// Recorded in the run history for every channel a run was sent to
+export interface LookoutDelivery {
+  channelId: string;
+  type: LookoutChannelType;
+  status: 'delivered' | 'failed';
+  error?: string;
+}
+
+export const MAX_DELIVERY_CHANNELS = 5;
+
+export const LOOKOUT_CHANNEL_OPTIONS: Array<{ value: LookoutChannelType; label: string; placeholder?: string }> = [
+  { value: 'webhook', label: 'Webhook', placeholder: 'https://example.com/hooks/lookout' },
+  { value: 'slack', label: 'Slack', placeholder: 'https://hooks.slack.com/services/...' },
+  { value: 'discord', label: 'Discord', placeholder: 'https://discord.com/api/webhooks/...' },
+  { value: 'rss', label: 'RSS feed' },
+];
+
+// Returns why a channel can't be saved, or null when it is valid
+export function validateDeliveryChannel(channel: Pick<LookoutDeliveryChannel, 'type' | 'url'>): string | null {
+  if (channel.type === 'rss') return null;
+
+  const label = LOOKOUT_CHANNEL_OPTIONS.find((option) => option.value === channel.type)?.label ?? channel.type;
+  let url: URL;
+  try {
+    url = new URL(channel.url ?? '');
+  } catch {
+    return `Enter a valid ${label} URL`;
+  }
+
+  if (url.protocol !== 'https:') {
+    return `${label} URLs must use https`;
+  }
+  if (channel.type === 'slack' && url.hostname !== 'hooks.slack.com') {
+    return 'Slack URLs must be incoming webhooks on hooks.slack.com';
+  }
+  if (
+    channel.type === 'discord' &&
+    (!['discord.com', 'discordapp.com'].includes(url.hostname) || !url.pathname.startsWith('/api/webhooks/'))
+  ) {
+    return 'Discord URLs must be channel webhooks on discord.com';
+  }
+  return null;
+}
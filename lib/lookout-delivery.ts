@@ -0,0 +1,260 @@
+import 'server-only';
+
+import { createHmac, randomBytes } from 'crypto';
+import { lookup, type LookupAddress, type LookupOptions } from 'dns';
+import { BlockList, isIP } from 'net';
+import { Agent, fetch, type RequestInit } from 'undici';
+import { extractKeyPoints } from '@/lib/lookout-changes';
+import type { LookoutDelivery, LookoutDeliveryChannel } from '@/lib/lookout-channels';
+import { getAppUrl } from '@/lib/lookout-scheduler';
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const MAX_SUMMARY_CHARS = 2500;
+const MAX_DELIVERED_SOURCES = 10;
+
+// Loopback, private, link-local, shared and multicast ranges, which user-supplied webhooks must not reach
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface LookoutRunReport {
+  lookout: { id: string; title: string };
+  // The run's generated chat title
+  title: string;
+  summary: string;
+  sources: Array<{ url: string; title: string }>;
+  whatsNew?: string[];
+  chatId: string;
+  runAt: Date;
+}
+
+export function getLookoutChatUrl(chatId: string): string {
+  return new URL(`/search/${chatId}`, getAppUrl()).toString();
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+// Receivers recompute this over "<X-Rovo-Timestamp>.<raw body>" with the channel's secret to check the sender
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// The report's key points, or its opening when it has none
+export function getReportSummary(report: string): string {
+  const keyPoints = extractKeyPoints(report);
+  const summary = keyPoints.length > 0 ? keyPoints.map((keyPoint) => `- ${keyPoint}`).join('\n') : report.trim();
+  return summary.length > MAX_SUMMARY_CHARS ? summary.slice(0, MAX_SUMMARY_CHARS) + '...' : summary;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.slice(0, length - 1) + '…' : text;
+}
+
+function getWebhookBody(report: LookoutRunReport) {
+  return {
+    event: 'lookout.run.completed',
+    lookout: report.lookout,
+    title: report.title,
+    summary: report.summary,
+    whatsNew: report.whatsNew ?? [],
+    sources: report.sources,
+    chatId: report.chatId,
+    chatUrl: getLookoutChatUrl(report.chatId),
+    runAt: report.runAt.toISOString(),
+  };
+}
+
+// Slack mrkdwn links are <url|text>
+function toSlackMarkdown(text: string): string {
+  return text.replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<$2|$1>').replace(/\*\*(.+?)\*\*/g, '*$1*');
+}
+
+function getSlackBody(report: LookoutRunReport) {
+  const chatUrl = getLookoutChatUrl(report.chatId);
+  const blocks: Array<Record<string, unknown>> = [
+    { type: 'header', text: { type: 'plain_text', text: truncate(report.lookout.title, 150) } },
+    { type: 'section', text: { type: 'mrkdwn', text: truncate(toSlackMarkdown(report.summary), 3000) } },
+  ];
+
+  if (report.whatsNew?.length) {
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: truncate(`*What's new since last run*\n${report.whatsNew.map((item) => `• ${item}`).join('\n')}`, 3000),
+      },
+    });
+  }
+  if (report.sources.length > 0) {
+    blocks.push({
+      type: 'context',
+      elements: report.sources
+        .slice(0, MAX_DELIVERED_SOURCES)
+        .map((source) => ({ type: 'mrkdwn', text: `<${source.url}|${truncate(source.title, 80)}>` })),
+    });
+  }
+  blocks.push({
+    type: 'actions',
+    elements: [{ type: 'button', text: { type: 'plain_text', text: 'View full report' }, url: chatUrl }],
+  });
+
+  return { text: `Lookout complete: ${report.title} ${chatUrl}`, blocks };
+}
+
+function getDiscordBody(report: LookoutRunReport) {
+  const fields: Array<{ name: string; value: string }> = [];
+  if (report.whatsNew?.length) {
+    fields.push({
+      name: "What's new since last run",
+      value: truncate(report.whatsNew.map((item) => `• ${item}`).join('\n'), 1024),
+    });
+  }
+  if (report.sources.length > 0) {
+    fields.push({
+      name: 'Sources',
+      value: truncate(
+        report.sources
+          .slice(0, MAX_DELIVERED_SOURCES)
+          .map((source) => `[${truncate(source.title, 80)}](${source.url})`)
+          .join('\n'),
+        1024,
+      ),
+    });
+  }
+
+  return {
+    username: 'Rovo Lookouts',
+    embeds: [
+      {
+        title: truncate(report.lookout.title, 256),
+        url: getLookoutChatUrl(report.chatId),
+        description: truncate(report.summary, 4096),
+        fields,
+        timestamp: report.runAt.toISOString(),
+      },
+    ],
+  };
+}
+
+function getDeliveryRequest(channel: LookoutDeliveryChannel, report: LookoutRunReport): RequestInit {
+  if (channel.type === 'slack' || channel.type === 'discord') {
+    return {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(channel.type === 'slack' ? getSlackBody(report) : getDiscordBody(report)),
+    };
+  }
+
+  const body = JSON.stringify(getWebhookBody(report));
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  return {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Rovo-Lookouts/1.0',
+      'X-Rovo-Event': 'lookout.run.completed',
+      'X-Rovo-Timestamp': timestamp,
+      ...(channel.secret && { 'X-Rovo-Signature': `sha256=${signWebhookPayload(channel.secret, timestamp, body)}` }),
+    },
+    body,
+  };
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return blockedAddresses.check(mapped[1], 'ipv4');
+  return blockedAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Resolves hostnames for delivery connections and refuses private addresses, so the address that was
+// checked is the one connected to even if the host's DNS answer changes between lookups
+function lookupPublicAddress(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void,
+) {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new Error(`${hostname} resolves to a private address`), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const deliveryAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+// Connections to IP literals skip the lookup, so those are checked up front
+function assertPublicHost(url: string) {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw new Error('Webhook URL points at a private address');
+  }
+}
+
+// Sends a finished run to each of the lookout's channels. A failing channel doesn't stop the others
+export async function deliverLookoutRun(
+  channels: LookoutDeliveryChannel[],
+  report: LookoutRunReport,
+): Promise<LookoutDelivery[]> {
+  return Promise.all(
+    channels.map(async (channel): Promise<LookoutDelivery> => {
+      // The feed reads the run history, so recording the run is the delivery
+      if (channel.type === 'rss') {
+        return { channelId: channel.id, type: channel.type, status: 'delivered' };
+      }
+
+      try {
+        if (channel.type === 'webhook') {
+          assertPublicHost(channel.url!);
+        }
+        // Redirects aren't followed, so a webhook can't bounce the request to an internal address
+        const response = await fetch(channel.url!, {
+          ...getDeliveryRequest(channel, report),
+          redirect: 'manual',
+          signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+          dispatcher: deliveryAgent,
+        });
+        if (!response.ok) {
+          return { channelId: channel.id, type: channel.type, status: 'failed', error: `HTTP ${response.status}` };
+        }
+        console.log(`📬 Delivered lookout ${report.lookout.id} to ${channel.type} channel ${channel.id}`);
+        return { channelId: channel.id, type: channel.type, status: 'delivered' };
+      } catch (error) {
+        console.error(
+          `Failed to deliver lookout ${report.lookout.id} to ${channel.type} channel ${channel.id}:`,
+          error,
+        );
+        return {
+          channelId: channel.id,
+          type: channel.type,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }),
+  );
+}
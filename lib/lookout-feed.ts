@@ -0,0 +1,81 @@
+import 'server-only';
+
+import { randomBytes } from 'crypto';
+import { getLookoutChatUrl } from '@/lib/lookout-delivery';
+import type { Lookout } from '@/lib/db/schema';
+
+const MAX_FEED_ENTRIES = 50;
+const MAX_ENTRY_SOURCES = 5;
+
+export function generateFeedToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+export function getLookoutFeedPath(token: string): string {
+  return `/api/lookout/feed/${token}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+function getEntryContent(run: NonNullable<Lookout['runHistory']>[number]): string {
+  const keyPoints = run.keyPoints?.length
+    ? `<ul>${run.keyPoints.map((keyPoint) => `<li>${escapeXml(keyPoint)}</li>`).join('')}</ul>`
+    : '<p>The full report is in the linked chat.</p>';
+  const sources = run.sources?.length
+    ? `<p>Sources: ${run.sources
+        .slice(0, MAX_ENTRY_SOURCES)
+        .map((url) => `<a href="${escapeXml(url)}">${escapeXml(getHostname(url))}</a>`)
+        .join(', ')}</p>`
+    : '';
+  return keyPoints + sources;
+}
+
+// Runs delivered to the feed, newest first
+export function buildLookoutAtomFeed({ feedUrl, lookouts }: { feedUrl: string; lookouts: Lookout[] }): string {
+  const entries = lookouts
+    .flatMap((lookout) =>
+      (lookout.runHistory ?? [])
+        .filter((run) => run.deliveries?.some((delivery) => delivery.type === 'rss'))
+        .map((run) => ({ lookout, run })),
+    )
+    .sort((a, b) => b.run.runAt.localeCompare(a.run.runAt))
+    .slice(0, MAX_FEED_ENTRIES);
+
+  const updated = entries[0]?.run.runAt ?? new Date().toISOString();
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Rovo AI Lookouts</title>
+  <id>${escapeXml(feedUrl)}</id>
+  <link rel="self" href="${escapeXml(feedUrl)}"/>
+  <updated>${updated}</updated>
+  <author><name>Rovo AI</name></author>
+${entries
+  .map(
+    ({ lookout, run }) => `  <entry>
+    <title>${escapeXml(lookout.title)}</title>
+    <id>urn:rovo:lookout-run:${escapeXml(run.chatId)}</id>
+    <link href="${escapeXml(getLookoutChatUrl(run.chatId))}"/>
+    <updated>${run.runAt}</updated>
+    <content type="html">${escapeXml(getEntryContent(run))}</content>
+  </entry>`,
+  )
+  .join('\n')}
+</feed>
+`;
+}
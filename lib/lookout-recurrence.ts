@@ -0,0 +1,200 @@
+import { CronExpressionParser } from 'cron-parser';
+
+// Shared by the lookout form (validation and the next-runs preview) and the server actions that store the schedule
+
+export type LookoutFrequency = 'once' | 'hourly' | 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export interface LookoutRecurrenceOptions {
+  // HH:MM. Several times a day must share the minute so they fit in one cron expression
+  times?: string[];
+  // weekly: cron day numbers, 0 is Sunday
+  daysOfWeek?: string[];
+  // monthly: days of the month
+  daysOfMonth?: number[];
+  // hourly: run every this many hours, at the minute of the first time
+  intervalHours?: number;
+  // custom: a five-field cron expression
+  cron?: string;
+}
+
+// Each run is a full research report, so schedules can't fire more often than this
+export const MIN_LOOKOUT_INTERVAL_MS = 60 * 60 * 1000;
+export const HOURLY_INTERVAL_OPTIONS = [1, 2, 3, 4, 6, 8, 12];
+
+// Stored schedules carry QStash's timezone prefix, e.g. "CRON_TZ=Europe/Paris 0 9 * * *"
+export function stripCronTimezone(cronSchedule: string): string {
+  return cronSchedule.startsWith('CRON_TZ=') ? cronSchedule.split(' ').slice(1).join(' ') : cronSchedule;
+}
+
+function parseTimes(times: string[]): { minute: number; hours: number[] } {
+  const parsed = times.map((time) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    if (
+      !Number.isInteger(hours) ||
+      !Number.isInteger(minutes) ||
+      hours < 0 ||
+      hours > 23 ||
+      minutes < 0 ||
+      minutes > 59
+    ) {
+      throw new Error(`Invalid time: ${time}`);
+    }
+    return { hours, minutes };
+  });
+
+  if (parsed.length === 0) {
+    throw new Error('Pick at least one time');
+  }
+  if (new Set(parsed.map((time) => time.minutes)).size > 1) {
+    throw new Error('Times on the same day must share the same minutes, e.g. 9:00 and 17:00');
+  }
+
+  return {
+    minute: parsed[0].minutes,
+    hours: [...new Set(parsed.map((time) => time.hours))].sort((a, b) => a - b),
+  };
+}
+
+// Throws with a message that can be shown to the user
+export function recurrenceToCron(
+  frequency: Exclude<LookoutFrequency, 'once'>,
+  { times = [], daysOfWeek, daysOfMonth, intervalHours, cron }: LookoutRecurrenceOptions,
+): string {
+  if (frequency === 'custom') {
+    const expression = cron?.trim().split(/\s+/).join(' ') ?? '';
+    if (expression.split(' ').length !== 5) {
+      throw new Error('Cron expressions need five fields: minute, hour, day of month, month and day of week');
+    }
+    return expression;
+  }
+
+  if (frequency === 'hourly') {
+    if (!intervalHours || !HOURLY_INTERVAL_OPTIONS.includes(intervalHours)) {
+      throw new Error(`Run every ${HOURLY_INTERVAL_OPTIONS.join(', ')} hours`);
+    }
+    const { minute } = parseTimes(times.length > 0 ? times.slice(0, 1) : ['00:00']);
+    return intervalHours === 1 ? `${minute} * * * *` : `${minute} */${intervalHours} * * *`;
+  }
+
+  const { minute, hours } = parseTimes(times);
+  const at = `${minute} ${hours.join(',')}`;
+
+  switch (frequency) {
+    case 'daily':
+      return `${at} * * *`;
+    case 'weekdays':
+      return `${at} * * 1-5`;
+    case 'weekly': {
+      const days = [...new Set(daysOfWeek?.length ? daysOfWeek : ['0'])].sort();
+      if (days.some((day) => !/^[0-6]$/.test(day))) {
+        throw new Error('Invalid day of week');
+      }
+      return `${at} * * ${days.join(',')}`;
+    }
+    case 'monthly': {
+      const days = [...new Set(daysOfMonth?.length ? daysOfMonth : [1])].sort((a, b) => a - b);
+      if (days.some((day) => !Number.isInteger(day) || day < 1 || day > 31)) {
+        throw new Error('Invalid day of month');
+      }
+      return `${at} ${days.join(',')} * *`;
+    }
+    case 'yearly':
+      return `${at} 1 1 *`;
+  }
+}
+
+export function getNextRunTimes(
+  cronSchedule: string,
+  timezone: string,
+  count: number = 5,
+  currentDate: Date = new Date(),
+): Date[] {
+  const interval = CronExpressionParser.parse(stripCronTimezone(cronSchedule), { currentDate, tz: timezone });
+  return interval.take(count).map((date) => date.toDate());
+}
+
+// Returns why a schedule can't be used, or null when it is valid
+export function validateLookoutCron(cronSchedule: string, timezone: string): string | null {
+  let runs: Date[];
+  try {
+    runs = getNextRunTimes(cronSchedule, timezone, 24);
+  } catch (error) {
+    return error instanceof Error ? `Invalid cron expression: ${error.message}` : 'Invalid cron expression';
+  }
+
+  if (runs.length === 0) {
+    return 'This schedule never runs';
+  }
+  for (let i = 1; i < runs.length; i++) {
+    if (runs[i].getTime() - runs[i - 1].getTime() < MIN_LOOKOUT_INTERVAL_MS) {
+      return 'Lookouts can run at most once an hour';
+    }
+  }
+  return null;
+}
+
+const DAILY_WINDOW_MS = 28 * 24 * 60 * 60 * 1000;
+const DAILY_WINDOW_MIN_RUNS = 20;
+
+// Schedules that run five or more times a week on average count against the plan's daily lookout limit. Runs are
+// counted over four whole weeks, so a monthly schedule bunched at the start of the month doesn't count as daily
+// just because it is created near the end of one
+export function runsAtLeastDaily(cronSchedule: string, timezone: string): boolean {
+  try {
+    const now = new Date();
+    const runs = getNextRunTimes(cronSchedule, timezone, DAILY_WINDOW_MIN_RUNS, now);
+    return (
+      runs.length === DAILY_WINDOW_MIN_RUNS &&
+      runs[DAILY_WINDOW_MIN_RUNS - 1].getTime() - now.getTime() <= DAILY_WINDOW_MS
+    );
+  } catch {
+    return false;
+  }
+}
+
+export function isDailyLookout(lookout: { frequency: string; cronSchedule?: string | null; timezone: string }) {
+  return (
+    lookout.frequency !== 'once' &&
+    Boolean(lookout.cronSchedule) &&
+    runsAtLeastDaily(lookout.cronSchedule!, lookout.timezone)
+  );
+}
+
+const pad = (value: string | number) => String(value).padStart(2, '0');
+
+// Reads a stored schedule back into form options. Schedules the form can't express come back as custom
+export function cronToRecurrence(
+  frequency: string,
+  cronSchedule: string,
+): { frequency: Exclude<LookoutFrequency, 'once'>; options: LookoutRecurrenceOptions } {
+  const expression = stripCronTimezone(cronSchedule);
+  const [minute, hour, dayOfMonth, , dayOfWeek] = expression.split(' ');
+  const custom = { frequency: 'custom' as const, options: { cron: expression } };
+
+  if (!/^\d+$/.test(minute ?? '')) return custom;
+
+  if (frequency === 'hourly') {
+    const intervalHours = hour === '*' ? 1 : Number(hour.replace('*/', ''));
+    return HOURLY_INTERVAL_OPTIONS.includes(intervalHours)
+      ? { frequency, options: { intervalHours, times: [`00:${pad(minute)}`] } }
+      : custom;
+  }
+
+  if (!/^\d+(,\d+)*$/.test(hour ?? '')) return custom;
+  const times = hour.split(',').map((h) => `${pad(h)}:${pad(minute)}`);
+
+  switch (frequency) {
+    case 'daily':
+    case 'weekdays':
+      return { frequency, options: { times } };
+    case 'weekly':
+      // The form picks a single day
+      return /^[0-6]$/.test(dayOfWeek) ? { frequency, options: { times, daysOfWeek: [dayOfWeek] } } : custom;
+    case 'monthly':
+      return /^\d+(,\d+)*$/.test(dayOfMonth)
+        ? { frequency, options: { times, daysOfMonth: dayOfMonth.split(',').map(Number) } }
+        : custom;
+    default:
+      return custom;
+  }
+}
@@ -0,0 +1,194 @@
+import 'server-only';
+
+import { Client, Receiver } from '@upstash/qstash';
+import { serverEnv } from '@/env/server';
+import { advanceLookoutSchedule, getDueLookouts } from '@/lib/db/queries';
+import { getNextRunTimes } from '@/lib/lookout-recurrence';
+
+// A run that hasn't written to its lookout for this long is assumed dead, so the lookout can be claimed again
+export const LOOKOUT_RUN_STALE_MS = 30 * 60 * 1000;
+const DISPATCH_BATCH_SIZE = 20;
+
+export interface LookoutJob {
+  id: string;
+  userId: string;
+  prompt: string;
+  frequency: string;
+  cronSchedule: string;
+  nextRunAt: Date;
+}
+
+// Starts lookout runs by POSTing { lookoutId, userId } with the cron secret to /api/lookout. QStash (the default)
+// calls it from Upstash; SCHEDULER_PROVIDER=builtin keeps the schedule in the lookout table and
+// /api/lookout/dispatch starts the runs that are due
+export interface LookoutScheduler {
+  // Returns the backend's schedule id, if it keeps one, to store as the lookout's qstashScheduleId
+  schedule(job: LookoutJob): Promise<string | null>;
+  unschedule(scheduleId: string): Promise<void>;
+  pause(scheduleId: string): Promise<void>;
+  resume(scheduleId: string): Promise<void>;
+  // Starts a run now, outside the schedule
+  trigger(job: LookoutJob): Promise<Response>;
+}
+
+// This deployment's base URL, which lookout runs call back to and lookout deliveries link to
+export function getAppUrl(): string {
+  // In development QStash can only reach the app through the ngrok tunnel
+  if (process.env.NODE_ENV === 'development') {
+    return process.env.NGROK_URL || 'http://localhost:3000';
+  }
+  if (!process.env.NEXT_PUBLIC_APP_URL) {
+    throw new Error('NEXT_PUBLIC_APP_URL is required for lookout runs and links');
+  }
+  return process.env.NEXT_PUBLIC_APP_URL;
+}
+
+// Runs go to this deployment's own /api/lookout, since they carry the cron secret
+export function getLookoutRunUrl(): string {
+  if (serverEnv.LOOKOUT_RUN_URL) return serverEnv.LOOKOUT_RUN_URL;
+  return new URL('/api/lookout', getAppUrl()).toString();
+}
+
+function getRunBody(job: LookoutJob) {
+  return JSON.stringify({ lookoutId: job.id, userId: job.userId });
+}
+
+function getRunHeaders() {
+  return { 'Content-Type': 'application/json', Authorization: `Bearer ${serverEnv.CRON_SECRET}` };
+}
+
+export function startLookoutRun(url: string, job: LookoutJob) {
+  return fetch(url, {
+    method: 'POST',
+    headers: getRunHeaders(),
+    body: getRunBody(job),
+  });
+}
+
+// Runs carry the cron secret; QStash schedules created before it was sent are accepted by their signature
+export async function isLookoutRunAuthorized(req: Request, body: string): Promise<boolean> {
+  if (req.headers.get('Authorization') === `Bearer ${serverEnv.CRON_SECRET}`) return true;
+
+  const signature = req.headers.get('Upstash-Signature');
+  if (!signature || !serverEnv.QSTASH_CURRENT_SIGNING_KEY || !serverEnv.QSTASH_NEXT_SIGNING_KEY) return false;
+  const receiver = new Receiver({
+    currentSigningKey: serverEnv.QSTASH_CURRENT_SIGNING_KEY,
+    nextSigningKey: serverEnv.QSTASH_NEXT_SIGNING_KEY,
+  });
+  return receiver.verify({ signature, body }).catch(() => false);
+}
+
+export function calculateNextRun(cronSchedule: string, timezone: string, currentDate: Date = new Date()): Date {
+  const [nextRunAt] = getNextRunTimes(cronSchedule, timezone, 1, currentDate);
+  if (!nextRunAt) {
+    throw new Error(`Cron schedule never runs: ${cronSchedule}`);
+  }
+  return nextRunAt;
+}
+
+function createQStashScheduler(): LookoutScheduler {
+  if (!serverEnv.QSTASH_TOKEN) {
+    throw new Error('QSTASH_TOKEN is required when SCHEDULER_PROVIDER is qstash');
+  }
+  const qstash = new Client({ token: serverEnv.QSTASH_TOKEN });
+
+  return {
+    async schedule(job) {
+      if (job.frequency === 'once') {
+        // At least 5 seconds to ensure DB consistency
+        const delay = Math.max(Math.floor((job.nextRunAt.getTime() - Date.now()) / 1000), 5);
+        await qstash.publish({
+          url: getLookoutRunUrl(),
+          body: getRunBody(job),
+          headers: getRunHeaders(),
+          delay,
+        });
+        console.log('✅ QStash one-time execution scheduled for lookout:', job.id, 'with delay:', delay, 'seconds');
+        // One-time executions use the publish API, so there is no schedule to keep
+        return null;
+      }
+
+      const { scheduleId } = await qstash.schedules.create({
+        destination: getLookoutRunUrl(),
+        method: 'POST',
+        cron: job.cronSchedule,
+        body: getRunBody(job),
+        headers: getRunHeaders(),
+      });
+      console.log('✅ QStash recurring schedule created:', scheduleId, 'for lookout:', job.id);
+      return scheduleId;
+    },
+    async unschedule(scheduleId) {
+      await qstash.schedules.delete(scheduleId);
+    },
+    async pause(scheduleId) {
+      await qstash.schedules.pause({ schedule: scheduleId });
+    },
+    async resume(scheduleId) {
+      await qstash.schedules.resume({ schedule: scheduleId });
+    },
+    trigger(job) {
+      return startLookoutRun(getLookoutRunUrl(), job);
+    },
+  };
+}
+
+// The lookout's status and nextRunAt are the schedule, so there is nothing to create or pause elsewhere
+function createBuiltinScheduler(): LookoutScheduler {
+  return {
+    async schedule() {
+      return null;
+    },
+    async unschedule() {},
+    async pause() {},
+    async resume() {},
+    trigger(job) {
+      return startLookoutRun(getLookoutRunUrl(), job);
+    },
+  };
+}
+
+let scheduler: LookoutScheduler | null = null;
+
+export function getLookoutScheduler(): LookoutScheduler {
+  if (!scheduler) {
+    scheduler = serverEnv.SCHEDULER_PROVIDER === 'builtin' ? createBuiltinScheduler() : createQStashScheduler();
+  }
+  return scheduler;
+}
+
+// Returns the lookouts whose run is due, each claimed by moving its nextRunAt past that run so no other
+// dispatcher starts it too. /api/lookout separately refuses to run a lookout that is already running
+export async function claimDueLookouts(now: Date = new Date()): Promise<LookoutJob[]> {
+  // A lookout left 'running' by a run that died is due again once that run goes stale
+  const staleBefore = new Date(now.getTime() - LOOKOUT_RUN_STALE_MS);
+  const dueLookouts = await getDueLookouts({ now, staleBefore, limit: DISPATCH_BATCH_SIZE });
+  const claimedLookouts: LookoutJob[] = [];
+
+  for (const dueLookout of dueLookouts) {
+    let nextRunAt: Date;
+    try {
+      // One-time lookouts are paused once dispatched; nextRunAt keeps the time they ran at
+      nextRunAt =
+        dueLookout.frequency === 'once'
+          ? dueLookout.nextRunAt
+          : calculateNextRun(dueLookout.cronSchedule, dueLookout.timezone, now);
+    } catch (error) {
+      console.error('Error calculating next run for lookout:', dueLookout.id, error);
+      continue;
+    }
+
+    const claimed = await advanceLookoutSchedule({
+      id: dueLookout.id,
+      from: dueLookout.nextRunAt,
+      nextRunAt,
+      status: dueLookout.frequency === 'once' ? 'paused' : 'active',
+      staleBefore,
+    });
+    if (!claimed) continue;
+
+    claimedLookouts.push(dueLookout);
+  }
+
+  return claimedLookouts;
+}
@@ -0,0 +1,110 @@
+import 'server-only';
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Tool } from 'ai';
+import { v7 as uuidv7 } from 'uuid';
+import { z } from 'zod';
+import { incrementMessageUsage } from '@/lib/db/queries';
+import { getUserMessageCount } from '@/app/actions';
+import { ChatSDKError } from '@/lib/errors';
+import { isUnlimited } from '@/lib/quotas';
+import { assertWithinQuota, getUserPlan } from '@/lib/rate-limit';
+import { createSearchTools } from '@/lib/tools/registry';
+import type { ComprehensiveUserData } from '@/lib/user-data-server';
+
+// Read-only tools that make sense outside the chat UI. Tools that render widgets, mutate
+// user data or run long paid jobs (greeting, add_memory, extreme_search, code_interpreter) stay in-app.
+export const MCP_TOOL_NAMES = [
+  'web_search',
+  'academic_search',
+  'x_search',
+  'reddit_search',
+  'youtube_search',
+  'retrieve',
+  'code_context',
+  'stock_chart',
+  'currency_converter',
+  'coin_data',
+  'coin_data_by_contract',
+  'coin_ohlc',
+  'get_weather_data',
+  'find_place_on_map',
+  'nearby_places_search',
+  'movie_or_tv_search',
+  'trending_movies',
+  'trending_tv',
+  'track_flight',
+  'text_translate',
+  'datetime',
+  'search_memories',
+] as const;
+
+// Each tool call counts as one message against the user's plan
+async function checkToolCallQuota(user: ComprehensiveUserData) {
+  const plan = await getUserPlan(user);
+  if (isUnlimited(plan, 'messages')) return;
+
+  const messageCount = await getUserMessageCount(user);
+  if (messageCount.error) {
+    throw new ChatSDKError('bad_request:api', 'Failed to verify usage limits');
+  }
+  assertWithinQuota(plan, 'messages', messageCount.count);
+}
+
+function toErrorResult(error: unknown) {
+  const message =
+    error instanceof ChatSDKError
+      ? typeof error.cause === 'string' && error.cause
+        ? error.cause
+        : error.message
+      : error instanceof Error
+        ? error.message
+        : 'Tool execution failed';
+
+  return { content: [{ type: 'text' as const, text: message }], isError: true };
+}
+
+// A fresh server per request: the endpoint is stateless, so every request carries its own auth
+export function createMcpServer(user: ComprehensiveUserData, options: { timezone?: string } = {}) {
+  const server = new McpServer({ name: 'rovo', version: '1.0.0' });
+  const tools: Record<string, Tool> = createSearchTools({ userId: user.id, timezone: options.timezone });
+
+  for (const name of MCP_TOOL_NAMES) {
+    const searchTool = tools[name];
+    // MCP derives the tool's JSON schema from a Zod object; registry tools all declare their input with z.object
+    if (!searchTool?.execute || !(searchTool.inputSchema instanceof z.ZodObject)) continue;
+
+    server.registerTool(
+      name,
+      {
+        description: searchTool.description,
+        inputSchema: searchTool.inputSchema,
+        annotations: { readOnlyHint: true, openWorldHint: true },
+      },
+      async (input: unknown, extra: { signal: AbortSignal }) => {
+        try {
+          await checkToolCallQuota(user);
+
+          const output = await searchTool.execute!(input, {
+            toolCallId: uuidv7(),
+            messages: [],
+            abortSignal: extra.signal,
+          });
+
+          await incrementMessageUsage({ userId: user.id }).catch((error) => {
+            console.error('Failed to track MCP tool usage:', error);
+          });
+
+          return {
+            content: [{ type: 'text' as const, text: typeof output === 'string' ? output : JSON.stringify(output) }],
+          };
+        } catch (error) {
+          console.error(`MCP tool ${name} failed:`, error);
+          return toErrorResult(error);
+        }
+      },
+    );
+  }
+
+  return server;
+}
@@ -0,0 +1,154 @@
+// Request/response shapes for the OpenAI-compatible endpoints under /api/v1 (chat completions and models)
+
+import { z } from 'zod';
+import type { FinishReason, LanguageModelUsage, ModelMessage, UserContent } from 'ai';
+import { ChatSDKError } from '@/lib/errors';
+
+const contentPartSchema = z.union([
+  z.object({ type: z.literal('text'), text: z.string() }),
+  z.object({
+    type: z.literal('image_url'),
+    image_url: z.union([z.string(), z.object({ url: z.string(), detail: z.string().optional() })]),
+  }),
+]);
+
+const messageSchema = z.object({
+  role: z.enum(['system', 'developer', 'user', 'assistant', 'tool']),
+  content: z
+    .union([z.string(), z.array(contentPartSchema)])
+    .nullable()
+    .optional(),
+  name: z.string().optional(),
+});
+
+export const chatCompletionRequestSchema = z.object({
+  model: z.string().trim().min(1, 'model is required'),
+  messages: z.array(messageSchema).min(1, 'messages must not be empty'),
+  stream: z.boolean().default(false),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).nullable().optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  top_p: z.number().min(0).max(1).nullable().optional(),
+  max_tokens: z.number().int().positive().nullable().optional(),
+  max_completion_tokens: z.number().int().positive().nullable().optional(),
+  presence_penalty: z.number().nullable().optional(),
+  frequency_penalty: z.number().nullable().optional(),
+  stop: z
+    .union([z.string(), z.array(z.string())])
+    .nullable()
+    .optional(),
+  user: z.string().optional(),
+  // Rovo extension: run the request with a search group's tools and instructions
+  rovo: z
+    .object({
+      group: z.string().trim().optional(),
+      search_provider: z.enum(['exa', 'tavily', 'firecrawl', 'searxng', 'hybrid']).optional(),
+      timezone: z.string().optional(),
+    })
+    .optional(),
+});
+
+export type ChatCompletionRequest = z.infer<typeof chatCompletionRequestSchema>;
+
+type CompletionFinishReason = 'stop' | 'length' | 'content_filter';
+
+function getTextContent(content: ChatCompletionRequest['messages'][number]['content']): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+// System/developer messages become the system prompt; tool messages are dropped since tools run server-side
+export function toModelMessages(messages: ChatCompletionRequest['messages']): {
+  system: string;
+  messages: ModelMessage[];
+} {
+  const system: string[] = [];
+  const modelMessages: ModelMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system' || message.role === 'developer') {
+      system.push(getTextContent(message.content));
+    } else if (message.role === 'assistant') {
+      modelMessages.push({ role: 'assistant', content: getTextContent(message.content) });
+    } else if (message.role === 'user') {
+      if (!Array.isArray(message.content)) {
+        modelMessages.push({ role: 'user', content: message.content ?? '' });
+        continue;
+      }
+
+      const content: UserContent = message.content.map((part) =>
+        part.type === 'text'
+          ? { type: 'text' as const, text: part.text }
+          : {
+              type: 'image' as const,
+              image: typeof part.image_url === 'string' ? part.image_url : part.image_url.url,
+            },
+      );
+      modelMessages.push({ role: 'user', content });
+    }
+  }
+
+  return { system: system.filter(Boolean).join('\n\n'), messages: modelMessages };
+}
+
+export function toOpenAIFinishReason(finishReason: FinishReason | undefined): CompletionFinishReason {
+  switch (finishReason) {
+    case 'length':
+      return 'length';
+    case 'content-filter':
+      return 'content_filter';
+    default:
+      // Tool calls are executed server-side, so a finished request always reads as a stop to the client
+      return 'stop';
+  }
+}
+
+export function toOpenAIUsage(usage: LanguageModelUsage) {
+  const promptTokens = usage.inputTokens ?? 0;
+  const completionTokens = usage.outputTokens ?? 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: usage.totalTokens ?? promptTokens + completionTokens,
+  };
+}
+
+export function createCompletionChunk({
+  id,
+  created,
+  model,
+  delta,
+  finishReason = null,
+}: {
+  id: string;
+  created: number;
+  model: string;
+  delta: { role?: 'assistant'; content?: string; reasoning_content?: string };
+  finishReason?: CompletionFinishReason | null;
+}) {
+  return {
+    id,
+    object: 'chat.completion.chunk' as const,
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+// OpenAI SDKs expect `{ error: { message, type, code } }` rather than ChatSDKError's flat body
+export function openAIErrorResponse(status: number, message: string, type: string, code: string | null = null) {
+  return Response.json({ error: { message, type, param: null, code } }, { status });
+}
+
+export function toOpenAIErrorResponse(error: unknown) {
+  if (error instanceof ChatSDKError) {
+    const message = typeof error.cause === 'string' && error.cause ? error.cause : error.message;
+    return openAIErrorResponse(error.statusCode, message, error.type, `${error.type}:${error.surface}`);
+  }
+
+  console.error('OpenAI-compatible request failed:', error);
+  return openAIErrorResponse(500, 'Something went wrong. Please try again later.', 'server_error');
+}
@@ -0,0 +1,110 @@
+// Quota policy per plan. Client-safe: no server imports, enforcement lives in lib/rate-limit.ts
+
+export type Plan = 'anonymous' | 'free' | 'student' | 'pro';
+
+export type QuotaResource =
+  'messages' | 'extremeSearches' | 'lookouts' | 'dailyLookouts' | 'voiceMinutes' | 'uploads' | 'storageMb';
+
+// 'total' limits count existing records (e.g. lookouts) rather than usage in a time window
+export type QuotaPeriod = 'day' | 'week' | 'month' | 'total';
+
+export interface Quota {
+  limit: number;
+  period: QuotaPeriod;
+}
+
+const PRO_QUOTAS: Record<QuotaResource, Quota> = {
+  messages: { limit: Infinity, period: 'day' },
+  extremeSearches: { limit: Infinity, period: 'month' },
+  lookouts: { limit: 10, period: 'total' },
+  dailyLookouts: { limit: 5, period: 'total' },
+  voiceMinutes: { limit: 300, period: 'month' },
+  uploads: { limit: 200, period: 'day' },
+  storageMb: { limit: 5120, period: 'total' },
+};
+
+export const PLAN_QUOTAS: Record<Plan, Record<QuotaResource, Quota>> = {
+  anonymous: {
+    messages: { limit: 3, period: 'week' },
+    extremeSearches: { limit: 0, period: 'month' },
+    lookouts: { limit: 0, period: 'total' },
+    dailyLookouts: { limit: 0, period: 'total' },
+    voiceMinutes: { limit: 5, period: 'month' },
+    uploads: { limit: 5, period: 'day' },
+    // Anonymous uploads have no owner to total up; `uploads` and orphan cleanup bound them instead
+    storageMb: { limit: 25, period: 'total' },
+  },
+  free: {
+    messages: { limit: 100, period: 'day' },
+    extremeSearches: { limit: 5, period: 'month' },
+    lookouts: { limit: 0, period: 'total' },
+    dailyLookouts: { limit: 0, period: 'total' },
+    voiceMinutes: { limit: 10, period: 'month' },
+    uploads: { limit: 20, period: 'day' },
+    storageMb: { limit: 100, period: 'total' },
+  },
+  pro: PRO_QUOTAS,
+  // The student discount is a price, not a tier: students get the full Pro quotas
+  student: PRO_QUOTAS,
+};
+
+const EXTREME_SEARCH_BUDGETS = ['standard', 'thorough', 'exhaustive'] as const;
+
+export type ExtremeSearchBudget = (typeof EXTREME_SEARCH_BUDGETS)[number];
+
+// Deepest extreme search budget per plan: an exhaustive run costs many standard runs but one extremeSearches unit
+const MAX_EXTREME_SEARCH_BUDGET: Record<Plan, ExtremeSearchBudget> = {
+  anonymous: 'standard',
+  free: 'standard',
+  student: 'exhaustive',
+  pro: 'exhaustive',
+};
+
+const RESOURCE_LABELS: Record<QuotaResource, string> = {
+  messages: 'searches',
+  extremeSearches: 'extreme searches',
+  lookouts: 'lookouts',
+  dailyLookouts: 'active daily lookouts',
+  voiceMinutes: 'voice minutes',
+  uploads: 'uploads',
+  storageMb: 'MB of attachment storage',
+};
+
+const PERIOD_LABELS: Record<QuotaPeriod, string> = {
+  day: ' per day',
+  week: ' per week',
+  month: ' per month',
+  total: '',
+};
+
+export function getQuota(plan: Plan, resource: QuotaResource): Quota {
+  return PLAN_QUOTAS[plan][resource];
+}
+
+export function isUnlimited(plan: Plan, resource: QuotaResource): boolean {
+  return getQuota(plan, resource).limit === Infinity;
+}
+
+// Whether `amount` more units fit on top of `used`
+export function isWithinQuota(plan: Plan, resource: QuotaResource, used: number, amount: number = 1): boolean {
+  return used + amount <= getQuota(plan, resource).limit;
+}
+
+// The requested budget lowered to the plan's maximum; anything unrecognised runs at standard
+export function clampExtremeSearchBudget(plan: Plan, requested: unknown): ExtremeSearchBudget {
+  const requestedIndex = EXTREME_SEARCH_BUDGETS.indexOf(requested as ExtremeSearchBudget);
+  const maxIndex = EXTREME_SEARCH_BUDGETS.indexOf(MAX_EXTREME_SEARCH_BUDGET[plan]);
+  return EXTREME_SEARCH_BUDGETS[Math.min(Math.max(requestedIndex, 0), maxIndex)];
+}
+
+export function getQuotaExceededMessage(plan: Plan, resource: QuotaResource): string {
+  const { limit, period } = getQuota(plan, resource);
+
+  if (limit === 0) {
+    return plan === 'anonymous'
+      ? `Sign in to use ${RESOURCE_LABELS[resource]}.`
+      : `Upgrade to Pro to use ${RESOURCE_LABELS[resource]}.`;
+  }
+
+  return `You've reached the limit of ${limit} ${RESOURCE_LABELS[resource]}${PERIOD_LABELS[period]} on the ${plan} plan.`;
+}
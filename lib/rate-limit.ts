@@ -1,13 +1,108 @@
 import { Ratelimit } from '@upstash/ratelimit';
 import { Redis } from '@upstash/redis';
+import { ChatSDKError, type ErrorCode } from '@/lib/errors';
+import { getStudentDomains, isStudentEmail } from '@/lib/discount';
+import {
+  getQuota,
+  getQuotaExceededMessage,
+  isWithinQuota,
+  type Plan,
+  type QuotaPeriod,
+  type QuotaResource,
+} from '@/lib/quotas';
 
-// Create a new ratelimiter that allows 3 requests per day for unauthenticated users
-export const unauthenticatedRateLimit = new Ratelimit({
-  redis: Redis.fromEnv(),
-  limiter: Ratelimit.slidingWindow(3, '7 d'), // 3 requests per 1 day
-  analytics: true,
-  prefix: '@upstash/ratelimit:unauth',
-});
+const redis = Redis.fromEnv();
+
+const RATELIMIT_WINDOWS: Record<Exclude<QuotaPeriod, 'total'>, `${number} d`> = {
+  day: '1 d',
+  week: '7 d',
+  month: '30 d',
+};
+
+const ratelimiters = new Map<string, Ratelimit>();
+
+// One limiter per plan and resource, sized from PLAN_QUOTAS
+function getRatelimiter(plan: Plan, resource: QuotaResource): Ratelimit {
+  const key = `${plan}:${resource}`;
+  const existing = ratelimiters.get(key);
+  if (existing) return existing;
+
+  const { limit, period } = getQuota(plan, resource);
+  if (period === 'total') {
+    throw new Error(`Quota ${resource} counts records and cannot be rate limited`);
+  }
+
+  const ratelimiter = new Ratelimit({
+    redis,
+    limiter: Ratelimit.slidingWindow(limit, RATELIMIT_WINDOWS[period]),
+    analytics: true,
+    // Keep the original prefix so existing anonymous windows carry over
+    prefix: plan === 'anonymous' && resource === 'messages' ? '@upstash/ratelimit:unauth' : `@upstash/ratelimit:${key}`,
+  });
+  ratelimiters.set(key, ratelimiter);
+  return ratelimiter;
+}
+
+// Messages for unauthenticated users, limited per IP
+export const unauthenticatedRateLimit = getRatelimiter('anonymous', 'messages');
+
+export async function getUserPlan(user: { isProUser?: boolean; email?: string | null } | null): Promise<Plan> {
+  if (!user) return 'anonymous';
+  if (!user.isProUser) return 'free';
+  if (user.email && isStudentEmail(user.email, await getStudentDomains())) return 'student';
+  return 'pro';
+}
+
+function getQuotaErrorCode(resource: QuotaResource): ErrorCode {
+  return resource === 'messages' || resource === 'extremeSearches' ? 'rate_limit:chat' : 'rate_limit:api';
+}
+
+// Throw when `amount` more units would exceed the plan's quota; `used` comes from the caller's own counter
+export function assertWithinQuota(plan: Plan, resource: QuotaResource, used: number, amount: number = 1) {
+  if (!isWithinQuota(plan, resource, used, amount)) {
+    throw new ChatSDKError(getQuotaErrorCode(resource), getQuotaExceededMessage(plan, resource));
+  }
+}
+
+// Consume quota for resources without their own usage table (uploads, voice minutes, anonymous messages)
+export async function consumeQuota(
+  plan: Plan,
+  resource: QuotaResource,
+  identifier: string,
+  amount: number = 1,
+): Promise<{ success: boolean; limit: number; remaining: number; reset: number }> {
+  const { limit } = getQuota(plan, resource);
+  if (limit === Infinity) {
+    return { success: true, limit, remaining: Infinity, reset: 0 };
+  }
+  if (limit === 0) {
+    return { success: false, limit, remaining: 0, reset: 0 };
+  }
+
+  const { success, remaining, reset } = await getRatelimiter(plan, resource).limit(identifier, { rate: amount });
+  return { success, limit, remaining, reset };
+}
+
+// Remaining units without consuming any
+export async function getRemainingQuota(plan: Plan, resource: QuotaResource, identifier: string): Promise<number> {
+  const { limit } = getQuota(plan, resource);
+  if (limit === Infinity || limit === 0) return limit;
+
+  const { remaining } = await getRatelimiter(plan, resource).getRemaining(identifier);
+  return remaining;
+}
+
+// Throw when fewer than `amount` units remain, without consuming any; pair with consumeQuota once the work succeeded
+export async function assertQuotaRemaining(
+  plan: Plan,
+  resource: QuotaResource,
+  identifier: string,
+  amount: number = 1,
+) {
+  if ((await getRemainingQuota(plan, resource, identifier)) < amount) {
+    throw new ChatSDKError(getQuotaErrorCode(resource), getQuotaExceededMessage(plan, resource));
+  }
+}
 
 // Helper function to get IP address from request
 export function getClientIdentifier(req: Request): string {
@@ -0,0 +1,719 @@
+import 'server-only';
+
+import { spawn } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Daytona, type Sandbox } from '@daytonaio/sdk';
+import { generateId } from 'ai';
+import { serverEnv } from '@/env/server';
+import { SNAPSHOT_NAME } from '@/lib/constants';
+
+// Same shape Daytona extracts from matplotlib figures, which components/interactive-charts renders
+export interface SandboxChart {
+  type: 'line' | 'scatter' | 'bar' | 'pie' | 'box_and_whisker' | 'composite_chart' | 'unknown';
+  title: string;
+  elements: any[];
+  png?: string;
+  x_label?: string;
+  y_label?: string;
+  x_scale?: string;
+  y_scale?: string;
+  [key: string]: unknown;
+}
+
+export type SandboxLanguage = 'python' | 'javascript' | 'typescript' | 'sql';
+
+// Result rows of a SQL query, capped for the UI
+export interface SandboxTable {
+  columns: string[];
+  rows: Array<Array<string | number | boolean | null>>;
+  truncated: boolean;
+}
+
+export interface SandboxExecution {
+  // Printed output, or the traceback when the code raised
+  output: string;
+  charts: SandboxChart[];
+  table?: SandboxTable;
+  exitCode: number;
+}
+
+export interface SandboxRunOptions {
+  language?: SandboxLanguage;
+  // Python packages to install before the run
+  installLibs?: string[];
+}
+
+// A file the code created or changed in the session's working directory
+export interface SandboxFile {
+  path: string;
+  size: number;
+  read(): Promise<Buffer>;
+}
+
+// A sandbox kept for one chat: variables, installed packages and files carry over between runs until it idles out
+export interface SandboxSession {
+  run(code: string, options?: SandboxRunOptions): Promise<SandboxExecution & { files: SandboxFile[] }>;
+  // Copies files into the attachments/ directory, skipping names already there
+  mount(files: Array<{ name: string; url: string }>): Promise<void>;
+}
+
+// Where model-written code runs. Daytona cloud sandboxes by default; SANDBOX_PROVIDER=local runs it on this host
+export interface SandboxAdapter {
+  run(code: string, options?: SandboxRunOptions): Promise<SandboxExecution>;
+  openSession(id: string): Promise<SandboxSession>;
+}
+
+const RUN_TIMEOUT_MS = 60 * 1000;
+const SESSION_IDLE_MINUTES = 15;
+const LOCAL_MEMORY_MB = 1024;
+const LOCAL_MAX_PROCESSES = 128;
+const MAX_OUTPUT_CHARS = 100_000;
+const RESULT_MARKER = '__ROVO_SANDBOX_RESULT__';
+const ATTACHMENTS_DIR = 'attachments';
+const MAX_TABLE_ROWS = 500;
+
+// Reads { code, language, installLibs, session } from the file named in argv or from stdin, runs the code with stdout
+// captured and plt.show() stubbed, then prints the marker and a JSON result with every open matplotlib figure converted
+// to the Daytona chart shape. SQL runs on DuckDB and JavaScript/TypeScript on Node, from the same working directory.
+// Session runs keep picklable variables, installed packages and the DuckDB database in .rovo/ and report the files
+// the code wrote to the working directory
+const PYTHON_HARNESS = `
+import contextlib, importlib, importlib.util, io, json, math, os, subprocess, sys, tempfile, traceback, types
+
+payload = json.load(open(sys.argv[1])) if len(sys.argv) > 1 else json.loads(sys.stdin.read())
+session = payload.get('session', False)
+language = payload.get('language', 'python')
+os.environ.setdefault('MPLBACKEND', 'Agg')
+
+state_dir = os.path.abspath('.rovo') if session else tempfile.gettempdir()
+libs_dir = os.path.join(state_dir, 'libs')
+state_file = os.path.join(state_dir, 'state.pkl')
+os.makedirs(state_dir, exist_ok=True)
+install_libs = list(payload.get('installLibs') or [])
+if language == 'sql' and importlib.util.find_spec('duckdb') is None:
+    install_libs.append('duckdb')
+if install_libs:
+    subprocess.run([sys.executable, '-m', 'pip', 'install', '--quiet', '--target', libs_dir, *install_libs], capture_output=True)
+if os.path.isdir(libs_dir):
+    sys.path.insert(0, libs_dir)
+
+try:
+    import dill as pickler
+except ImportError:
+    import pickle as pickler
+
+try:
+    import matplotlib.pyplot as plt
+    plt.show = lambda *args, **kwargs: None
+except ImportError:
+    plt = None
+
+def value(v):
+    try:
+        return float(v)
+    except (TypeError, ValueError):
+        return str(v)
+
+def ticks(axis):
+    return [value(t) for t in axis.get_ticklocs()], [t.get_text() for t in axis.get_ticklabels()]
+
+def point_chart(ax, kind, elements):
+    import matplotlib.dates as mdates
+    x_ticks, x_tick_labels = ticks(ax.xaxis)
+    y_ticks, y_tick_labels = ticks(ax.yaxis)
+    datetime_x = isinstance(ax.xaxis.get_major_formatter(), (mdates.AutoDateFormatter, mdates.ConciseDateFormatter, mdates.DateFormatter))
+    if datetime_x:
+        for element in elements:
+            element['points'] = [[mdates.num2date(x).isoformat(), y] for x, y in element['points']]
+    return {'type': kind, 'elements': elements, 'x_ticks': x_ticks, 'x_tick_labels': x_tick_labels, 'x_scale': 'datetime' if datetime_x else ax.get_xscale(), 'y_ticks': y_ticks, 'y_tick_labels': y_tick_labels, 'y_scale': ax.get_yscale()}
+
+def label(artist):
+    text = artist.get_label()
+    return '' if text.startswith('_') else text
+
+def figure_chart(figure):
+    from matplotlib.container import BarContainer
+    from matplotlib.patches import Wedge
+    if not figure.axes:
+        return None
+    ax = figure.axes[0]
+    wedges = [p for p in ax.patches if isinstance(p, Wedge)]
+    bars = [c for c in ax.containers if isinstance(c, BarContainer)]
+    if wedges:
+        chart = {'type': 'pie', 'elements': [{'label': label(w), 'angle': w.theta2 - w.theta1, 'radius': w.r} for w in wedges]}
+    elif bars:
+        tick_labels = {round(float(loc), 6): t.get_text() for loc, t in zip(ax.get_xticks(), ax.get_xticklabels())}
+        elements = []
+        for container in bars:
+            for rect in container:
+                center = round(rect.get_x() + rect.get_width() / 2, 6)
+                elements.append({'label': tick_labels.get(center, str(center)), 'value': str(rect.get_height()), 'group': label(container)})
+        chart = {'type': 'bar', 'elements': elements}
+    elif ax.get_lines():
+        chart = point_chart(ax, 'line', [{'label': label(line), 'points': [[value(x), value(y)] for x, y in zip(line.get_xdata(), line.get_ydata())]} for line in ax.get_lines()])
+    elif ax.collections:
+        chart = point_chart(ax, 'scatter', [{'label': label(c), 'points': [[value(x), value(y)] for x, y in c.get_offsets()]} for c in ax.collections])
+    else:
+        chart = {'type': 'unknown', 'elements': []}
+    suptitle = figure._suptitle.get_text() if getattr(figure, '_suptitle', None) else ''
+    chart.update({'title': ax.get_title() or suptitle, 'x_label': ax.get_xlabel(), 'y_label': ax.get_ylabel()})
+    return chart
+
+def workspace_files():
+    found = {}
+    for root, dirs, names in os.walk('.'):
+        dirs[:] = [d for d in dirs if not d.startswith('.') and d not in ('${ATTACHMENTS_DIR}', '__pycache__')]
+        for name in names:
+            if not name.startswith('.'):
+                file_path = os.path.relpath(os.path.join(root, name))
+                found[file_path] = os.stat(file_path).st_mtime_ns
+    return found
+
+def cell(v):
+    if v is None or isinstance(v, (bool, int, str)):
+        return v
+    if isinstance(v, float):
+        return v if math.isfinite(v) else str(v)
+    return str(v)
+
+# Statements run in order; the result of the last one that returns rows becomes the table
+def run_sql(code):
+    import duckdb
+    connection = duckdb.connect(os.path.join(state_dir, 'session.duckdb') if session else ':memory:')
+    try:
+        relation = connection.sql(code)
+        if relation is None:
+            print('OK')
+            return None
+        rows = relation.fetchmany(${MAX_TABLE_ROWS} + 1)
+        print(relation.limit(50))
+        return {'columns': relation.columns, 'rows': [[cell(v) for v in row] for row in rows[:${MAX_TABLE_ROWS}]], 'truncated': len(rows) > ${MAX_TABLE_ROWS}}
+    finally:
+        connection.close()
+
+def run_node(code):
+    typescript = language == 'typescript'
+    script = os.path.join(state_dir, 'main.mts' if typescript else 'main.mjs')
+    with open(script, 'w') as f:
+        f.write(code)
+    flags = ['--experimental-strip-types', '--disable-warning=ExperimentalWarning'] if typescript else []
+    try:
+        completed = subprocess.run(['node', *flags, script], capture_output=True, text=True)
+    except FileNotFoundError:
+        print('Node.js is not installed in this sandbox')
+        return 1
+    print(completed.stdout + completed.stderr, end='')
+    return completed.returncode
+
+namespace = {'__name__': '__main__'}
+if session and language == 'python' and os.path.exists(state_file):
+    try:
+        with open(state_file, 'rb') as f:
+            saved = pickler.load(f)
+        for name, module in saved.pop('__modules__', {}).items():
+            with contextlib.suppress(Exception):
+                namespace[name] = importlib.import_module(module)
+        namespace.update(saved)
+    except Exception:
+        pass
+
+before = workspace_files() if session else {}
+stdout = io.StringIO()
+exit_code = 0
+table = None
+with contextlib.redirect_stdout(stdout), contextlib.redirect_stderr(stdout):
+    try:
+        if language == 'sql':
+            table = run_sql(payload['code'])
+        elif language in ('javascript', 'typescript'):
+            exit_code = run_node(payload['code'])
+        else:
+            exec(compile(payload['code'], '<code>', 'exec'), namespace)
+    except BaseException as error:
+        if language == 'sql':
+            stdout.write(f'{type(error).__name__}: {error}')
+        else:
+            error_type, error, trace = sys.exc_info()
+            stdout.write(''.join(traceback.format_exception(error_type, error, trace.tb_next)))
+        exit_code = 1
+
+charts = []
+if plt is not None:
+    for number in plt.get_fignums():
+        try:
+            chart = figure_chart(plt.figure(number))
+            if chart:
+                charts.append(chart)
+        except Exception:
+            pass
+    plt.close('all')
+
+files = []
+if session:
+    files = [{'path': p, 'size': os.path.getsize(p)} for p, mtime in workspace_files().items() if before.get(p) != mtime]
+
+if session and language == 'python':
+    saved, modules = {}, {}
+    for name, v in namespace.items():
+        if name.startswith('__'):
+            continue
+        if isinstance(v, types.ModuleType):
+            modules[name] = v.__name__
+            continue
+        with contextlib.suppress(Exception):
+            pickler.dumps(v)
+            saved[name] = v
+    saved['__modules__'] = modules
+    with contextlib.suppress(Exception):
+        with open(state_file, 'wb') as f:
+            pickler.dump(saved, f)
+
+if session:
+    open(os.path.join(state_dir, 'last-used'), 'w').close()
+
+sys.__stdout__.write('\\n${RESULT_MARKER}' + json.dumps({'output': stdout.getvalue(), 'charts': charts, 'table': table, 'exitCode': exit_code, 'files': files}))
+`;
+
+type HarnessResult = SandboxExecution & { files: Array<{ path: string; size: number }> };
+
+function parseHarnessOutput(
+  stdout: string,
+  failure: { stderr?: string; exitCode: number; reason: string },
+): HarnessResult {
+  const markerIndex = stdout.lastIndexOf(RESULT_MARKER);
+
+  if (markerIndex !== -1) {
+    const result = JSON.parse(stdout.slice(markerIndex + RESULT_MARKER.length)) as HarnessResult;
+    return { ...result, output: result.output.slice(0, MAX_OUTPUT_CHARS), table: result.table ?? undefined };
+  }
+
+  // Killed before the harness could report: the timeout, the memory limit, or a crash in native code
+  return {
+    output: `${stdout}${failure.stderr ?? ''}`.slice(0, MAX_OUTPUT_CHARS) + `\n${failure.reason}`,
+    charts: [],
+    exitCode: failure.exitCode,
+    files: [],
+  };
+}
+
+// The file system side of a session; code runs in its working directory
+interface SessionWorkspace {
+  run(input: string): Promise<HarnessResult>;
+  listFiles(dir: string): Promise<string[]>;
+  writeFile(filePath: string, data: Buffer): Promise<void>;
+  readFile(filePath: string): Promise<Buffer>;
+}
+
+function createSession(workspace: SessionWorkspace): SandboxSession {
+  return {
+    async run(code, { language = 'python', installLibs = [] } = {}) {
+      const result = await workspace.run(JSON.stringify({ code, language, installLibs, session: true }));
+      return {
+        ...result,
+        files: result.files.map((file) => ({ ...file, read: () => workspace.readFile(file.path) })),
+      };
+    },
+    async mount(files) {
+      const existing = new Set(await workspace.listFiles(ATTACHMENTS_DIR).catch(() => [] as string[]));
+
+      for (const file of files) {
+        const name = path.basename(file.name).replace(/[^\w.\- ]/g, '_');
+        if (existing.has(name)) continue;
+
+        try {
+          const response = await fetch(file.url);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          await workspace.writeFile(`${ATTACHMENTS_DIR}/${name}`, Buffer.from(await response.arrayBuffer()));
+          existing.add(name);
+        } catch (error) {
+          console.error(`Failed to mount ${file.name} into sandbox:`, error);
+        }
+      }
+    },
+  };
+}
+
+function createDaytonaSandbox(): SandboxAdapter {
+  if (!serverEnv.DAYTONA_API_KEY) {
+    throw new Error('DAYTONA_API_KEY is required when SANDBOX_PROVIDER is daytona');
+  }
+
+  const daytona = new Daytona({
+    apiKey: serverEnv.DAYTONA_API_KEY,
+    target: 'us',
+  });
+  const workDir = '/home/daytona/workspace';
+
+  // Sandboxes are labelled with their session, so any server instance can pick a chat's sandbox back up
+  async function getSessionSandbox(id: string): Promise<Sandbox> {
+    const labels = { 'rovo-session': id };
+    const { items } = await daytona.list(labels, 1, 1);
+    const existing = items[0];
+
+    if (existing) {
+      const started =
+        existing.state === 'started' ||
+        (await existing.start().then(
+          () => true,
+          () => false,
+        ));
+      if (started) return existing;
+    }
+
+    // Stopped after the idle interval and deleted as soon as it stops
+    return daytona.create({
+      snapshot: SNAPSHOT_NAME,
+      labels,
+      autoStopInterval: SESSION_IDLE_MINUTES,
+      autoDeleteInterval: 0,
+    });
+  }
+
+  function daytonaWorkspace(sandbox: Sandbox): SessionWorkspace {
+    return {
+      async run(input) {
+        await sandbox.fs.uploadFiles([
+          { source: Buffer.from(PYTHON_HARNESS), destination: `${workDir}/.rovo/harness.py` },
+          { source: Buffer.from(input), destination: `${workDir}/.rovo/input.json` },
+        ]);
+        const response = await sandbox.process.executeCommand(
+          'python .rovo/harness.py .rovo/input.json',
+          workDir,
+          undefined,
+          RUN_TIMEOUT_MS / 1000,
+        );
+        return parseHarnessOutput(response.result, {
+          exitCode: response.exitCode,
+          reason: `Execution failed with exit code ${response.exitCode}`,
+        });
+      },
+      async listFiles(dir) {
+        const files = await sandbox.fs.listFiles(`${workDir}/${dir}`);
+        return files.map((file) => file.name);
+      },
+      async writeFile(filePath, data) {
+        await sandbox.fs.uploadFile(data, `${workDir}/${filePath}`);
+      },
+      async readFile(filePath) {
+        return sandbox.fs.downloadFile(`${workDir}/${filePath}`);
+      },
+    };
+  }
+
+  return {
+    async run(code, { language = 'python', installLibs = [] } = {}) {
+      const sandbox = await daytona.create({
+        snapshot: SNAPSHOT_NAME,
+      });
+
+      try {
+        // Python keeps Daytona's own runner and chart extraction; other languages go through the harness
+        if (language !== 'python') {
+          return await daytonaWorkspace(sandbox).run(JSON.stringify({ code, language, installLibs }));
+        }
+
+        if (installLibs.length > 0) {
+          await sandbox.process.executeCommand(`pip install ${installLibs.join(' ')}`);
+        }
+
+        const execution = await sandbox.process.codeRun(code);
+        return {
+          output: execution.result || execution.artifacts?.stdout || '',
+          charts: (execution.artifacts?.charts ?? []) as SandboxChart[],
+          exitCode: execution.exitCode,
+        };
+      } finally {
+        await sandbox.delete();
+      }
+    },
+    async openSession(id) {
+      return createSession(daytonaWorkspace(await getSessionSandbox(id)));
+    },
+  };
+}
+
+function runCommand(
+  command: string,
+  args: string[],
+  options: {
+    input?: string | Buffer;
+    cwd?: string;
+    env?: Record<string, string | undefined>;
+    onTimeout?: () => void;
+  } = {},
+): Promise<{ stdout: Buffer; stderr: string; exitCode: number; timedOut: boolean }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env as NodeJS.ProcessEnv | undefined,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    const stdout: Buffer[] = [];
+    let stderr = '';
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      options.onTimeout?.();
+      child.kill('SIGKILL');
+    }, RUN_TIMEOUT_MS);
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ stdout: Buffer.concat(stdout), stderr, exitCode: code ?? 1, timedOut });
+    });
+
+    child.stdin.end(options.input ?? '');
+  });
+}
+
+async function runHarness(
+  command: string,
+  args: string[],
+  input: string,
+  options: { cwd?: string; env?: Record<string, string | undefined>; onTimeout?: () => void } = {},
+): Promise<HarnessResult> {
+  const { stdout, stderr, exitCode, timedOut } = await runCommand(command, args, { ...options, input });
+  return parseHarnessOutput(stdout.toString(), {
+    stderr,
+    exitCode,
+    reason: timedOut
+      ? `Execution timed out after ${RUN_TIMEOUT_MS / 1000} seconds`
+      : `Execution failed with exit code ${exitCode}`,
+  });
+}
+
+// No capabilities, a read-only root and resource limits; set LOCAL_SANDBOX_DOCKER_RUNTIME=runsc to run under gVisor
+function dockerSandboxArgs(): string[] {
+  return [
+    '--network',
+    serverEnv.LOCAL_SANDBOX_NETWORK,
+    '--memory',
+    `${LOCAL_MEMORY_MB}m`,
+    '--memory-swap',
+    `${LOCAL_MEMORY_MB}m`,
+    '--cpus',
+    '1',
+    '--pids-limit',
+    String(LOCAL_MAX_PROCESSES),
+    '--read-only',
+    '--tmpfs',
+    '/tmp:rw,exec,size=512m',
+    '--cap-drop',
+    'ALL',
+    '--security-opt',
+    'no-new-privileges',
+    '--user',
+    '65534:65534',
+    '-e',
+    'HOME=/tmp',
+    '-e',
+    'MPLCONFIGDIR=/tmp',
+    ...(serverEnv.LOCAL_SANDBOX_DOCKER_RUNTIME ? ['--runtime', serverEnv.LOCAL_SANDBOX_DOCKER_RUNTIME] : []),
+  ];
+}
+
+// ulimits on memory, CPU time and file size only: the code runs as the server's user with its network and files,
+// including other processes' environments, so this is not a sandbox and is refused outside development
+function processSandboxCommand(harnessArgs: string[]): [string, string[]] {
+  return [
+    'sh',
+    [
+      '-c',
+      `ulimit -v ${LOCAL_MEMORY_MB * 1024}; ulimit -t ${RUN_TIMEOUT_MS / 1000}; ulimit -f ${512 * 1024}; exec "$@"`,
+      'sh',
+      serverEnv.LOCAL_SANDBOX_PYTHON,
+      ...harnessArgs,
+    ],
+  ];
+}
+
+function processSandboxEnv(workDir: string): Record<string, string | undefined> {
+  return {
+    PATH: process.env.PATH,
+    HOME: workDir,
+    TMPDIR: workDir,
+    MPLCONFIGDIR: path.join(workDir, '.rovo', 'matplotlib'),
+    OPENBLAS_NUM_THREADS: '1',
+  };
+}
+
+// Hashed so session ids of any shape (owner and chat) map to distinct container and directory names
+function sessionName(id: string): string {
+  return `rovo-session-${createHash('sha256').update(id).digest('hex').slice(0, 32)}`;
+}
+
+// The container outlives its runs and removes itself once the harness hasn't touched .rovo/last-used for the idle time
+async function getSessionContainer(id: string): Promise<string> {
+  const name = sessionName(id);
+  const inspect = await runCommand('docker', ['inspect', '-f', '{{.State.Running}}', name]);
+  if (inspect.stdout.toString().trim() === 'true') return name;
+
+  const idleSeconds = SESSION_IDLE_MINUTES * 60;
+  const started = await runCommand('docker', [
+    'run',
+    '-d',
+    '--rm',
+    '--name',
+    name,
+    ...dockerSandboxArgs(),
+    '--tmpfs',
+    '/workspace:rw,exec,size=1g,mode=1777',
+    '--workdir',
+    '/workspace',
+    serverEnv.LOCAL_SANDBOX_IMAGE,
+    'sh',
+    '-c',
+    `mkdir -p .rovo && touch .rovo/last-used && while [ $(( $(date +%s) - $(stat -c %Y .rovo/last-used) )) -lt ${idleSeconds} ]; do sleep 30; done`,
+  ]);
+  // Lost a race with another request starting the same session
+  if (started.exitCode !== 0 && !started.stderr.includes('already in use')) {
+    throw new Error(`Failed to start sandbox container: ${started.stderr.trim()}`);
+  }
+  return name;
+}
+
+// Working directories of subprocess sessions, removed once idle
+const processSessionTimers = new Map<string, NodeJS.Timeout>();
+
+async function getSessionDirectory(id: string): Promise<string> {
+  const workDir = path.join(tmpdir(), sessionName(id));
+  await mkdir(path.join(workDir, '.rovo'), { recursive: true });
+
+  clearTimeout(processSessionTimers.get(workDir));
+  processSessionTimers.set(
+    workDir,
+    setTimeout(
+      () => {
+        processSessionTimers.delete(workDir);
+        rm(workDir, { recursive: true, force: true }).catch(() => {});
+      },
+      SESSION_IDLE_MINUTES * 60 * 1000,
+    ).unref(),
+  );
+  return workDir;
+}
+
+function createLocalSandbox(): SandboxAdapter {
+  const runtime = serverEnv.LOCAL_SANDBOX_RUNTIME;
+  if (runtime === 'process' && process.env.NODE_ENV !== 'development') {
+    throw new Error('LOCAL_SANDBOX_RUNTIME=process runs code unsandboxed and is only allowed in development');
+  }
+
+  return {
+    async run(code, { language = 'python', installLibs = [] } = {}) {
+      const input = JSON.stringify({ code, language, installLibs });
+
+      if (runtime === 'docker') {
+        // One throwaway container per run
+        const name = `rovo-sandbox-${generateId()}`;
+        return runHarness(
+          'docker',
+          [
+            'run',
+            '--rm',
+            '-i',
+            '--name',
+            name,
+            ...dockerSandboxArgs(),
+            '--workdir',
+            '/tmp',
+            serverEnv.LOCAL_SANDBOX_IMAGE,
+            'python',
+            '-c',
+            PYTHON_HARNESS,
+          ],
+          input,
+          // Killing the docker client leaves the container running
+          { onTimeout: () => spawn('docker', ['kill', name], { stdio: 'ignore' }).on('error', () => {}) },
+        );
+      }
+
+      // Restricted subprocess in its own scratch directory with a minimal environment
+      const workDir = await mkdtemp(path.join(tmpdir(), 'rovo-sandbox-'));
+      try {
+        const [command, args] = processSandboxCommand(['-c', PYTHON_HARNESS]);
+        return await runHarness(command, args, input, { cwd: workDir, env: processSandboxEnv(workDir) });
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+    },
+    async openSession(id) {
+      if (runtime === 'docker') {
+        const name = await getSessionContainer(id);
+        const exec = (args: string[], input?: string | Buffer) =>
+          runCommand('docker', ['exec', '-i', name, ...args], { input });
+
+        return createSession({
+          run: (input) =>
+            runHarness(
+              'docker',
+              [
+                'exec',
+                '-i',
+                name,
+                'timeout',
+                '-s',
+                'KILL',
+                String(RUN_TIMEOUT_MS / 1000),
+                'python',
+                '-c',
+                PYTHON_HARNESS,
+              ],
+              input,
+            ),
+          async listFiles(dir) {
+            const { stdout } = await exec(['ls', '-1', dir]);
+            return stdout.toString().split('\n').filter(Boolean);
+          },
+          async writeFile(filePath, data) {
+            await exec(['sh', '-c', 'mkdir -p "$(dirname "$1")" && cat > "$1"', 'sh', filePath], data);
+          },
+          async readFile(filePath) {
+            const { stdout, exitCode, stderr } = await exec(['cat', filePath]);
+            if (exitCode !== 0) throw new Error(stderr.trim());
+            return stdout;
+          },
+        });
+      }
+
+      const workDir = await getSessionDirectory(id);
+      const resolve = (filePath: string) => {
+        const resolved = path.resolve(workDir, filePath);
+        if (!resolved.startsWith(`${workDir}${path.sep}`)) throw new Error(`Path escapes the session: ${filePath}`);
+        return resolved;
+      };
+
+      return createSession({
+        run: (input) => {
+          const [command, args] = processSandboxCommand(['-c', PYTHON_HARNESS]);
+          return runHarness(command, args, input, { cwd: workDir, env: processSandboxEnv(workDir) });
+        },
+        listFiles: (dir) => readdir(resolve(dir)),
+        async writeFile(filePath, data) {
+          await mkdir(path.dirname(resolve(filePath)), { recursive: true });
+          await writeFile(resolve(filePath), data);
+        },
+        readFile: (filePath) => readFile(resolve(filePath)),
+      });
+    },
+  };
+}
+
+let sandbox: SandboxAdapter | null = null;
+
+export function getSandbox(): SandboxAdapter {
+  if (!sandbox) {
+    sandbox = serverEnv.SANDBOX_PROVIDER === 'local' ? createLocalSandbox() : createDaytonaSandbox();
+  }
+  return sandbox;
+}
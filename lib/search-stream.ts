@@ -0,0 +1,89 @@
+// Server-side consumers of the /api/search SSE stream, for API clients that want chunks or a final answer
+
+import { parseJsonEventStream, readUIMessageStream, uiMessageChunkSchema, type UIMessageChunk } from 'ai';
+import type { ChatMessage } from '@/lib/types';
+
+export interface SearchSource {
+  title: string;
+  url: string;
+}
+
+// Parsed UI message chunks from an SSE response body; malformed events are skipped
+export function parseSearchStream(body: ReadableStream<Uint8Array>): ReadableStream<UIMessageChunk> {
+  return parseJsonEventStream({ stream: body, schema: uiMessageChunkSchema }).pipeThrough(
+    new TransformStream({
+      transform(result, controller) {
+        if (result.success) {
+          controller.enqueue(result.value as UIMessageChunk);
+        }
+      },
+    }),
+  );
+}
+
+// Collect { title, url } pairs from arbitrary tool output (search results, retrieved pages, papers, ...)
+function collectSources(value: unknown, sources: Map<string, SearchSource>, depth = 0) {
+  if (!value || typeof value !== 'object' || depth > 6) return;
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectSources(item, sources, depth + 1));
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.url === 'string' && /^https?:\/\//.test(record.url) && !sources.has(record.url)) {
+    sources.set(record.url, {
+      title: typeof record.title === 'string' && record.title ? record.title : record.url,
+      url: record.url,
+    });
+  }
+
+  for (const [key, child] of Object.entries(record)) {
+    // Images are not citable sources
+    if (key === 'images') continue;
+    collectSources(child, sources, depth + 1);
+  }
+}
+
+export function extractSources(message: ChatMessage | undefined): SearchSource[] {
+  const sources = new Map<string, SearchSource>();
+
+  for (const part of message?.parts ?? []) {
+    if (part.type === 'source-url') {
+      sources.set(part.url, { title: part.title ?? part.url, url: part.url });
+    } else if (part.type.startsWith('tool-') && 'output' in part) {
+      collectSources(part.output, sources);
+    }
+  }
+
+  return Array.from(sources.values());
+}
+
+// Read the whole stream and return the final assistant message with its text and sources
+export async function collectSearchAnswer(body: ReadableStream<Uint8Array>) {
+  let message: ChatMessage | undefined;
+  let error: string | undefined;
+
+  const chunks = parseSearchStream(body).pipeThrough(
+    new TransformStream<UIMessageChunk, UIMessageChunk>({
+      transform(chunk, controller) {
+        if (chunk.type === 'error') {
+          error = chunk.errorText;
+        }
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+
+  for await (const snapshot of readUIMessageStream<ChatMessage>({ stream: chunks })) {
+    message = snapshot;
+  }
+
+  const text = (message?.parts ?? [])
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n\n')
+    .trim();
+
+  return { message, text, sources: extractSources(message), error };
+}
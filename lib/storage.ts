@@ -0,0 +1,136 @@
+import 'server-only';
+
+import { DeleteObjectsCommand, ListObjectsV2Command, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { del, list, put } from '@vercel/blob';
+import { generateId } from 'ai';
+import { serverEnv } from '@/env/server';
+
+// Where uploaded files live. Vercel Blob by default; any S3-compatible store (AWS, R2, MinIO) with STORAGE_PROVIDER=s3
+export interface StorageAdapter {
+  put(key: string, file: Blob, contentType: string): Promise<{ url: string }>;
+  delete(keys: string[]): Promise<void>;
+  // Whether a URL points at a file in this store, so it is safe to fetch server-side
+  isStoredUrl(url: string): boolean;
+  // One page of stored objects under a prefix; used to find files uploaded before they were tracked
+  list(prefix: string, cursor?: string): Promise<{ objects: StoredObject[]; cursor?: string }>;
+}
+
+export interface StoredObject {
+  key: string;
+  url: string;
+  uploadedAt: Date;
+}
+
+function createVercelBlobStorage(): StorageAdapter {
+  // Tokens look like vercel_blob_rw_<storeId>_<secret>, and the store serves files from <storeId>.public.blob.vercel-storage.com
+  const storeId = serverEnv.BLOB_READ_WRITE_TOKEN?.split('_')[3]?.toLowerCase();
+  const storeHost = storeId ? `${storeId}.public.blob.vercel-storage.com` : null;
+
+  return {
+    async put(key, file, contentType) {
+      const blob = await put(key, file, { access: 'public', addRandomSuffix: false, contentType });
+      return { url: blob.url };
+    },
+    async delete(keys) {
+      if (keys.length > 0) await del(keys);
+    },
+    isStoredUrl(url) {
+      return storeHost !== null && new URL(url).hostname === storeHost;
+    },
+    async list(prefix, cursor) {
+      const result = await list({ prefix, cursor, limit: 1000 });
+      return {
+        objects: result.blobs.map((blob) => ({ key: blob.pathname, url: blob.url, uploadedAt: blob.uploadedAt })),
+        cursor: result.cursor,
+      };
+    },
+  };
+}
+
+function createS3Storage(): StorageAdapter {
+  const bucket = serverEnv.S3_BUCKET;
+  if (!bucket) {
+    throw new Error('S3_BUCKET is required when STORAGE_PROVIDER is s3');
+  }
+
+  const endpoint = serverEnv.S3_ENDPOINT;
+  const client = new S3Client({
+    region: serverEnv.S3_REGION,
+    endpoint,
+    // MinIO and most self-hosted stores don't support virtual-hosted bucket URLs
+    forcePathStyle: Boolean(endpoint),
+    credentials:
+      serverEnv.S3_ACCESS_KEY_ID && serverEnv.S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: serverEnv.S3_ACCESS_KEY_ID, secretAccessKey: serverEnv.S3_SECRET_ACCESS_KEY }
+        : undefined,
+  });
+
+  // Objects must be publicly readable at this base URL: models fetch attachments by URL
+  const publicUrl = (
+    serverEnv.S3_PUBLIC_URL ??
+    (endpoint ? `${endpoint}/${bucket}` : `https://${bucket}.s3.${serverEnv.S3_REGION}.amazonaws.com`)
+  ).replace(/\/$/, '');
+
+  return {
+    async put(key, file, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: new Uint8Array(await file.arrayBuffer()),
+          ContentType: contentType,
+          ContentLength: file.size,
+        }),
+      );
+      return { url: `${publicUrl}/${key}` };
+    },
+    async delete(keys) {
+      // DeleteObjects takes at most 1000 keys per request
+      for (let i = 0; i < keys.length; i += 1000) {
+        await client.send(
+          new DeleteObjectsCommand({
+            Bucket: bucket,
+            Delete: { Objects: keys.slice(i, i + 1000).map((key) => ({ Key: key })), Quiet: true },
+          }),
+        );
+      }
+    },
+    isStoredUrl(url) {
+      return url.startsWith(`${publicUrl}/`);
+    },
+    async list(prefix, cursor) {
+      const result = await client.send(
+        new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, ContinuationToken: cursor, MaxKeys: 1000 }),
+      );
+      return {
+        objects: (result.Contents ?? []).flatMap((object) =>
+          object.Key
+            ? [{ key: object.Key, url: `${publicUrl}/${object.Key}`, uploadedAt: object.LastModified ?? new Date(0) }]
+            : [],
+        ),
+        cursor: result.IsTruncated ? result.NextContinuationToken : undefined,
+      };
+    },
+  };
+}
+
+let storage: StorageAdapter | null = null;
+
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = serverEnv.STORAGE_PROVIDER === 's3' ? createS3Storage() : createVercelBlobStorage();
+  }
+  return storage;
+}
+
+// Unique object key for an upload; the extension is kept so stores and browsers infer the type
+export function createStorageKey(prefix: string, fileName: string): string {
+  const extension = fileName.includes('.')
+    ? fileName
+        .split('.')
+        .pop()!
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, '')
+    : '';
+  return `${prefix}/${generateId()}${extension ? `.${extension}` : ''}`;
+}
@@ -0,0 +1,224 @@
+// Shared cache for tool results, keyed by tool name and normalized input.
+// Redis (Upstash) is shared across instances; the in-memory cache covers Redis outages.
+
+import 'server-only';
+
+import { createHash } from 'crypto';
+import { Redis } from '@upstash/redis';
+import type { Tool, ToolExecutionOptions, UIMessageStreamWriter } from 'ai';
+import { PerformanceCache } from '@/lib/performance-cache';
+import type { ChatMessage } from '@/lib/types';
+
+// TTLs in seconds; tools not listed here are never cached
+export const TOOL_CACHE_TTLS = {
+  web_search: 15 * 60,
+  academic_search: 24 * 60 * 60,
+  retrieve: 60 * 60,
+  x_search: 5 * 60,
+  reddit_search: 15 * 60,
+  youtube_search: 60 * 60,
+  coin_data: 60,
+  coin_data_by_contract: 60,
+  coin_ohlc: 5 * 60,
+  currency_converter: 60,
+  get_weather_data: 10 * 60,
+  movie_or_tv_search: 24 * 60 * 60,
+  trending_movies: 6 * 60 * 60,
+  trending_tv: 6 * 60 * 60,
+  find_place_on_map: 24 * 60 * 60,
+} as const;
+
+export type CachedToolName = keyof typeof TOOL_CACHE_TTLS;
+
+const CACHE_PREFIX = 'tool-cache';
+const STATS_KEY = `${CACHE_PREFIX}:stats`;
+
+const redis = Redis.fromEnv();
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Longest TTL as the memory cache ceiling; per-entry expiry is enforced through expiresAt
+const memoryCache = new PerformanceCache<MemoryEntry>(
+  'tool-results',
+  500,
+  Math.max(...Object.values(TOOL_CACHE_TTLS)) * 1000,
+);
+
+// In-process counters, flushed to Redis as they happen
+const localStats = new Map<string, { hits: number; misses: number }>();
+
+// Free-text input fields, where casing and spacing don't change the result
+const QUERY_FIELDS = new Set(['query', 'queries']);
+
+// Sort object keys, and lowercase, trim and collapse whitespace in free-text query fields so
+// "Bitcoin price " and "bitcoin  price" share a cache entry; URLs, IDs and codes are kept verbatim
+function normalizeInput(value: unknown, isQuery = false): unknown {
+  if (typeof value === 'string') {
+    return isQuery ? value.trim().replace(/\s+/g, ' ').toLowerCase() : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeInput(item, isQuery));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, normalizeInput((value as Record<string, unknown>)[key], QUERY_FIELDS.has(key))]),
+    );
+  }
+  return value;
+}
+
+export function createToolCacheKey(toolName: CachedToolName, input: unknown, variant?: string): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify(normalizeInput(input)))
+    .digest('hex');
+  return `${CACHE_PREFIX}:${toolName}${variant ? `:${variant}` : ''}:${hash}`;
+}
+
+async function readCache(key: string): Promise<unknown | null> {
+  const memoryEntry = memoryCache.get(key);
+  if (memoryEntry && memoryEntry.expiresAt > Date.now()) {
+    return memoryEntry.value;
+  }
+
+  try {
+    return await redis.get(key);
+  } catch (error) {
+    console.error('Tool cache read failed, falling back to memory:', error);
+    return null;
+  }
+}
+
+async function writeCache(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+  memoryCache.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+  try {
+    await redis.set(key, value, { ex: ttlSeconds });
+  } catch (error) {
+    console.error('Tool cache write failed:', error);
+  }
+}
+
+function recordCacheEvent(toolName: CachedToolName, event: 'hit' | 'miss') {
+  const stats = localStats.get(toolName) ?? { hits: 0, misses: 0 };
+  if (event === 'hit') stats.hits++;
+  else stats.misses++;
+  localStats.set(toolName, stats);
+
+  redis.hincrby(STATS_KEY, `${toolName}:${event}`, 1).catch((error) => {
+    console.error('Failed to record tool cache stats:', error);
+  });
+}
+
+interface MultiQueryOutput {
+  searches?: Array<{ query: string; results?: unknown[]; sources?: unknown[]; images?: unknown[]; error?: string }>;
+}
+
+// Results that should not be reused: empty results and errors, including a failed query
+// in a multi-query search or a search where no query found anything (e.g. a provider outage)
+function isCacheable(result: unknown): boolean {
+  if (result === null || result === undefined) return false;
+  if (typeof result !== 'object') return true;
+  if ('error' in result && (result as { error?: unknown }).error) return false;
+
+  const { searches } = result as MultiQueryOutput;
+  if (Array.isArray(searches)) {
+    if (searches.some((search) => search.error)) return false;
+    if (searches.every((search) => (search.results ?? search.sources ?? []).length === 0)) return false;
+  }
+  return true;
+}
+
+function isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
+  return typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+}
+
+interface ToolCacheOptions<OUTPUT> {
+  // Separates entries whose output depends on more than the input, e.g. the search provider
+  variant?: string;
+  // Runs when a cached result is returned, e.g. to replay progress parts execute would have streamed
+  onHit?: (output: OUTPUT) => void;
+}
+
+// Wrap a tool's execute function with the shared cache
+export function withToolCache<INPUT, OUTPUT>(
+  toolName: CachedToolName,
+  tool: Tool<INPUT, OUTPUT>,
+  { variant, onHit }: ToolCacheOptions<OUTPUT> = {},
+): Tool<INPUT, OUTPUT> {
+  const execute = tool.execute;
+  if (!execute) return tool;
+
+  const ttlSeconds = TOOL_CACHE_TTLS[toolName];
+
+  // Object.assign keeps the tool's own variant of the Tool union, which a spread would widen
+  return Object.assign({}, tool, {
+    execute: async (input: INPUT, options: ToolExecutionOptions): Promise<OUTPUT> => {
+      const key = createToolCacheKey(toolName, input, variant);
+
+      const cached = await readCache(key);
+      if (cached !== null && cached !== undefined) {
+        recordCacheEvent(toolName, 'hit');
+        // Entries are only written from this tool's own results
+        onHit?.(cached as OUTPUT);
+        return cached as OUTPUT;
+      }
+
+      recordCacheEvent(toolName, 'miss');
+      const result = await execute(input, options);
+      if (isAsyncIterable(result)) {
+        throw new Error(`${toolName} streams its output and cannot be cached`);
+      }
+
+      if (isCacheable(result)) {
+        await writeCache(key, result, ttlSeconds);
+      }
+
+      return result;
+    },
+  });
+}
+
+// Multi-query search tools stream a data-query_completion part per query while they run;
+// replaying them on a cache hit lets the search UI finish loading
+export function replayQueryCompletions(dataStream?: UIMessageStreamWriter<ChatMessage>) {
+  return (output: MultiQueryOutput) => {
+    const searches = output.searches ?? [];
+    searches.forEach((search, index) => {
+      dataStream?.write({
+        type: 'data-query_completion',
+        data: {
+          query: search.query,
+          index,
+          total: searches.length,
+          status: search.error ? 'error' : 'completed',
+          resultsCount: (search.results ?? search.sources ?? []).length,
+          imagesCount: search.images?.length ?? 0,
+        },
+      });
+    });
+  };
+}
+
+// Hit/miss counts across all instances, falling back to this instance's counters
+export async function getToolCacheStats(): Promise<Record<string, { hits: number; misses: number }>> {
+  try {
+    const raw = (await redis.hgetall<Record<string, number>>(STATS_KEY)) ?? {};
+    const stats: Record<string, { hits: number; misses: number }> = {};
+    for (const [field, count] of Object.entries(raw)) {
+      const [toolName, event] = field.split(':');
+      stats[toolName] ??= { hits: 0, misses: 0 };
+      if (event === 'hit') stats[toolName].hits = Number(count);
+      else stats[toolName].misses = Number(count);
+    }
+    return stats;
+  } catch (error) {
+    console.error('Failed to read tool cache stats:', error);
+    return Object.fromEntries(localStats);
+  }
+}
@@ -1,14 +1,12 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import Exa from 'exa-js';
-import { serverEnv } from '@/env/server';
+import { requireSearchProviderKey } from '@/lib/tools/search-provider-keys';
 import { UIMessageStreamWriter } from 'ai';
 import { ChatMessage } from '@/lib/types';
 
 import Firecrawl, { SearchResultWeb } from '@mendable/firecrawl-js';
 
-const firecrawl = new Firecrawl({ apiKey: serverEnv.FIRECRAWL_API_KEY });
-
 export function academicSearchTool(dataStream?: UIMessageStreamWriter<ChatMessage>) {
   return tool({
     description: 'Search academic papers and research with multiple queries.',
@@ -22,7 +20,8 @@ export function academicSearchTool(dataStream?: UIMessageStreamWriter<ChatMessag
     }),
     execute: async ({ queries, maxResults }: { queries: string[]; maxResults?: number[] }) => {
       try {
-        const exa = new Exa(serverEnv.EXA_API_KEY as string);
+        const exa = new Exa(requireSearchProviderKey('EXA_API_KEY'));
+        const firecrawl = new Firecrawl({ apiKey: requireSearchProviderKey('FIRECRAWL_API_KEY') });
 
         console.log('Academic search queries:', queries);
         console.log('Max results:', maxResults);
@@ -117,6 +116,7 @@ export function academicSearchTool(dataStream?: UIMessageStreamWriter<ChatMessag
             return {
               query,
               results: [],
+              error: error instanceof Error ? error.message : String(error),
             };
           }
         });
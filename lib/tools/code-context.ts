@@ -1,6 +1,6 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import { serverEnv } from '@/env/server';
+import { requireSearchProviderKey } from '@/lib/tools/search-provider-keys';
 
 export const codeContextTool = tool({
   description: 'Get the context about coding, programming, and development libraries, frameworks, and tools',
@@ -17,7 +17,7 @@ export const codeContextTool = tool({
     const response = await fetch('https://api.exa.ai/context', {
       method: 'POST',
       headers: {
-        'x-api-key': serverEnv.EXA_API_KEY,
+        'x-api-key': requireSearchProviderKey('EXA_API_KEY'),
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
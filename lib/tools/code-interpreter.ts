@@ -1,75 +1,158 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import { Daytona } from '@daytonaio/sdk';
-import { serverEnv } from '@/env/server';
-import { SNAPSHOT_NAME } from '@/lib/constants';
-
-export const codeInterpreterTool = tool({
-  description: 'Write and execute Python code.',
-  inputSchema: z.object({
-    title: z.string().describe('The title of the code snippet.'),
-    code: z
-      .string()
-      .describe(
-        'The Python code to execute. put the variables in the end of the code to print them. do use the print function in the code to print the variables.',
-      ),
-    icon: z.enum(['stock', 'date', 'calculation', 'default']).describe('The icon to display for the code snippet.'),
-  }),
-  execute: async ({ code, title, icon }: { code: string; title: string; icon: string }) => {
-    console.log('Code:', code);
-    console.log('Title:', title);
-    console.log('Icon:', icon);
-
-    const daytona = new Daytona({
-      apiKey: serverEnv.DAYTONA_API_KEY,
-      target: 'us',
-    });
-
-    const sandbox = await daytona.create({
-      snapshot: SNAPSHOT_NAME,
-    });
-
-    const execution = await sandbox.process.codeRun(code);
-
-    console.log('Execution:', execution.result);
-    console.log('Execution:', execution.artifacts?.stdout);
-
-    let message = '';
-
-    if (execution.artifacts?.stdout === execution.result) {
-      message += execution.result;
-    } else if (execution.result && execution.result !== execution.artifacts?.stdout) {
-      message += execution.result;
-    } else if (execution.artifacts?.stdout && execution.artifacts?.stdout !== execution.result) {
-      message += execution.artifacts.stdout;
-    } else {
-      message += execution.result;
-    }
+import { saveAttachment } from '@/lib/db/queries';
+import { getDocumentKind, getDocumentMediaType } from '@/lib/documents';
+import { getSandbox, type SandboxChart, type SandboxFile, type SandboxLanguage } from '@/lib/sandbox';
+import { createStorageKey, getStorage } from '@/lib/storage';
 
-    if (execution.artifacts?.charts) {
-      console.log('Chart:', execution.artifacts.charts[0]);
-    }
+// Only for chats the user owns: the session holds the chat's files and state
+export interface InterpreterSessionOptions {
+  chatId: string;
+  userId: string;
+  // The chat's uploads, copied into the sandbox's attachments/ directory
+  files: Array<{ name: string; url: string }>;
+}
+
+export interface CodeArtifact {
+  name: string;
+  path: string;
+  url: string;
+  contentType: string;
+  size: number;
+}
+
+const MAX_ARTIFACTS = 10;
+const MAX_ARTIFACT_BYTES = 10 * 1024 * 1024;
+
+const ARTIFACT_MEDIA_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  json: 'application/json',
+  html: 'text/html',
+  zip: 'application/zip',
+};
+
+function getArtifactMediaType(name: string): string {
+  const kind = getDocumentKind({ name });
+  if (kind) return getDocumentMediaType(kind);
+  return ARTIFACT_MEDIA_TYPES[name.split('.').pop()!.toLowerCase()] ?? 'application/octet-stream';
+}
+
+function toChartData(chart: SandboxChart) {
+  return {
+    type: chart.type,
+    title: chart.title,
+    elements: chart.elements,
+    png: undefined,
+  };
+}
 
-    let chart;
+// Files the code wrote are stored like uploads, so they are owned by the user and removed with the chat
+async function saveArtifacts(files: SandboxFile[], { chatId, userId }: InterpreterSessionOptions) {
+  const storage = getStorage();
+  const artifacts: CodeArtifact[] = [];
 
-    if (execution.artifacts?.charts) {
-      chart = execution.artifacts.charts[0];
+  for (const file of files.filter((file) => file.size <= MAX_ARTIFACT_BYTES).slice(0, MAX_ARTIFACTS)) {
+    const name = file.path.split('/').pop()!;
+    try {
+      const data = await file.read();
+      const contentType = getArtifactMediaType(name);
+      const storageKey = createStorageKey('mplx/artifacts', name);
+      const { url } = await storage.put(
+        storageKey,
+        new Blob([new Uint8Array(data)], { type: contentType }),
+        contentType,
+      );
+      await saveAttachment({
+        userId,
+        chatId,
+        storageKey,
+        url,
+        name,
+        contentType,
+        size: data.length,
+      });
+      artifacts.push({ name, path: file.path, url, contentType, size: data.length });
+    } catch (error) {
+      console.error(`Failed to save code artifact ${file.path}:`, error);
     }
+  }
+
+  return artifacts;
+}
+
+export function codeInterpreterTool(session?: InterpreterSessionOptions) {
+  return tool({
+    description:
+      'Write and execute Python, JavaScript, TypeScript or SQL code. SQL runs on DuckDB, which can query CSV, Parquet and JSON files directly, ' +
+      "e.g. SELECT * FROM 'attachments/sales.csv'." +
+      (session
+        ? ' Python variables, imports and installed packages, DuckDB tables and files persist between calls in this chat. ' +
+          'Files attached to the chat are in the attachments/ directory. Files the code saves to the working directory ' +
+          '(e.g. CSV, XLSX or PNG) are returned to the user as downloads.'
+        : ''),
+    inputSchema: z.object({
+      title: z.string().describe('The title of the code snippet.'),
+      language: z
+        .enum(['python', 'javascript', 'typescript', 'sql'])
+        .optional()
+        .describe('The language of the code, python by default. Use sql for queries over tabular files.'),
+      code: z
+        .string()
+        .describe(
+          'The code to execute. In Python put the variables in the end of the code to print them. do use the print function in the code to print the variables. In JavaScript and TypeScript use console.log. In SQL the result of the last query is shown as a table.',
+        ),
+      icon: z.enum(['stock', 'date', 'calculation', 'default']).describe('The icon to display for the code snippet.'),
+    }),
+    execute: async ({
+      code,
+      title,
+      icon,
+      language = 'python',
+    }: {
+      code: string;
+      title: string;
+      icon: string;
+      language?: SandboxLanguage;
+    }) => {
+      console.log('Code:', code);
+      console.log('Title:', title);
+      console.log('Icon:', icon);
+      console.log('Language:', language);
+
+      let execution;
+      let files: CodeArtifact[] = [];
+
+      if (session) {
+        // Keyed by owner as well as chat, so a chat id alone never reaches someone else's sandbox
+        const sandboxSession = await getSandbox().openSession(`${session.userId}:${session.chatId}`);
+        // Only files from our own store are fetched server-side
+        await sandboxSession.mount(session.files.filter((file) => getStorage().isStoredUrl(file.url)));
+        execution = await sandboxSession.run(code, { language });
+        files = await saveArtifacts(execution.files, session);
+      } else {
+        execution = await getSandbox().run(code, { language });
+      }
+
+      console.log('Execution:', execution.output);
 
-    const chartData = chart
-      ? {
-        type: chart.type,
-        title: chart.title,
-        elements: chart.elements,
-        png: undefined,
+      if (execution.charts.length > 0) {
+        console.log('Charts:', execution.charts);
       }
-      : undefined;
 
-    await sandbox.delete();
+      const charts = execution.charts.map(toChartData);
 
-    return {
-      message: message.trim(),
-      chart: chartData,
-    };
-  },
-});
+      return {
+        message: execution.output.trim(),
+        chart: charts[0],
+        charts,
+        table: execution.table,
+        files,
+      };
+    },
+  });
+}
@@ -6,18 +6,31 @@
 // ----> Return all collected sources and research data to the user
 
 import Exa from 'exa-js';
-import { Daytona } from '@daytonaio/sdk';
 import { generateObject, generateText, stepCountIs, tool } from 'ai';
 import type { UIMessageStreamWriter } from 'ai';
 import { z } from 'zod';
 import { serverEnv } from '@/env/server';
+import { requireSearchProviderKey } from '@/lib/tools/search-provider-keys';
+import { querySearXNG } from '@/lib/tools/web-search';
+import type { ExtremeSearchBudget } from '@/lib/quotas';
 import { rovo } from '@/ai/providers';
-import { SNAPSHOT_NAME } from '@/lib/constants';
+import { getSandbox } from '@/lib/sandbox';
 import { ChatMessage } from '../types';
 import FirecrawlApp from '@mendable/firecrawl-js';
 import { getTweet } from 'react-tweet/api';
 import { XaiProviderOptions, xai } from '@ai-sdk/xai';
 import Parallel from 'parallel-web';
+import { tavily, type TavilyClient } from '@tavily/core';
+import type { ExtremeSearchRun } from '@/lib/db/schema';
+import {
+  createResearchRunTracker,
+  startExtremeSearchRun,
+  type ExtremeSearchRunOwner,
+  type ResearchRound,
+  type ResearchRunTracker,
+  type ResearchSource,
+  type ResearchToolResult,
+} from '@/lib/extreme-search-runs';
 
 const pythonLibsAvailable = [
   'pandas',
@@ -30,25 +43,6 @@ const pythonLibsAvailable = [
   'scikit-learn',
 ];
 
-const daytona = new Daytona({
-  apiKey: serverEnv.DAYTONA_API_KEY,
-  target: 'us',
-});
-
-const runCode = async (code: string, installLibs: string[] = []) => {
-  const sandbox = await daytona.create({
-    snapshot: SNAPSHOT_NAME,
-  });
-
-  if (installLibs.length > 0) {
-    await sandbox.process.executeCommand(`pip install ${installLibs.join(' ')}`);
-  }
-
-  const result = await sandbox.process.codeRun(code);
-  sandbox.delete();
-  return result;
-};
-
 // Content extraction provider strategies
 interface ContentExtractionStrategy {
   getContents(links: string[]): Promise<SearchResult[]>;
@@ -233,16 +227,176 @@ class ParallelContentStrategy implements ContentExtractionStrategy {
   }
 }
 
-type SearchResult = {
-  title: string;
-  url: string;
-  content: string;
-  publishedDate: string;
-  favicon: string;
+// Firecrawl content extraction strategy, also the fallback for the other providers
+class FirecrawlContentStrategy implements ContentExtractionStrategy {
+  constructor(private firecrawl: FirecrawlApp) {}
+
+  async getContents(links: string[]): Promise<SearchResult[]> {
+    console.log(`[Firecrawl] getContents called with ${links.length} URLs:`, links);
+
+    const scraped = await Promise.all(
+      links.map(async (url): Promise<SearchResult | null> => {
+        try {
+          const scrapeResponse = await this.firecrawl.scrape(url, {
+            formats: ['markdown'],
+            proxy: 'auto',
+            storeInCache: true,
+            parsers: ['pdf'],
+          });
+
+          if (!scrapeResponse.markdown) {
+            console.error(`[Firecrawl] No content for ${url}:`, scrapeResponse);
+            return null;
+          }
+
+          return {
+            title: scrapeResponse.metadata?.title || url.split('/').pop() || 'Retrieved Content',
+            url: url,
+            content: scrapeResponse.markdown.slice(0, 3000),
+            publishedDate: (scrapeResponse.metadata?.publishedDate as string) || '',
+            favicon: `https://www.google.com/s2/favicons?domain=${new URL(url).hostname}&sz=128`,
+          };
+        } catch (error) {
+          console.error(`[Firecrawl] Scrape error for ${url}:`, error);
+          return null;
+        }
+      }),
+    );
+
+    const results = scraped.filter((result): result is SearchResult => result !== null);
+    console.log(`[Firecrawl] getContents returning ${results.length} total results`);
+    return results;
+  }
+}
+
+// Tavily content extraction strategy
+class TavilyContentStrategy implements ContentExtractionStrategy {
+  constructor(
+    private tvly: TavilyClient,
+    private fallback: ContentExtractionStrategy,
+  ) {}
+
+  async getContents(links: string[]): Promise<SearchResult[]> {
+    console.log(`[Tavily] getContents called with ${links.length} URLs:`, links);
+    const results: SearchResult[] = [];
+    const failedUrls: string[] = [];
+
+    try {
+      const { results: extracted, failedResults } = await this.tvly.extract(links, {
+        format: 'markdown',
+        includeFavicon: true,
+      });
+      console.log(`[Tavily] Extract received ${extracted.length} results`);
+
+      for (const r of extracted) {
+        if (r.rawContent && r.rawContent.trim()) {
+          results.push({
+            title: r.url.split('/').pop() || 'Retrieved Content',
+            url: r.url,
+            content: r.rawContent.slice(0, 3000),
+            publishedDate: '',
+            favicon: r.favicon || `https://www.google.com/s2/favicons?domain=${new URL(r.url).hostname}&sz=128`,
+          });
+        } else {
+          failedUrls.push(r.url);
+        }
+      }
+
+      failedUrls.push(...failedResults.map((failed) => failed.url));
+    } catch (error) {
+      console.error('[Tavily] API error:', error);
+      failedUrls.push(...links);
+    }
+
+    if (failedUrls.length > 0) {
+      console.log(`[Tavily] Using fallback for ${failedUrls.length} URLs:`, failedUrls);
+      results.push(...(await this.fallback.getContents(failedUrls)));
+    }
+
+    console.log(`[Tavily] getContents returning ${results.length} total results`);
+    return results;
+  }
+}
+
+// Self-hosted content extraction: fetch pages directly and strip the markup, no third-party API
+class FetchContentStrategy implements ContentExtractionStrategy {
+  async getContents(links: string[]): Promise<SearchResult[]> {
+    console.log(`[Fetch] getContents called with ${links.length} URLs:`, links);
+
+    const fetched = await Promise.all(
+      links.map(async (url): Promise<SearchResult | null> => {
+        try {
+          const response = await fetch(url, {
+            headers: { Accept: 'text/html,text/plain' },
+            signal: AbortSignal.timeout(10_000),
+          });
+          const contentType = response.headers.get('content-type') || '';
+          if (!response.ok || !/text\/(html|plain)/.test(contentType)) {
+            console.error(`[Fetch] Skipping ${url}: ${response.status} ${contentType}`);
+            return null;
+          }
+
+          const html = await response.text();
+          const title = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]?.trim();
+          const text = html
+            .replace(/<(script|style|noscript|svg|head)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+            .replace(/<[^>]+>/g, ' ')
+            .replace(/&nbsp;/g, ' ')
+            .replace(/&amp;/g, '&')
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/\s+/g, ' ')
+            .trim();
+          if (!text) return null;
+
+          return {
+            title: title || url.split('/').pop() || 'Retrieved Content',
+            url,
+            content: text.slice(0, 3000),
+            publishedDate: '',
+            favicon: `https://www.google.com/s2/favicons?domain=${new URL(url).hostname}&sz=128`,
+          };
+        } catch (error) {
+          console.error(`[Fetch] Error for ${url}:`, error);
+          return null;
+        }
+      }),
+    );
+
+    const results = fetched.filter((result): result is SearchResult => result !== null);
+    console.log(`[Fetch] getContents returning ${results.length} total results`);
+    return results;
+  }
+}
+
+type SearchResult = ResearchSource;
+
+export type ExtremeSearchProvider = 'exa' | 'tavily' | 'firecrawl' | 'parallel' | 'searxng';
+
+export type { ExtremeSearchBudget, ResearchRound };
+
+interface ResearchBudget {
+  maxRounds: number;
+  maxDurationMs: number;
+  maxSearches: number;
+  maxTokens: number;
+}
+
+// Standard keeps the original single plan-and-research pass; larger budgets add reflection rounds
+const RESEARCH_BUDGETS: Record<ExtremeSearchBudget, ResearchBudget> = {
+  standard: { maxRounds: 1, maxDurationMs: 5 * 60 * 1000, maxSearches: 25, maxTokens: 400_000 },
+  thorough: { maxRounds: 3, maxDurationMs: 8 * 60 * 1000, maxSearches: 50, maxTokens: 1_000_000 },
+  exhaustive: { maxRounds: 6, maxDurationMs: 12 * 60 * 1000, maxSearches: 100, maxTokens: 2_500_000 },
 };
 
 export type Research = {
   // text: string;
+  // Provider used for searching and content extraction
+  provider: ExtremeSearchProvider;
+  budget: ExtremeSearchBudget;
+  rounds: ResearchRound[];
+  // Stopped by the user before the plan finished
+  cancelled: boolean;
   toolResults: any[];
   sources: SearchResult[];
   charts: any[];
@@ -301,49 +455,251 @@ class ExaSearchStrategy implements SearchProviderStrategy {
   }
 }
 
-async function extremeSearch(
-  prompt: string,
-  dataStream: UIMessageStreamWriter<ChatMessage> | undefined,
-  contentProvider: 'exa' = 'exa',
-): Promise<Research> {
-  const allSources: SearchResult[] = [];
+// Tavily search strategy
+class TavilySearchStrategy implements SearchProviderStrategy {
+  constructor(private tvly: TavilyClient) {}
 
-  // Initialize clients
-  const exa = new Exa(serverEnv.EXA_API_KEY);
-  const firecrawl = new FirecrawlApp({ apiKey: serverEnv.FIRECRAWL_API_KEY });
+  async search(query: string, category?: SearchCategory, include_domains?: string[]): Promise<SearchResult[]> {
+    console.log(`[Tavily] searchWeb called with query: "${query}", category: ${category}`);
+    try {
+      const { results } = await this.tvly.search(query, {
+        maxResults: 8,
+        searchDepth: 'basic',
+        topic:
+          category === SearchCategory.NEWS
+            ? 'news'
+            : category === SearchCategory.FINANCIAL_REPORT
+              ? 'finance'
+              : 'general',
+        includeFavicon: true,
+        ...(include_domains ? { includeDomains: include_domains } : {}),
+      });
+      console.log(`[Tavily] searchWeb received ${results.length} results`);
 
-  // Create search and content extraction strategies based on provider
-  const searchStrategy: SearchProviderStrategy =
-    new ExaSearchStrategy(exa);
+      return results.map((r) => ({
+        title: r.title,
+        url: r.url,
+        content: r.content,
+        publishedDate: r.publishedDate || '',
+        favicon: r.favicon || `https://www.google.com/s2/favicons?domain=${new URL(r.url).hostname}&sz=128`,
+      }));
+    } catch (error) {
+      console.error('[Tavily] Error in searchWeb:', error);
+      return [];
+    }
+  }
+}
 
-  const contentStrategy: ContentExtractionStrategy =
-    new ExaContentStrategy(exa, firecrawl);
+// Firecrawl search strategy
+class FirecrawlSearchStrategy implements SearchProviderStrategy {
+  constructor(private firecrawl: FirecrawlApp) {}
 
-  console.log(`[ExtremeSearch] Using ${contentProvider} as search and content extraction provider`);
+  async search(query: string, category?: SearchCategory, include_domains?: string[]): Promise<SearchResult[]> {
+    console.log(`[Firecrawl] searchWeb called with query: "${query}", category: ${category}`);
+    try {
+      const categories =
+        category === SearchCategory.GITHUB
+          ? (['github'] as const)
+          : category === SearchCategory.RESEARCH_PAPER
+            ? (['research'] as const)
+            : undefined;
+
+      const data = await this.firecrawl.search(query, {
+        sources: category === SearchCategory.NEWS ? ['news', 'web'] : ['web'],
+        limit: 8,
+        ...(categories ? { categories: [...categories] } : {}),
+        ...(include_domains ? { includeDomains: include_domains } : {}),
+      });
 
-  if (dataStream) {
-    dataStream.write({
-      type: 'data-extreme_search',
-      data: {
-        kind: 'plan',
-        status: { title: 'Planning research' },
-      },
-    });
+      const items = [...(data.news ?? []), ...(data.web ?? [])].filter(
+        (item): item is { url: string; title?: string; description?: string; snippet?: string; date?: string } =>
+          'url' in item && typeof item.url === 'string' && item.url.length > 0,
+      );
+      console.log(`[Firecrawl] searchWeb received ${items.length} results`);
+
+      return items.map((item) => ({
+        title: item.title || item.url,
+        url: item.url,
+        content: item.description || item.snippet || '',
+        publishedDate: item.date || '',
+        favicon: `https://www.google.com/s2/favicons?domain=${new URL(item.url).hostname}&sz=128`,
+      }));
+    } catch (error) {
+      console.error('[Firecrawl] Error in searchWeb:', error);
+      return [];
+    }
+  }
+}
+
+// Parallel search strategy
+class ParallelSearchStrategy implements SearchProviderStrategy {
+  constructor(private parallel: Parallel) {}
+
+  async search(query: string, category?: SearchCategory, include_domains?: string[]): Promise<SearchResult[]> {
+    console.log(`[Parallel] searchWeb called with query: "${query}", category: ${category}`);
+    try {
+      const { results } = await this.parallel.beta.search({
+        objective: category ? `${query} (${category})` : query,
+        search_queries: [query],
+        max_results: 8,
+        mode: 'agentic',
+        ...(include_domains ? { source_policy: { include_domains } } : {}),
+      });
+      console.log(`[Parallel] searchWeb received ${results.length} results`);
+
+      return results.map((r) => ({
+        title: r.title || r.url,
+        url: r.url,
+        content: (r.excerpts ?? []).join('\n\n'),
+        publishedDate: r.publish_date || '',
+        favicon: `https://www.google.com/s2/favicons?domain=${new URL(r.url).hostname}&sz=128`,
+      }));
+    } catch (error) {
+      console.error('[Parallel] Error in searchWeb:', error);
+      return [];
+    }
+  }
+}
+
+// Self-hosted SearXNG search strategy, on the web_search SearXNG client
+class SearXNGSearchStrategy implements SearchProviderStrategy {
+  constructor(private baseUrl: string) {}
+
+  async search(query: string, category?: SearchCategory, include_domains?: string[]): Promise<SearchResult[]> {
+    console.log(`[SearXNG] searchWeb called with query: "${query}", category: ${category}`);
+    try {
+      // SearXNG has no domain filter parameter, but its engines understand site: operators
+      const siteFilter = include_domains?.length
+        ? ` ${include_domains.map((domain) => `site:${domain}`).join(' OR ')}`
+        : '';
+      const results = await querySearXNG(this.baseUrl, `${query}${siteFilter}`, {
+        categories:
+          category === SearchCategory.NEWS
+            ? 'news'
+            : category === SearchCategory.RESEARCH_PAPER
+              ? 'science'
+              : 'general',
+      });
+      console.log(`[SearXNG] searchWeb received ${results.length} results`);
+
+      return results.slice(0, 8).map((r) => ({
+        title: r.title || r.url,
+        url: r.url,
+        content: r.content || '',
+        publishedDate: r.publishedDate || '',
+        favicon: `https://www.google.com/s2/favicons?domain=${new URL(r.url).hostname}&sz=128`,
+      }));
+    } catch (error) {
+      console.error('[SearXNG] Error in searchWeb:', error);
+      return [];
+    }
   }
+}
+
+// Research provider factory - only the selected provider's clients are constructed
+const createResearchStrategies = (
+  provider: ExtremeSearchProvider,
+): { searchStrategy: SearchProviderStrategy; contentStrategy: ContentExtractionStrategy } => {
+  const firecrawl = () => new FirecrawlApp({ apiKey: requireSearchProviderKey('FIRECRAWL_API_KEY') });
+
+  const strategies: Record<
+    ExtremeSearchProvider,
+    () => { searchStrategy: SearchProviderStrategy; contentStrategy: ContentExtractionStrategy }
+  > = {
+    exa: () => {
+      const exa = new Exa(requireSearchProviderKey('EXA_API_KEY'));
+      return { searchStrategy: new ExaSearchStrategy(exa), contentStrategy: new ExaContentStrategy(exa, firecrawl()) };
+    },
+    tavily: () => {
+      const tvly = tavily({ apiKey: requireSearchProviderKey('TAVILY_API_KEY') });
+      return {
+        searchStrategy: new TavilySearchStrategy(tvly),
+        contentStrategy: new TavilyContentStrategy(tvly, new FirecrawlContentStrategy(firecrawl())),
+      };
+    },
+    firecrawl: () => {
+      const client = firecrawl();
+      return {
+        searchStrategy: new FirecrawlSearchStrategy(client),
+        contentStrategy: new FirecrawlContentStrategy(client),
+      };
+    },
+    parallel: () => {
+      const parallel = new Parallel({ apiKey: serverEnv.PARALLEL_API_KEY });
+      return {
+        searchStrategy: new ParallelSearchStrategy(parallel),
+        contentStrategy: new ParallelContentStrategy(parallel, firecrawl()),
+      };
+    },
+    searxng: () => ({
+      searchStrategy: new SearXNGSearchStrategy(serverEnv.SEARXNG_URL),
+      contentStrategy: new FetchContentStrategy(),
+    }),
+  };
+
+  return (strategies[provider] ?? strategies.exa)();
+};
 
-  // plan out the research
-  const { object: result } = await generateObject({
+const researchPlanSchema = z.array(
+  z.object({
+    title: z.string().min(10).max(70).describe('A title for the research topic'),
+    todos: z.array(z.string()).min(3).max(5).describe('A list of what to research for the given title'),
+  }),
+);
+
+type ResearchPlan = z.infer<typeof researchPlanSchema>;
+
+// After a round, decide whether the findings answer the prompt and, if not, plan the next round around the gaps
+async function reflectOnResearch(
+  prompt: string,
+  rounds: ResearchRound[],
+  sources: SearchResult[],
+  agentNotes: string,
+): Promise<{ complete: boolean; gaps: string[]; plan: ResearchPlan; tokens: number }> {
+  const findings = Array.from(new Map(sources.map((source) => [source.url, source])).values())
+    .slice(-40)
+    .map((source) => `- ${source.title} (${source.url}): ${source.content.slice(0, 200).replace(/\s+/g, ' ')}`)
+    .join('\n');
+
+  const { object, usage } = await generateObject({
     model: rovo.languageModel('rovo-grok-4'),
     schema: z.object({
-      plan: z
-        .array(
-          z.object({
-            title: z.string().min(10).max(70).describe('A title for the research topic'),
-            todos: z.array(z.string()).min(3).max(5).describe('A list of what to research for the given title'),
-          }),
-        )
-        .min(1)
-        .max(5),
+      complete: z.boolean().describe('True when the findings already cover every aspect of the topic well'),
+      gaps: z
+        .array(z.string())
+        .max(5)
+        .describe('Open questions, missing data or claims supported by a single source, most important first'),
+      plan: researchPlanSchema.max(3).describe('Plan for the next round, focused only on the gaps; empty if complete'),
+    }),
+    prompt: `
+You are reviewing an ongoing research effort on: ${prompt}
+
+Today's Date: ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit', weekday: 'short' })}
+
+Plans executed so far:
+${rounds.map((round) => `Round ${round.round}: ${round.plan.map((item) => item.title).join('; ')}`).join('\n')}
+
+Sources found so far:
+${findings || '(none)'}
+
+Research agent notes from the last round:
+${agentNotes.slice(0, 4000) || '(none)'}
+
+Reflection Guidelines:
+- Identify what is still missing, outdated, contradictory or supported by only one source
+- Mark the research complete only if another round would not materially improve the answer
+- If not complete, plan a short follow-up round that targets the gaps only, never repeating covered ground
+- Keep titles concise, no more than 70 characters`,
+  });
+
+  return { ...object, tokens: usage.totalTokens ?? 0 };
+}
+
+async function planResearch(prompt: string): Promise<{ plan: ResearchPlan; tokens: number }> {
+  const { object: result, usage: planUsage } = await generateObject({
+    model: rovo.languageModel('rovo-grok-4'),
+    schema: z.object({
+      plan: researchPlanSchema.min(1).max(5),
     }),
     prompt: `
 Plan out the research for the following topic: ${prompt}.
@@ -367,32 +723,139 @@ Plan Guidelines:
   });
 
   console.log(result.plan);
+  return { plan: result.plan, tokens: planUsage.totalTokens ?? 0 };
+}
 
-  const plan = result.plan;
+async function extremeSearch(
+  prompt: string,
+  dataStream: UIMessageStreamWriter<ChatMessage> | undefined,
+  contentProvider: ExtremeSearchProvider = 'exa',
+  budgetPreset: ExtremeSearchBudget = 'standard',
+  run?: ResearchRunTracker,
+): Promise<Research> {
+  const resumeFrom = run?.resumeFrom;
+  const allSources: SearchResult[] = resumeFrom?.sources ?? [];
+
+  // Every round draws from one budget; the running round stops early and no new round starts once it is spent
+  const budget = RESEARCH_BUDGETS[budgetPreset] ?? RESEARCH_BUDGETS.standard;
+  const startedAt = Date.now() - (resumeFrom?.elapsedMs ?? 0);
+  const usage = resumeFrom ? { ...resumeFrom.usage } : { searches: 0, tokens: 0 };
+  const isBudgetExhausted = () =>
+    Date.now() - startedAt >= budget.maxDurationMs ||
+    usage.searches >= budget.maxSearches ||
+    usage.tokens >= budget.maxTokens;
+
+  // Cancellation is sticky: once seen, every later check stops without asking the tracker again
+  let cancelled = false;
+  const isCancelled = async () => {
+    if (!cancelled && run) cancelled = await run.isCancelled();
+    return cancelled;
+  };
 
-  // calculate the total number of todos
-  const totalTodos = plan.reduce((acc, curr) => acc + curr.todos.length, 0);
-  console.log(`Total todos: ${totalTodos}`);
+  // Create search and content extraction strategies based on provider
+  const { searchStrategy, contentStrategy } = createResearchStrategies(contentProvider);
+
+  console.log(`[ExtremeSearch] Using ${contentProvider} as search and content extraction provider`);
 
   if (dataStream) {
     dataStream.write({
       type: 'data-extreme_search',
       data: {
         kind: 'plan',
-        status: { title: 'Research plan ready, starting up research agent' },
-        plan,
+        status: { title: resumeFrom ? 'Resuming interrupted research' : 'Planning research' },
       },
     });
+
+    // Queries from before the interruption, so the timeline shows the whole run
+    resumeFrom?.searchedQueries.forEach((query, index) => {
+      dataStream.write({
+        type: 'data-extreme_search',
+        data: { kind: 'query', queryId: `resumed-${index}`, query, status: 'completed' },
+      });
+    });
+  }
+
+  let plan: ResearchPlan;
+  if (resumeFrom) {
+    plan = resumeFrom.plan;
+  } else {
+    const planned = await planResearch(prompt);
+    usage.tokens += planned.tokens;
+    plan = planned.plan;
   }
 
-  let toolResults: any[] = [];
+  let gaps: string[] = resumeFrom?.gaps ?? [];
+  const rounds: ResearchRound[] = resumeFrom?.rounds ?? [];
+  const searchedQueries: string[] = resumeFrom?.searchedQueries ?? [];
+
+  let toolResults: ResearchToolResult[] = resumeFrom?.toolResults ?? [];
+  let roundSteps = resumeFrom?.roundSteps ?? 0;
+
+  const saveCheckpoint = async (round: number) => {
+    if (!run) return;
+    await run
+      .checkpoint({
+        plan,
+        gaps,
+        rounds,
+        round,
+        roundSteps,
+        searchedQueries,
+        sources: allSources,
+        toolResults,
+        usage,
+        elapsedMs: Date.now() - startedAt,
+      })
+      .catch((error) => console.error('[ExtremeSearch] Failed to save checkpoint:', error));
+  };
+
+  for (let round = resumeFrom?.round ?? 1; round <= budget.maxRounds; round++) {
+    if (await isCancelled()) break;
+
+    // A resumed round is already recorded
+    if (!rounds.some((entry) => entry.round === round)) {
+      rounds.push({ round, plan, gaps });
+    }
+    await saveCheckpoint(round);
+
+    // calculate the total number of todos
+    const totalTodos = plan.reduce((acc, curr) => acc + curr.todos.length, 0);
+    const remainingSteps = Math.max(totalTodos - roundSteps, 1);
+    console.log(`Round ${round} todos: ${totalTodos}, remaining steps: ${remainingSteps}`);
+
+    if (dataStream) {
+      dataStream.write({
+        type: 'data-extreme_search',
+        data: {
+          kind: 'plan',
+          status: {
+            title:
+              round === 1
+                ? 'Research plan ready, starting up research agent'
+                : `Round ${round}: researching ${gaps.length} open ${gaps.length === 1 ? 'gap' : 'gaps'}`,
+          },
+          plan,
+          round,
+          gaps,
+        },
+      });
+    }
 
-  // Create the autonomous research agent with tools
-  const { text } = await generateText({
-    model: xai('grok-4-1-fast'),
-    stopWhen: stepCountIs(totalTodos),
-    activeTools: ['codeRunner', 'webSearch', 'xSearch'],
-    system: `
+    // Later rounds, and resumed ones, build on earlier work instead of repeating it
+    const roundContext =
+      searchedQueries.length === 0
+        ? ''
+        : `
+This is research round ${round}. Earlier work already ran these searches, do not repeat them:
+${searchedQueries.map((query) => `- ${query}`).join('\n')}
+${gaps.length > 0 ? `\nGaps to close in this round:\n${gaps.map((gap) => `- ${gap}`).join('\n')}\n` : ''}`;
+
+    // Create the autonomous research agent with tools
+    const { text } = await generateText({
+      model: xai('grok-4-1-fast'),
+      stopWhen: [stepCountIs(remainingSteps), isBudgetExhausted, isCancelled],
+      activeTools: ['codeRunner', 'webSearch', 'xSearch'],
+      system: `
 You are an autonomous deep research analyst. Your goal run a focused research plan thoroughly with the given tools.
 
 Today's Date: ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit', weekday: 'short' })}.
@@ -471,333 +934,239 @@ For research:
 - Do not use the same query twice to avoid duplicates
 - Plan is limited to ${totalTodos} actions with 2 extra actions in case of errors, do not exceed this limit but use to the fullest to get the most information!
 
+${roundContext}
 Research Plan:
 ${JSON.stringify(plan)}
 `,
-    prompt,
-    temperature: 1,
-    providerOptions: {
-      xai: {
-        parallel_function_calling: false,
-      } satisfies XaiProviderOptions,
-    },
-    tools: {
-      codeRunner: {
-        description: 'Run Python code in a sandbox',
-        inputSchema: z.object({
-          title: z.string().describe('The title of what you are running the code for'),
-          code: z.string().describe('The Python code to run with proper syntax and imports'),
-        }),
-        execute: async ({ title, code }) => {
-          console.log('Running code:', code);
-          // check if the code has any imports other than the pythonLibsAvailable
-          // and then install the missing libraries
-          const imports = code.match(/import\s+([\w\s,]+)/);
-          const importLibs = imports ? imports[1].split(',').map((lib: string) => lib.trim()) : [];
-          const missingLibs = importLibs.filter((lib: string) => !pythonLibsAvailable.includes(lib));
-
-          if (dataStream) {
-            dataStream.write({
-              type: 'data-extreme_search',
-              data: {
-                kind: 'code',
-                codeId: `code-${Date.now()}`,
-                title: title,
-                code: code,
-                status: 'running',
-              },
-            });
-          }
-          const response = await runCode(code, missingLibs);
+      prompt,
+      temperature: 1,
+      providerOptions: {
+        xai: {
+          parallel_function_calling: false,
+        } satisfies XaiProviderOptions,
+      },
+      tools: {
+        codeRunner: {
+          description: 'Run Python code in a sandbox',
+          inputSchema: z.object({
+            title: z.string().describe('The title of what you are running the code for'),
+            code: z.string().describe('The Python code to run with proper syntax and imports'),
+          }),
+          execute: async ({ title, code }) => {
+            if (await isCancelled()) {
+              return { result: 'Research was cancelled, code was not run.', charts: [] };
+            }
+
+            console.log('Running code:', code);
+            // check if the code has any imports other than the pythonLibsAvailable
+            // and then install the missing libraries
+            const imports = code.match(/import\s+([\w\s,]+)/);
+            const importLibs = imports ? imports[1].split(',').map((lib: string) => lib.trim()) : [];
+            const missingLibs = importLibs.filter((lib: string) => !pythonLibsAvailable.includes(lib));
+
+            if (dataStream) {
+              dataStream.write({
+                type: 'data-extreme_search',
+                data: {
+                  kind: 'code',
+                  codeId: `code-${Date.now()}`,
+                  title: title,
+                  code: code,
+                  status: 'running',
+                },
+              });
+            }
+            const response = await getSandbox().run(code, { installLibs: missingLibs });
 
-          // Extract chart data if present, and if so then map and remove the png with chart.png
-          const charts =
-            response.artifacts?.charts?.map((chart) => {
+            // Extract chart data if present, and if so then map and remove the png with chart.png
+            const charts = response.charts.map((chart) => {
               if (chart.png) {
                 const { png, ...chartWithoutPng } = chart;
                 return chartWithoutPng;
               }
               return chart;
-            }) || [];
-
-          console.log('Charts:', response.artifacts?.charts);
-
-          if (dataStream) {
-            dataStream.write({
-              type: 'data-extreme_search',
-              data: {
-                kind: 'code',
-                codeId: `code-${Date.now()}`,
-                title: title,
-                code: code,
-                status: 'completed',
-                result: response.result,
-                charts: charts,
-              },
             });
-          }
 
-          return {
-            result: response.result,
-            charts: charts,
-          };
+            console.log('Charts:', response.charts);
+
+            if (dataStream) {
+              dataStream.write({
+                type: 'data-extreme_search',
+                data: {
+                  kind: 'code',
+                  codeId: `code-${Date.now()}`,
+                  title: title,
+                  code: code,
+                  status: 'completed',
+                  result: response.output,
+                  charts: charts,
+                },
+              });
+            }
+
+            return {
+              result: response.output,
+              charts: charts,
+            };
+          },
         },
-      },
-      webSearch: {
-        description: 'Search the web for information on a topic',
-        inputSchema: z.object({
-          query: z.string().describe('The search query to achieve the todo').max(150),
-          category: z.nativeEnum(SearchCategory).optional().describe('The category of the search if relevant'),
-          includeDomains: z.array(z.string()).optional().describe('The domains to include in the search for results'),
-        }),
-        execute: async ({ query, category, includeDomains }, { toolCallId }) => {
-          console.log('Web search query:', query);
-          console.log('Category:', category);
-
-          if (dataStream) {
-            dataStream.write({
-              type: 'data-extreme_search',
-              data: {
-                kind: 'query',
-                queryId: toolCallId,
-                query: query,
-                status: 'started',
-              },
-            });
-          }
-          // Query annotation already sent above
-          let results = await searchStrategy.search(query, category, includeDomains);
-          console.log(`Found ${results.length} results for query "${query}"`);
+        webSearch: {
+          description: 'Search the web for information on a topic',
+          inputSchema: z.object({
+            query: z.string().describe('The search query to achieve the todo').max(150),
+            category: z.nativeEnum(SearchCategory).optional().describe('The category of the search if relevant'),
+            includeDomains: z.array(z.string()).optional().describe('The domains to include in the search for results'),
+          }),
+          execute: async ({ query, category, includeDomains }, { toolCallId }) => {
+            if (await isCancelled()) return [];
 
-          // Add these sources to our total collection
-          allSources.push(...results);
+            console.log('Web search query:', query);
+            console.log('Category:', category);
 
-          if (dataStream) {
-            results.forEach(async (source) => {
+            if (dataStream) {
               dataStream.write({
                 type: 'data-extreme_search',
                 data: {
-                  kind: 'source',
+                  kind: 'query',
                   queryId: toolCallId,
-                  source: {
-                    title: source.title,
-                    url: source.url,
-                    favicon: source.favicon,
-                  },
+                  query: query,
+                  status: 'started',
                 },
               });
-            });
-          }
-          // Get full content for the top results
-          if (results.length > 0) {
-            try {
-              if (dataStream) {
+            }
+            usage.searches++;
+            searchedQueries.push(query);
+
+            // Query annotation already sent above
+            let results = await searchStrategy.search(query, category, includeDomains);
+            console.log(`Found ${results.length} results for query "${query}"`);
+
+            // Add these sources to our total collection
+            allSources.push(...results);
+
+            if (dataStream) {
+              results.forEach(async (source) => {
                 dataStream.write({
                   type: 'data-extreme_search',
                   data: {
-                    kind: 'query',
+                    kind: 'source',
                     queryId: toolCallId,
-                    query: query,
-                    status: 'reading_content',
+                    source: {
+                      title: source.title,
+                      url: source.url,
+                      favicon: source.favicon,
+                    },
                   },
                 });
-              }
-
-              // Get the URLs from the results
-              const urls = results.map((r) => r.url);
-
-              // Get the full content using the selected content strategy
-              const contentsResults = await contentStrategy.getContents(urls);
-
-              // Only update results if we actually got content results
-              if (contentsResults && contentsResults.length > 0) {
-                // For each content result, add a content annotation
+              });
+            }
+            // Get full content for the top results
+            if (results.length > 0) {
+              try {
                 if (dataStream) {
-                  contentsResults.forEach((content) => {
-                    dataStream.write({
-                      type: 'data-extreme_search',
-                      data: {
-                        kind: 'content',
-                        queryId: toolCallId,
-                        content: {
-                          title: content.title || '',
-                          url: content.url,
-                          text: (content.content || '').slice(0, 500) + '...', // Truncate for annotation
-                          favicon: content.favicon || '',
-                        },
-                      },
-                    });
+                  dataStream.write({
+                    type: 'data-extreme_search',
+                    data: {
+                      kind: 'query',
+                      queryId: toolCallId,
+                      query: query,
+                      status: 'reading_content',
+                    },
                   });
                 }
-                // Update results with full content, but keep original results as fallback
-                results = contentsResults.map((content) => {
-                  const originalResult = results.find((r) => r.url === content.url);
-                  return {
-                    title: content.title || originalResult?.title || '',
-                    url: content.url,
-                    content: content.content || originalResult?.content || '',
-                    publishedDate: content.publishedDate || originalResult?.publishedDate || '',
-                    favicon: content.favicon || originalResult?.favicon || '',
-                  };
-                }) as SearchResult[];
-              } else {
-                console.log('getContents returned no results, using original search results');
-              }
-            } catch (error) {
-              console.error('Error fetching content:', error);
-              console.log('Using original search results due to error');
-            }
-          }
-
-          // Mark query as completed
-          if (dataStream) {
-            dataStream.write({
-              type: 'data-extreme_search',
-              data: {
-                kind: 'query',
-                queryId: toolCallId,
-                query: query,
-                status: 'completed',
-              },
-            });
-          }
-
-          return results.map((r) => ({
-            title: r.title,
-            url: r.url,
-            content: r.content,
-            publishedDate: r.publishedDate,
-          }));
-        },
-      },
-      xSearch: {
-        description: 'Search X (formerly Twitter) posts for recent information and discussions',
-        inputSchema: z.object({
-          query: z.string().describe('The search query for X posts').max(150),
-          startDate: z
-            .string()
-            .describe('The start date of the search in the format YYYY-MM-DD (default to 7 days ago if not specified)')
-            .optional(),
-          endDate: z
-            .string()
-            .describe('The end date of the search in the format YYYY-MM-DD (default to today if not specified)')
-            .optional(),
-          xHandles: z
-            .array(z.string())
-            .optional()
-            .describe(
-              'Optional list of X handles/usernames to search from (without @ symbol). Only include if user explicitly mentions specific handles',
-            ),
-          maxResults: z.number().optional().describe('Maximum number of search results to return (default 15)'),
-        }),
-        execute: async ({ query, startDate, endDate, xHandles, maxResults = 15 }, { toolCallId }) => {
-          console.log('X search query:', query);
-          console.log('X search parameters:', { startDate, endDate, xHandles, maxResults });
-
-          if (dataStream) {
-            dataStream.write({
-              type: 'data-extreme_search',
-              data: {
-                kind: 'x_search',
-                xSearchId: toolCallId,
-                query: query,
-                startDate: startDate || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-                endDate: endDate || new Date().toISOString().split('T')[0],
-                handles: xHandles || [],
-                status: 'started',
-              },
-            });
-          }
-
-          try {
-            // Set default dates if not provided
-            const searchStartDate =
-              startDate || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-            const searchEndDate = endDate || new Date().toISOString().split('T')[0];
-
-            const { text, sources } = await generateText({
-              model: xai.responses('grok-4-1-fast-reasoning'),
-              system: `You are a helpful assistant that searches for X posts and returns the results in a structured format. You will be given a search query and a list of X handles to search from. You will then search for the posts and return the results in a structured format. You will also cite the sources in the format [Source No.]. Go very deep in the search and return the most relevant results.`,
-              messages: [{
-                role: 'user',
-                content: query
-              }],
-              maxOutputTokens: 10,
-              tools: {
-                xSearch: xai.tools.xSearch({
-                  fromDate: searchStartDate,
-                  toDate: searchEndDate,
-                  ...(xHandles && xHandles.length > 0 ? { allowedXHandles: xHandles } : {}),
-                }),
-              },
-            });
-
-            const citations = sources || [];
-            const allSources = [];
-
-            if (citations.length > 0) {
-              const tweetFetchPromises = citations
-                .filter((link) => link.sourceType === 'url')
-                .map(async (link) => {
-                  try {
-                    const tweetUrl = link.sourceType === 'url' ? link.url : '';
-                    const tweetId = tweetUrl.match(/\/status\/(\d+)/)?.[1] || '';
-
-                    const tweetData = await getTweet(tweetId);
-                    if (!tweetData) return null;
-
-                    const text = tweetData.text;
-                    if (!text) return null;
-
-                    // Generate a better title with user handle and text preview
-                    const userHandle = tweetData.user?.screen_name || tweetData.user?.name || 'unknown';
-                    const textPreview = text.slice(0, 20) + (text.length > 20 ? '...' : '');
-                    const generatedTitle = `Post from @${userHandle}: ${textPreview}`;
 
+                // Get the URLs from the results
+                const urls = results.map((r) => r.url);
+
+                // Get the full content using the selected content strategy
+                const contentsResults = await contentStrategy.getContents(urls);
+
+                // Only update results if we actually got content results
+                if (contentsResults && contentsResults.length > 0) {
+                  // For each content result, add a content annotation
+                  if (dataStream) {
+                    contentsResults.forEach((content) => {
+                      dataStream.write({
+                        type: 'data-extreme_search',
+                        data: {
+                          kind: 'content',
+                          queryId: toolCallId,
+                          content: {
+                            title: content.title || '',
+                            url: content.url,
+                            text: (content.content || '').slice(0, 500) + '...', // Truncate for annotation
+                            favicon: content.favicon || '',
+                          },
+                        },
+                      });
+                    });
+                  }
+                  // Update results with full content, but keep original results as fallback
+                  results = contentsResults.map((content) => {
+                    const originalResult = results.find((r) => r.url === content.url);
                     return {
-                      text: text,
-                      link: tweetUrl,
-                      title: generatedTitle,
+                      title: content.title || originalResult?.title || '',
+                      url: content.url,
+                      content: content.content || originalResult?.content || '',
+                      publishedDate: content.publishedDate || originalResult?.publishedDate || '',
+                      favicon: content.favicon || originalResult?.favicon || '',
                     };
-                  } catch (error) {
-                    console.error(`Error fetching tweet data for ${link.sourceType === 'url' ? link.url : ''}:`, error);
-                    return null;
-                  }
-                });
-
-              const tweetResults = await Promise.all(tweetFetchPromises);
-              allSources.push(...tweetResults.filter((result) => result !== null));
+                  }) as SearchResult[];
+                } else {
+                  console.log('getContents returned no results, using original search results');
+                }
+              } catch (error) {
+                console.error('Error fetching content:', error);
+                console.log('Using original search results due to error');
+              }
             }
 
-            const result = {
-              content: text,
-              citations: citations,
-              sources: allSources.filter(
-                (source): source is { text: string; link: string; title: string } => source !== null,
-              ),
-              dateRange: `${searchStartDate} to ${searchEndDate}`,
-              handles: xHandles || [],
-            };
-
+            // Mark query as completed
             if (dataStream) {
               dataStream.write({
                 type: 'data-extreme_search',
                 data: {
-                  kind: 'x_search',
-                  xSearchId: toolCallId,
+                  kind: 'query',
+                  queryId: toolCallId,
                   query: query,
-                  startDate: searchStartDate,
-                  endDate: searchEndDate,
-                  handles: xHandles || [],
                   status: 'completed',
-                  result: result,
                 },
               });
             }
 
-            return result;
-          } catch (error) {
-            console.error('X search error:', error);
+            return results.map((r) => ({
+              title: r.title,
+              url: r.url,
+              content: r.content,
+              publishedDate: r.publishedDate,
+            }));
+          },
+        },
+        xSearch: {
+          description: 'Search X (formerly Twitter) posts for recent information and discussions',
+          inputSchema: z.object({
+            query: z.string().describe('The search query for X posts').max(150),
+            startDate: z
+              .string()
+              .describe(
+                'The start date of the search in the format YYYY-MM-DD (default to 7 days ago if not specified)',
+              )
+              .optional(),
+            endDate: z
+              .string()
+              .describe('The end date of the search in the format YYYY-MM-DD (default to today if not specified)')
+              .optional(),
+            xHandles: z
+              .array(z.string())
+              .optional()
+              .describe(
+                'Optional list of X handles/usernames to search from (without @ symbol). Only include if user explicitly mentions specific handles',
+              ),
+            maxResults: z.number().optional().describe('Maximum number of search results to return (default 15)'),
+          }),
+          execute: async ({ query, startDate, endDate, xHandles, maxResults = 15 }, { toolCallId }) => {
+            console.log('X search query:', query);
+            console.log('X search parameters:', { startDate, endDate, xHandles, maxResults });
 
             if (dataStream) {
               dataStream.write({
@@ -809,25 +1178,169 @@ ${JSON.stringify(plan)}
                   startDate: startDate || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
                   endDate: endDate || new Date().toISOString().split('T')[0],
                   handles: xHandles || [],
-                  status: 'error',
+                  status: 'started',
                 },
               });
             }
 
-            throw error;
-          }
+            try {
+              // Set default dates if not provided
+              const searchStartDate =
+                startDate || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+              const searchEndDate = endDate || new Date().toISOString().split('T')[0];
+
+              const { text, sources } = await generateText({
+                model: xai.responses('grok-4-1-fast-reasoning'),
+                system: `You are a helpful assistant that searches for X posts and returns the results in a structured format. You will be given a search query and a list of X handles to search from. You will then search for the posts and return the results in a structured format. You will also cite the sources in the format [Source No.]. Go very deep in the search and return the most relevant results.`,
+                messages: [{
+                  role: 'user',
+                  content: query
+                }],
+                maxOutputTokens: 10,
+                tools: {
+                  xSearch: xai.tools.xSearch({
+                    fromDate: searchStartDate,
+                    toDate: searchEndDate,
+                    ...(xHandles && xHandles.length > 0 ? { allowedXHandles: xHandles } : {}),
+                  }),
+                },
+              });
+
+              const citations = sources || [];
+              const allSources = [];
+
+              if (citations.length > 0) {
+                const tweetFetchPromises = citations
+                  .filter((link) => link.sourceType === 'url')
+                  .map(async (link) => {
+                    try {
+                      const tweetUrl = link.sourceType === 'url' ? link.url : '';
+                      const tweetId = tweetUrl.match(/\/status\/(\d+)/)?.[1] || '';
+
+                      const tweetData = await getTweet(tweetId);
+                      if (!tweetData) return null;
+
+                      const text = tweetData.text;
+                      if (!text) return null;
+
+                      // Generate a better title with user handle and text preview
+                      const userHandle = tweetData.user?.screen_name || tweetData.user?.name || 'unknown';
+                      const textPreview = text.slice(0, 20) + (text.length > 20 ? '...' : '');
+                      const generatedTitle = `Post from @${userHandle}: ${textPreview}`;
+
+                      return {
+                        text: text,
+                        link: tweetUrl,
+                        title: generatedTitle,
+                      };
+                    } catch (error) {
+                      console.error(
+                        `Error fetching tweet data for ${link.sourceType === 'url' ? link.url : ''}:`,
+                        error,
+                      );
+                      return null;
+                    }
+                  });
+
+                const tweetResults = await Promise.all(tweetFetchPromises);
+                allSources.push(...tweetResults.filter((result) => result !== null));
+              }
+
+              const result = {
+                content: text,
+                citations: citations,
+                sources: allSources.filter(
+                  (source): source is { text: string; link: string; title: string } => source !== null,
+                ),
+                dateRange: `${searchStartDate} to ${searchEndDate}`,
+                handles: xHandles || [],
+              };
+
+              if (dataStream) {
+                dataStream.write({
+                  type: 'data-extreme_search',
+                  data: {
+                    kind: 'x_search',
+                    xSearchId: toolCallId,
+                    query: query,
+                    startDate: searchStartDate,
+                    endDate: searchEndDate,
+                    handles: xHandles || [],
+                    status: 'completed',
+                    result: result,
+                  },
+                });
+              }
+
+              return result;
+            } catch (error) {
+              console.error('X search error:', error);
+
+              if (dataStream) {
+                dataStream.write({
+                  type: 'data-extreme_search',
+                  data: {
+                    kind: 'x_search',
+                    xSearchId: toolCallId,
+                    query: query,
+                    startDate: startDate || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+                    endDate: endDate || new Date().toISOString().split('T')[0],
+                    handles: xHandles || [],
+                    status: 'error',
+                  },
+                });
+              }
+
+              throw error;
+            }
+          },
         },
       },
-    },
-    onStepFinish: (step) => {
-      console.log('Step finished:', step.finishReason);
-      console.log('Step:', step);
-      if (step.toolResults) {
-        console.log('Tool results:', step.toolResults);
-        toolResults.push(...step.toolResults);
-      }
-    },
-  });
+      onStepFinish: async (step) => {
+        console.log('Step finished:', step.finishReason);
+        console.log('Step:', step);
+        usage.tokens += step.usage.totalTokens ?? 0;
+        if (step.toolResults) {
+          console.log('Tool results:', step.toolResults);
+          toolResults.push(...step.toolResults);
+        }
+        roundSteps++;
+        await saveCheckpoint(round);
+      },
+    });
+
+    roundSteps = 0;
+    if (round === budget.maxRounds || isBudgetExhausted() || (await isCancelled())) {
+      console.log(`[ExtremeSearch] Stopping after round ${round}`, usage);
+      break;
+    }
+
+    if (dataStream) {
+      dataStream.write({
+        type: 'data-extreme_search',
+        data: {
+          kind: 'plan',
+          status: { title: `Reflecting on round ${round} findings` },
+        },
+      });
+    }
+
+    // A failed reflection keeps what the earlier rounds found rather than failing the whole research
+    const reflection = await reflectOnResearch(prompt, rounds, allSources, text).catch((error) => {
+      console.error('[ExtremeSearch] Reflection failed:', error);
+      return null;
+    });
+    if (!reflection) break;
+
+    usage.tokens += reflection.tokens;
+    if (reflection.complete || reflection.plan.length === 0) {
+      console.log(`[ExtremeSearch] Research judged complete after round ${round}`);
+      break;
+    }
+
+    plan = reflection.plan;
+    gaps = reflection.gaps;
+  }
 
   if (dataStream) {
     dataStream.write({
@@ -842,14 +1355,14 @@ ${JSON.stringify(plan)}
   const chartResults = toolResults.filter(
     (result) =>
       result.toolName === 'codeRunner' &&
-      typeof result.result === 'object' &&
-      result.result !== null &&
-      'charts' in result.result,
+      typeof result.output === 'object' &&
+      result.output !== null &&
+      'charts' in result.output,
   );
 
   console.log('Chart results:', chartResults);
 
-  const charts = chartResults.flatMap((result) => (result.result as any).charts || []);
+  const charts = chartResults.flatMap((result) => (result.output as { charts?: unknown[] }).charts || []);
 
   console.log('Tool results:', toolResults);
   console.log('Charts:', charts);
@@ -857,6 +1370,10 @@ ${JSON.stringify(plan)}
 
   return {
     // text,
+    provider: contentProvider,
+    budget: budgetPreset,
+    rounds,
+    cancelled,
     toolResults,
     sources: Array.from(
       new Map(allSources.map((s) => [s.url, { ...s, content: s.content.slice(0, 3000) + '...' }])).values(),
@@ -865,12 +1382,65 @@ ${JSON.stringify(plan)}
   };
 }
 
+function toToolOutput(research: Research) {
+  return {
+    research: {
+      // text: research.text,
+      provider: research.provider,
+      budget: research.budget,
+      rounds: research.rounds,
+      cancelled: research.cancelled,
+      toolResults: research.toolResults,
+      sources: research.sources,
+      charts: research.charts,
+    },
+    ...(research.cancelled
+      ? {
+          note: 'The user stopped this research before the plan finished. Write the report from the sources gathered so far and state clearly that it is based on partial research.',
+        }
+      : {}),
+  };
+}
+
+// Runs the research under a tracker, recording how it ended; a run that never reaches here stays resumable
+async function runTrackedResearch(
+  tracker: ResearchRunTracker | null,
+  research: (tracker?: ResearchRunTracker) => Promise<Research>,
+) {
+  try {
+    const result = await research(tracker ?? undefined);
+    await tracker?.finish(result.cancelled ? 'cancelled' : 'completed');
+    return toToolOutput(result);
+  } catch (error) {
+    await tracker?.finish('failed');
+    throw error;
+  }
+}
+
+// Continues a run whose function died, from its last checkpoint, and returns the tool output the model expects
+export async function resumeExtremeSearch(run: ExtremeSearchRun, dataStream: UIMessageStreamWriter<ChatMessage>) {
+  console.log(`[ExtremeSearch] Resuming run ${run.id} for chat ${run.chatId}`);
+
+  return runTrackedResearch(createResearchRunTracker(run), (tracker) =>
+    extremeSearch(
+      run.prompt,
+      dataStream,
+      run.provider as ExtremeSearchProvider,
+      run.budget as ExtremeSearchBudget,
+      tracker,
+    ),
+  );
+}
+
 export function extremeSearchTool(
   dataStream: UIMessageStreamWriter<ChatMessage> | undefined,
-  contentProvider: 'exa' = 'exa',
+  contentProvider: ExtremeSearchProvider = 'exa',
+  budget: ExtremeSearchBudget = 'standard',
+  // Checkpoints the run to the database so it can be resumed or cancelled; unset for lookouts and API calls
+  runOwner?: ExtremeSearchRunOwner,
 ) {
   return tool({
-    description: `Use this tool to conduct an extreme search on a given topic. Using ${contentProvider} for content extraction.`,
+    description: `Use this tool to conduct an extreme search on a given topic. Using ${contentProvider} for search and content extraction.`,
     inputSchema: z.object({
       prompt: z
         .string()
@@ -878,19 +1448,20 @@ export function extremeSearchTool(
           "This should take the user's exact prompt. Extract from the context but do not infer or change in any way.",
         ),
     }),
-    execute: async ({ prompt }) => {
-      console.log({ prompt, contentProvider });
-
-      const research = await extremeSearch(prompt, dataStream, contentProvider);
-
-      return {
-        research: {
-          // text: research.text,
-          toolResults: research.toolResults,
-          sources: research.sources,
-          charts: research.charts,
-        },
-      };
+    execute: async ({ prompt }, { toolCallId }) => {
+      console.log({ prompt, contentProvider, budget });
+
+      // Research still runs untracked if the run row can't be created
+      const tracker = runOwner
+        ? await startExtremeSearchRun({ ...runOwner, toolCallId, prompt, provider: contentProvider, budget }).catch(
+            (error) => {
+              console.error('[ExtremeSearch] Failed to start tracked run:', error);
+              return null;
+            },
+          )
+        : null;
+
+      return runTrackedResearch(tracker, (run) => extremeSearch(prompt, dataStream, contentProvider, budget, run));
     },
   });
 }
@@ -22,3 +22,4 @@ export { greetingTool } from './greeting';
 export { createConnectorsSearchTool } from './connectors-search';
 export { createMemoryTools, type SearchMemoryTool, type AddMemoryTool } from './supermemory';
 export { codeContextTool } from './code-context';
+export { createSearchAttachmentsTool } from './search-attachments';
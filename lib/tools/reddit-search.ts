@@ -3,7 +3,7 @@ import { z } from 'zod';
 import { UIMessageStreamWriter } from 'ai';
 import { ChatMessage } from '@/lib/types';
 import { tavily } from '@tavily/core';
-import { serverEnv } from '@/env/server';
+import { requireSearchProviderKey } from '@/lib/tools/search-provider-keys';
 
 export function redditSearchTool(dataStream?: UIMessageStreamWriter<ChatMessage>) {
   return tool({
@@ -33,7 +33,7 @@ export function redditSearchTool(dataStream?: UIMessageStreamWriter<ChatMessage>
       console.log('Max results:', maxResults);
       console.log('Time ranges (deprecated):', timeRange);
 
-      const tvly = tavily({ apiKey: serverEnv.TAVILY_API_KEY });
+      const tvly = tavily({ apiKey: requireSearchProviderKey('TAVILY_API_KEY') });
 
       const searchPromises = queries.map(async (query, index) => {
         const currentMaxResults = maxResults?.[index] || maxResults?.[0] || 20;
@@ -113,6 +113,7 @@ export function redditSearchTool(dataStream?: UIMessageStreamWriter<ChatMessage>
           return {
             query,
             results: [],
+            error: error instanceof Error ? error.message : String(error),
           };
         }
       });
@@ -0,0 +1,111 @@
+import type { UIMessageStreamWriter } from 'ai';
+import type { ChatMessage } from '@/lib/types';
+import type { ConnectorProvider } from '@/lib/connectors';
+import type { ExtremeSearchRunOwner } from '@/lib/extreme-search-runs';
+import { replayQueryCompletions, withToolCache } from '@/lib/tool-cache';
+import { stockChartTool } from './stock-chart';
+import { currencyConverterTool } from './currency-converter';
+import { xSearchTool } from './x-search';
+import { textTranslateTool } from './text-translate';
+import { webSearchTool, type WebSearchProvider } from './web-search';
+import { movieTvSearchTool } from './movie-tv-search';
+import { trendingMoviesTool } from './trending-movies';
+import { trendingTvTool } from './trending-tv';
+import { academicSearchTool } from './academic-search';
+import { youtubeSearchTool } from './youtube-search';
+import { retrieveTool } from './retrieve';
+import { weatherTool } from './weather';
+import { codeInterpreterTool, type InterpreterSessionOptions } from './code-interpreter';
+import { findPlaceOnMapTool, nearbyPlacesSearchTool } from './map-tools';
+import { flightTrackerTool } from './flight-tracker';
+import { coinDataTool, coinDataByContractTool, coinOhlcTool } from './crypto-tools';
+import { datetimeTool } from './datetime';
+import { redditSearchTool } from './reddit-search';
+import { extremeSearchTool, type ExtremeSearchBudget, type ExtremeSearchProvider } from './extreme-search';
+import { greetingTool } from './greeting';
+import { createConnectorsSearchTool } from './connectors-search';
+import { createMemoryTools } from './supermemory';
+import { codeContextTool } from './code-context';
+import { createSearchAttachmentsTool } from './search-attachments';
+
+export interface SearchToolsOptions {
+  // Optional: tools that stream progress annotations skip them when there is no UI stream
+  dataStream?: UIMessageStreamWriter<ChatMessage>;
+  searchProvider?: WebSearchProvider;
+  extremeSearchProvider?: ExtremeSearchProvider;
+  extremeSearchBudget?: ExtremeSearchBudget;
+  // Checkpoints extreme search runs so they can be resumed after a crash or cancelled by the user
+  extremeSearchRun?: ExtremeSearchRunOwner;
+  timezone?: string;
+  userId?: string | null;
+  selectedConnectors?: ConnectorProvider[];
+  // Enables search_attachments over the chat's indexed attachments
+  chatId?: string;
+  // Keeps one code_interpreter sandbox per chat with the chat's files mounted
+  interpreterSession?: InterpreterSessionOptions;
+}
+
+// Every tool a search group can enable, keyed by the names used in getGroupConfig
+export function createSearchTools({
+  dataStream,
+  searchProvider = 'exa',
+  extremeSearchProvider = 'exa',
+  extremeSearchBudget = 'standard',
+  extremeSearchRun,
+  timezone,
+  userId,
+  selectedConnectors,
+  chatId,
+  interpreterSession,
+}: SearchToolsOptions = {}) {
+  const baseTools = {
+    stock_chart: stockChartTool,
+    currency_converter: withToolCache('currency_converter', currencyConverterTool),
+    coin_data: withToolCache('coin_data', coinDataTool),
+    coin_data_by_contract: withToolCache('coin_data_by_contract', coinDataByContractTool),
+    coin_ohlc: withToolCache('coin_ohlc', coinOhlcTool),
+
+    x_search: withToolCache('x_search', xSearchTool(dataStream), { onHit: replayQueryCompletions(dataStream) }),
+    web_search: withToolCache('web_search', webSearchTool(dataStream, searchProvider), {
+      variant: searchProvider,
+      onHit: replayQueryCompletions(dataStream),
+    }),
+    academic_search: withToolCache('academic_search', academicSearchTool(dataStream), {
+      onHit: replayQueryCompletions(dataStream),
+    }),
+    youtube_search: withToolCache('youtube_search', youtubeSearchTool),
+    reddit_search: withToolCache('reddit_search', redditSearchTool(dataStream), {
+      onHit: replayQueryCompletions(dataStream),
+    }),
+    retrieve: withToolCache('retrieve', retrieveTool),
+
+    movie_or_tv_search: withToolCache('movie_or_tv_search', movieTvSearchTool),
+    trending_movies: withToolCache('trending_movies', trendingMoviesTool),
+    trending_tv: withToolCache('trending_tv', trendingTvTool),
+
+    find_place_on_map: withToolCache('find_place_on_map', findPlaceOnMapTool),
+    nearby_places_search: nearbyPlacesSearchTool,
+    get_weather_data: withToolCache('get_weather_data', weatherTool),
+
+    text_translate: textTranslateTool,
+    code_interpreter: codeInterpreterTool(interpreterSession),
+    track_flight: flightTrackerTool,
+    datetime: datetimeTool,
+    extreme_search: extremeSearchTool(dataStream, extremeSearchProvider, extremeSearchBudget, extremeSearchRun),
+    greeting: greetingTool(timezone),
+    code_context: codeContextTool,
+    ...(chatId ? { search_attachments: createSearchAttachmentsTool(chatId, Boolean(userId)) } : {}),
+  };
+
+  if (!userId) {
+    return baseTools;
+  }
+
+  const memoryTools = createMemoryTools(userId);
+  return {
+    ...baseTools,
+    search_memories: memoryTools.searchMemories as any,
+    add_memory: memoryTools.addMemory as any,
+    connectors_search: createConnectorsSearchTool(userId, selectedConnectors),
+  } as any;
+}
@@ -2,6 +2,7 @@ import { tool } from 'ai';
 import { z } from 'zod';
 import Exa from 'exa-js';
 import { serverEnv } from '@/env/server';
+import { requireSearchProviderKey } from '@/lib/tools/search-provider-keys';
 import FirecrawlApp from '@mendable/firecrawl-js';
 import { Supadata } from '@supadata/js';
 
@@ -201,8 +202,6 @@ function formatSupadataResponse(metadata: SupadataMetadata, url: string, transcr
 
 
 const supadata = new Supadata({ apiKey: serverEnv.SUPADATA_API_KEY });
-const exa = new Exa(serverEnv.EXA_API_KEY as string);
-const firecrawl = new FirecrawlApp({ apiKey: serverEnv.FIRECRAWL_API_KEY });
 
 // Helper function to retrieve content from a single URL
 async function retrieveSingleUrl(
@@ -396,6 +395,7 @@ async function retrieveSingleUrl(
     let source = 'exa';
 
     try {
+      const exa = new Exa(requireSearchProviderKey('EXA_API_KEY'));
       result = await exa.getContents([url], {
         text: true,
         summary: include_summary ? true : undefined,
@@ -415,6 +415,7 @@ async function retrieveSingleUrl(
     if (usingFirecrawl) {
       const urlWithoutHttps = url.replace(/^https?:\/\//, '');
       try {
+        const firecrawl = new FirecrawlApp({ apiKey: requireSearchProviderKey('FIRECRAWL_API_KEY') });
         const scrapeResponse = await firecrawl.scrape(urlWithoutHttps, {
           parsers: ['pdf'],
           proxy: 'auto',
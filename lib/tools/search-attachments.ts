@@ -0,0 +1,40 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { searchChatAttachments } from '@/lib/attachment-index';
+
+export function createSearchAttachmentsTool(chatId: string, persistent: boolean) {
+  return tool({
+    description:
+      'Search the PDFs and documents attached to this chat for passages relevant to a query. Returns the most relevant passages with file name and page number. Cite them as [file name, p. N](citationUrl).',
+    inputSchema: z.object({
+      query: z.string().describe('What to look for in the attached files, phrased as a search query'),
+      limit: z.number().int().min(1).max(12).optional().describe('Number of passages to return (default 6)'),
+    }),
+    execute: async ({ query, limit }: { query: string; limit?: number }) => {
+      try {
+        const passages = await searchChatAttachments({ chatId, query, persistent, limit });
+
+        return {
+          success: true,
+          query,
+          results: passages.map((passage) => ({
+            fileName: passage.fileName,
+            page: passage.page,
+            content: passage.content,
+            score: Number(passage.score.toFixed(3)),
+            // PDF viewers jump to the page with a #page fragment
+            citationUrl: passage.page ? `${passage.url}#page=${passage.page}` : passage.url,
+          })),
+        };
+      } catch (error) {
+        console.error('Attachment search error:', error);
+        return {
+          success: false,
+          query,
+          results: [],
+          error: error instanceof Error ? error.message : 'Attachment search failed',
+        };
+      }
+    },
+  });
+}
@@ -0,0 +1,13 @@
+import { serverEnv } from '@/env/server';
+
+type SearchProviderKey = 'TAVILY_API_KEY' | 'EXA_API_KEY' | 'FIRECRAWL_API_KEY';
+
+// Search provider keys are optional so a self-hosted setup can run on SearXNG alone;
+// a missing key only fails when a client that needs it is built
+export function requireSearchProviderKey(name: SearchProviderKey): string {
+  const value = serverEnv[name];
+  if (!value) {
+    throw new Error(`${name} is required to use this search provider`);
+  }
+  return value;
+}
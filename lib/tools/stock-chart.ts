@@ -4,6 +4,7 @@ import { Valyu } from 'valyu-js';
 import { tavily } from '@tavily/core';
 import Exa from 'exa-js';
 import { serverEnv } from '@/env/server';
+import { requireSearchProviderKey } from '@/lib/tools/search-provider-keys';
 import { isUserProCached } from '@/lib/subscription';
 
 const CURRENCY_SYMBOLS = {
@@ -199,8 +200,8 @@ export const stockChartTool = tool({
     const actualFilingTypes = isProUser ? filing_types : undefined;
 
     // Initialize all API clients
-    const tvly = tavily({ apiKey: serverEnv.TAVILY_API_KEY });
-    const exa = new Exa(serverEnv.EXA_API_KEY);
+    const tvly = tavily({ apiKey: requireSearchProviderKey('TAVILY_API_KEY') });
+    const exa = new Exa(requireSearchProviderKey('EXA_API_KEY'));
     const valyu = new Valyu(serverEnv.VALYU_API_KEY);
 
     // Calculate if we expect a lot of data to be returned
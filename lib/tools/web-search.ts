@@ -2,6 +2,7 @@ import { tool } from 'ai';
 import { z } from 'zod';
 import Exa from 'exa-js';
 import { serverEnv } from '@/env/server';
+import { requireSearchProviderKey } from '@/lib/tools/search-provider-keys';
 import { UIMessageStreamWriter } from 'ai';
 import { ChatMessage } from '../types';
 import FirecrawlApp, { SearchResultWeb, SearchResultNews, SearchResultImages, Document } from '@mendable/firecrawl-js';
@@ -87,6 +88,30 @@ const isValidImageUrl = async (url: string): Promise<{ valid: boolean; redirecte
   }
 };
 
+// Result shapes every search strategy returns
+interface WebSearchResult {
+  url: string;
+  title: string;
+  content: string;
+  published_date?: string;
+  author?: string;
+}
+
+interface WebSearchImage {
+  url: string;
+  description: string;
+}
+
+interface QuerySearchResults {
+  query: string;
+  results: WebSearchResult[];
+  images: WebSearchImage[];
+  // Set when the provider failed for this query, so hybrid search can tell failures from empty results
+  error?: string;
+}
+
+const getErrorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
 // Search provider strategy interface
 interface SearchStrategy {
   search(
@@ -97,7 +122,7 @@ interface SearchStrategy {
       quality: ('default' | 'best')[];
       dataStream?: UIMessageStreamWriter<ChatMessage>;
     },
-  ): Promise<{ searches: Array<{ query: string; results: any[]; images: any[] }> }>;
+  ): Promise<{ searches: QuerySearchResults[] }>;
 }
 
 // Tavily search strategy
@@ -209,6 +234,7 @@ class TavilySearchStrategy implements SearchStrategy {
           query,
           results: [],
           images: [],
+          error: getErrorMessage(error),
         };
       }
     });
@@ -263,7 +289,7 @@ class FirecrawlSearchStrategy implements SearchStrategy {
           limit: currentMaxResults,
         });
 
-        let results: any[] = [];
+        let results: WebSearchResult[] = [];
 
         // Process web results
         if (firecrawlData?.web && Array.isArray(firecrawlData.web)) {
@@ -341,6 +367,7 @@ class FirecrawlSearchStrategy implements SearchStrategy {
           query,
           results: [],
           images: [],
+          error: getErrorMessage(error),
         };
       }
     });
@@ -448,6 +475,7 @@ class ExaSearchStrategy implements SearchStrategy {
           query,
           results: [],
           images: [],
+          error: getErrorMessage(error),
         };
       }
     });
@@ -457,27 +485,315 @@ class ExaSearchStrategy implements SearchStrategy {
   }
 }
 
-// Search provider factory
-const createSearchStrategy = (
-  provider: 'exa' | 'tavily' | 'firecrawl',
-  clients: {
-    exa: Exa;
-    firecrawl: FirecrawlApp;
-    tvly: TavilyClient;
-  },
-): SearchStrategy => {
-  const strategies = {
-    tavily: () => new TavilySearchStrategy(clients.tvly),
-    firecrawl: () => new FirecrawlSearchStrategy(clients.firecrawl),
-    exa: () => new ExaSearchStrategy(clients.exa),
+// SearXNG result shape (also returned by other OpenSearch-style JSON endpoints)
+interface SearXNGResult {
+  url: string;
+  title?: string;
+  content?: string;
+  publishedDate?: string | null;
+  author?: string;
+  img_src?: string;
+  thumbnail_src?: string;
+}
+
+// Query a SearXNG instance's JSON API; shared with extreme_search's SearXNG provider
+export async function querySearXNG(
+  baseUrl: string,
+  query: string,
+  params: Record<string, string>,
+): Promise<SearXNGResult[]> {
+  // Relative to a slash-terminated base so a path prefix like https://host/searxng is kept
+  const url = new URL('search', baseUrl.replace(/\/?$/, '/'));
+  url.searchParams.set('q', query);
+  url.searchParams.set('format', 'json');
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`SearXNG request failed with status ${response.status}`);
+  }
+
+  const data = (await response.json()) as { results?: SearXNGResult[] };
+  return Array.isArray(data.results) ? data.results.filter((result) => typeof result.url === 'string') : [];
+}
+
+// SearXNG (self-hosted) search strategy
+class SearXNGSearchStrategy implements SearchStrategy {
+  constructor(private baseUrl: string) {}
+
+  async search(
+    queries: string[],
+    options: {
+      maxResults: number[];
+      topics: ('general' | 'news')[];
+      quality: ('default' | 'best')[];
+      dataStream?: UIMessageStreamWriter<ChatMessage>;
+    },
+  ) {
+    const searchPromises = queries.map(async (query, index) => {
+      const currentTopic = options.topics[index] || options.topics[0] || 'general';
+      const currentMaxResults = options.maxResults[index] || options.maxResults[0] || 10;
+      const currentQuality = options.quality[index] || options.quality[0] || 'default';
+
+      try {
+        options.dataStream?.write({
+          type: 'data-query_completion',
+          data: {
+            query,
+            index,
+            total: queries.length,
+            status: 'started',
+            resultsCount: 0,
+            imagesCount: 0,
+          },
+        });
+
+        // News maps to the news category limited to the last week, like Tavily's news topic
+        const textParams: Record<string, string> =
+          currentTopic === 'news' ? { categories: 'news', time_range: 'week' } : { categories: 'general' };
+
+        // Best quality pulls a second page of results to widen coverage
+        const pages = currentQuality === 'best' ? ['1', '2'] : ['1'];
+
+        const [textPages, imageResults] = await Promise.all([
+          Promise.all(pages.map((pageno) => querySearXNG(this.baseUrl, query, { ...textParams, pageno }))),
+          querySearXNG(this.baseUrl, query, { categories: 'images' }).catch((error) => {
+            console.error(`SearXNG image search error for query "${query}":`, error);
+            return [] as SearXNGResult[];
+          }),
+        ]);
+
+        const results = deduplicateByDomainAndUrl(textPages.flat())
+          .slice(0, currentMaxResults)
+          .map((result) => ({
+            url: result.url,
+            title: cleanTitle(result.title || ''),
+            content: (result.content || '').substring(0, 1000),
+            published_date: currentTopic === 'news' && result.publishedDate ? result.publishedDate : undefined,
+            author: result.author || undefined,
+          }));
+
+        const images = deduplicateByDomainAndUrl(
+          imageResults
+            .map((image) => ({
+              url: image.img_src || image.thumbnail_src || '',
+              description: cleanTitle(image.title || image.content || ''),
+            }))
+            .filter((image) => image.url),
+        );
+
+        options.dataStream?.write({
+          type: 'data-query_completion',
+          data: {
+            query,
+            index,
+            total: queries.length,
+            status: 'completed',
+            resultsCount: results.length,
+            imagesCount: images.length,
+          },
+        });
+
+        return {
+          query,
+          results,
+          images: images.filter((img) => img.url && img.description),
+        };
+      } catch (error) {
+        console.error(`SearXNG search error for query "${query}":`, error);
+
+        options.dataStream?.write({
+          type: 'data-query_completion',
+          data: {
+            query,
+            index,
+            total: queries.length,
+            status: 'error',
+            resultsCount: 0,
+            imagesCount: 0,
+          },
+        });
+
+        return {
+          query,
+          results: [],
+          images: [],
+          error: getErrorMessage(error),
+        };
+      }
+    });
+
+    const searchResults = await Promise.all(searchPromises);
+    return { searches: searchResults };
+  }
+}
+
+// Reciprocal-rank fusion constant; 60 is the value from the original RRF paper
+const RRF_K = 60;
+
+// Hybrid search strategy: fans every query out to several providers and fuses the rankings
+class HybridSearchStrategy implements SearchStrategy {
+  constructor(private strategies: Array<{ provider: SingleWebSearchProvider; strategy: SearchStrategy }>) {}
+
+  async search(
+    queries: string[],
+    options: {
+      maxResults: number[];
+      topics: ('general' | 'news')[];
+      quality: ('default' | 'best')[];
+      dataStream?: UIMessageStreamWriter<ChatMessage>;
+    },
+  ) {
+    queries.forEach((query, index) => {
+      options.dataStream?.write({
+        type: 'data-query_completion',
+        data: {
+          query,
+          index,
+          total: queries.length,
+          status: 'started',
+          resultsCount: 0,
+          imagesCount: 0,
+        },
+      });
+    });
+
+    // Sub-strategies run without the data stream so progress is only reported once per query
+    const providerResults = await Promise.all(
+      this.strategies.map(async ({ provider, strategy }) => {
+        try {
+          const { searches } = await strategy.search(queries, { ...options, dataStream: undefined });
+          return { provider, searches };
+        } catch (error) {
+          console.error(`Hybrid search: ${provider} failed:`, error);
+          const searches: QuerySearchResults[] = queries.map((query) => ({
+            query,
+            results: [],
+            images: [],
+            error: getErrorMessage(error),
+          }));
+          return { provider, searches };
+        }
+      }),
+    );
+
+    const searches = queries.map((query, index) => {
+      const currentMaxResults = options.maxResults[index] || options.maxResults[0] || 10;
+      const fused = new Map<string, { result: WebSearchResult; score: number; providers: SingleWebSearchProvider[] }>();
+
+      for (const { provider, searches } of providerResults) {
+        const results = searches[index]?.results ?? [];
+        results.forEach((result, rank) => {
+          const key = normalizeResultUrl(result.url);
+          const entry = fused.get(key);
+          if (entry) {
+            entry.score += 1 / (RRF_K + rank + 1);
+            if (!entry.providers.includes(provider)) entry.providers.push(provider);
+            // Keep the richest snippet any provider returned
+            if ((result.content?.length ?? 0) > (entry.result.content?.length ?? 0)) {
+              entry.result = { ...entry.result, content: result.content };
+            }
+          } else {
+            fused.set(key, { result, score: 1 / (RRF_K + rank + 1), providers: [provider] });
+          }
+        });
+      }
+
+      const results = deduplicateByDomainAndUrl(
+        [...fused.values()]
+          .sort((a, b) => b.score - a.score)
+          .map(({ result, score, providers }) => ({ ...result, providers, score })),
+      ).slice(0, currentMaxResults);
+
+      const images = deduplicateByDomainAndUrl(
+        providerResults.flatMap(({ searches }) => searches[index]?.images ?? []),
+      ).filter((img) => img.url && img.description);
+
+      // The query only fails when every provider reported an error for it
+      const failed = providerResults.every(({ searches }) => !searches[index] || searches[index].error !== undefined);
+      if (failed) {
+        const errors = providerResults.map(
+          ({ provider, searches }) => `${provider}: ${searches[index]?.error ?? 'no result'}`,
+        );
+        console.error(`Hybrid search: every provider failed for query "${query}": ${errors.join('; ')}`);
+      }
+
+      options.dataStream?.write({
+        type: 'data-query_completion',
+        data: {
+          query,
+          index,
+          total: queries.length,
+          status: failed ? 'error' : 'completed',
+          resultsCount: results.length,
+          imagesCount: images.length,
+        },
+      });
+
+      return { query, results, images };
+    });
+
+    return { searches };
+  }
+}
+
+// Normalize URLs so the same page from different providers fuses into one hit
+const normalizeResultUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    const pathname = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.hostname.replace(/^www\./, '')}${pathname}${parsed.search}`.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+};
+
+type SingleWebSearchProvider = 'exa' | 'tavily' | 'firecrawl' | 'searxng';
+export type WebSearchProvider = SingleWebSearchProvider | 'hybrid';
+
+// Search provider factory - only the selected provider's client is constructed
+const createSearchStrategy = (provider: WebSearchProvider): SearchStrategy => {
+  const strategies: Record<WebSearchProvider, () => SearchStrategy> = {
+    tavily: () => new TavilySearchStrategy(tavily({ apiKey: requireSearchProviderKey('TAVILY_API_KEY') })),
+    firecrawl: () =>
+      new FirecrawlSearchStrategy(new FirecrawlApp({ apiKey: requireSearchProviderKey('FIRECRAWL_API_KEY') })),
+    exa: () => new ExaSearchStrategy(new Exa(requireSearchProviderKey('EXA_API_KEY'))),
+    searxng: () => new SearXNGSearchStrategy(serverEnv.SEARXNG_URL),
+    hybrid: () => {
+      // Providers without a configured key are skipped so the rest can still answer
+      const hybridStrategies = getHybridSearchProviders().flatMap((hybridProvider) => {
+        try {
+          return [{ provider: hybridProvider, strategy: strategies[hybridProvider]() }];
+        } catch (error) {
+          console.warn(`Hybrid search: skipping ${hybridProvider}:`, getErrorMessage(error));
+          return [];
+        }
+      });
+      if (hybridStrategies.length === 0) {
+        throw new Error('Hybrid search has no configured providers; check HYBRID_SEARCH_PROVIDERS and their API keys');
+      }
+      return new HybridSearchStrategy(hybridStrategies);
+    },
   };
 
-  return strategies[provider]();
+  return (strategies[provider] ?? strategies.exa)();
+};
+
+// Providers combined by hybrid mode, configured through HYBRID_SEARCH_PROVIDERS
+const getHybridSearchProviders = (): SingleWebSearchProvider[] => {
+  const allowed: SingleWebSearchProvider[] = ['exa', 'tavily', 'firecrawl', 'searxng'];
+  const configured = serverEnv.HYBRID_SEARCH_PROVIDERS.split(',')
+    .map((provider) => provider.trim().toLowerCase())
+    .filter((provider): provider is SingleWebSearchProvider => allowed.includes(provider as SingleWebSearchProvider));
+
+  return configured.length > 0 ? [...new Set(configured)] : ['exa', 'tavily'];
 };
 
 export function webSearchTool(
   dataStream?: UIMessageStreamWriter<ChatMessage> | undefined,
-  searchProvider: 'exa' | 'tavily' | 'firecrawl' = 'exa',
+  searchProvider: WebSearchProvider = 'exa',
 ) {
   return tool({
     description: `This is the default tool of the app to be used to search the web for information with multiple queries(5-10), max results(15-20), topics, and quality.
@@ -538,13 +854,6 @@ export function webSearchTool(
       topics?: ('general' | 'news' | undefined)[];
       quality?: ('default' | 'best' | undefined)[];
     }) => {
-      // Initialize all clients
-      const clients = {
-        exa: new Exa(serverEnv.EXA_API_KEY),
-        firecrawl: new FirecrawlApp({ apiKey: serverEnv.FIRECRAWL_API_KEY }),
-        tvly: tavily({ apiKey: serverEnv.TAVILY_API_KEY }),
-      };
-
       console.log('Queries:', queries);
       console.log('Max Results:', maxResults);
       console.log('Topics:', topics);
@@ -552,7 +861,7 @@ export function webSearchTool(
       console.log('Search Provider:', searchProvider);
 
       // Create and use the appropriate search strategy
-      const strategy = createSearchStrategy(searchProvider, clients);
+      const strategy = createSearchStrategy(searchProvider);
       if (!maxResults) {
         maxResults = new Array(queries.length).fill(10);
       }
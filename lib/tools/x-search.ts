@@ -252,6 +252,7 @@ export function xSearchTool(dataStream?: UIMessageStreamWriter<ChatMessage>) {
               query,
               dateRange: `${effectiveStart} to ${effectiveEnd}`,
               handles: normalizedInclude || normalizedExclude || [],
+              error: error instanceof Error ? error.message : String(error),
             };
           }
         });
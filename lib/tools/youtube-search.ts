@@ -2,6 +2,7 @@ import Exa from 'exa-js';
 import { tool } from 'ai';
 import { z } from 'zod';
 import { serverEnv } from '@/env/server';
+import { requireSearchProviderKey } from '@/lib/tools/search-provider-keys';
 import { getSubtitles, getVideoDetails } from 'youtube-caption-extractor';
 
 interface VideoDetails {
@@ -228,7 +229,7 @@ async function buildTranscriptArtifacts(videoId: string, fallbackDescription?: s
 // Search YouTube videos using Exa
 async function searchYouTubeVideos(query: string, timeRange: TimeRange): Promise<string[]> {
   try {
-    const exa = new Exa(serverEnv.EXA_API_KEY);
+    const exa = new Exa(requireSearchProviderKey('EXA_API_KEY'));
     
     // Add "video" to query for better targeting
     const enhancedQuery = `${query} video`;
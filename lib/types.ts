@@ -29,6 +29,7 @@ import type {
   SearchMemoryTool,
   AddMemoryTool,
   codeContextTool,
+  createSearchAttachmentsTool,
 } from '@/lib/tools';
 
 import type { InferUITool, UIMessage } from 'ai';
@@ -53,6 +54,9 @@ export type DataExtremeSearchPart = {
         kind: 'plan';
         status: { title: string };
         plan?: Array<{ title: string; todos: string[] }>;
+        // Multi-round research: which round this plan is for and the gaps it targets
+        round?: number;
+        gaps?: string[];
       }
     | {
         kind: 'query';
@@ -97,9 +101,47 @@ export type DataExtremeSearchPart = {
       };
 };
 
+export type CitationVerdict = 'supported' | 'partial' | 'unsupported' | 'unretrieved' | 'unverified';
+
+export interface VerifiedCitation {
+  url: string;
+  title: string;
+  // The sentence the citation is attached to, with links stripped
+  sentence: string;
+  // unretrieved: the URL is not among the sources the research collected; unverified: it is but was not checked
+  verdict: CitationVerdict;
+  confidence: number;
+  passage?: string;
+}
+
+export type DataCitationVerificationPart = {
+  type: 'data-citation_verification';
+  data: {
+    status: 'verifying' | 'completed' | 'error';
+    citations: VerifiedCitation[];
+  };
+};
+
+// How a lookout run differs from the previous run of the same lookout
+export interface LookoutRunChanges {
+  previousRunAt: string;
+  previousChatId: string;
+  materiallyChanged: boolean;
+  whatsNew: string[];
+  // Sources the previous run didn't use
+  newSources: Array<{ url: string; title: string }>;
+}
+
+export type DataLookoutChangesPart = {
+  type: 'data-lookout_changes';
+  data: LookoutRunChanges;
+};
+
 export const messageMetadataSchema = z.object({
   createdAt: z.string(),
   model: z.string(),
+  // Set when a fallback answered instead of the model the user selected
+  requestedModel: z.string().optional(),
   completionTime: z.number().nullable(),
   inputTokens: z.number().nullable(),
   outputTokens: z.number().nullable(),
@@ -110,7 +152,7 @@ export type MessageMetadata = z.infer<typeof messageMetadataSchema>;
 
 type weatherTool = InferUITool<typeof weatherTool>;
 type academicSearchTool = InferUITool<ReturnType<typeof academicSearchTool>>;
-type codeInterpreterTool = InferUITool<typeof codeInterpreterTool>;
+type codeInterpreterTool = InferUITool<ReturnType<typeof codeInterpreterTool>>;
 type coinDataTool = InferUITool<typeof coinDataTool>;
 type coinOhlcTool = InferUITool<typeof coinOhlcTool>;
 type currencyConverterTool = InferUITool<typeof currencyConverterTool>;
@@ -135,6 +177,7 @@ type createConnectorsSearchTool = InferUITool<ReturnType<typeof createConnectors
 type createMemoryTools = InferUITool<SearchMemoryTool>;
 type addMemoryTools = InferUITool<AddMemoryTool>;
 type codeContextTool = InferUITool<typeof codeContextTool>;
+type searchAttachmentsTool = InferUITool<ReturnType<typeof createSearchAttachmentsTool>>;
 
 // type mcpSearchTool = InferUITool<typeof mcpSearchTool>;
 
@@ -177,6 +220,7 @@ export type ChatTools = {
   add_memory: addMemoryTools;
 
   code_context: codeContextTool;
+  search_attachments: searchAttachmentsTool;
 };
 
 export type CustomUIDataTypes = {
@@ -192,6 +236,8 @@ export type CustomUIDataTypes = {
     imagesCount: number;
   };
   extreme_search: DataExtremeSearchPart['data'];
+  citation_verification: DataCitationVerificationPart['data'];
+  lookout_changes: DataLookoutChangesPart['data'];
   chat_title: { title: string };
 };
 
@@ -267,8 +267,19 @@ export async function getComprehensiveUserData(): Promise<ComprehensiveUserData
       return null;
     }
 
-    const userId = session.user.id;
+    return await getComprehensiveUserDataById(session.user.id);
+  } catch (error) {
+    console.error('Error getting comprehensive user data:', error);
+    return null;
+  }
+}
 
+/**
+ * Same as getComprehensiveUserData() for a known user id, for requests
+ * authenticated without a session (e.g. API keys).
+ */
+export async function getComprehensiveUserDataById(userId: string): Promise<ComprehensiveUserData | null> {
+  try {
     // Check cache first
     const cached = getCachedUserData(userId);
     if (cached) {
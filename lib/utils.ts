@@ -39,6 +39,8 @@ export const searchProviderInfo = {
   exa: 'Exa',
   tavily: 'Tavily',
   firecrawl: 'Firecrawl',
+  searxng: 'SearXNG',
+  hybrid: 'multiple providers',
 } as const;
 
 export type SearchProvider = keyof typeof searchProviderInfo;
@@ -147,3 +149,20 @@ export function getSearchGroups(searchProvider: SearchProvider = 'exa') {
 export const searchGroups = getSearchGroups();
 
 export type SearchGroup = (typeof searchGroups)[number];
+
+// Groups a lookout can run on a schedule; chat, code and memory only make sense in a conversation
+export const LOOKOUT_SEARCH_GROUPS = [
+  'extreme',
+  'web',
+  'academic',
+  'x',
+  'reddit',
+  'stocks',
+  'crypto',
+  'youtube',
+  'connectors',
+] as const satisfies readonly SearchGroupId[];
+
+export type LookoutSearchGroup = (typeof LOOKOUT_SEARCH_GROUPS)[number];
+
+export const DEFAULT_LOOKOUT_MODEL = 'rovo-grok-4-fast-think';
@@ -26,6 +26,11 @@ export async function proxy(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // /api/v1 and /api/mcp authenticate with personal API keys instead of the session cookie
+  if (pathname.startsWith('/api/v1') || pathname === '/api/mcp') {
+    return NextResponse.next();
+  }
+
   const sessionCookie = getSessionCookie(request);
 
   // Allow /settings as a real page; still protect it behind auth
@@ -10,9 +10,10 @@ snapshot_name = f"rovo-analysis:{int(time.time())}"
 # Create a Python image
 image = (
     Image.debian_slim("3.12")
-    .pip_install(["numpy", "pandas", "matplotlib", "scipy", "scikit-learn", "yfinance", "requests", "keras", "uv", "torch", "torchvision", "torchaudio"])
+    .pip_install(["numpy", "pandas", "matplotlib", "scipy", "scikit-learn", "yfinance", "requests", "keras", "uv", "torch", "torchvision", "torchaudio", "duckdb"])
     .run_commands(
-            "apt-get update && apt-get install -y git",
+            "apt-get update && apt-get install -y git curl",
+            "curl -fsSL https://deb.nodesource.com/setup_22.x | bash - && apt-get install -y nodejs",
             "groupadd -r daytona && useradd -r -g daytona -m daytona",
             "mkdir -p /home/daytona/workspace",
         )
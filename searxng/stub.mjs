@@ -0,0 +1,57 @@
+// SearXNG-compatible stub for offline testing: answers /search?format=json with
+// deterministic results built from the query, so web search works without network access.
+// Run with `node searxng/stub.mjs` (PORT defaults to 8080) or `docker compose --profile offline up`.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT) || 8080;
+const RESULTS_PER_PAGE = 5;
+
+const slugify = (text) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'query';
+
+function buildResults(query, category, page) {
+  const slug = slugify(query);
+  return Array.from({ length: RESULTS_PER_PAGE }, (_, offset) => {
+    const rank = (page - 1) * RESULTS_PER_PAGE + offset + 1;
+    const url = `https://example.com/${category}/${slug}/${rank}`;
+    if (category === 'images') {
+      return { url, title: `${query} image ${rank}`, img_src: `https://example.com/images/${slug}-${rank}.png` };
+    }
+    return {
+      url,
+      title: `${query} - result ${rank}`,
+      content: `Stub ${category} result ${rank} for "${query}".`,
+      publishedDate: category === 'news' ? new Date(Date.UTC(2024, 0, rank)).toISOString() : null,
+      author: 'SearXNG stub',
+    };
+  });
+}
+
+createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+  if (url.pathname !== '/search') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  const query = url.searchParams.get('q') ?? '';
+  if (url.searchParams.get('format') !== 'json' || !query) {
+    res
+      .writeHead(400, { 'Content-Type': 'application/json' })
+      .end(JSON.stringify({ error: 'q and format=json are required' }));
+    return;
+  }
+
+  const category = url.searchParams.get('categories') || 'general';
+  const page = Math.max(1, Number(url.searchParams.get('pageno')) || 1);
+  const results = buildResults(query, category, page);
+
+  res
+    .writeHead(200, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ query, number_of_results: results.length, results }));
+}).listen(port, () => {
+  console.log(`SearXNG stub listening on http://localhost:${port}`);
+});